@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+
+/**
+ * Headless IFC to FRAG Converter
+ * Runs the app's own pipeline in Node (IfcImporter, entity extraction,
+ * SmartChunker, OctreeBuilder) - no dev server or browser needed, e.g. in CI
+ *
+ * Usage: node scripts/convert-ifc.js <input.ifc> [options]
+ *   --out <dir>        Output directory for .frag and .octree (default: next to the IFC)
+ *   --name <name>      Model name (default: IFC file name)
+ *   --project <id>     Smart Chunks project id (default: <name>_project)
+ *   --projects <dir>   Smart Chunks projects directory (default: data/projects)
+ *   --cache            Also store the fragment in the fragment cache (data/fragments)
+ *   --no-chunks        Skip writing the Smart Chunks project
+ *
+ * Example: npm run convert:ifc -- public/models/bridge.ifc --out public/models --cache
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const rootDir = path.join(__dirname, '..');
+
+// Loads the TypeScript sources with the "@/..." path alias of tsconfig.json
+const jiti = require('jiti')(__filename, {
+  alias: { '@': path.join(rootDir, 'src') },
+  interopDefault: true
+});
+
+function parseArgs(argv) {
+  const options = { input: null, out: null, name: null, project: null, projects: null, cache: false, chunks: true };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--out': options.out = argv[++i]; break;
+      case '--name': options.name = argv[++i]; break;
+      case '--project': options.project = argv[++i]; break;
+      case '--projects': options.projects = argv[++i]; break;
+      case '--cache': options.cache = true; break;
+      case '--no-chunks': options.chunks = false; break;
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown option: ${arg}`);
+        }
+        options.input = arg;
+    }
+  }
+  return options;
+}
+
+function formatSize(bytes) {
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.input) {
+    console.error('❌ Error: Please provide an input IFC file');
+    console.log('Usage: node scripts/convert-ifc.js <input.ifc> [--out <dir>] [--name <name>] [--project <id>] [--projects <dir>] [--cache] [--no-chunks]');
+    process.exit(1);
+  }
+  if (!fs.existsSync(options.input)) {
+    console.error(`❌ Error: Input file not found: ${options.input}`);
+    process.exit(1);
+  }
+  if (!options.input.toLowerCase().endsWith('.ifc')) {
+    console.error('❌ Error: Input file must be an IFC file (.ifc)');
+    process.exit(1);
+  }
+
+  const name = options.name || path.basename(options.input).replace(/\.ifc$/i, '');
+  const outDir = options.out || path.dirname(options.input);
+
+  console.log('🚀 IFC to FRAG Converter (headless)');
+  console.log(`📄 Input: ${options.input}`);
+
+  const ifcBytes = new Uint8Array(fs.readFileSync(options.input));
+  console.log(`📊 IFC file size: ${formatSize(ifcBytes.byteLength)}`);
+
+  const { preprocessIfc, saveSmartChunkProject } = jiti('@/features/fragments/ifc-preprocessor');
+  const result = await preprocessIfc(ifcBytes, {
+    name,
+    projectId: options.project || undefined,
+    wasmPath: path.join(rootDir, 'node_modules', 'web-ifc') + path.sep
+  });
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const fragPath = path.join(outDir, `${name}.frag`);
+  fs.writeFileSync(fragPath, result.fragBytes);
+  console.log(`📦 Fragment: ${fragPath} (${formatSize(result.fragBytes.byteLength)})`);
+
+  if (result.octree) {
+    const octreePath = path.join(outDir, `${name}.octree`);
+    fs.writeFileSync(octreePath, result.octree);
+    console.log(`🌳 Octree: ${octreePath}`);
+  } else {
+    console.warn('⚠️ No octree written (no positioned entities)');
+  }
+
+  if (options.chunks) {
+    const projectsPath = options.projects ? path.resolve(options.projects) : undefined;
+    const manifest = await saveSmartChunkProject(result, path.basename(options.input), projectsPath);
+    console.log(`🧩 Smart Chunks: project ${manifest.projectId} (${manifest.totalChunks} chunks, ${manifest.totalTokens} tokens)`);
+  }
+
+  if (options.cache) {
+    const { getFragmentCache } = jiti('@/features/fragments/fragment-cache');
+    const { entry, created } = await getFragmentCache().put(result.fragBytes, { name, sourceHash: result.sourceHash });
+    console.log(created ? `💾 Cached as ${entry.hash}` : `💾 Already cached as ${entry.hash}, kept`);
+  }
+
+  console.log(`✅ Done: ${result.entityCount} entities, IFC hash ${result.sourceHash}`);
+  console.log(`⏱️ Conversion ${result.timings.conversion} ms, extraction ${result.timings.extraction} ms, chunking ${result.timings.chunking} ms`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Conversion failed:', error);
+    process.exit(1);
+  });
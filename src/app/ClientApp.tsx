@@ -6,13 +6,17 @@ import Footer from './footer/Footer';
 import { 
   BentoLayout, 
   BentoArea, 
-  FirstVisitModal
+  FirstVisitModal,
+  RateLimitIndicator
 } from '@/components/ui-ls';
 import { ChatProvider } from '@/features/chat';
 import ChatContent from '@/features/chat/components/ChatContent';
 import ChatInput from '@/features/chat/components/ChatInput';
 import { initializeDebugCommands } from '@/core/debug';
+import { connectEntityStore } from '@/core/entities';
 import BimViewer from './bim-viewer/BimViewer';
+import { RuleCheckPanel } from '@/features/rules';
+import { QuantityTakeoffPanel } from '@/features/qto';
 
 export default function ClientApp() {
   useEffect(() => {
@@ -21,9 +25,13 @@ export default function ClientApp() {
     }
   }, []);
 
+  // Index entities once per loaded model for the chat tools
+  useEffect(() => connectEntityStore(), []);
+
   return (
     <div className="app-container">
       <FirstVisitModal />
+      <RateLimitIndicator />
       
       <BentoLayout bordered={true} padding="1.5rem" resizable={true}>
         <BentoArea area="header">
@@ -36,6 +44,14 @@ export default function ClientApp() {
           <BimViewer />
         </BentoArea> 
         
+        {/* Quantity take-off and rule check findings, floating at the bottom of the viewer column */}
+        <BentoArea area="results">
+          <div className="flex flex-col gap-2">
+            <QuantityTakeoffPanel />
+            <RuleCheckPanel />
+          </div>
+        </BentoArea>
+        
         <ChatProvider>
           <BentoArea area="chat-frame" className="area-chat-frame" style={{ pointerEvents: 'auto' }}>
             <div className="chat-wrapper">
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { RATE_LIMIT, checkRateLimit, validateClaudeInput, createAnthropicClient, callClaude, isAnthropicError } from '@/features/ai/services/claude-api';
+import { validateClaudeInput, toMessageRequest, createEventStream, isAnthropicError } from '@/features/ai/services/claude-api';
+import { RATE_LIMIT, QuotaStatus, getRateLimiter, resolveIdentity, rateLimitHeaders } from '@/features/ai/rate-limit';
+import { getLLMProvider, getTextContent } from '@/features/ai/providers';
+import { ClaudeStreamEvent } from '@/types/claude';
+import { RateLimitQuotaInfo } from '@/types/api';
 
-// Rate limit & storage kommen aus dem Service
+// Rate limit & storage kommen aus features/ai/rate-limit
 
 function getRealIP(request: NextRequest): string {
   const forwarded = request.headers.get('x-forwarded-for');
@@ -18,29 +22,65 @@ function getRealIP(request: NextRequest): string {
 
 // Validation & RL kommen aus dem Service
 
+// Books token usage once the stream is done and reports the updated quota
+async function* withUsageAccounting(
+  events: AsyncIterable<ClaudeStreamEvent>,
+  identity: string,
+  requests: QuotaStatus
+): AsyncGenerator<ClaudeStreamEvent> {
+  for await (const event of events) {
+    yield event;
+    if (event.type === 'done') {
+      const tokens = await getRateLimiter().recordUsage(
+        identity,
+        event.usage.input_tokens + event.usage.output_tokens
+      );
+      yield {
+        type: 'rate_limit',
+        rateLimit: { requests: toQuotaInfo(requests), tokens: toQuotaInfo(tokens) }
+      };
+    }
+  }
+}
+
+function toQuotaInfo(status: QuotaStatus): RateLimitQuotaInfo {
+  return { ...status, resetTime: new Date(status.resetTime).toISOString() };
+}
+
+function getProviderInfo() {
+  try {
+    const provider = getLLMProvider();
+    return { name: provider.name, model: provider.model, configured: provider.isConfigured() };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Unknown provider' };
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
-    // Get client IP for rate limiting
-    const clientIP = getRealIP(request);
+    // Quota identity: registered API key user or client IP
+    const identity = resolveIdentity(request.headers, getRealIP(request));
+    const rateLimiter = getRateLimiter();
     
-    // Check rate limit
-    const { allowed, remaining, resetTime } = checkRateLimit(clientIP);
+    // Check rate limit (request and token quota)
+    const rateLimit = await rateLimiter.check(identity);
     
-    if (!allowed) {
-      const retryAfter = Math.ceil((resetTime - Date.now()) / 1000);
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.ceil(rateLimit.retryAfterMs / 1000);
       
       return NextResponse.json(
         { 
-          error: 'Rate limit exceeded. Please wait before making another request.',
+          error: rateLimit.exceeded === 'tokens'
+            ? 'Token quota exceeded. Please wait before making another request.'
+            : 'Rate limit exceeded. Please wait before making another request.',
           code: 'RATE_LIMITED',
+          quota: rateLimit.exceeded,
           retryAfter
         },
         { 
           status: 429,
           headers: {
-            'X-RateLimit-Limit': RATE_LIMIT.requests.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': new Date(resetTime).toISOString(),
+            ...rateLimitHeaders(rateLimit),
             'Retry-After': retryAfter.toString()
           }
         }
@@ -58,53 +98,71 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Check API key
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      console.error('[ERROR] ANTHROPIC_API_KEY not configured');
+    // Check provider configuration (API key for Anthropic)
+    const provider = getLLMProvider();
+    if (!provider.isConfigured()) {
+      console.error(`[ERROR] LLM provider "${provider.name}" not configured`);
       return NextResponse.json(
         { error: 'Service configuration error', code: 'CONFIG_ERROR' },
         { status: 500 }
       );
     }
     
-    // Initialize Anthropic client (server-side only)
-    const client = createAnthropicClient(apiKey);
+    const messageRequest = toMessageRequest(data);
     
     // console.log('Claude API request from IP:', clientIP);
     // console.log('[INFO] Message length:', data.message.length);
     
-    // Call Claude API via shared service
-    const response = await callClaude(client, data);
+    // Streaming mode: text deltas, tool_use start/end and usage as SSE
+    if (data.stream === true) {
+      const eventStream = await createEventStream(
+        withUsageAccounting(provider.streamMessage(messageRequest), identity, rateLimit.requests)
+      );
+      
+      return new Response(eventStream, {
+        headers: {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive',
+          ...rateLimitHeaders(rateLimit),
+        }
+      });
+    }
+    
+    // Call the configured provider
+    const response = await provider.createMessage(messageRequest);
     
     // console.log('[SUCCESS] Claude API response received');
     
-    // Extract content
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
+    // Text blocks form the plain answer; tool_use blocks are passed through
+    // so the client-side executor can run them and reply with tool_result
+    const text = getTextContent(response.content);
+    
+    // Book the real token usage against the token quota
+    const tokenQuota = await rateLimiter.recordUsage(
+      identity,
+      response.usage.input_tokens + response.usage.output_tokens
+    );
     
     // Log for compliance (anonymized)
     // console.log('[INFO] Successful Claude interaction:', {
     //   ip: clientIP.slice(0, 8) + '***', // Anonymized IP
     //   messageLength: data.message.length,
-    //   responseLength: content.text.length,
+    //   responseLength: text.length,
     //   timestamp: new Date().toISOString()
     // });
     
     return NextResponse.json({
-      response: content.text,
+      response: text,
+      content: response.content,
+      stop_reason: response.stop_reason,
+      model: response.model,
       usage: {
         input_tokens: response.usage.input_tokens,
         output_tokens: response.usage.output_tokens,
       }
     }, {
-      headers: {
-        'X-RateLimit-Limit': RATE_LIMIT.requests.toString(),
-        'X-RateLimit-Remaining': remaining.toString(),
-        'X-RateLimit-Reset': new Date(resetTime).toISOString(),
-      }
+      headers: rateLimitHeaders({ requests: rateLimit.requests, tokens: tokenQuota })
     });
     
   } catch (error) {
@@ -197,6 +255,7 @@ export async function GET() {
   return NextResponse.json({
     status: 'healthy',
     service: 'claude-api',
+    provider: getProviderInfo(),
     timestamp: new Date().toISOString(),
     rateLimit: RATE_LIMIT
   });
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { ProjectNotFoundError, StorageError } from '@/types/api';
+
+// Status per StorageError code; everything else is a server error
+const STATUS_BY_CODE: Record<string, number> = {
+  PROJECT_EXISTS: 409,
+  INVALID_ARCHIVE: 400,
+  INVALID_MERGE: 400,
+  IMPORT_FAILED: 400
+};
+
+export function invalidInput(message: string) {
+  return NextResponse.json({ error: message, code: 'INVALID_INPUT' }, { status: 400 });
+}
+
+// Maps errors of the context service to JSON error responses
+export function contextErrorResponse(error: unknown, action: string) {
+  if (error instanceof ProjectNotFoundError) {
+    return NextResponse.json({ error: error.message, code: 'NOT_FOUND' }, { status: 404 });
+  }
+  if (error instanceof StorageError && STATUS_BY_CODE[error.code]) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, details: error.details },
+      { status: STATUS_BY_CODE[error.code] }
+    );
+  }
+
+  console.error(`[ERROR] ${action} error:`, error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Unknown error', code: 'STORAGE_ERROR' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContextService, isProjectId } from '@/app/bim-context/context-service';
+import { getMVPConfig } from '@/app/bim-context/config';
+import { contextErrorResponse, invalidInput } from '../error-response';
+import { payloadTooLarge, readBodyWithLimit } from '@/app/api/read-body';
+
+// Imports an archive from /api/context/projects/<id>/export; ?projectId= stores it under a new ID
+export async function POST(request: NextRequest) {
+  const projectId = request.nextUrl.searchParams.get('projectId') || undefined;
+  if (projectId !== undefined && !isProjectId(projectId)) return invalidInput('Invalid projectId');
+
+  const maxUploadSize = getMVPConfig().api.maxUploadSize;
+  const archive = await readBodyWithLimit(request, maxUploadSize);
+  if (!archive) return payloadTooLarge(`Archive exceeds ${maxUploadSize} bytes`);
+  if (archive.length === 0) return invalidInput('Empty archive');
+
+  try {
+    const result = await getContextService().importProject(archive, projectId);
+    return NextResponse.json({ success: true, ...result }, { status: 201 });
+  } catch (error) {
+    return contextErrorResponse(error, 'Import context project');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContextService, isProjectId } from '@/app/bim-context/context-service';
+import { contextErrorResponse, invalidInput } from '../error-response';
+
+interface MergeBody {
+  projectIds?: string[];
+  targetProjectId?: string;
+  name?: string;
+}
+
+// Merges at least two projects into a new one: { projectIds, targetProjectId, name? }
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null) as MergeBody | null;
+  if (!Array.isArray(body?.projectIds) || !body.projectIds.every(isProjectId)) {
+    return invalidInput('projectIds must be an array of project IDs');
+  }
+  if (!isProjectId(body.targetProjectId)) return invalidInput('Invalid targetProjectId');
+
+  try {
+    const result = await getContextService().mergeProjects(
+      body.projectIds,
+      body.targetProjectId,
+      body.name || body.targetProjectId
+    );
+    return NextResponse.json({ success: true, ...result }, { status: 201 });
+  } catch (error) {
+    return contextErrorResponse(error, 'Merge context projects');
+  }
+}
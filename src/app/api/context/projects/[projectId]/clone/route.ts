@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContextService, isProjectId } from '@/app/bim-context/context-service';
+import { contextErrorResponse, invalidInput } from '../../../error-response';
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+// Copies the project: { targetProjectId, name? }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { projectId } = await params;
+  if (!isProjectId(projectId)) return invalidInput('Invalid projectId');
+
+  const body = await request.json().catch(() => null) as { targetProjectId?: string; name?: string } | null;
+  if (!isProjectId(body?.targetProjectId)) return invalidInput('Invalid targetProjectId');
+
+  try {
+    const result = await getContextService().cloneProject(projectId, body.targetProjectId, body.name);
+    return NextResponse.json({ success: true, ...result }, { status: 201 });
+  } catch (error) {
+    return contextErrorResponse(error, 'Clone context project');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { getContextService, isProjectId } from '@/app/bim-context/context-service';
+import { contextErrorResponse, invalidInput } from '../../../error-response';
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+// Project archive (manifest, chunks, metadata, indices) as JSON download; re-import via /api/context/import
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { projectId } = await params;
+  if (!isProjectId(projectId)) return invalidInput('Invalid projectId');
+
+  try {
+    const archive = await getContextService().exportProject(projectId);
+    return new Response(new Uint8Array(archive.data), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': archive.metadata.size.toString(),
+        'Content-Disposition': `attachment; filename="${projectId}.json"`
+      }
+    });
+  } catch (error) {
+    return contextErrorResponse(error, 'Export context project');
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContextService, isProjectId } from '@/app/bim-context/context-service';
+import { contextErrorResponse, invalidInput } from '../../error-response';
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+// Manifest of the project, including chunk summaries and indices
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { projectId } = await params;
+  if (!isProjectId(projectId)) return invalidInput('Invalid projectId');
+
+  try {
+    const manifest = await getContextService().getProject(projectId);
+    return NextResponse.json({ manifest });
+  } catch (error) {
+    return contextErrorResponse(error, 'Load context project');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { projectId } = await params;
+  if (!isProjectId(projectId)) return invalidInput('Invalid projectId');
+
+  try {
+    await getContextService().deleteProject(projectId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return contextErrorResponse(error, 'Delete context project');
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContextService, isProjectId } from '@/app/bim-context/context-service';
+import { getMVPConfig } from '@/app/bim-context/config';
+import { IfcEntity, IfcEntityIndex } from '@/types/bim';
+import { contextErrorResponse, invalidInput } from '../error-response';
+import { payloadTooLarge, readBodyWithLimit } from '@/app/api/read-body';
+
+interface CreateProjectBody {
+  projectId?: string;
+  name?: string;
+  fileName?: string;
+  entities?: IfcEntity[];
+  entityIndex?: IfcEntityIndex;
+  replace?: boolean;
+}
+
+// Lists the Smart Chunks projects on the server, most recently updated first
+export async function GET() {
+  try {
+    const projects = await getContextService().listProjects();
+    return NextResponse.json({ projects });
+  } catch (error) {
+    return contextErrorResponse(error, 'List context projects');
+  }
+}
+
+// Creates a project from uploaded entities: { projectId, name, entities, entityIndex?, fileName?, replace? }
+export async function POST(request: NextRequest) {
+  const maxUploadSize = getMVPConfig().api.maxUploadSize;
+  const raw = await readBodyWithLimit(request, maxUploadSize);
+  if (!raw) return payloadTooLarge(`Entities exceed ${maxUploadSize} bytes`);
+
+  let body: CreateProjectBody;
+  try {
+    body = JSON.parse(raw.toString('utf-8'));
+  } catch {
+    return invalidInput('Body must be JSON');
+  }
+
+  if (!isProjectId(body.projectId)) {
+    return invalidInput('projectId may only contain letters, digits, "_", "-" and "."');
+  }
+  if (!Array.isArray(body.entities) || body.entities.length === 0) {
+    return invalidInput('entities must be a non-empty array');
+  }
+
+  try {
+    const project = await getContextService().createProject({
+      projectId: body.projectId,
+      name: body.name || body.projectId,
+      entities: body.entities,
+      entityIndex: body.entityIndex,
+      fileName: body.fileName,
+      replace: body.replace === true
+    });
+    return NextResponse.json({ success: true, project }, { status: 201 });
+  } catch (error) {
+    return contextErrorResponse(error, 'Create context project');
+  }
+}
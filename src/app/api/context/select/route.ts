@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContextService, isProjectId } from '@/app/bim-context/context-service';
+import { getMVPConfig } from '@/app/bim-context/config';
+import { DirectSelectionParams } from '@/types/chunks';
+import { contextErrorResponse, invalidInput } from '../error-response';
+
+interface SelectBody {
+  projectId?: string;
+  // Free-text query, analyzed by ContextSelector
+  query?: string;
+  // Tool parameters, used as they are by SimplifiedContextSelector
+  params?: DirectSelectionParams;
+  maxTokens?: number;
+  // Tokens left in the session budget of the browser; unlimited if missing
+  remainingBudget?: number;
+}
+
+// Selects the chunks of a project that fit the query within maxTokens
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null) as SelectBody | null;
+  if (!isProjectId(body?.projectId)) return invalidInput('Invalid projectId');
+  if (!body.params && !body.query?.trim()) return invalidInput('query or params required');
+
+  const requested = typeof body.maxTokens === 'number' && body.maxTokens > 0 ? body.maxTokens : 4000;
+  const maxTokens = Math.min(requested, getMVPConfig().tokens.maxContextSize);
+  const remainingBudget = typeof body.remainingBudget === 'number' && body.remainingBudget >= 0
+    ? body.remainingBudget
+    : undefined;
+
+  try {
+    const service = getContextService();
+    const result = body.params
+      ? await service.selectChunksByParams(body.projectId, { ...body.params, maxTokens, remainingBudget })
+      : await service.selectChunks(body.projectId, body.query ?? '', maxTokens, remainingBudget);
+    return NextResponse.json(result);
+  } catch (error) {
+    return contextErrorResponse(error, 'Select context');
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFragmentCache, isFragmentHash } from '@/features/fragments/fragment-cache';
+
+interface RouteContext {
+  params: Promise<{ hash: string }>;
+}
+
+function invalidHash() {
+  return NextResponse.json(
+    { error: 'Invalid fragment hash', code: 'INVALID_INPUT' },
+    { status: 400 }
+  );
+}
+
+// Serves the .frag bytes; only entries keyed by the hash of these bytes are immutable, entries
+// keyed by the client-reported IFC hash are revalidated against the ETag
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { hash } = await params;
+  if (!isFragmentHash(hash)) return invalidHash();
+
+  try {
+    const cached = await getFragmentCache().get(hash);
+    if (!cached) {
+      return NextResponse.json(
+        { error: `Fragment not found: ${hash}`, code: 'NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    const immutable = cached.entry.hash === cached.entry.fragmentHash;
+    return new Response(new Uint8Array(cached.data), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': cached.entry.size.toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(cached.entry.name)}.frag"`,
+        'Cache-Control': immutable ? 'public, max-age=31536000, immutable' : 'public, no-cache',
+        'ETag': `"${cached.entry.fragmentHash}"`
+      }
+    });
+  } catch (error) {
+    console.error('[ERROR] Serve fragment error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', code: 'STORAGE_ERROR' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { hash } = await params;
+  if (!isFragmentHash(hash)) return invalidHash();
+
+  try {
+    const deleted = await getFragmentCache().delete(hash);
+    return NextResponse.json({ success: deleted }, { status: deleted ? 200 : 404 });
+  } catch (error) {
+    console.error('[ERROR] Delete fragment error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', code: 'STORAGE_ERROR' },
+      { status: 500 }
+    );
+  }
+}
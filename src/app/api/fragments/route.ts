@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getFragmentCache } from '@/features/fragments/fragment-cache';
+
+// Lists cached fragments, most recently used first
+export async function GET() {
+  try {
+    const cache = getFragmentCache();
+    const [fragments, stats] = await Promise.all([cache.list(), cache.stats()]);
+    return NextResponse.json({ fragments, stats });
+  } catch (error) {
+    console.error('[ERROR] List fragments error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', code: 'STORAGE_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import { NextResponse } from 'next/server';
+import { getLLMProvider } from '@/features/ai/providers';
+import { RATE_LIMIT } from '@/features/ai/rate-limit';
+import { getFragmentCache } from '@/features/fragments/fragment-cache';
+import { getMVPConfig } from '@/app/bim-context/config';
+
+type CheckStatus = 'ok' | 'error';
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function checkClaude() {
+  try {
+    const provider = getLLMProvider();
+    const configured = provider.isConfigured();
+    return {
+      status: (configured ? 'ok' : 'error') as CheckStatus,
+      provider: provider.name,
+      model: provider.model,
+      configured
+    };
+  } catch (error) {
+    return { status: 'error' as CheckStatus, error: errorMessage(error) };
+  }
+}
+
+// Data directory of the Smart Chunks file store and the rate limit store in use
+async function checkStorage() {
+  const basePath = getMVPConfig().storage.basePath;
+  const rateLimitStore = process.env.RATE_LIMIT_STORE || 'memory';
+  try {
+    await fs.mkdir(basePath, { recursive: true });
+    await fs.access(basePath, fs.constants.W_OK);
+    return { status: 'ok' as CheckStatus, basePath, rateLimitStore };
+  } catch (error) {
+    return { status: 'error' as CheckStatus, basePath, rateLimitStore, error: errorMessage(error) };
+  }
+}
+
+async function checkFragmentCache() {
+  const cache = getFragmentCache();
+  try {
+    await cache.checkWritable();
+    return { status: 'ok' as CheckStatus, ...await cache.stats() };
+  } catch (error) {
+    return { status: 'error' as CheckStatus, error: errorMessage(error) };
+  }
+}
+
+// Always 200 while the app is up; degraded subsystems are reported in the body
+export async function GET() {
+  const [storage, fragments] = await Promise.all([checkStorage(), checkFragmentCache()]);
+  const claude = checkClaude();
+  const healthy = [claude, storage, fragments].every(check => check.status === 'ok');
+
+  return NextResponse.json({
+    status: healthy ? 'healthy' : 'degraded',
+    timestamp: new Date().toISOString(),
+    checks: {
+      claude: { ...claude, rateLimit: RATE_LIMIT },
+      storage,
+      fragments
+    }
+  });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Reads the request body up to maxBytes; null once it is larger. The stream is cancelled at the
+ * limit, so an oversized upload is never held in memory, whatever its content-length says.
+ */
+export async function readBodyWithLimit(request: Request, maxBytes: number): Promise<Buffer | null> {
+  const contentLength = parseInt(request.headers.get('content-length') || '0');
+  if (contentLength > maxBytes) return null;
+  if (!request.body) return Buffer.alloc(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, size);
+}
+
+export function payloadTooLarge(message: string) {
+  return NextResponse.json({ error: message, code: 'PAYLOAD_TOO_LARGE' }, { status: 413 });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFragmentCache, isFragmentHash } from '@/features/fragments/fragment-cache';
+import { getMVPConfig } from '@/app/bim-context/config';
+import { payloadTooLarge, readBodyWithLimit } from '@/app/api/read-body';
+
+interface LegacyFragmentBody {
+  filename?: string;
+  data?: number[];
+  sourceHash?: string;
+}
+
+function isLegacyUpload(request: NextRequest): boolean {
+  return request.headers.get('content-type')?.includes('application/json') ?? false;
+}
+
+// Binary body with X-Fragment-Name / X-Source-Hash headers; JSON { filename, data: number[] } is still accepted
+function readUpload(request: NextRequest, raw: Buffer): { data: Uint8Array; name: string; sourceHash?: string } {
+  if (isLegacyUpload(request)) {
+    const body = JSON.parse(raw.toString('utf-8')) as LegacyFragmentBody;
+    return {
+      data: Uint8Array.from(Array.isArray(body.data) ? body.data : []),
+      name: body.filename || 'model.frag',
+      sourceHash: body.sourceHash
+    };
+  }
+
+  const name = request.headers.get('x-fragment-name');
+  return {
+    data: new Uint8Array(raw),
+    name: name ? decodeURIComponent(name) : 'model.frag',
+    sourceHash: request.headers.get('x-source-hash') || undefined
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const maxUploadSize = getMVPConfig().api.maxUploadSize;
+    // The legacy JSON body spells every byte as a number of up to 4 characters ("255,"); the
+    // decoded bytes are checked against the limit below
+    const raw = await readBodyWithLimit(request, isLegacyUpload(request) ? maxUploadSize * 4 : maxUploadSize);
+    if (!raw) return payloadTooLarge(`Fragment exceeds ${maxUploadSize} bytes`);
+
+    const upload = readUpload(request, raw);
+
+    if (upload.data.byteLength === 0) {
+      return NextResponse.json(
+        { error: 'Empty fragment', code: 'INVALID_INPUT' },
+        { status: 400 }
+      );
+    }
+    if (upload.data.byteLength > maxUploadSize) {
+      return payloadTooLarge(`Fragment exceeds ${maxUploadSize} bytes`);
+    }
+    if (upload.sourceHash && !isFragmentHash(upload.sourceHash)) {
+      return NextResponse.json(
+        { error: 'sourceHash must be a SHA-256 hex digest', code: 'INVALID_INPUT' },
+        { status: 400 }
+      );
+    }
+
+    const { entry, created } = await getFragmentCache().put(upload.data, {
+      name: upload.name.replace(/\.(frag|ifc)$/i, ''),
+      sourceHash: upload.sourceHash
+    });
+    console.log(created
+      ? `💾 Fragment cached: ${entry.name} (${entry.hash.slice(0, 12)}, ${entry.size} bytes)`
+      : `💾 Fragment already cached, kept: ${entry.name} (${entry.hash.slice(0, 12)})`);
+
+    // An existing entry is returned unchanged, not replaced by the upload
+    return NextResponse.json({
+      success: true,
+      created,
+      fragment: entry,
+      url: `/api/fragments/${entry.hash}`
+    }, { status: created ? 201 : 200 });
+
+  } catch (error) {
+    console.error('[ERROR] Save fragment error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error', code: 'STORAGE_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,8 @@
 
 import { SmartChunk, ChunkMetadata, ChunkingStrategy } from '@/types/chunks';
 import { IfcEntity } from '@/types/bim';
+import { BoundingBox } from '@/types/base';
+import { getEntityBounds, mergeBounds } from '@/core/spatial/bounds';
 import { tokenCounter } from '../utils/token-counter';
 import { entityConverter } from '../utils/entity-converter';
 import { ChunkLogger } from '../utils/chunk-logger';
@@ -248,21 +250,9 @@ export class SpatialHierarchyStrategy implements ChunkingStrategy {
     return Math.ceil(avgTokensPerEntity * entities.length);
   }
   
-  private calculateBounds(entities: EnhancedEntity[]): any {
-    const positions = entities
-      .filter(e => e.position)
-      .map(e => e.position!);
-    
-    if (positions.length === 0) return undefined;
-    
-    const xs = positions.map(p => p.x);
-    const ys = positions.map(p => p.y);
-    const zs = positions.map(p => p.z);
-    
-    return {
-      min: [Math.min(...xs), Math.min(...ys), Math.min(...zs)],
-      max: [Math.max(...xs), Math.max(...ys), Math.max(...zs)]
-    };
+  // World-space AABB of the chunk from the entity boxes (positions as fallback)
+  private calculateBounds(entities: EnhancedEntity[]): BoundingBox | undefined {
+    return mergeBounds(entities.map(getEntityBounds));
   }
   
   private findRelatedChunks(entities: EnhancedEntity[], spatialNode: SpatialNode | null): string[] {
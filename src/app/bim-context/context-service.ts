@@ -0,0 +1,192 @@
+/**
+ * Context Service - Smart Chunks projects on disk and chunk selection for /api/context
+ * Server-side only: wires FileStore, ManifestManager, the context selectors and BatchProcessor
+ */
+
+import { SmartChunker } from './chunking/smart-chunker';
+import { ContextSelector } from './selection/context-selector';
+import { SimplifiedContextSelector } from './selection/context-selector-simplified';
+import { CachedFileStore } from './storage/cached-file-store';
+import { ManifestManager } from './storage/manifest-manager';
+import { BatchProcessor } from './storage/batch-processor';
+import { VectorIndex, getEmbeddingProvider } from './embeddings';
+import { IfcEntity, IfcEntityIndex } from '@/types/bim';
+import { ChunkSelectionResult, DirectSelectionParams, ProjectManifest } from '@/types/chunks';
+import { ContextProjectSummary, ProjectNotFoundError, StorageError } from '@/types/api';
+
+// Project IDs become directory names
+export { isProjectId } from './storage/file-store';
+
+export interface CreateContextProjectInput {
+  projectId: string;
+  name: string;
+  entities: IfcEntity[];
+  // Built from the entity types if missing
+  entityIndex?: IfcEntityIndex;
+  fileName?: string;
+  // Replace an existing project with the same ID instead of failing
+  replace?: boolean;
+}
+
+function toSummary(manifest: ProjectManifest): ContextProjectSummary {
+  return {
+    projectId: manifest.projectId,
+    name: manifest.name,
+    fileName: manifest.metadata.fileName,
+    totalChunks: manifest.totalChunks,
+    totalEntities: manifest.totalEntities,
+    totalTokens: manifest.totalTokens,
+    created: new Date(manifest.created).toISOString(),
+    updated: new Date(manifest.updated).toISOString()
+  };
+}
+
+export class ContextService {
+  private fileStore: CachedFileStore;
+  private manifestManager: ManifestManager;
+  private contextSelector: ContextSelector;
+  private simplifiedSelector: SimplifiedContextSelector;
+  private batchProcessor: BatchProcessor;
+  private vectorIndex: VectorIndex | null;
+  private smartChunker = new SmartChunker();
+
+  constructor(projectsPath?: string) {
+    const embeddingProvider = getEmbeddingProvider();
+    this.fileStore = new CachedFileStore(projectsPath);
+    this.manifestManager = new ManifestManager(this.fileStore);
+    this.contextSelector = new ContextSelector(this.fileStore, { embeddingProvider });
+    this.simplifiedSelector = new SimplifiedContextSelector(this.fileStore, { embeddingProvider });
+    this.batchProcessor = new BatchProcessor(this.fileStore, this.manifestManager);
+    this.vectorIndex = embeddingProvider ? new VectorIndex(this.fileStore, embeddingProvider) : null;
+  }
+
+  /**
+   * Projects with a manifest, most recently updated first
+   */
+  async listProjects(): Promise<ContextProjectSummary[]> {
+    const summaries: ContextProjectSummary[] = [];
+    for (const projectId of await this.fileStore.listProjects()) {
+      const manifest = await this.fileStore.loadManifest(projectId);
+      if (manifest) summaries.push(toSummary(manifest));
+    }
+    return summaries.sort((a, b) => b.updated.localeCompare(a.updated));
+  }
+
+  async getProject(projectId: string): Promise<ProjectManifest> {
+    const manifest = await this.fileStore.loadManifest(projectId);
+    if (!manifest) {
+      throw new ProjectNotFoundError(projectId);
+    }
+    return manifest;
+  }
+
+  /**
+   * Chunk the uploaded entities and store them as project
+   */
+  async createProject(input: CreateContextProjectInput): Promise<ContextProjectSummary> {
+    const { projectId, name, entities, fileName = name } = input;
+    const startTime = Date.now();
+
+    if (await this.fileStore.projectExists(projectId)) {
+      if (!input.replace) {
+        throw new StorageError(`Project ${projectId} already exists`, 'PROJECT_EXISTS');
+      }
+      await this.deleteProject(projectId);
+    }
+
+    const entityIndex = input.entityIndex ?? this.buildEntityIndex(entities);
+    const result = await this.smartChunker.processModel(projectId, { entities, entityIndex }, name);
+
+    await this.fileStore.createProject(projectId, { name, fileName, entityCount: entities.length });
+    await this.fileStore.saveChunks(result.chunks);
+
+    const manifest = this.manifestManager.createManifest(projectId, name, result.chunks, {
+      fileName,
+      fileSize: 0,
+      processingTime: Date.now() - startTime
+    });
+    await this.manifestManager.saveManifest(manifest);
+    await this.vectorIndex?.build(projectId, result.chunks);
+    this.invalidate(projectId);
+
+    console.log(`✅ Context project ${projectId}: ${result.chunks.length} chunks from ${entities.length} entities`);
+    return toSummary(manifest);
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    if (!await this.fileStore.projectExists(projectId)) {
+      throw new ProjectNotFoundError(projectId);
+    }
+    await this.fileStore.deleteProject(projectId);
+    this.invalidate(projectId);
+  }
+
+  /**
+   * Chunks for a free-text query (query analysis decides the strategy)
+   */
+  async selectChunks(projectId: string, query: string, maxTokens?: number, remainingBudget?: number): Promise<ChunkSelectionResult> {
+    await this.getProject(projectId);
+    return this.contextSelector.selectChunks(projectId, query, maxTokens, remainingBudget);
+  }
+
+  /**
+   * Chunks for parameters taken from a tool call, without query analysis
+   */
+  async selectChunksByParams(projectId: string, params: DirectSelectionParams): Promise<ChunkSelectionResult> {
+    await this.getProject(projectId);
+    return this.simplifiedSelector.selectChunks(projectId, params);
+  }
+
+  async exportProject(projectId: string) {
+    return this.batchProcessor.exportProject(projectId);
+  }
+
+  async importProject(archive: Buffer, projectId?: string) {
+    const result = await this.batchProcessor.importProject(archive, projectId);
+    await this.vectorIndex?.ensure(result.projectId);
+    this.invalidate(result.projectId);
+    return result;
+  }
+
+  async cloneProject(sourceProjectId: string, targetProjectId: string, name?: string) {
+    const result = await this.batchProcessor.cloneProject(sourceProjectId, targetProjectId, name);
+    await this.vectorIndex?.ensure(result.projectId);
+    this.invalidate(result.projectId);
+    return result;
+  }
+
+  async mergeProjects(projectIds: string[], targetProjectId: string, name: string) {
+    if (await this.fileStore.projectExists(targetProjectId)) {
+      throw new StorageError(`Project ${targetProjectId} already exists`, 'PROJECT_EXISTS');
+    }
+    const result = await this.batchProcessor.mergeProjects(projectIds, targetProjectId, name);
+    await this.vectorIndex?.ensure(result.projectId);
+    this.invalidate(result.projectId);
+    return result;
+  }
+
+  private invalidate(projectId: string): void {
+    this.contextSelector.invalidateProject(projectId);
+    this.simplifiedSelector.invalidateProject(projectId);
+  }
+
+  private buildEntityIndex(entities: IfcEntity[]): IfcEntityIndex {
+    const index: IfcEntityIndex = {};
+    entities.forEach(entity => {
+      (index[entity.type] ||= []).push(entity.expressID);
+    });
+    return index;
+  }
+}
+
+let service: ContextService | null = null;
+
+/**
+ * Service on MVPConfig.storage.projectsPath (./data/projects)
+ */
+export function getContextService(): ContextService {
+  if (!service) {
+    service = new ContextService();
+  }
+  return service;
+}
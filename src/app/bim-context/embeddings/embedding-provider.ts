@@ -0,0 +1,36 @@
+// Embedding Provider Layer - turns chunk and query texts into vectors for semantic retrieval
+
+import { SmartChunk } from '@/types/chunks';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  // One unit-length vector per text, in input order
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+// Cosine similarity of two unit vectors; 0 if the dimensions differ
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+/**
+ * Text that represents a chunk in the vector index: summary, entity types and the start of the content
+ */
+export function getChunkEmbeddingText(chunk: SmartChunk): string {
+  return [
+    chunk.summary,
+    chunk.metadata.entityTypes.join(' '),
+    chunk.content.slice(0, 2000)
+  ].join('\n');
+}
@@ -0,0 +1,138 @@
+/**
+ * Hashing Embedder - deterministic embeddings without model or network
+ *
+ * Words, their character trigrams and BIM concepts are hashed into a fixed
+ * number of dimensions (feature hashing). The concept lexicon maps German and
+ * English terms (also inside compounds like "Brandschutztüren") onto the same
+ * features, so "Brandschutztüren" and "fire doors" end up close together.
+ * Stems match at the start of a word and right after another stem, so compounds
+ * are read part by part while "download" or "compile" do not hit load or pile.
+ */
+
+import { EmbeddingProvider, normalizeVector } from './embedding-provider';
+
+// Concept -> stems
+const CONCEPTS: Record<string, string[]> = {
+  door: ['tür', 'tuer', 'door'],
+  window: ['fenster', 'window'],
+  wall: ['wand', 'wänd', 'mauer', 'wall'],
+  slab: ['decke', 'platte', 'slab'],
+  roof: ['dach', 'roof'],
+  column: ['stütze', 'stuetze', 'säule', 'column', 'pillar'],
+  beam: ['träger', 'traeger', 'balken', 'beam', 'girder'],
+  stair: ['treppe', 'stair'],
+  railing: ['geländer', 'gelaender', 'railing', 'handrail'],
+  space: ['raum', 'räume', 'zimmer', 'space', 'room'],
+  storey: ['geschoss', 'stockwerk', 'etage', 'ebene', 'storey', 'level'],
+  opening: ['öffnung', 'oeffnung', 'opening'],
+  foundation: ['fundament', 'footing', 'foundation', 'pile'],
+  bridge: ['brücke', 'bruecke', 'bridge'],
+  pipe: ['rohr', 'leitung', 'pipe', 'duct', 'kanal'],
+  fire: ['brand', 'feuer', 'fire', 'flame'],
+  protection: ['schutz', 'protect', 'safety', 'sicherheit'],
+  concrete: ['beton', 'concrete'],
+  steel: ['stahl', 'steel'],
+  wood: ['holz', 'wood', 'timber'],
+  glass: ['glas', 'glass'],
+  insulation: ['dämm', 'daemm', 'isolier', 'insulation'],
+  load: ['tragend', 'lastab', 'loadbearing', 'load'],
+  exterior: ['außen', 'aussen', 'fassade', 'exterior', 'external', 'facade'],
+  interior: ['innen', 'interior', 'internal']
+};
+
+// Linking letter between compound parts, e.g. "Sicherheitsglas"
+const COMPOUND_LINK = 's';
+
+const WORD_WEIGHT = 1;
+const CONCEPT_WEIGHT = 2;
+const TRIGRAM_WEIGHT = 0.25;
+
+// Part of the model name; bumped when the features change, so stored vectors are rebuilt
+const FEATURE_VERSION = 2;
+
+// FNV-1a, 32 bit
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model: string;
+
+  constructor(private dimensions: number = 256) {
+    this.model = `hashing-${dimensions}-v${FEATURE_VERSION}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const token of this.tokenize(text)) {
+      // IFC class names carry the concepts after the prefix, in any position (IFCCURTAINWALL -> wall)
+      const ifcClass = token.startsWith('ifc') && token.length > 5;
+      const word = ifcClass ? token.slice(3) : token;
+      this.addFeature(vector, `w:${word}`, WORD_WEIGHT);
+      (ifcClass ? this.getClassConcepts(word) : this.getConcepts(word)).forEach(concept => this.addFeature(vector, `c:${concept}`, CONCEPT_WEIGHT));
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    return normalizeVector(vector);
+  }
+
+  // Signed feature hashing keeps colliding features from only adding up
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = hashString(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+
+  // Stems at the word start, then at the end of every matched stem (with or without linking s)
+  private getConcepts(word: string): string[] {
+    const concepts = new Set<string>();
+    const pending = [0];
+    const visited = new Set(pending);
+
+    while (pending.length > 0) {
+      const start = pending.pop()!;
+      for (const [concept, stems] of Object.entries(CONCEPTS)) {
+        for (const stem of stems) {
+          if (!word.startsWith(stem, start)) continue;
+          concepts.add(concept);
+          const end = start + stem.length;
+          const next = word.startsWith(COMPOUND_LINK, end) ? [end, end + COMPOUND_LINK.length] : [end];
+          next.filter(position => !visited.has(position)).forEach(position => {
+            visited.add(position);
+            pending.push(position);
+          });
+        }
+      }
+    }
+    return Array.from(concepts);
+  }
+
+  // IFC class names are compounds of a fixed English vocabulary, stems match anywhere
+  private getClassConcepts(name: string): string[] {
+    return Object.entries(CONCEPTS)
+      .filter(([, stems]) => stems.some(stem => name.includes(stem)))
+      .map(([concept]) => concept);
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 1);
+  }
+}
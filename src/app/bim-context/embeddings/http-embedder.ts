@@ -0,0 +1,46 @@
+// HTTP Embedder - OpenAI-compatible /v1/embeddings endpoint (e.g. a small local model served by Ollama)
+
+import { EmbeddingProvider, normalizeVector } from './embedding-provider';
+
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'http';
+
+  constructor(
+    private url: string,
+    readonly model: string,
+    private apiKey?: string,
+    private batchSize: number = 32
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      vectors.push(...await this.embedBatch(texts.slice(i, i + this.batchSize)));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(input: string[]): Promise<number[][]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({ model: this.model, input })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as EmbeddingsResponse;
+    return [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => normalizeVector(item.embedding));
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Embeddings for semantic chunk retrieval
+ *
+ * EMBEDDING_PROVIDER selects the provider:
+ * - hashing (default): deterministic, offline, no model needed
+ * - http: OpenAI-compatible endpoint at EMBEDDING_URL with EMBEDDING_MODEL (e.g. a local Ollama)
+ * - none: keyword ranking only
+ */
+
+import { EmbeddingProvider } from './embedding-provider';
+import { HashingEmbeddingProvider } from './hashing-embedder';
+import { HttpEmbeddingProvider } from './http-embedder';
+
+export * from './embedding-provider';
+export { HashingEmbeddingProvider } from './hashing-embedder';
+export { HttpEmbeddingProvider } from './http-embedder';
+export { VectorIndex, VECTOR_INDEX_NAME } from './vector-index';
+
+let provider: EmbeddingProvider | null | undefined;
+
+function createEmbeddingProvider(): EmbeddingProvider | null {
+  switch (process.env.EMBEDDING_PROVIDER || 'hashing') {
+    case 'none':
+      return null;
+    case 'http':
+      return new HttpEmbeddingProvider(
+        process.env.EMBEDDING_URL || 'http://localhost:11434/v1/embeddings',
+        process.env.EMBEDDING_MODEL || 'nomic-embed-text',
+        process.env.EMBEDDING_API_KEY
+      );
+    default:
+      return new HashingEmbeddingProvider();
+  }
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (provider === undefined) {
+    provider = createEmbeddingProvider();
+  }
+  return provider;
+}
+
+// Replace the configured provider, e.g. with an in-process model
+export function setEmbeddingProvider(embeddingProvider: EmbeddingProvider | null): void {
+  provider = embeddingProvider;
+}
@@ -0,0 +1,93 @@
+/**
+ * Vector Index - chunk embeddings stored as indices/vectors.json next to the manifest indices
+ */
+
+import { FileStore } from '../storage/file-store';
+import { EmbeddingProvider, cosineSimilarity, getChunkEmbeddingText } from './embedding-provider';
+import { SmartChunk } from '@/types/chunks';
+import { StoredVectorIndex } from '@/types/selection';
+
+export const VECTOR_INDEX_NAME = 'vectors';
+
+const BATCH_SIZE = 64;
+
+// 5 decimals are plenty for ranking and keep vectors.json small
+function roundVector(vector: number[]): number[] {
+  return vector.map(value => Math.round(value * 1e5) / 1e5);
+}
+
+export class VectorIndex {
+  constructor(
+    private fileStore: FileStore,
+    private provider: EmbeddingProvider
+  ) {}
+
+  /**
+   * Embed all chunks and store the index
+   */
+  async build(projectId: string, chunks: SmartChunk[]): Promise<StoredVectorIndex> {
+    const vectors: Record<string, number[]> = {};
+
+    for (let i = 0; i < chunks.length; i += BATCH_SIZE) {
+      const batch = chunks.slice(i, i + BATCH_SIZE);
+      const embeddings = await this.provider.embed(batch.map(getChunkEmbeddingText));
+      batch.forEach((chunk, j) => {
+        vectors[chunk.id] = roundVector(embeddings[j]);
+      });
+    }
+
+    const index: StoredVectorIndex = {
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimensions: Object.values(vectors)[0]?.length ?? 0,
+      vectors,
+      created: new Date().toISOString()
+    };
+
+    await this.fileStore.saveIndex(projectId, VECTOR_INDEX_NAME, index);
+    console.log(`🧭 Vector index ${projectId}: ${chunks.length} chunks (${index.model})`);
+    return index;
+  }
+
+  /**
+   * Stored index, or null if missing or built by another provider/model
+   */
+  async load(projectId: string): Promise<StoredVectorIndex | null> {
+    const index = await this.fileStore.loadIndex(projectId, VECTOR_INDEX_NAME) as StoredVectorIndex | null;
+    if (!index || index.provider !== this.provider.name || index.model !== this.provider.model) {
+      return null;
+    }
+    return index;
+  }
+
+  /**
+   * Stored index, built from the project chunks on first use
+   */
+  async ensure(projectId: string): Promise<StoredVectorIndex> {
+    const index = await this.load(projectId);
+    if (index) return index;
+
+    const chunks = await this.fileStore.loadAllChunks(projectId);
+    return this.build(projectId, chunks);
+  }
+
+  /**
+   * Similarity of the query to every chunk (chunkId -> 0-1); empty if embedding fails
+   */
+  async score(projectId: string, queryText: string): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+
+    try {
+      const index = await this.ensure(projectId);
+      const [queryVector] = await this.provider.embed([queryText]);
+
+      Object.entries(index.vectors).forEach(([chunkId, vector]) => {
+        scores.set(chunkId, Math.max(0, cosineSimilarity(queryVector, vector)));
+      });
+    } catch (error) {
+      console.warn(`⚠️ Vector scoring for ${projectId} failed:`, error);
+    }
+
+    return scores;
+  }
+}
@@ -12,6 +12,7 @@ import {
   AttributeLoadOptions
 } from '@/types/bim';
 import { BoundingBox } from '@/types/base';
+import { densityOf } from '@/features/qto/quantity-extractor';
 
 /**
  * Extracts and calculates attributes from IFC entities
@@ -271,37 +272,7 @@ export class AttributeExtractor {
    * Helper: Get default material density
    */
   private getDefaultDensity(materialName: string): number {
-    const name = materialName.toLowerCase();
-    
-    // Common construction material densities (kg/m³)
-    const densities: Record<string, number> = {
-      'concrete': 2400,
-      'beton': 2400,
-      'stahlbeton': 2500,
-      'steel': 7850,
-      'stahl': 7850,
-      'aluminum': 2700,
-      'aluminium': 2700,
-      'wood': 600,
-      'holz': 600,
-      'glass': 2500,
-      'glas': 2500,
-      'gipskarton': 900,
-      'gypsum': 900,
-      'insulation': 50,
-      'dämmung': 50,
-      'brick': 1800,
-      'ziegel': 1800,
-      'mauerwerk': 1800
-    };
-    
-    for (const [key, density] of Object.entries(densities)) {
-      if (name.includes(key)) {
-        return density;
-      }
-    }
-    
-    return 1000; // Default density
+    return densityOf(materialName) ?? 1000; // Default density
   }
   
   /**
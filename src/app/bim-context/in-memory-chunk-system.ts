@@ -1,6 +1,7 @@
 /**
  * In-Memory Smart Chunks System
- * No file storage, everything stays in memory for the session
+ * Chunks are served from memory; with a content hash they are also persisted
+ * in IndexedDB and restored from there when the same model is opened again
  */
 
 import { SmartChunker } from './chunking/smart-chunker';
@@ -11,6 +12,13 @@ import { IfcEntity, IfcEntityIndex } from '@/types/bim';
 import { SmartChunk } from '@/types/chunks';
 import { LRUCache } from '@/core/chunks/lru-cache';
 import { EventBus } from '@/core/events/event-bus';
+import { smartChunkStore } from './storage/smart-chunk-store';
+
+interface ProcessOptions {
+  // Content hash of the model(s); enables restoring from and saving to the browser store
+  contentHash?: string | null;
+  name?: string;
+}
 
 interface ChunkMetadata {
   id: string;
@@ -43,22 +51,42 @@ export class InMemoryChunkSystem {
   }
   
   /**
-   * Process entities into chunks (in-memory only)
+   * Process entities into chunks, or restore them from the browser store
    */
   async processEntities(
     projectId: string,
     entities: IfcEntity[],
     entityIndex: IfcEntityIndex,
-    spatialHierarchy?: any
+    spatialHierarchy?: any,
+    options: ProcessOptions = {}
   ): Promise<{
     success: boolean;
     chunkCount: number;
     totalTokens: number;
     chunks: SmartChunk[];
+    restored: boolean;
   }> {
-    console.log(`🧩 Processing ${entities.length} entities for project ${projectId}`);
+    const { contentHash, name = projectId } = options;
     
     try {
+      // Same content as an earlier session - take its chunks instead of re-chunking
+      if (contentHash) {
+        const restored = await this.restoreProject(projectId, contentHash, entities.length);
+        if (restored) {
+          const totalTokens = this.addChunks(projectId, restored);
+          EventBus.emit('smartchunks:ready', {
+            projectId,
+            totalChunks: restored.length,
+            totalEntities: entities.length,
+            restored: true
+          });
+          console.log(`♻️ Restored ${restored.length} chunks with ${totalTokens} total tokens`);
+          return { success: true, chunkCount: restored.length, totalTokens, chunks: restored, restored: true };
+        }
+      }
+      
+      console.log(`🧩 Processing ${entities.length} entities for project ${projectId}`);
+      
       // Use Smart Chunker to create chunks
       const result = await this.smartChunker.processModel(
         projectId,
@@ -67,28 +95,14 @@ export class InMemoryChunkSystem {
       );
       
       // Store chunks in memory
-      const chunkIds: string[] = [];
-      let totalTokens = 0;
+      const totalTokens = this.addChunks(projectId, result.chunks || []);
       
-      (result.chunks || []).forEach(chunk => {
-        this.chunks.set(chunk.id, chunk);
-        this.activeCache.set(chunk.id, chunk);
-        chunkIds.push(chunk.id);
-        
-        // Store metadata separately for quick access
-        const metadata: ChunkMetadata = {
-          id: chunk.id,
-          tokenCount: chunk.tokenCount,
-          entityCount: chunk.metadata.entityCount,
-          entityTypes: chunk.metadata.entityTypes,
-          spatialContext: (chunk.metadata as any).spatialContext
-        };
-        this.chunkMetadata.set(chunk.id, metadata);
-        totalTokens += chunk.tokenCount;
-      });
-      
-      // Map project to its chunks
-      this.projectChunks.set(projectId, chunkIds);
+      // Persist in the background; chunking already succeeded
+      if (contentHash && smartChunkStore.isAvailable()) {
+        smartChunkStore.saveProject(contentHash, result, { projectId, name, entityCount: entities.length }).catch(error => {
+          console.warn('⚠️ Failed to store Smart Chunks in IndexedDB:', error);
+        });
+      }
       
       // Emit event
       EventBus.emit('smartchunks:ready', {
@@ -103,7 +117,8 @@ export class InMemoryChunkSystem {
         success: true,
         chunkCount: result.chunks.length,
         totalTokens,
-        chunks: result.chunks
+        chunks: result.chunks,
+        restored: false
       };
       
     } catch (error) {
@@ -112,11 +127,66 @@ export class InMemoryChunkSystem {
         success: false,
         chunkCount: 0,
         totalTokens: 0,
-        chunks: []
+        chunks: [],
+        restored: false
       };
     }
   }
   
+  /**
+   * Stored chunks for the content hash, moved to projectId; null if there are none
+   * or they were built from a different entity count
+   */
+  private async restoreProject(
+    projectId: string,
+    contentHash: string,
+    entityCount: number
+  ): Promise<SmartChunk[] | null> {
+    if (!smartChunkStore.isAvailable()) return null;
+    
+    try {
+      const stored = await smartChunkStore.loadProject(contentHash);
+      if (!stored || stored.chunks.length === 0) return null;
+      if (stored.project.totalEntities !== entityCount) {
+        console.log(`🔄 Stored chunks of ${stored.project.name} are outdated, re-chunking`);
+        return null;
+      }
+      return stored.chunks.map(chunk => ({ ...chunk, projectId }));
+    } catch (error) {
+      console.warn('⚠️ Failed to read Smart Chunks from IndexedDB:', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Add chunks to memory and map them to the project; returns their token sum
+   */
+  private addChunks(projectId: string, chunks: SmartChunk[]): number {
+    const chunkIds: string[] = [];
+    let totalTokens = 0;
+    
+    chunks.forEach(chunk => {
+      this.chunks.set(chunk.id, chunk);
+      this.activeCache.set(chunk.id, chunk);
+      chunkIds.push(chunk.id);
+      
+      // Store metadata separately for quick access
+      const metadata: ChunkMetadata = {
+        id: chunk.id,
+        tokenCount: chunk.tokenCount,
+        entityCount: chunk.metadata.entityCount,
+        entityTypes: chunk.metadata.entityTypes,
+        spatialContext: (chunk.metadata as any).spatialContext
+      };
+      this.chunkMetadata.set(chunk.id, metadata);
+      totalTokens += chunk.tokenCount;
+    });
+    
+    // Map project to its chunks
+    this.projectChunks.set(projectId, chunkIds);
+    return totalTokens;
+  }
+  
   /**
    * Get chunks relevant to a query
    */
@@ -6,9 +6,11 @@
 import { SmartChunk, ChunkSelectionResult, ProjectManifest, DirectSelectionParams, IndexCollection, ChunkSelectionMetrics } from '@/types/chunks';
 import { FileStore } from '../storage/file-store';
 import { CacheManager } from '../storage/cache-manager';
-import { RelevanceScorer } from './relevance-scorer';
+import { RelevanceScorer, defaultScoringWeights } from './relevance-scorer';
 import { TokenBudgetManager } from './token-budget-manager';
 import { ContextAssembler } from './context-assembler';
+import type { ContextSelectorOptions } from './context-selector';
+import { VectorIndex } from '../embeddings';
 import { RankedChunk } from '@/types/selection';
 
 export class SimplifiedContextSelector {
@@ -16,14 +18,25 @@ export class SimplifiedContextSelector {
   private budgetManager: TokenBudgetManager;
   private contextAssembler: ContextAssembler;
   private cache: CacheManager;
+  private vectorIndex: VectorIndex | null;
+  private vectorWeight: number;
   
-  constructor(private fileStore: FileStore) {
-    this.relevanceScorer = new RelevanceScorer();
+  constructor(private fileStore: FileStore, options: ContextSelectorOptions = {}) {
+    this.relevanceScorer = new RelevanceScorer(options.weights);
+    this.vectorIndex = options.embeddingProvider ? new VectorIndex(fileStore, options.embeddingProvider) : null;
+    this.vectorWeight = options.weights?.vectorSimilarity ?? defaultScoringWeights.vectorSimilarity;
     this.budgetManager = new TokenBudgetManager();
     this.contextAssembler = new ContextAssembler();
     this.cache = new CacheManager(100, 5 * 60 * 1000, 50); // 100 items, 5 min TTL, 50MB
   }
   
+  /**
+   * Forget cached selections of a project after it was changed or deleted
+   */
+  invalidateProject(projectId: string): void {
+    this.cache.invalidateProject(projectId);
+  }
+  
   /**
    * Select relevant chunks based on direct parameters
    */
@@ -57,17 +70,23 @@ export class SimplifiedContextSelector {
       // 3. Get candidate chunks using indices
       const candidateIds = await this.getCandidateChunks(indices, params, manifest);
       
+      // 3b. Semantic similarity to the keywords (tool calls often paraphrase the model terms)
+      const vectorScores = this.vectorIndex && params.keywords?.length
+        ? await this.vectorIndex.score(projectId, [...params.keywords, ...(params.spatialTerms || [])].join(' '))
+        : new Map<string, number>();
+      
       // 4. Load and rank chunks progressively
       const { candidates, rankedChunks } = await this.progressiveChunkLoading(
         projectId,
         candidateIds,
         params,
-        maxTokens
+        maxTokens,
+        vectorScores
       );
       
       // 5. Apply token budget management
       const confidence = this.calculateConfidence(params);
-      const budget = this.budgetManager.allocateBudget(maxTokens, confidence);
+      const budget = this.budgetManager.allocateBudget(maxTokens, confidence, params.remainingBudget);
       const selectedChunks = this.budgetManager.selectWithinBudget(rankedChunks, budget);
       
       // 6. Calculate metrics
@@ -240,7 +259,8 @@ export class SimplifiedContextSelector {
     projectId: string,
     candidateIds: string[],
     params: DirectSelectionParams,
-    maxTokens: number
+    maxTokens: number,
+    vectorScores: Map<string, number>
   ): Promise<{ candidates: SmartChunk[], rankedChunks: RankedChunk[] }> {
     const batchSize = 50;
     const candidates: SmartChunk[] = [];
@@ -255,7 +275,7 @@ export class SimplifiedContextSelector {
       candidates.push(...batchChunks);
       
       // Score batch based on params
-      const batchRanked = this.rankChunksSimple(batchChunks, params);
+      const batchRanked = this.rankChunksSimple(batchChunks, params, vectorScores);
       rankedChunks.push(...batchRanked);
       
       // Re-sort all ranked chunks
@@ -280,7 +300,11 @@ export class SimplifiedContextSelector {
   /**
    * Simple ranking based on direct parameters
    */
-  private rankChunksSimple(chunks: SmartChunk[], params: DirectSelectionParams): RankedChunk[] {
+  private rankChunksSimple(
+    chunks: SmartChunk[],
+    params: DirectSelectionParams,
+    vectorScores: Map<string, number>
+  ): RankedChunk[] {
     return chunks.map(chunk => {
       let score = 0.5; // Base score
       
@@ -321,6 +345,12 @@ export class SimplifiedContextSelector {
         score += (matchingKeywords.length / params.keywords.length) * 0.2;
       }
       
+      // Semantic match of the keywords
+      const vectorSimilarity = vectorScores.get(chunk.id);
+      if (vectorSimilarity !== undefined) {
+        score += vectorSimilarity * this.vectorWeight;
+      }
+      
       return {
         chunk,
         score: Math.min(score, 1.0),
@@ -329,7 +359,8 @@ export class SimplifiedContextSelector {
           entityMatch: Math.min(1, entityMatchFactor),
           spatialRelevance: Math.min(1, spatialFactor),
           recency: recencyFactor,
-          typeAlignment: Math.min(1, typeAlignmentFactor)
+          typeAlignment: Math.min(1, typeAlignmentFactor),
+          vectorSimilarity
         }
       };
     });
@@ -6,14 +6,25 @@ import { SmartChunk, QueryContext, ChunkSelectionResult, ProjectManifest } from
 import { FileStore } from '../storage/file-store';
 import { CacheManager } from '../storage/cache-manager';
 import { QueryAnalyzer } from './query-analyzer';
-import { QueryIntent, RankedChunk, BudgetAllocation } from '@/types/selection';
+import { QueryIntent, RankedChunk, BudgetAllocation, ScoringWeights } from '@/types/selection';
 import { RelevanceScorer } from './relevance-scorer';
+import { EmbeddingProvider, VectorIndex } from '../embeddings';
 import { TokenBudgetManager } from './token-budget-manager';
 import { IndexQueryOptimizer } from './index-query-optimizer';
 import { ContextAssembler } from './context-assembler';
 
 import { IndexCollection, ChunkSelectionMetrics } from '@/types/selection';
 
+export interface ContextSelectorOptions {
+  // Enables hybrid keyword+vector ranking
+  embeddingProvider?: EmbeddingProvider | null;
+  weights?: Partial<ScoringWeights>;
+}
+
+// Vector hits that become candidates even if no index matched them
+const VECTOR_CANDIDATES = 5;
+const VECTOR_CANDIDATE_MIN_SIMILARITY = 0.2;
+
 export class ContextSelector {
   private queryAnalyzer: QueryAnalyzer;
   private relevanceScorer: RelevanceScorer;
@@ -21,10 +32,12 @@ export class ContextSelector {
   private queryOptimizer: IndexQueryOptimizer;
   private contextAssembler: ContextAssembler;
   private cache: CacheManager;
+  private vectorIndex: VectorIndex | null;
   
-  constructor(private fileStore: FileStore) {
+  constructor(private fileStore: FileStore, options: ContextSelectorOptions = {}) {
     this.queryAnalyzer = new QueryAnalyzer();
-    this.relevanceScorer = new RelevanceScorer();
+    this.relevanceScorer = new RelevanceScorer(options.weights);
+    this.vectorIndex = options.embeddingProvider ? new VectorIndex(fileStore, options.embeddingProvider) : null;
     this.budgetManager = new TokenBudgetManager();
     this.queryOptimizer = new IndexQueryOptimizer();
     this.contextAssembler = new ContextAssembler();
@@ -32,32 +45,42 @@ export class ContextSelector {
   }
   
   /**
-   * Select relevant chunks for a query with advanced features and caching
+   * Select relevant chunks for a query with advanced features and caching;
+   * remainingBudget are the tokens left in the caller's session budget
    */
   async selectChunks(
     projectId: string,
     query: string,
-    maxTokens: number = 4000
+    maxTokens: number = 4000,
+    remainingBudget: number = Infinity
   ): Promise<ChunkSelectionResult> {
     const startTime = Date.now();
     
-    // Try cache first
+    // Try cache first; the selection depends on the limits as well
     const cached = await this.cache.cacheQuery(
       projectId,
-      query,
-      async () => this.selectChunksInternal(projectId, query, maxTokens)
+      `${query}\u0000${maxTokens}\u0000${remainingBudget}`,
+      async () => this.selectChunksInternal(projectId, query, maxTokens, remainingBudget)
     );
     
     return cached;
   }
   
+  /**
+   * Forget cached selections of a project after it was changed or deleted
+   */
+  invalidateProject(projectId: string): void {
+    this.cache.invalidateProject(projectId);
+  }
+  
   /**
    * Internal chunk selection with performance optimizations
    */
   private async selectChunksInternal(
     projectId: string,
     query: string,
-    maxTokens: number
+    maxTokens: number,
+    remainingBudget: number
   ): Promise<ChunkSelectionResult> {
     const startTime = Date.now();
     
@@ -81,18 +104,25 @@ export class ContextSelector {
     const indices = await this.loadRelevantIndicesOptimized(projectId, intent, queryPlan);
     
     // 5. Get candidate chunks using optimized strategy
-    const candidateIds = await this.getCandidateChunks(indices, intent, manifest);
+    const indexCandidateIds = await this.getCandidateChunks(indices, intent, manifest);
+    
+    // 5b. Semantic similarity, top hits join the candidates
+    const vectorScores = this.vectorIndex
+      ? await this.vectorIndex.score(projectId, query)
+      : new Map<string, number>();
+    const candidateIds = this.addVectorCandidates(indexCandidateIds, vectorScores);
     
     // 6. Progressive chunk loading with early termination
     const { candidates, rankedChunks } = await this.progressiveChunkLoading(
       projectId,
       candidateIds,
       intent,
-      maxTokens
+      maxTokens,
+      vectorScores
     );
     
     // 6. Apply token budget management
-    const budget = this.budgetManager.allocateBudget(maxTokens, intent.confidence);
+    const budget = this.budgetManager.allocateBudget(maxTokens, intent.confidence, remainingBudget);
     const selectedChunks = this.budgetManager.selectWithinBudget(rankedChunks, budget);
     
     // 7. Calculate metrics
@@ -138,7 +168,8 @@ export class ContextSelector {
     projectId: string,
     candidateIds: string[],
     intent: QueryIntent,
-    maxTokens: number
+    maxTokens: number,
+    vectorScores?: Map<string, number>
   ): Promise<{ candidates: SmartChunk[], rankedChunks: RankedChunk[] }> {
     const batchSize = 50;
     const candidates: SmartChunk[] = [];
@@ -154,7 +185,7 @@ export class ContextSelector {
       candidates.push(...batchChunks);
       
       // Score batch
-      const batchRanked = this.relevanceScorer.rankChunks(batchChunks, intent);
+      const batchRanked = this.relevanceScorer.rankChunks(batchChunks, intent, vectorScores);
       rankedChunks.push(...batchRanked);
       
       // Re-sort all ranked chunks
@@ -362,6 +393,19 @@ export class ContextSelector {
     }
   }
   
+  /**
+   * Put the most similar chunks in front, so paraphrased queries find them without index match
+   */
+  private addVectorCandidates(candidateIds: string[], vectorScores: Map<string, number>): string[] {
+    const vectorHits = Array.from(vectorScores.entries())
+      .filter(([, similarity]) => similarity >= VECTOR_CANDIDATE_MIN_SIMILARITY)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, VECTOR_CANDIDATES)
+      .map(([chunkId]) => chunkId);
+    
+    return Array.from(new Set([...vectorHits, ...candidateIds]));
+  }
+  
   /**
    * Find potentially relevant chunks using indices (backward compatibility)
    */
@@ -7,17 +7,24 @@ import { QueryIntent } from '@/types/selection';
 
 import { ScoringFactors, ScoringWeights, RankedChunk } from '@/types/selection';
 
-const defaultWeights: ScoringWeights = {
-  textMatch: 0.3,
-  entityMatch: 0.3,
-  spatialRelevance: 0.2,
+// Hybrid ranking: keyword factors plus embedding similarity (if the project has a vector index)
+export const defaultScoringWeights: ScoringWeights = {
+  textMatch: 0.2,
+  entityMatch: 0.25,
+  spatialRelevance: 0.15,
   recency: 0.05,
-  typeAlignment: 0.15
+  typeAlignment: 0.1,
+  vectorSimilarity: 0.25
 };
 
 export class RelevanceScorer {
   private documentFrequency: Map<string, number> = new Map();
   private totalDocuments: number = 0;
+  private weights: ScoringWeights;
+  
+  constructor(weights: Partial<ScoringWeights> = {}) {
+    this.weights = { ...defaultScoringWeights, ...weights };
+  }
   
   /**
    * Initialize scorer with document statistics
@@ -39,9 +46,10 @@ export class RelevanceScorer {
   scoreChunk(
     chunk: SmartChunk,
     queryIntent: QueryIntent,
-    weights: ScoringWeights = defaultWeights
+    vectorScores?: Map<string, number>,
+    weights: ScoringWeights = this.weights
   ): number {
-    const factors = this.calculateFactors(chunk, queryIntent);
+    const factors = this.calculateFactors(chunk, queryIntent, vectorScores);
     return this.weightedSum(factors, weights);
   }
   
@@ -51,10 +59,11 @@ export class RelevanceScorer {
   rankChunks(
     chunks: SmartChunk[],
     queryIntent: QueryIntent,
-    weights: ScoringWeights = defaultWeights
+    vectorScores?: Map<string, number>,
+    weights: ScoringWeights = this.weights
   ): RankedChunk[] {
     const ranked = chunks.map(chunk => {
-      const factors = this.calculateFactors(chunk, queryIntent);
+      const factors = this.calculateFactors(chunk, queryIntent, vectorScores);
       const score = this.weightedSum(factors, weights);
       
       return {
@@ -71,13 +80,18 @@ export class RelevanceScorer {
   /**
    * Calculate all scoring factors for a chunk
    */
-  private calculateFactors(chunk: SmartChunk, queryIntent: QueryIntent): ScoringFactors {
+  private calculateFactors(
+    chunk: SmartChunk,
+    queryIntent: QueryIntent,
+    vectorScores?: Map<string, number>
+  ): ScoringFactors {
     return {
       textMatch: this.calculateTextMatch(chunk, queryIntent.keywords),
       entityMatch: this.calculateEntityMatch(chunk, queryIntent.entityTypes),
       spatialRelevance: this.calculateSpatialRelevance(chunk, queryIntent.spatialTerms),
       recency: this.calculateRecency(chunk),
-      typeAlignment: this.calculateTypeAlignment(chunk, queryIntent.type)
+      typeAlignment: this.calculateTypeAlignment(chunk, queryIntent.type),
+      vectorSimilarity: vectorScores?.get(chunk.id)
     };
   }
   
@@ -226,13 +240,14 @@ export class RelevanceScorer {
   }
   
   /**
-   * Calculate weighted sum of factors
+   * Calculate weighted sum of factors (unset factors don't count)
    */
   private weightedSum(factors: ScoringFactors, weights: ScoringWeights): number {
     let sum = 0;
     let totalWeight = 0;
     
     Object.entries(factors).forEach(([key, value]) => {
+      if (value === undefined) return;
       const weight = weights[key as keyof ScoringWeights];
       sum += value * weight;
       totalWeight += weight;
@@ -14,12 +14,21 @@ export class TokenBudgetManager {
   private readonly MAX_CHUNK_TOKENS = 2000;
   
   /**
-   * Allocate token budget based on query complexity
+   * Allocate token budget based on query complexity; remainingBudget are the tokens left in the
+   * caller's session budget (the usage is tracked in the browser, not here)
    */
   allocateBudget(
     totalLimit: number = 4000,
-    queryComplexity: number = 0.5
+    queryComplexity: number = 0.5,
+    remainingBudget: number = Infinity
   ): BudgetAllocation {
+    // Nothing to plan once the session budget is used up
+    if (remainingBudget <= 0) {
+      return { maxTokens: 0, reservedForSystem: 0, availableForContext: 0, strategy: 'greedy' };
+    }
+    // Never plan more context than the session budget still allows
+    totalLimit = Math.min(totalLimit, remainingBudget);
+    
     // Dynamic allocation based on query complexity (0-1)
     const complexityMultiplier = 1 + (queryComplexity * 0.5);
     
@@ -32,7 +41,7 @@ export class TokenBudgetManager {
     );
     
     const availableForContext = Math.max(
-      500, // Minimum context tokens
+      Math.min(500, totalLimit), // Minimum context tokens, within what is left
       totalLimit - systemNeeds - responseNeeds
     );
     
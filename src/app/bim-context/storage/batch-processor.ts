@@ -4,7 +4,7 @@
 
 import fs from 'fs-extra';
 import path from 'path';
-import { FileStore } from './file-store';
+import { FileStore, isProjectId, isStorageFileName } from './file-store';
 import { ManifestManager } from './manifest-manager';
 import { SmartChunk, ProjectManifest } from '@/types/chunks';
 import { ProjectNotFoundError, StorageError } from '@/types/api';
@@ -43,7 +43,7 @@ export class BatchProcessor {
     exportData.chunks = await this.fileStore.loadAllChunks(projectId);
     
     // Load all indices
-    const indexNames = ['byType', 'byEntityType', 'byFloor', 'bySystem', 'spatial'];
+    const indexNames = ['byType', 'byEntityType', 'byFloor', 'bySystem', 'spatial', 'vectors'];
     for (const indexName of indexNames) {
       const index = await this.fileStore.loadIndex(projectId, indexName);
       if (index) {
@@ -67,7 +67,8 @@ export class BatchProcessor {
   }
   
   /**
-   * Import project from archive
+   * Import project from archive; the project ID, chunk IDs and index names of the archive become
+   * paths, so they are checked before anything is written
    */
   async importProject(
     archiveData: Buffer,
@@ -89,6 +90,17 @@ export class BatchProcessor {
       
       const manifest = importData.manifest as ProjectManifest;
       const projectId = newProjectId || manifest.projectId;
+      if (!isProjectId(projectId)) {
+        throw new StorageError('Invalid project ID in archive', 'INVALID_ARCHIVE');
+      }
+      if (!Array.isArray(importData.chunks)
+        || !importData.chunks.every((chunk: SmartChunk) => isStorageFileName(chunk?.id))) {
+        throw new StorageError('Invalid chunk ID in archive', 'INVALID_ARCHIVE');
+      }
+      const invalidIndex = Object.keys(importData.indices ?? {}).find(indexName => !isStorageFileName(indexName));
+      if (invalidIndex !== undefined) {
+        throw new StorageError(`Invalid index name in archive: ${invalidIndex}`, 'INVALID_ARCHIVE');
+      }
       
       // Check if project already exists
       if (await this.fileStore.projectExists(projectId)) {
@@ -98,14 +110,11 @@ export class BatchProcessor {
       // Create project
       await this.fileStore.createProject(projectId, importData.metadata);
       
-      // Update manifest with new project ID if changed
-      if (projectId !== manifest.projectId) {
-        manifest.projectId = projectId;
-        // Update chunk project IDs
-        importData.chunks.forEach((chunk: SmartChunk) => {
-          chunk.projectId = projectId;
-        });
-      }
+      // Chunks are always stored under the target project, whatever the archive says
+      manifest.projectId = projectId;
+      importData.chunks.forEach((chunk: SmartChunk) => {
+        chunk.projectId = projectId;
+      });
       
       // Save chunks
       for (const chunk of importData.chunks) {
@@ -209,7 +218,8 @@ export class BatchProcessor {
       }
     );
     
-    await this.fileStore.saveManifest(mergedManifest);
+    // With indices, so the merged project can be queried like any other
+    await this.manifestManager.saveManifest(mergedManifest);
     
     return {
       projectId: targetProjectId,
@@ -98,6 +98,18 @@ export class CacheManager {
     this.cache.clear();
   }
   
+  /**
+   * Drop cached items and query results of a project
+   */
+  invalidateProject(projectId: string): void {
+    for (const key of this.cache.keys()) {
+      if (key.includes(projectId)) this.cache.delete(key);
+    }
+    for (const key of this.queryCache.keys()) {
+      if (key.startsWith(`query:${projectId}:`)) this.queryCache.delete(key);
+    }
+  }
+  
   /**
    * Invalidate cache entries by pattern
    */
@@ -6,6 +6,19 @@ import path from 'path';
 import { SmartChunk, ProjectManifest } from '@/types/chunks';
 import { getMVPConfig } from '../config';
 
+// Project IDs become directory names
+const PROJECT_ID_PATTERN = /^[A-Za-z0-9][\w.-]{0,127}$/;
+// Chunk IDs and index names become file names
+const FILE_NAME_PATTERN = /^[\w.-]{1,255}$/;
+
+export function isProjectId(projectId: unknown): projectId is string {
+  return typeof projectId === 'string' && PROJECT_ID_PATTERN.test(projectId) && !projectId.includes('..');
+}
+
+export function isStorageFileName(name: unknown): name is string {
+  return typeof name === 'string' && FILE_NAME_PATTERN.test(name) && !name.includes('..');
+}
+
 export class FileStore {
   private config = getMVPConfig();
   private fs: typeof import('fs-extra');
@@ -60,6 +60,14 @@ export class ManifestManager {
     };
   }
   
+  /**
+   * Save manifest and its indices
+   */
+  async saveManifest(manifest: ProjectManifest): Promise<void> {
+    await this.fileStore.saveManifest(manifest);
+    await this.saveIndices(manifest.projectId, manifest.index);
+  }
+  
   /**
    * Update manifest with new chunks
    */
@@ -0,0 +1,233 @@
+/**
+ * Browser storage for Smart Chunks projects
+ * Persists chunks, manifest and indices in IndexedDB, keyed by the content hash
+ * of the loaded model(s), so opening the same model again skips the chunking.
+ */
+
+import { hashContent } from '@/features/fragments';
+import { ChunkingResult, SmartChunk, StoredChunkProject, StoredChunkProjectInfo } from '@/types/chunks';
+import { EventBus } from '@/core/events/event-bus';
+import { getMVPConfig } from '../config';
+
+interface StoredChunkRecord {
+  contentHash: string;
+  chunkId: string;
+  chunk: SmartChunk;
+}
+
+/**
+ * Content hash of a federation: the model's own hash for a single model,
+ * otherwise the hash of the sorted model hashes
+ */
+export async function getProjectContentHash(modelHashes: string[]): Promise<string | null> {
+  if (modelHashes.length === 0) return null;
+  if (modelHashes.length === 1) return modelHashes[0];
+  return hashContent(new TextEncoder().encode([...modelHashes].sort().join(':')));
+}
+
+export class SmartChunkStore {
+  private dbName = 'bim-smart-chunks';
+  private projectStore = 'projects';
+  private chunkStore = 'chunks';
+  private db?: IDBDatabase;
+
+  /**
+   * Whether IndexedDB is available (not during SSR or in private modes without storage)
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Load a stored project with its chunks; null if the hash is unknown
+   */
+  async loadProject(contentHash: string): Promise<{ project: StoredChunkProject; chunks: SmartChunk[] } | null> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.projectStore, this.chunkStore], 'readwrite');
+    const projects = transaction.objectStore(this.projectStore);
+
+    const project = await this.request<StoredChunkProject | undefined>(projects.get(contentHash));
+    if (!project) return null;
+
+    const records = await this.request<StoredChunkRecord[]>(
+      transaction.objectStore(this.chunkStore).index('contentHash').getAll(contentHash)
+    );
+
+    project.lastAccessAt = Date.now();
+    projects.put(project);
+    await this.complete(transaction);
+
+    return { project, chunks: records.map(record => record.chunk) };
+  }
+
+  /**
+   * Save the chunking result of a project, replacing an earlier one with the same hash.
+   * Beyond maxProjectsPerUser the least recently used projects are evicted.
+   */
+  async saveProject(
+    contentHash: string,
+    result: ChunkingResult,
+    source: { projectId: string; name: string; entityCount: number }
+  ): Promise<StoredChunkProjectInfo> {
+    const { projectId, name } = source;
+    const db = await this.getDB();
+    const now = Date.now();
+    const project: StoredChunkProject = {
+      contentHash,
+      projectId,
+      name,
+      manifest: result.manifest,
+      index: result.manifest.index,
+      chunkCount: result.chunks.length,
+      totalTokens: result.chunks.reduce((sum, chunk) => sum + chunk.tokenCount, 0),
+      totalEntities: source.entityCount,
+      size: JSON.stringify(result.chunks).length,
+      createdAt: now,
+      lastAccessAt: now
+    };
+
+    const transaction = db.transaction([this.projectStore, this.chunkStore], 'readwrite');
+    const chunks = transaction.objectStore(this.chunkStore);
+    const oldKeys = await this.request(chunks.index('contentHash').getAllKeys(contentHash));
+    oldKeys.forEach(key => chunks.delete(key));
+
+    transaction.objectStore(this.projectStore).put(project);
+    result.chunks.forEach(chunk => {
+      const record: StoredChunkRecord = { contentHash, chunkId: chunk.id, chunk };
+      chunks.put(record);
+    });
+    await this.complete(transaction);
+
+    console.log(`💾 Stored ${project.chunkCount} chunks of ${name} (${contentHash.slice(0, 12)})`);
+    EventBus.emit('smartchunks:stored', { contentHash, projectId, chunkCount: project.chunkCount });
+
+    await this.evictBeyond(getMVPConfig().api.maxProjectsPerUser);
+    return this.toInfo(project);
+  }
+
+  /**
+   * Stored projects, most recently used first
+   */
+  async listProjects(): Promise<StoredChunkProjectInfo[]> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.projectStore], 'readonly');
+    const projects = await this.request<StoredChunkProject[]>(
+      transaction.objectStore(this.projectStore).getAll()
+    );
+    return projects
+      .map(project => this.toInfo(project))
+      .sort((a, b) => b.lastAccessAt - a.lastAccessAt);
+  }
+
+  /**
+   * Delete projects with their chunks
+   */
+  async deleteProjects(contentHashes: string[]): Promise<void> {
+    if (contentHashes.length === 0) return;
+
+    const db = await this.getDB();
+    const transaction = db.transaction([this.projectStore, this.chunkStore], 'readwrite');
+    const projects = transaction.objectStore(this.projectStore);
+    const chunks = transaction.objectStore(this.chunkStore);
+
+    for (const contentHash of contentHashes) {
+      projects.delete(contentHash);
+      const keys = await this.request(chunks.index('contentHash').getAllKeys(contentHash));
+      keys.forEach(key => chunks.delete(key));
+    }
+    await this.complete(transaction);
+
+    console.log(`🗑️ Evicted ${contentHashes.length} stored Smart Chunks project(s)`);
+    EventBus.emit('smartchunks:evicted', { contentHashes });
+  }
+
+  /**
+   * Delete projects not opened for maxAgeMs; returns the evicted hashes
+   */
+  async evictOlderThan(maxAgeMs: number): Promise<string[]> {
+    const cutoff = Date.now() - maxAgeMs;
+    const evicted = (await this.listProjects())
+      .filter(project => project.lastAccessAt < cutoff)
+      .map(project => project.contentHash);
+    await this.deleteProjects(evicted);
+    return evicted;
+  }
+
+  /**
+   * Delete all stored projects
+   */
+  async clear(): Promise<void> {
+    const evicted = (await this.listProjects()).map(project => project.contentHash);
+    await this.deleteProjects(evicted);
+  }
+
+  private async evictBeyond(maxProjects: number): Promise<void> {
+    const projects = await this.listProjects();
+    if (projects.length <= maxProjects) return;
+    await this.deleteProjects(projects.slice(maxProjects).map(project => project.contentHash));
+  }
+
+  private toInfo(project: StoredChunkProject): StoredChunkProjectInfo {
+    return {
+      contentHash: project.contentHash,
+      projectId: project.projectId,
+      name: project.name,
+      chunkCount: project.chunkCount,
+      totalTokens: project.totalTokens,
+      totalEntities: project.totalEntities,
+      size: project.size,
+      createdAt: project.createdAt,
+      lastAccessAt: project.lastAccessAt
+    };
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+  }
+
+  private async getDB(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      throw new Error('IndexedDB is not available');
+    }
+    if (!this.db) {
+      this.db = await this.openDB();
+    }
+    return this.db;
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(this.projectStore)) {
+          const store = db.createObjectStore(this.projectStore, { keyPath: 'contentHash' });
+          store.createIndex('lastAccessAt', 'lastAccessAt', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(this.chunkStore)) {
+          const store = db.createObjectStore(this.chunkStore, { keyPath: ['contentHash', 'chunkId'] });
+          store.createIndex('contentHash', 'contentHash', { unique: false });
+        }
+      };
+    });
+  }
+}
+
+// Global singleton instance
+export const smartChunkStore = new SmartChunkStore();
@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ClipboardList, Download, MessageSquare, Plus, Trash2, Upload, X } from 'lucide-react';
+import { EventBus } from '@/core/events/event-bus';
+import { getEntityStore } from '@/core/entities';
+import { SelectedEntitiesChunkManager } from '@/app/chat-tools/bim-selection-context-tool';
+import {
+  BcfFormatError,
+  bcfTopicStore,
+  captureViewpoint,
+  exportBcfArchive,
+  importBcfArchive,
+  showViewpoint
+} from '@/features/bcf';
+import { BcfTopic, BcfVersion } from '@/types/bcf';
+
+function downloadBytes(data: Uint8Array, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([new Uint8Array(data)], { type: 'application/octet-stream' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// BCF topics of the session: create from the current view and selection, comment, export and import .bcfzip
+export default function BcfPanel() {
+  const [open, setOpen] = useState(false);
+  const [topics, setTopics] = useState<BcfTopic[]>(() => bcfTopicStore.list());
+  const [title, setTitle] = useState('');
+  const [comment, setComment] = useState('');
+  const [expandedGuid, setExpandedGuid] = useState<string | null>(null);
+  const [version, setVersion] = useState<BcfVersion>('2.1');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    setTopics(bcfTopicStore.list());
+    return EventBus.on('bcf:topics:changed', () => setTopics(bcfTopicStore.list()));
+  }, []);
+
+  const handleCreate = async () => {
+    const keys = SelectedEntitiesChunkManager.getInstance().getActiveKeys();
+    const globalIds = getEntityStore().getMany(keys)
+      .map(entity => entity.globalId)
+      .filter((globalId): globalId is string => !!globalId);
+
+    const viewpoint = await captureViewpoint(globalIds);
+    const topic = bcfTopicStore.createTopic({
+      title: title.trim() || `Thema ${topics.length + 1}`,
+      viewpoints: [viewpoint]
+    });
+    setTitle('');
+    setExpandedGuid(topic.guid);
+    setMessage(globalIds.length === 0 ? 'Thema ohne Auswahl erstellt - nur Kamera und Snapshot.' : null);
+  };
+
+  const handleShow = async (topic: BcfTopic) => {
+    setExpandedGuid(topic.guid);
+    const viewpoint = topic.viewpoints[0];
+    if (!viewpoint) return;
+
+    const { missing } = await showViewpoint(viewpoint, getEntityStore());
+    setMessage(missing > 0 ? `${missing} Bauteile des Themas sind im geladenen Modell nicht vorhanden.` : null);
+  };
+
+  const handleComment = (topic: BcfTopic) => {
+    if (!comment.trim()) return;
+    bcfTopicStore.addComment(topic.guid, comment.trim(), topic.viewpoints[0]?.guid);
+    setComment('');
+  };
+
+  const handleExport = async () => {
+    const data = await exportBcfArchive({ version, topics: bcfTopicStore.list() }, version);
+    downloadBytes(data, `themen-bcf-${version}.bcfzip`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const project = await importBcfArchive(await file.arrayBuffer());
+      bcfTopicStore.importTopics(project.topics);
+      setMessage(`${project.topics.length} Themen aus BCF ${project.version} importiert.`);
+    } catch (error) {
+      setMessage(error instanceof BcfFormatError ? error.message : 'Die BCF-Datei konnte nicht gelesen werden.');
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="flex shrink-0 items-center gap-2 rounded-lg border bg-white bg-opacity-95 px-3 py-2 shadow-md pointer-events-auto text-sm text-gray-700 hover:bg-gray-50"
+        onClick={() => setOpen(true)}
+      >
+        <ClipboardList className="h-4 w-4" />
+        BCF ({topics.length})
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex min-h-0 w-80 flex-col rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="flex items-center gap-2 font-semibold text-gray-700">
+          <ClipboardList className="h-4 w-4" />
+          BCF-Themen ({topics.length})
+        </span>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-gray-700"
+          onClick={() => setOpen(false)}
+          aria-label="Schließen"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <form
+        className="flex items-center gap-2 px-3 py-2 border-b"
+        onSubmit={event => {
+          event.preventDefault();
+          void handleCreate();
+        }}
+      >
+        <input
+          className="min-w-0 flex-1 rounded border px-2 py-1 text-sm"
+          placeholder="Titel des neuen Themas"
+          value={title}
+          onChange={event => setTitle(event.target.value)}
+        />
+        <button
+          type="submit"
+          className="flex items-center gap-1 text-gray-600 hover:text-gray-900"
+          title="Thema aus aktueller Ansicht und Auswahl erstellen"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </form>
+
+      {message && (
+        <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-b text-xs text-gray-600">
+          <span>{message}</span>
+          <button type="button" onClick={() => setMessage(null)} aria-label="Hinweis schließen">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {topics.length === 0 ? (
+        <div className="px-3 py-3 text-xs text-gray-500">
+          Noch keine Themen. Auswahl treffen und Thema erstellen, oder eine .bcfzip importieren.
+        </div>
+      ) : (
+        <ul className="max-h-72 min-h-0 flex-1 overflow-y-auto py-1">
+          {topics.map(topic => (
+            <li key={topic.guid} className="px-3 py-1.5">
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="min-w-0 flex-1 text-left"
+                  onClick={() => void handleShow(topic)}
+                  title="Ansicht des Themas zeigen"
+                >
+                  <div className="truncate text-gray-800">{topic.title}</div>
+                  <div className="text-xs text-gray-500">
+                    {[topic.topicType, topic.topicStatus, topic.priority].filter(Boolean).join(' · ')}
+                    {' · '}{topic.viewpoints[0]?.selection.length ?? 0} Bauteile
+                    {topic.labels.length > 0 ? ` · ${topic.labels.join(', ')}` : ''}
+                  </div>
+                </button>
+                <span className="flex items-center gap-0.5 text-xs text-gray-400">
+                  <MessageSquare className="h-3 w-3" />
+                  {topic.comments.length}
+                </span>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-red-600"
+                  onClick={() => bcfTopicStore.remove(topic.guid)}
+                  aria-label={`${topic.title} löschen`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              {expandedGuid === topic.guid && (
+                <div className="mt-1 space-y-1 border-l pl-2 text-xs">
+                  {topic.description && <p className="text-gray-600">{topic.description}</p>}
+                  {topic.comments.map(entry => (
+                    <p key={entry.guid} className="text-gray-700">
+                      <span className="text-gray-400">{entry.author}:</span> {entry.comment}
+                    </p>
+                  ))}
+                  <form
+                    className="flex items-center gap-1"
+                    onSubmit={event => {
+                      event.preventDefault();
+                      handleComment(topic);
+                    }}
+                  >
+                    <input
+                      className="min-w-0 flex-1 rounded border px-1 py-0.5"
+                      placeholder="Kommentar"
+                      value={comment}
+                      onChange={event => setComment(event.target.value)}
+                    />
+                    <button
+                      type="button"
+                      className="text-gray-500 hover:text-gray-900"
+                      onClick={() => bcfTopicStore.update(topic.guid, {
+                        topicStatus: topic.topicStatus === 'Closed' ? 'Open' : 'Closed'
+                      })}
+                    >
+                      {topic.topicStatus === 'Closed' ? 'Öffnen' : 'Schließen'}
+                    </button>
+                  </form>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-t text-xs">
+        <select
+          className="rounded border px-1 py-0.5"
+          value={version}
+          onChange={event => setVersion(event.target.value as BcfVersion)}
+          aria-label="BCF-Version"
+        >
+          <option value="2.1">BCF 2.1</option>
+          <option value="3.0">BCF 3.0</option>
+        </select>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-gray-500 hover:text-gray-900"
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-3 w-3" />
+          Importieren
+        </button>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-gray-500 hover:text-gray-900 disabled:opacity-40"
+          onClick={() => void handleExport()}
+          disabled={topics.length === 0}
+        >
+          <Download className="h-3 w-3" />
+          Exportieren
+        </button>
+        <input ref={fileInputRef} type="file" accept=".bcfzip,.bcf,.zip" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+}
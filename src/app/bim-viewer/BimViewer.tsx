@@ -5,9 +5,19 @@ import { useViewerV3 } from './useViewerV3';
 import QueryHandler from './QueryHandler';
 import FragmentHighlighterUser from './FragmentHighlighterUser';
 import FragmentHighlighterAi from './FragmentHighlighterAi';
+import ModelListPanel from './ModelListPanel';
+import StoredProjectsPanel from './StoredProjectsPanel';
+import BcfPanel from './BcfPanel';
+import IdsPanel from './IdsPanel';
+import SpatialTreePanel from './SpatialTreePanel';
+import FragmentIsolator from './FragmentIsolator';
 
-import * as FRAGS from '@thatopen/fragments';
+import { useDropzone } from 'react-dropzone';
 import { EventBus } from '@/core/events/event-bus';
+import { modelRegistry, publishModels } from '@/core/models';
+import { loadOrConvertIfc } from '@/features/fragments';
+import { UploadProgressPanel, convertIfcInWorker, modelUploads, useModelUploads } from '@/features/upload';
+import { PropertyInspectorPanel } from '@/features/inspector';
 
 // Preset models configuration
 const PRESET_MODELS = [
@@ -19,19 +29,17 @@ const PRESET_MODELS = [
   }
 ];
 
-
-
 export interface BimViewerProps {
   // Simplified interface - no more highlighter callback needed
 }
 
 const BimViewer: React.FC<BimViewerProps> = () => {
   const viewer = useViewerV3();
-  const { containerRef, componentsRef, worldRef, fragmentsRef, currentModelRef } = viewer;
+  const { containerRef, fragmentsRef, loadFragmentFromBytes } = viewer;
   const [isInitialized, setIsInitialized] = useState(false);
   const [isModelLoaded, setIsModelLoaded] = useState(false);
   const [currentModelName, setCurrentModelName] = useState<string>('bridge');
-  const [isDragging, setIsDragging] = useState(false);
+  const { uploads, startUploads, cancel: cancelUpload, dismiss: dismissUpload } = useModelUploads();
   
   // Race condition protection - MUST be at component level
   const loadingRef = useRef<boolean>(false);
@@ -89,12 +97,12 @@ const BimViewer: React.FC<BimViewerProps> = () => {
     console.log("🎯 loadDefaultModel CALLED at", new Date().toISOString());
     console.log("🎯 Current state:", {
       isModelLoaded,
-      currentModelRef: !!viewer.currentModelRef.current,
+      loadedModels: viewer.getLoadedModelIds().length,
       loadingRef: loadingRef.current
     });
     
     // CRITICAL: Prevent React StrictMode multiple loading
-    if (isModelLoaded || viewer.currentModelRef.current || loadingRef.current) {
+    if (isModelLoaded || viewer.getLoadedModelIds().length > 0 || loadingRef.current) {
       console.log("🛑 BLOCKED: Model already loaded/loading");
       return;
     }
@@ -104,21 +112,6 @@ const BimViewer: React.FC<BimViewerProps> = () => {
     try {
       console.log("[INFO] Loading default bridge model...");
       
-      // Clear any existing model first
-      if (viewer.currentModelRef.current) {
-        try {
-          if (viewer.currentModelRef.current.object && viewer.currentModelRef.current.object.parent) {
-            viewer.worldRef.current?.scene.three.remove(viewer.currentModelRef.current.object);
-          }
-          if (typeof viewer.currentModelRef.current.dispose === 'function') {
-            viewer.currentModelRef.current.dispose();
-          }
-          viewer.currentModelRef.current = null;
-        } catch (error) {
-          console.warn("[WARNING] Error clearing existing model:", error);
-        }
-      }
-      
       // First try to load existing bridge.frag (faster)
       console.log("🔍 Fetching /models/bridge.frag...");
       const fragResponse = await fetch('/models/bridge.frag');
@@ -131,7 +124,7 @@ const BimViewer: React.FC<BimViewerProps> = () => {
       console.log("📊 Buffer size:", buffer.byteLength, "bytes");
       // Use timestamp to ensure unique model ID
       const uniqueModelId = `bridge_${Date.now()}`;
-      await viewer.loadFragmentFromBytes(buffer, uniqueModelId);
+      await viewer.loadFragmentFromBytes(buffer, uniqueModelId, PRESET_MODELS[0].name);
       console.log("✅ loadFragmentFromBytes completed for bridge model");
         setIsModelLoaded(true);
         setCurrentModelName('bridge');
@@ -146,45 +139,19 @@ const BimViewer: React.FC<BimViewerProps> = () => {
       if (ifcResponse.ok) {
         console.log("✅ Found bridge.ifc, converting to FRAG...");
         const ifcBuffer = await ifcResponse.arrayBuffer();
-        const typedArray = new Uint8Array(ifcBuffer);
         
-        // Create IFC Importer
-        const serializer = new FRAGS.IfcImporter();
-        serializer.wasm = {
-          absolute: true,
-          path: "/wasm/", // Using local wasm files
-        };
-        
-        // Convert IFC to FRAG bytes
-        console.log("🔧 Processing IFC file...");
-        const fragBytes = await serializer.process({ bytes: typedArray, raw: true });
-        console.log("✅ IFC converted to FRAG bytes, size:", fragBytes.byteLength);
+        // Converted once in a worker, then served from the fragment cache on every reload
+        const { buffer: arrayBuffer } = await loadOrConvertIfc(
+          ifcBuffer,
+          'bridge',
+          ifcBytes => convertIfcInWorker(ifcBytes, { fileName: 'bridge.ifc' })
+        );
         
         // Load the converted FRAG
         const uniqueModelId = `bridge_${Date.now()}`;
-        const arrayBuffer = fragBytes.buffer.slice(fragBytes.byteOffset, fragBytes.byteOffset + fragBytes.byteLength) as ArrayBuffer;
-        await viewer.loadFragmentFromBytes(arrayBuffer, uniqueModelId);
+        await viewer.loadFragmentFromBytes(arrayBuffer, uniqueModelId, PRESET_MODELS[0].name);
         console.log("✅ FRAG loaded successfully");
         
-        // Optional: Save the FRAG file for future use
-        try {
-          const saveResponse = await fetch('/api/save-fragment', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              filename: 'bridge.frag',
-              data: Array.from(fragBytes)
-            })
-          });
-          if (saveResponse.ok) {
-            console.log("💾 bridge.frag saved for future use");
-          }
-        } catch (error) {
-          console.warn("Could not save FRAG file:", error);
-        }
-        
         setIsModelLoaded(true);
         setCurrentModelName('bridge');
       } else {
@@ -198,29 +165,61 @@ const BimViewer: React.FC<BimViewerProps> = () => {
     }
   };
 
-  // Drag and Drop handlers
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragging(true);
-  };
+  // Uploads are validated and converted by the upload pipeline; its result is added to the federation
+  useEffect(() => {
+    const unsubscribe = EventBus.on('file:uploaded', async ({ uploadId, fileName, modelName, fragBytes }) => {
+      try {
+        console.log(`[INFO] Loading uploaded model: ${fileName}`);
+        console.log("📊 Buffer size:", fragBytes.byteLength, "bytes");
+        // Use timestamp to ensure unique model ID
+        const uniqueModelId = `${modelName}_${Date.now()}`;
+        // Entity extraction and Smart Chunks are triggered by fragment:loaded
+        await loadFragmentFromBytes(fragBytes, uniqueModelId, modelName);
+        console.log("✅ loadFragmentFromBytes completed for uploaded file");
+        setCurrentModelName(modelName);
+        setIsModelLoaded(true);
+        modelUploads.loaded(uploadId);
+      } catch (error) {
+        console.error(`[ERROR] Failed to load uploaded file ${fileName}:`, error);
+        modelUploads.loadFailed(uploadId, error);
+      }
+    });
+    return () => {
+      unsubscribe();
+      modelUploads.cancelAll();
+    };
+  }, [loadFragmentFromBytes]);
+
+  // Dropped models are added to the loaded ones (e.g. architecture + structure + MEP)
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop: files => startUploads(files),
+    noClick: true,
+    noKeyboard: true
+  });
 
-  const handleDragLeave = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragging(false);
+  const handleToggleModel = (modelId: string, visible: boolean) => {
+    viewer.setModelVisible(modelId, visible).catch(error => {
+      console.error(`[ERROR] Failed to toggle model ${modelId}:`, error);
+    });
   };
 
-  const handleDrop = async (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setIsDragging(false);
+  const handleRemoveModel = (modelId: string) => {
+    viewer.unloadModel(modelId).catch(error => {
+      console.error(`[ERROR] Failed to remove model ${modelId}:`, error);
+    });
+  };
 
-    // Reset app state so LLM/context uses the new model only
+  // Unload all models and reset app state so LLM/context start from scratch
+  const handleRemoveAllModels = async () => {
     try {
       // Clear highlights (selection equals current highlights)
-      EventBus.emit('user:highlight', { expressIds: [] } as any);
-      EventBus.emit('ai:highlight', { expressIds: [] } as any);
+      EventBus.emit('user:highlight', { keys: [] });
+      EventBus.emit('ai:highlight', { keys: [] });
+
+      for (const modelId of viewer.getLoadedModelIds()) {
+        await fragmentsRef.current?.disposeModel(modelId);
+      }
+      modelRegistry.clear();
 
       // Clear Smart Chunks memory for previous project
       const win: any = window as any;
@@ -232,63 +231,11 @@ const BimViewer: React.FC<BimViewerProps> = () => {
       win.__bimData = { loaded: false };
       win.__smartChunksProjectId = undefined;
       // Notify listeners (QueryHandler etc.)
-      EventBus.emit('model:clear', {} as any);
-    } catch {}
-
-    const files = Array.from(e.dataTransfer.files);
-    const ifcFile = files.find(file => 
-      file.name.toLowerCase().endsWith('.ifc') || 
-      file.name.toLowerCase().endsWith('.frag')
-    );
-
-    if (!ifcFile) {
-      console.error("[ERROR] Please drop an IFC or FRAG file");
-      return;
-    }
-
-    try {
-      if (ifcFile.name.toLowerCase().endsWith('.frag')) {
-        console.log(`[INFO] Loading dropped FRAG file: ${ifcFile.name}`);
-        const buffer = await ifcFile.arrayBuffer();
-        console.log("📥 Calling loadFragmentFromBytes for dropped file...");
-        console.log("📊 Buffer size:", buffer.byteLength, "bytes");
-        // Use timestamp to ensure unique model ID
-        const uniqueModelId = `${ifcFile.name.replace('.frag', '')}_${Date.now()}`;
-        await viewer.loadFragmentFromBytes(buffer, uniqueModelId);
-        // Trigger entity extraction and Smart Chunks for new model
-        EventBus.emit('fragment:loaded', {
-          fragment: viewer.currentModelRef.current,
-          expressIds: []
-        });
-        console.log("✅ loadFragmentFromBytes completed for dropped file");
-        setCurrentModelName(ifcFile.name.replace('.frag', ''));
-        setIsModelLoaded(true);
-      } else if (ifcFile.name.toLowerCase().endsWith('.ifc')) {
-        console.log(`[INFO] Loading dropped IFC file: ${ifcFile.name}`);
-        const ifcBuffer = await ifcFile.arrayBuffer();
-        const typedArray = new Uint8Array(ifcBuffer);
-        
-        // Convert IFC -> FRAG using local wasm 
-        const importer = new FRAGS.IfcImporter();
-        importer.wasm = { absolute: true, path: '/wasm/' };
-        console.log('🔧 Converting IFC to FRAG bytes...');
-        const fragBytes = await importer.process({ bytes: typedArray, raw: true });
-        console.log('✅ IFC converted, size:', fragBytes.byteLength);
-        
-        const uniqueModelId = `${ifcFile.name.replace('.ifc', '')}_${Date.now()}`;
-        const arrayBuffer2 = fragBytes.buffer.slice(fragBytes.byteOffset, fragBytes.byteOffset + fragBytes.byteLength) as ArrayBuffer;
-        await viewer.loadFragmentFromBytes(arrayBuffer2, uniqueModelId);
-        // Trigger entity extraction and Smart Chunks for new model
-        EventBus.emit('fragment:loaded', {
-          fragment: viewer.currentModelRef.current,
-          expressIds: []
-        });
-        console.log('✅ FRAG loaded from converted IFC');
-        setCurrentModelName(ifcFile.name.replace('.ifc', ''));
-        setIsModelLoaded(true);
-      }
+      EventBus.emit('model:clear', undefined);
+      publishModels();
+      setIsModelLoaded(false);
     } catch (error) {
-      console.error("[ERROR] Failed to load dropped file:", error);
+      console.error("[ERROR] Failed to remove models:", error);
     }
   };
 
@@ -308,7 +255,7 @@ const BimViewer: React.FC<BimViewerProps> = () => {
         console.log("📊 Buffer size:", buffer.byteLength, "bytes");
         // Use timestamp to ensure unique model ID
         const uniqueModelId = `${modelName}_${Date.now()}`;
-        await viewer.loadFragmentFromBytes(buffer, uniqueModelId);
+        await viewer.loadFragmentFromBytes(buffer, uniqueModelId, modelName);
         console.log("✅ loadFragmentFromBytes completed for preset model");
         setIsModelLoaded(true);
         setCurrentModelName(modelName);
@@ -323,11 +270,9 @@ const BimViewer: React.FC<BimViewerProps> = () => {
 
   return (
     <div 
-      className="bimViewerContainer h-full pointer-events-auto relative z-0"
-      onDragOver={handleDragOver}
-      onDragLeave={handleDragLeave}
-      onDrop={handleDrop}
+      {...getRootProps({ className: "bimViewerContainer h-full pointer-events-auto relative z-0" })}
     >
+          <input {...getInputProps()} />
           {/* Viewer canvas */}
           <div 
             ref={containerRef} 
@@ -337,7 +282,7 @@ const BimViewer: React.FC<BimViewerProps> = () => {
       {/* Simplified QueryHandler for model events */}
       {isInitialized && (
         <QueryHandler
-          viewer={{ currentModelRef: viewer.currentModelRef }}
+          viewer={{ fragmentsRef: viewer.fragmentsRef }}
           isInitialized={isInitialized}
           modelName={currentModelName}
         />
@@ -348,14 +293,52 @@ const BimViewer: React.FC<BimViewerProps> = () => {
         <>
           <FragmentHighlighterUser fragments={fragmentsRef.current} />
           <FragmentHighlighterAi fragments={fragmentsRef.current} />
+          <FragmentIsolator fragments={fragmentsRef.current} />
         </>
       )}
       
-      {/* Model selector removed - bridge model loads automatically */}
+      {/* Loaded models of the federation - bridge model loads automatically */}
+      {isInitialized && (
+        <ModelListPanel
+          onToggleVisibility={handleToggleModel}
+          onRemove={handleRemoveModel}
+          onRemoveAll={handleRemoveAllModels}
+        />
+      )}
+      
+      {/* Top right column: the inspector shrinks below the stored projects */}
+      {isInitialized && (
+        <div className="absolute top-3 right-3 z-10 flex h-[65%] flex-col items-end gap-2 pointer-events-none">
+          {/* Smart Chunks projects persisted in IndexedDB */}
+          <StoredProjectsPanel />
+
+          {/* Attributes, properties and relationships of the selected entities */}
+          <PropertyInspectorPanel />
+        </div>
+      )}
+
+      {/* Bottom right column: IDS above BCF, open lists shrink to stay below the inspector */}
+      {isInitialized && (
+        <div className="absolute bottom-3 right-3 z-10 flex h-[30%] flex-col items-end justify-end gap-2 pointer-events-none">
+          {/* IDS check against information requirements */}
+          <IdsPanel />
+
+          {/* BCF issues of the session, import and export as .bcfzip */}
+          <BcfPanel />
+        </div>
+      )}
+
+      {/* Bottom left column: the structure tree shrinks to keep the uploads below it visible */}
+      <div className="absolute bottom-3 left-3 z-10 flex h-[60%] flex-col items-start justify-end gap-2 pointer-events-none">
+        {/* Spatial structure: select and isolate storeys, spaces and elements */}
+        {isInitialized && <SpatialTreePanel />}
 
+        {/* Uploads with progress and cancellation */}
+        <UploadProgressPanel uploads={uploads} onCancel={cancelUpload} onDismiss={dismissUpload} />
+      </div>
       
       {/* Drag and Drop overlay */}
-      {isDragging && (
+      {isDragActive && (
         <div className="absolute inset-0 bg-blue-500 bg-opacity-20 border-4 border-dashed border-blue-500 flex items-center justify-center z-25 pointer-events-none">
           <div className="bg-white p-6 rounded-lg shadow-lg pointer-events-none">
             <p className="text-xl font-semibold text-blue-600">Drop IFC or FRAG file here</p>
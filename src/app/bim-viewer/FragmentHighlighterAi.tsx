@@ -5,14 +5,16 @@ import { EventBus } from '@/core/events/event-bus';
 import * as FRAGS from '@thatopen/fragments';
 import * as THREE from 'three';
 import { getCSSVariable } from '@/utils/css-variables';
+import { groupKeysByModel } from '@/core/entities/entity-key';
 
 interface FragmentHighlighterAiProps {
   fragments: FRAGS.FragmentsModels | null;
 }
 
 export default function FragmentHighlighterAi({ fragments }: FragmentHighlighterAiProps) {
-  const aiIdsRef = useRef<Set<number>>(new Set());
-  const prevAiIdsRef = useRef<Set<number>>(new Set());
+  // Local IDs per model id, from the model-scoped keys of the event
+  const aiIdsRef = useRef<Map<string, number[]>>(new Map());
+  const prevAiIdsRef = useRef<Map<string, number[]>>(new Map());
 
   const aiMaterialRef = useRef<FRAGS.MaterialDefinition>({
     color: new THREE.Color((typeof window !== 'undefined' ? getCSSVariable('--color-info').trim() : '') || '#60a5fa'),
@@ -27,8 +29,8 @@ export default function FragmentHighlighterAi({ fragments }: FragmentHighlighter
     const applyAiHighlights = async () => {
       const models = [...fragments.models.list.values()];
       for (const model of models) {
-        const prev = Array.from(prevAiIdsRef.current);
-        const next = Array.from(aiIdsRef.current);
+        const prev = prevAiIdsRef.current.get(model.modelId) ?? [];
+        const next = aiIdsRef.current.get(model.modelId) ?? [];
         if (prev.length > 0) {
           await model.resetHighlight(prev);
         }
@@ -36,16 +38,16 @@ export default function FragmentHighlighterAi({ fragments }: FragmentHighlighter
           await model.highlight(next, aiMaterialRef.current);
         }
       }
-      prevAiIdsRef.current = new Set(aiIdsRef.current);
+      prevAiIdsRef.current = aiIdsRef.current;
       await fragments.update(true);
     };
 
-    const handleAI = async (data: { expressIds: number[] }) => {
-      aiIdsRef.current = new Set(data?.expressIds || []);
+    const handleAI = async (data: { keys: string[] }) => {
+      aiIdsRef.current = groupKeysByModel(data?.keys || []);
       await applyAiHighlights();
     };
 
-    const unsubAI = EventBus.on('ai:highlight' as any, handleAI);
+    const unsubAI = EventBus.on('ai:highlight', handleAI);
     return () => { unsubAI(); };
   }, [fragments]);
 
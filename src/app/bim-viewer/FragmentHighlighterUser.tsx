@@ -5,14 +5,16 @@ import { EventBus } from '@/core/events/event-bus';
 import * as FRAGS from '@thatopen/fragments';
 import * as THREE from 'three';
 import { getCSSVariable } from '@/utils/css-variables';
+import { groupKeysByModel } from '@/core/entities/entity-key';
 
 interface FragmentHighlighterUserProps {
   fragments: FRAGS.FragmentsModels | null;
 }
 
 export default function FragmentHighlighterUser({ fragments }: FragmentHighlighterUserProps) {
-  const selectedIdsRef = useRef<Set<number>>(new Set());
-  const prevSelectedIdsRef = useRef<Set<number>>(new Set());
+  // Local IDs per model id, from the model-scoped keys of the event
+  const selectedIdsRef = useRef<Map<string, number[]>>(new Map());
+  const prevSelectedIdsRef = useRef<Map<string, number[]>>(new Map());
 
   const userMaterialRef = useRef<FRAGS.MaterialDefinition>({
     color: new THREE.Color((typeof window !== 'undefined' ? getCSSVariable('--bim-highlight').trim() : '') || '#FFD700'),
@@ -28,9 +30,9 @@ export default function FragmentHighlighterUser({ fragments }: FragmentHighlight
 
     const applyUserHighlights = async () => {
       const models = [...fragments.models.list.values()];
-      const prev = Array.from(prevSelectedIdsRef.current);
-      const next = Array.from(selectedIdsRef.current);
       for (const model of models) {
+        const prev = prevSelectedIdsRef.current.get(model.modelId) ?? [];
+        const next = selectedIdsRef.current.get(model.modelId) ?? [];
         if (prev.length > 0) {
           await model.resetHighlight(prev);
         }
@@ -38,16 +40,16 @@ export default function FragmentHighlighterUser({ fragments }: FragmentHighlight
           await model.highlight(next, userMaterialRef.current);
         }
       }
-      prevSelectedIdsRef.current = new Set(selectedIdsRef.current);
+      prevSelectedIdsRef.current = selectedIdsRef.current;
       await fragments.update(true);
     };
 
-    const handleUser = async (data: { expressIds: number[] }) => {
-      selectedIdsRef.current = new Set(data?.expressIds || []);
+    const handleUser = async (data: { keys: string[] }) => {
+      selectedIdsRef.current = groupKeysByModel(data?.keys || []);
       await applyUserHighlights();
     };
 
-    const unsubUser = EventBus.on('user:highlight' as any, handleUser);
+    const unsubUser = EventBus.on('user:highlight', handleUser);
     return () => { unsubUser(); };
   }, [fragments]);
 
@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect } from 'react';
+import { EventBus } from '@/core/events/event-bus';
+import * as FRAGS from '@thatopen/fragments';
+import { groupKeysByModel } from '@/core/entities/entity-key';
+
+interface FragmentIsolatorProps {
+  fragments: FRAGS.FragmentsModels | null;
+}
+
+// Item visibility for viewer:isolate; model visibility (model list) is separate and stays as it is
+export default function FragmentIsolator({ fragments }: FragmentIsolatorProps) {
+  useEffect(() => {
+    if (!fragments) return;
+
+    const handleIsolate = async ({ keys }: { keys: string[] }) => {
+      const idsByModel = groupKeysByModel(keys);
+      for (const model of fragments.models.list.values()) {
+        await model.resetVisible();
+        if (keys.length === 0) continue;
+        const ids = idsByModel.get(model.modelId) ?? [];
+        await model.setVisible(undefined, false);
+        if (ids.length > 0) {
+          await model.setVisible(ids, true);
+        }
+      }
+      await fragments.update(true);
+    };
+
+    const unsubscribe = EventBus.on('viewer:isolate', handleIsolate);
+    return () => { unsubscribe(); };
+  }, [fragments]);
+
+  return null;
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, FileCheck, MinusCircle, Play, Trash2, Upload, X, XCircle } from 'lucide-react';
+import { EventBus } from '@/core/events/event-bus';
+import { getEntityStore } from '@/core/entities';
+import { IdsFormatError, idsDocumentStore, parseIds } from '@/features/ids';
+import { IdsDocument, IdsReport, IdsSpecificationResult } from '@/types/ids';
+
+// Failing entities listed per expanded specification
+const MAX_LISTED_FAILURES = 10;
+
+// IDS check of the loaded models: load .ids files, validate, highlight the failing entities per specification
+export default function IdsPanel() {
+  const [open, setOpen] = useState(false);
+  const [documents, setDocuments] = useState<IdsDocument[]>(() => idsDocumentStore.list());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [report, setReport] = useState<IdsReport | null>(() => idsDocumentStore.lastReport);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    const unsubscribeDocuments = EventBus.on('ids:documents:changed', () => {
+      setDocuments(idsDocumentStore.list());
+      setReport(idsDocumentStore.lastReport);
+    });
+    // Reports of the chat tool show up here as well
+    const unsubscribeReports = EventBus.on('ids:validated', ({ report: latest }) => {
+      setReport(latest);
+      setSelectedId(latest.documentId);
+    });
+    return () => {
+      unsubscribeDocuments();
+      unsubscribeReports();
+    };
+  }, []);
+
+  const selected = documents.find(document => document.id === selectedId) ?? documents[0];
+
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const document = parseIds(await file.text(), file.name);
+      idsDocumentStore.add(document);
+      setSelectedId(document.id);
+      setMessage(`${document.specifications.length} Spezifikationen aus ${document.title} geladen.`);
+    } catch (error) {
+      setMessage(error instanceof IdsFormatError ? error.message : 'Die IDS-Datei konnte nicht gelesen werden.');
+    }
+  };
+
+  const handleValidate = () => {
+    if (!selected) return;
+    const entities = getEntityStore().getAll();
+    if (entities.length === 0) {
+      setMessage('Kein Modell geladen.');
+      return;
+    }
+    idsDocumentStore.validate(selected, entities);
+    setExpandedIndex(null);
+    setMessage(null);
+  };
+
+  const handleShowFailures = (result: IdsSpecificationResult, index: number) => {
+    setExpandedIndex(expandedIndex === index ? null : index);
+    const keys = result.failures.map(failure => failure.key);
+    const globalIds = result.failures
+      .map(failure => failure.globalId)
+      .filter((globalId): globalId is string => !!globalId);
+    EventBus.emit('user:highlight', { keys, globalIds });
+  };
+
+  const failedCount = report?.failedSpecifications ?? 0;
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="flex shrink-0 items-center gap-2 rounded-lg border bg-white bg-opacity-95 px-3 py-2 shadow-md pointer-events-auto text-sm text-gray-700 hover:bg-gray-50"
+        onClick={() => setOpen(true)}
+      >
+        <FileCheck className="h-4 w-4" />
+        IDS{report ? ` (${failedCount} nicht erfüllt)` : ''}
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex min-h-0 w-80 flex-col rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="flex items-center gap-2 font-semibold text-gray-700">
+          <FileCheck className="h-4 w-4" />
+          IDS-Prüfung
+        </span>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-gray-700"
+          onClick={() => setOpen(false)}
+          aria-label="Schließen"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 px-3 py-2 border-b text-xs">
+        {documents.length > 0 ? (
+          <select
+            className="min-w-0 flex-1 rounded border px-1 py-0.5"
+            value={selected?.id ?? ''}
+            onChange={event => setSelectedId(event.target.value)}
+            aria-label="IDS-Dokument"
+          >
+            {documents.map(document => (
+              <option key={document.id} value={document.id}>{document.title}</option>
+            ))}
+          </select>
+        ) : (
+          <span className="min-w-0 flex-1 text-gray-500">Keine IDS-Datei geladen.</span>
+        )}
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-900"
+          onClick={() => fileInputRef.current?.click()}
+          title="IDS-Datei laden"
+        >
+          <Upload className="h-4 w-4" />
+        </button>
+        {selected && (
+          <>
+            <button
+              type="button"
+              className="text-gray-500 hover:text-gray-900"
+              onClick={handleValidate}
+              title="Modell gegen die IDS prüfen"
+            >
+              <Play className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-red-600"
+              onClick={() => idsDocumentStore.remove(selected.id)}
+              aria-label={`${selected.title} entfernen`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </>
+        )}
+        <input ref={fileInputRef} type="file" accept=".ids,.xml" className="hidden" onChange={handleLoad} />
+      </div>
+
+      {message && (
+        <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-b text-xs text-gray-600">
+          <span>{message}</span>
+          <button type="button" onClick={() => setMessage(null)} aria-label="Hinweis schließen">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="px-3 py-1.5 border-b text-xs text-gray-600">
+            {report.title}: {report.passedSpecifications}/{report.specifications.length} Spezifikationen erfüllt,
+            {report.uncheckedSpecifications > 0 ? ` ${report.uncheckedSpecifications} nicht geprüft,` : ''}
+            {' '}{report.entityCount} Bauteile geprüft
+          </div>
+          <ul className="max-h-72 min-h-0 flex-1 overflow-y-auto py-1">
+            {report.specifications.map((result, index) => (
+              <li key={index} className="px-3 py-1.5">
+                <button
+                  type="button"
+                  className="flex w-full items-start gap-2 text-left disabled:cursor-default"
+                  onClick={() => handleShowFailures(result, index)}
+                  disabled={result.failures.length === 0}
+                  title={result.failures.length > 0 ? 'Nicht erfüllende Bauteile hervorheben' : undefined}
+                >
+                  {!result.checked
+                    ? <MinusCircle className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+                    : result.passed
+                      ? <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+                      : <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />}
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-gray-800">{result.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {result.checked
+                        ? `${result.passedCount}/${result.applicableCount} Bauteile erfüllt${result.uncheckedFacets.length > 0 ? ' · partOf nicht geprüft' : ''}`
+                        : 'Nicht geprüft: Anwendbarkeit mit partOf'}
+                    </span>
+                    {result.cardinalityError && (
+                      <span className="block text-xs text-amber-700">{result.cardinalityError}</span>
+                    )}
+                  </span>
+                </button>
+
+                {expandedIndex === index && (
+                  <ul className="mt-1 space-y-1 border-l pl-2 text-xs">
+                    {result.failures.slice(0, MAX_LISTED_FAILURES).map(failure => (
+                      <li key={failure.key}>
+                        <div className="truncate text-gray-700">{failure.name ?? failure.key} <span className="text-gray-400">{failure.type}</span></div>
+                        {failure.reasons.map(reason => (
+                          <div key={reason} className="text-gray-500">{reason}</div>
+                        ))}
+                      </li>
+                    ))}
+                    {result.failures.length > MAX_LISTED_FAILURES && (
+                      <li className="text-gray-400">… und {result.failures.length - MAX_LISTED_FAILURES} weitere</li>
+                    )}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
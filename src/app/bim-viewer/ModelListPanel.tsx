@@ -0,0 +1,74 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Layers, Trash2 } from 'lucide-react';
+import { EventBus } from '@/core/events/event-bus';
+import { modelRegistry } from '@/core/models';
+import { Switch } from '@/components/ui/switch';
+import { FederatedModelInfo } from '@/types/bim';
+
+interface ModelListPanelProps {
+  onToggleVisibility: (modelId: string, visible: boolean) => void;
+  onRemove: (modelId: string) => void;
+  onRemoveAll: () => void;
+}
+
+// Loaded models of the federation with visibility toggle; hidden while none are loaded
+export default function ModelListPanel({ onToggleVisibility, onRemove, onRemoveAll }: ModelListPanelProps) {
+  const [models, setModels] = useState<FederatedModelInfo[]>(() => modelRegistry.list());
+
+  useEffect(() => {
+    setModels(modelRegistry.list());
+    const unsubscribe = EventBus.on('models:changed', data => setModels(data.models));
+    return unsubscribe;
+  }, []);
+
+  if (models.length === 0) return null;
+
+  return (
+    <div className="absolute top-3 left-3 z-10 w-64 rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="flex items-center gap-2 font-semibold text-gray-700">
+          <Layers className="h-4 w-4" />
+          Modelle ({models.length})
+        </span>
+        {models.length > 1 && (
+          <button
+            type="button"
+            className="text-xs text-gray-500 hover:text-red-600"
+            onClick={onRemoveAll}
+          >
+            Alle entfernen
+          </button>
+        )}
+      </div>
+      <ul className="max-h-64 overflow-y-auto py-1">
+        {models.map(model => (
+          <li key={model.id} className="flex items-center gap-2 px-3 py-1.5">
+            <Switch
+              checked={model.visible}
+              onCheckedChange={checked => onToggleVisibility(model.id, checked)}
+              aria-label={`${model.name} ein-/ausblenden`}
+            />
+            <div className="min-w-0 flex-1">
+              <div className={`truncate ${model.visible ? 'text-gray-800' : 'text-gray-400'}`} title={model.id}>
+                {model.name}
+              </div>
+              <div className="text-xs text-gray-500">
+                {model.ready ? `${model.entityCount} Entities` : 'Wird analysiert...'}
+              </div>
+            </div>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-red-600"
+              onClick={() => onRemove(model.id)}
+              aria-label={`${model.name} entfernen`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
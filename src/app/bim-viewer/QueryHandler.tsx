@@ -1,13 +1,16 @@
 "use client";
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { EventBus } from '@/core/events/event-bus';
 import { chunkRegistry } from '@/core/chunks/chunk-registry';
+import { modelRegistry, publishModels } from '@/core/models';
 import { improvedEntityExtraction } from './improved-entity-extraction';
 import { inMemoryChunkSystem } from '@/app/bim-context/in-memory-chunk-system';
+import { getProjectContentHash } from '@/app/bim-context/storage/smart-chunk-store';
+import { ensureContextProject, getContextProjectId } from '@/features/ai/services/context-client';
 
 // Entity extraction function with Smart Chunks integration
-async function extractEntitiesFromModel(model: any) {
+async function extractEntitiesFromModel(model: any, modelId: string) {
   console.log("🚀 extractEntitiesFromModel called with model:", model);
   
   if (!model) {
@@ -20,11 +23,11 @@ async function extractEntitiesFromModel(model: any) {
     // First try the improved extraction with new Fragment v3 methods
     if (model.getCategories || model.getItemsData || model.getSpatialStructure) {
       console.log("✨ Using improved entity extraction with Fragment v3 methods");
-      const result = await improvedEntityExtraction(model, (window as any).__bimData?.modelId || 'model');
+      const result = await improvedEntityExtraction(model, modelId);
       
       if (result.success && result.entities.length > 0) {
         // Upload to Smart Chunks with spatial data
-        await uploadToSmartChunks(result.entities, result.entityIndex, result.spatialHierarchy);
+        await uploadToSmartChunks();
         return;
       }
     }
@@ -47,6 +50,7 @@ async function extractEntitiesFromModel(model: any) {
             props.forEach((prop: any) => {
               entities.push({
                 expressID: prop.expressID,
+                modelId,
                 type: type,
                 name: prop.Name?.value || `${type}_${prop.expressID}`,
                 globalId: prop.GlobalId?.value || `GUID_${prop.expressID}`,
@@ -64,25 +68,14 @@ async function extractEntitiesFromModel(model: any) {
         }
       }
       
-      // Update window.__bimData
-      (window as any).__bimData = {
-        ...(window as any).__bimData,
-        entities,
-        entityIndex,
-        entityTypes: Object.keys(entityIndex),
-        entityData: entities
-      };
+      // Add to the federation (updates window.__bimData and emits entities:loaded)
+      modelRegistry.setEntities(modelId, { entities, entityIndex });
+      publishModels(modelId);
       
       console.log(`✅ Extracted ${entities.length} entities with full IFC properties`);
       
-      // Emit event
-      EventBus.emit('entities:loaded', {
-        entities,
-        entityIndex
-      });
-      
       // Upload to Smart Chunks
-      await uploadToSmartChunks(entities, entityIndex);
+      await uploadToSmartChunks();
       
       return;
     }
@@ -113,6 +106,7 @@ async function extractEntitiesFromModel(model: any) {
     expressIds.forEach(id => {
       entities.push({
         expressID: id,
+        modelId,
         type: 'Unknown',
         name: `Entity_${id}`,
         globalId: `GUID_${id}`,
@@ -126,25 +120,14 @@ async function extractEntitiesFromModel(model: any) {
       return;
     }
     
-    // Update window.__bimData
-    (window as any).__bimData = {
-      ...(window as any).__bimData,
-      entities,
-      entityIndex,
-      entityTypes: ['Unknown'],
-      entityData: entities
-    };
-    
-    // Emit event
-    EventBus.emit('entities:loaded', {
-      entities,
-      entityIndex
-    });
+    // Add to the federation (updates window.__bimData and emits entities:loaded)
+    modelRegistry.setEntities(modelId, { entities, entityIndex });
+    publishModels(modelId);
     
     console.log(`✅ Entity extraction complete: ${entities.length} entities (properties unavailable)`);
     
     // Upload to Smart Chunks
-    await uploadToSmartChunks(entities, entityIndex);
+    await uploadToSmartChunks();
     
   } catch (error) {
     console.error('❌ Failed to extract entities:', error);
@@ -152,27 +135,38 @@ async function extractEntitiesFromModel(model: any) {
   }
 }
 
-// Process entities with In-Memory Smart Chunks
-async function uploadToSmartChunks(entities: any[], entityIndex: Record<string, number[]>, spatialHierarchy?: any) {
+// Process the entities of all loaded models with In-Memory Smart Chunks
+async function uploadToSmartChunks() {
   console.log('🧩 SMART CHUNKS: Processing in-memory...');
   
   try {
     const modelName = (window as any).__bimData?.modelId || 'default-model';
     const projectId = `${modelName}_project`;
     
+    // Chunks cover the whole federation, so rebuild them when a model is added
+    inMemoryChunkSystem.clearProject(projectId);
+    const entities = modelRegistry.getEntities();
+    if (entities.length === 0) return;
+    
+    // Same models as in an earlier session -> chunks come from IndexedDB
+    const modelHashes = modelRegistry.getContentHashes();
+    const contentHash = modelHashes ? await getProjectContentHash(modelHashes) : null;
+    const name = modelRegistry.list().map(model => model.name).join(' + ');
+    
     // Process entities into chunks (in-memory)
     const result = await inMemoryChunkSystem.processEntities(
       projectId,
       entities,
-      entityIndex,
-      spatialHierarchy
+      modelRegistry.getEntityIndex(),
+      modelRegistry.getSpatialHierarchy(),
+      { contentHash, name }
     );
     
     if (!result.success) {
       throw new Error('Failed to create chunks');
     }
     
-    console.log(`✅ SMART CHUNKS: Created ${result.chunkCount} chunks with ${result.totalTokens} tokens`);
+    console.log(`✅ SMART CHUNKS: ${result.restored ? 'Restored' : 'Created'} ${result.chunkCount} chunks with ${result.totalTokens} tokens`);
     
     // Store Smart Chunks data in window
     (window as any).__bimData = {
@@ -182,13 +176,28 @@ async function uploadToSmartChunks(entities: any[], entityIndex: Record<string,
         enabled: true,
         chunkCount: result.chunkCount,
         totalTokens: result.totalTokens,
-        inMemory: true
+        inMemory: true,
+        restored: result.restored,
+        contentHash
       }
     };
     
     (window as any).__smartChunksProjectId = projectId;
     (window as any).__smartChunkSystem = inMemoryChunkSystem;
     
+    // Mirror the project on the server, where /api/context selects the chat context
+    if (contentHash) {
+      const contextProjectId = getContextProjectId(contentHash);
+      void ensureContextProject(contextProjectId, name, entities, modelRegistry.getEntityIndex()).then(available => {
+        const win = window as unknown as { __bimData?: { smartChunks?: { contentHash?: string | null; contextProjectId?: string } } };
+        const smartChunks = win.__bimData?.smartChunks;
+        // Skip if the models changed in the meantime
+        if (available && smartChunks?.contentHash === contentHash) {
+          smartChunks.contextProjectId = contextProjectId;
+        }
+      });
+    }
+    
     // The event is already emitted by the chunk system
     console.log('✅ SMART CHUNKS: In-memory integration complete!');
     
@@ -200,7 +209,7 @@ async function uploadToSmartChunks(entities: any[], entityIndex: Record<string,
 
 interface QueryHandlerProps {
   viewer: {
-    currentModelRef: React.RefObject<any>;
+    fragmentsRef: React.RefObject<any>;
   };
   isInitialized: boolean;
   modelName: string;
@@ -211,34 +220,33 @@ const QueryHandler: React.FC<QueryHandlerProps> = ({
   isInitialized, 
   modelName 
 }) => {
-  const [isModelLoaded, setIsModelLoaded] = useState(false);
+  // Models whose entities were extracted (or are being extracted)
+  const processedModelsRef = useRef<Set<string>>(new Set());
   
   useEffect(() => {
     console.log("\n=== QUERYHANDLER MOUNTED ===");
     console.log("🎯 QueryHandler simplified - ready to handle model events");
     console.log("[DEBUG] isInitialized:", isInitialized);
     console.log("[DEBUG] modelName:", modelName);
-    console.log("[DEBUG] viewer.currentModelRef.current:", viewer.currentModelRef.current);
+    console.log("[DEBUG] loaded models:", viewer.fragmentsRef.current?.models.list.size ?? 0);
   }, []);
 
-  // Handler for when fragment is loaded
+  // Handler for when fragment is loaded - runs once per model of the federation
   const handleFragmentLoaded = async (data: { fragment: any, expressIds?: number[] }) => {
-      if (isModelLoaded) return; // Skip if already processed
+      const modelId: string | undefined = data.fragment?.modelId;
+      if (!modelId || processedModelsRef.current.has(modelId)) return; // Skip if already processed
+      processedModelsRef.current.add(modelId);
       
-      console.log(`\n✅ FRAGMENT LOADED EVENT`);
-      setIsModelLoaded(true);
+      console.log(`\n✅ FRAGMENT LOADED EVENT: ${modelId}`);
       
-      // Store the model reference
-      (window as any).__bimData = {
-        model: data.fragment,
-        modelId: (window as any).__bimData?.modelId || 'model',
-        loaded: true
-      };
+      if (!modelRegistry.has(modelId)) {
+        modelRegistry.addModel(modelId, modelId, data.fragment);
+      }
       
       // Extract entities immediately
       try {
         console.log("🔍 Starting entity extraction...");
-        await extractEntitiesFromModel(data.fragment);
+        await extractEntitiesFromModel(data.fragment, modelId);
         console.log("✅ Entity extraction completed");
       } catch (error) {
         console.error("❌ Entity extraction failed:", error);
@@ -246,8 +254,8 @@ const QueryHandler: React.FC<QueryHandlerProps> = ({
       
       // Emit model loaded event
       EventBus.emit('model:loaded', { 
-        name: (window as any).__bimData?.modelId || 'model', 
-        stats: { loaded: true }
+        name: modelRegistry.get(modelId)?.name || modelId, 
+        stats: { loaded: true, models: modelRegistry.list().length }
       });
   };
 
@@ -259,30 +267,41 @@ const QueryHandler: React.FC<QueryHandlerProps> = ({
     return unsubscribe;
   }, [isInitialized, handleFragmentLoaded]);
   
-  // Check once if model is already loaded (for page refresh scenarios)
+  // Check once if models are already loaded (for page refresh scenarios)
   useEffect(() => {
-    if (!isInitialized || isModelLoaded) return;
+    if (!isInitialized) return;
     
-    if (viewer.currentModelRef.current) {
-      console.log("🔄 Model already loaded on mount, processing...");
+    const models = viewer.fragmentsRef.current?.models.list;
+    if (models && models.size > 0) {
+      console.log("🔄 Models already loaded on mount, processing...");
       // Trigger the fragment loaded handler manually
-      handleFragmentLoaded({ 
-        fragment: viewer.currentModelRef.current
-      });
+      for (const model of models.values()) {
+        handleFragmentLoaded({ fragment: model });
+      }
     }
   }, [isInitialized]);
 
-  // Listen for model clear
+  // Listen for removed models and model clear
   useEffect(() => {
     console.log("[DEBUG] Setting up model:clear listener");
     const handleClear = () => {
       console.log('\n🧹 MODEL CLEARED');
-      setIsModelLoaded(false);
-      console.log("[DEBUG] isModelLoaded set to false");
+      processedModelsRef.current.clear();
     };
     
-    const unsubscribe = EventBus.on('model:clear', handleClear);
-    return unsubscribe;
+    const handleRemoved = ({ modelId }: { modelId: string }) => {
+      console.log(`\n🧹 MODEL REMOVED: ${modelId}`);
+      processedModelsRef.current.delete(modelId);
+      publishModels(modelId);
+      void uploadToSmartChunks();
+    };
+    
+    const unsubscribeClear = EventBus.on('model:clear', handleClear);
+    const unsubscribeRemoved = EventBus.on('model:removed', handleRemoved);
+    return () => {
+      unsubscribeClear();
+      unsubscribeRemoved();
+    };
   }, []);
 
   return null;
@@ -0,0 +1,279 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Eye, Network, Search, X } from 'lucide-react';
+import { EventBus } from '@/core/events/event-bus';
+import { getEntityStore } from '@/core/entities';
+import { modelRegistry } from '@/core/models';
+import {
+  ancestorIds,
+  buildSpatialTree,
+  countHighlighted,
+  filterSpatialTree,
+  indexSpatialTree
+} from '@/features/spatial-tree';
+import { EntityKey, IfcEntity, SpatialTreeNode } from '@/types/bim';
+
+// Children rendered per node; large storeys list thousands of elements
+const MAX_LISTED_CHILDREN = 200;
+// Highlights of at most this many entities open the tree down to them
+const MAX_REVEALED_KEYS = 20;
+// Spatial levels open after loading
+const INITIALLY_EXPANDED_TYPES = new Set(['IFCPROJECT', 'IFCSITE', 'IFCBUILDING']);
+
+interface TreeRow {
+  node: SpatialTreeNode;
+  depth: number;
+  // Placeholder for children beyond MAX_LISTED_CHILDREN
+  hiddenCount?: number;
+}
+
+function loadTree(entities: IfcEntity[]): SpatialTreeNode[] {
+  const hierarchies = modelRegistry.getSpatialHierarchies();
+  const models = modelRegistry.list()
+    .filter(model => model.ready)
+    .map(model => ({ modelId: model.id, name: model.name, hierarchy: hierarchies.get(model.id) ?? {} }));
+  return buildSpatialTree(models, getEntityStore(entities));
+}
+
+function initiallyExpanded(roots: SpatialTreeNode[]): Set<string> {
+  const expanded = new Set<string>();
+  const visit = (node: SpatialTreeNode) => {
+    if (node.kind !== 'spatial' || !INITIALLY_EXPANDED_TYPES.has(node.type)) return;
+    expanded.add(node.id);
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+  return expanded;
+}
+
+// IFC spatial decomposition with element counts; selecting a node highlights and isolates it,
+// user and AI highlights are marked in the tree
+export default function SpatialTreePanel() {
+  const [open, setOpen] = useState(false);
+  const [roots, setRoots] = useState<SpatialTreeNode[]>([]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isolated, setIsolated] = useState(false);
+  const [userKeys, setUserKeys] = useState<Set<EntityKey>>(new Set());
+  const [aiKeys, setAiKeys] = useState<Set<EntityKey>>(new Set());
+  const [revealId, setRevealId] = useState<string | null>(null);
+  // Keys of the last highlight the tree emitted itself; those don't move the tree
+  const emittedKeysRef = useRef<EntityKey[] | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const index = useMemo(() => indexSpatialTree(roots), [roots]);
+  const indexRef = useRef(index);
+  indexRef.current = index;
+
+  useEffect(() => {
+    const unsubscribeLoaded = EventBus.on('entities:loaded', ({ entities }) => {
+      const tree = loadTree(entities || []);
+      setRoots(tree);
+      setExpanded(initiallyExpanded(tree));
+    });
+    const unsubscribeClear = EventBus.on('model:clear', () => {
+      setRoots([]);
+      setSelectedId(null);
+      setIsolated(false);
+    });
+
+    // Open the tree down to a few highlighted entities
+    const reveal = (keys: EntityKey[]) => {
+      if (keys.length === 0 || keys.length > MAX_REVEALED_KEYS) return;
+      const found = keys.filter(key => indexRef.current.nodes.has(key));
+      if (found.length === 0) return;
+      setExpanded(current => {
+        const next = new Set(current);
+        found.forEach(key => ancestorIds(indexRef.current, key).forEach(id => next.add(id)));
+        return next;
+      });
+      setRevealId(found[0]);
+    };
+    const unsubscribeUser = EventBus.on('user:highlight', ({ keys }) => {
+      setUserKeys(new Set(keys));
+      if (keys === emittedKeysRef.current) return;
+      setSelectedId(keys.length === 1 && indexRef.current.nodes.has(keys[0]) ? keys[0] : null);
+      reveal(keys);
+    });
+    const unsubscribeAi = EventBus.on('ai:highlight', ({ keys }) => {
+      setAiKeys(new Set(keys));
+      reveal(keys);
+    });
+
+    return () => {
+      unsubscribeLoaded();
+      unsubscribeClear();
+      unsubscribeUser();
+      unsubscribeAi();
+    };
+  }, []);
+
+  const filtered = useMemo(() => filterSpatialTree(roots, search), [roots, search]);
+  const userCounts = useMemo(() => countHighlighted(roots, userKeys), [roots, userKeys]);
+  const aiCounts = useMemo(() => countHighlighted(roots, aiKeys), [roots, aiKeys]);
+
+  const rows = useMemo(() => {
+    const result: TreeRow[] = [];
+    const visit = (node: SpatialTreeNode, depth: number) => {
+      result.push({ node, depth });
+      if (!expanded.has(node.id) && !filtered.expandedIds.has(node.id)) return;
+      node.children.slice(0, MAX_LISTED_CHILDREN).forEach(child => visit(child, depth + 1));
+      if (node.children.length > MAX_LISTED_CHILDREN) {
+        result.push({ node, depth: depth + 1, hiddenCount: node.children.length - MAX_LISTED_CHILDREN });
+      }
+    };
+    filtered.roots.forEach(root => visit(root, 0));
+    return result;
+  }, [filtered, expanded]);
+
+  useEffect(() => {
+    if (!revealId || !open) return;
+    const row = Array.from(listRef.current?.querySelectorAll<HTMLElement>('[data-node-id]') ?? [])
+      .find(element => element.dataset.nodeId === revealId);
+    row?.scrollIntoView({ block: 'nearest' });
+    setRevealId(null);
+  }, [revealId, rows, open]);
+
+  const toggle = (id: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSelect = (node: SpatialTreeNode) => {
+    const keys = node.keys;
+    const globalIds = getEntityStore().getMany(keys)
+      .map(entity => entity.globalId)
+      .filter((globalId): globalId is string => !!globalId);
+    emittedKeysRef.current = keys;
+    setSelectedId(node.id);
+    setIsolated(true);
+    EventBus.emit('user:highlight', { keys, globalIds });
+    EventBus.emit('viewer:isolate', { keys });
+  };
+
+  const handleShowAll = () => {
+    setIsolated(false);
+    EventBus.emit('viewer:isolate', { keys: [] });
+  };
+
+  if (roots.length === 0) return null;
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="flex items-center gap-2 rounded-lg border bg-white bg-opacity-95 px-3 py-2 shadow-md pointer-events-auto text-sm text-gray-700 hover:bg-gray-50"
+        onClick={() => setOpen(true)}
+      >
+        <Network className="h-4 w-4" />
+        Struktur
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex min-h-0 w-80 flex-col rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="flex items-center gap-2 font-semibold text-gray-700">
+          <Network className="h-4 w-4" />
+          Struktur
+        </span>
+        <div className="flex items-center gap-2">
+          {isolated && (
+            <button
+              type="button"
+              className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900"
+              onClick={handleShowAll}
+              title="Isolierung aufheben"
+            >
+              <Eye className="h-4 w-4" />
+              Alle zeigen
+            </button>
+          )}
+          <button type="button" className="text-gray-500 hover:text-gray-900" onClick={() => setOpen(false)} aria-label="Schließen">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b">
+        <Search className="h-3 w-3 shrink-0 text-gray-400" />
+        <input
+          className="min-w-0 flex-1 bg-transparent text-xs outline-none"
+          placeholder="Geschoss, Raum, Bauteil oder IFC-Klasse suchen"
+          value={search}
+          onChange={event => setSearch(event.target.value)}
+        />
+        {search && (
+          <button type="button" onClick={() => setSearch('')} aria-label="Suche leeren">
+            <X className="h-3 w-3 text-gray-400" />
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="min-h-0 flex-1 overflow-y-auto py-1 text-xs">
+        {rows.length === 0 && <div className="px-3 py-2 text-gray-500">Keine Treffer.</div>}
+        {rows.map(({ node, depth, hiddenCount }) => {
+          if (hiddenCount !== undefined) {
+            return (
+              <div key={`${node.id}/more`} className="py-0.5 text-gray-400" style={{ paddingLeft: depth * 12 + 24 }}>
+                … und {hiddenCount} weitere
+              </div>
+            );
+          }
+          const hasChildren = node.children.length > 0;
+          const isOpen = expanded.has(node.id) || filtered.expandedIds.has(node.id);
+          const userCount = userCounts.get(node.id) ?? 0;
+          const aiCount = aiCounts.get(node.id) ?? 0;
+          const marked = node.kind === 'element' && userCount > 0
+            ? 'bg-yellow-100'
+            : node.kind === 'element' && aiCount > 0 ? 'bg-purple-100' : '';
+          return (
+            <div
+              key={node.id}
+              data-node-id={node.id}
+              className={`flex items-center gap-1 py-0.5 pr-3 hover:bg-gray-100 ${selectedId === node.id ? 'bg-blue-100' : marked}`}
+              style={{ paddingLeft: depth * 12 + 8 }}
+            >
+              <button
+                type="button"
+                className={`shrink-0 text-gray-400 ${hasChildren ? 'hover:text-gray-900' : 'invisible'}`}
+                onClick={() => toggle(node.id)}
+                aria-label={isOpen ? 'Einklappen' : 'Ausklappen'}
+              >
+                {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              </button>
+              <button
+                type="button"
+                className="flex min-w-0 flex-1 items-center gap-1 text-left"
+                onClick={() => handleSelect(node)}
+                title={node.kind === 'element' ? `${node.type} ${node.key}` : 'Auswählen und isolieren'}
+              >
+                <span className={`truncate ${node.kind === 'spatial' ? 'font-medium text-gray-800' : 'text-gray-700'}`}>
+                  {node.label}
+                </span>
+                {node.kind === 'spatial' && <span className="shrink-0 text-gray-400">{node.type}</span>}
+              </button>
+              {node.kind !== 'element' && userCount > 0 && (
+                <span className="shrink-0 rounded bg-yellow-200 px-1 text-gray-700" title="Ausgewählt">{userCount}</span>
+              )}
+              {node.kind !== 'element' && aiCount > 0 && (
+                <span className="shrink-0 rounded bg-purple-200 px-1 text-gray-700" title="Von der KI hervorgehoben">{aiCount}</span>
+              )}
+              {node.kind !== 'element' && <span className="shrink-0 text-gray-500">{node.elementCount}</span>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
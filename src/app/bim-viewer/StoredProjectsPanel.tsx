@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Database, Trash2, X } from 'lucide-react';
+import { EventBus } from '@/core/events/event-bus';
+import { smartChunkStore } from '@/app/bim-context/storage/smart-chunk-store';
+import { StoredChunkProjectInfo } from '@/types/chunks';
+
+// Projects not opened for this long are removed by "Alte entfernen"
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Smart Chunks projects stored in the browser; collapsed to a button by default
+export default function StoredProjectsPanel() {
+  const [open, setOpen] = useState(false);
+  const [projects, setProjects] = useState<StoredChunkProjectInfo[]>([]);
+
+  const refresh = useCallback(() => {
+    if (!smartChunkStore.isAvailable()) return;
+    smartChunkStore.listProjects()
+      .then(setProjects)
+      .catch(error => console.warn('⚠️ Failed to list stored Smart Chunks projects:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const unsubscribers = [
+      EventBus.on('smartchunks:stored', refresh),
+      EventBus.on('smartchunks:evicted', refresh)
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [refresh]);
+
+  if (!smartChunkStore.isAvailable()) return null;
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="flex items-center gap-2 rounded-lg border bg-white bg-opacity-95 px-3 py-2 shadow-md pointer-events-auto text-sm text-gray-700 hover:bg-gray-50"
+        onClick={() => setOpen(true)}
+      >
+        <Database className="h-4 w-4" />
+        Gespeichert ({projects.length})
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-72 shrink-0 rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="flex items-center gap-2 font-semibold text-gray-700">
+          <Database className="h-4 w-4" />
+          Gespeicherte Projekte ({projects.length})
+        </span>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-gray-700"
+          onClick={() => setOpen(false)}
+          aria-label="Schließen"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      {projects.length === 0 ? (
+        <div className="px-3 py-3 text-xs text-gray-500">
+          Noch keine Smart Chunks gespeichert.
+        </div>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto py-1">
+          {projects.map(project => (
+            <li key={project.contentHash} className="flex items-center gap-2 px-3 py-1.5">
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-gray-800" title={project.contentHash}>
+                  {project.name}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {project.chunkCount} Chunks · {formatSize(project.size)} · zuletzt {new Date(project.lastAccessAt).toLocaleDateString('de-DE')}
+                </div>
+              </div>
+              <button
+                type="button"
+                className="text-gray-400 hover:text-red-600"
+                onClick={() => void smartChunkStore.deleteProjects([project.contentHash])}
+                aria-label={`${project.name} entfernen`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {projects.length > 0 && (
+        <div className="flex justify-between px-3 py-2 border-t text-xs">
+          <button
+            type="button"
+            className="text-gray-500 hover:text-red-600"
+            onClick={() => void smartChunkStore.evictOlderThan(MAX_AGE_MS)}
+          >
+            Älter als 30 Tage entfernen
+          </button>
+          <button
+            type="button"
+            className="text-gray-500 hover:text-red-600"
+            onClick={() => void smartChunkStore.clear()}
+          >
+            Alle löschen
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,15 +3,41 @@
  * Based on fragments v3 documentation
  */
 
+import type { FragmentsModel, SpatialTreeItem } from '@thatopen/fragments';
 import { EventBus } from '@/core/events/event-bus';
-import { IfcEntity, IfcEntityIndex, ExtractedEntity } from '@/types/bim';
+import { OctreeBuilder, OctreeReader } from '@/core/spatial/octree-builder';
+import { fromBox3 } from '@/core/spatial/bounds';
+import { modelRegistry, publishModels } from '@/core/models';
+import { IfcEntity, IfcEntityIndex, ExtractedEntity, SpatialHierarchy } from '@/types/bim';
 
-export async function improvedEntityExtraction(model: any, modelId: string) {
+// Spatial elements of the IFC decomposition; everything else in the spatial structure is contained in them
+const SPATIAL_CATEGORIES = new Set([
+  'IFCPROJECT', 'IFCSITE', 'IFCBUILDING', 'IFCBUILDINGSTOREY', 'IFCSPACE',
+  'IFCFACILITY', 'IFCFACILITYPART', 'IFCBRIDGE', 'IFCBRIDGEPART', 'IFCROAD', 'IFCROADPART',
+  'IFCRAILWAY', 'IFCRAILWAYPART', 'IFCMARINEFACILITY', 'IFCTUNNEL', 'IFCTUNNELPART',
+  'IFCEXTERNALSPATIALELEMENT', 'IFCSPATIALZONE'
+]);
+
+export interface ModelExtractionResult {
+  entities: ExtractedEntity[];
+  entityIndex: IfcEntityIndex;
+  spatialHierarchy: SpatialHierarchy;
+  spatialIndex: { buffer: Uint8Array; reader: OctreeReader; entityCount: number } | null;
+}
+
+/**
+ * Extracts entities, type index, spatial hierarchy and octree from a fragments model.
+ * Works with the viewer's FragmentsModel and with SingleThreadedFragmentsModel (Node);
+ * nothing is registered, see improvedEntityExtraction for the viewer.
+ */
+export async function extractModelEntities(model: any, modelId: string): Promise<ModelExtractionResult> {
   console.log("🚀 Starting improved entity extraction...");
   
   const entities: ExtractedEntity[] = [];
   const entityIndex: IfcEntityIndex = {};
-  const spatialHierarchy: any = {};
+  const spatialHierarchy: SpatialHierarchy = {};
+  // Local ID -> local ID of its spatial parent
+  const spatialParents = new Map<number, number>();
   
   try {
     // 1. Get all categories (IFC types) - AWAIT the promise!
@@ -23,6 +49,7 @@ export async function improvedEntityExtraction(model: any, modelId: string) {
     if (spatialStructure) {
       console.log("🏗️ Spatial structure available");
       processSpatialStructure(spatialStructure, spatialHierarchy);
+      indexSpatialParents(spatialHierarchy, spatialParents);
     }
     
     // 3. Get items with geometry (skip empty spatial elements) - AWAIT if needed
@@ -58,14 +85,19 @@ export async function improvedEntityExtraction(model: any, modelId: string) {
         const positions = model.getPositions ? 
           await model.getPositions(itemIds) : [];
         
+        // World-space AABBs from the fragment geometry (empty for items without geometry)
+        const boxes = await getItemBoxes(model, itemIds);
+        
         // Create entities
         itemsData.forEach((itemData: any, index: number) => {
           const localId = itemIds[index];
           const guid = guids[index] || `GUID_${localId}`;
-          const position = positions[index];
+          const boundingBox = fromBox3(boxes[index]);
+          const position = positions[index] || boundingBox?.center;
           
           const entity: ExtractedEntity = {
             expressID: localId,
+            modelId,
             localId: localId,
             type: category,
             category: category,
@@ -77,7 +109,8 @@ export async function improvedEntityExtraction(model: any, modelId: string) {
               y: position.y || 0,
               z: position.z || 0
             } : undefined,
-            spatialParent: findSpatialParent(localId, spatialHierarchy)
+            boundingBox,
+            spatialParent: spatialParents.get(localId)?.toString()
           };
           
           entities.push(entity);
@@ -104,16 +137,21 @@ export async function improvedEntityExtraction(model: any, modelId: string) {
       
       const itemsData = model.getItemsData ? 
         await model.getItemsData(validIds) : [];
+      const boxes = await getItemBoxes(model, validIds);
       itemsData.forEach((item: any, index: number) => {
         if (item) {
+          const boundingBox = fromBox3(boxes[index]);
           const entity: ExtractedEntity = {
             expressID: validIds[index],
+            modelId,
             localId: validIds[index],
             type: item.type || 'Unknown',
             category: item.type || 'Unknown',
             name: item.Name?.value || item.name || `Entity_${validIds[index]}`,
             globalId: item.GlobalId?.value || `GUID_${validIds[index]}`,
-            properties: item
+            properties: item,
+            position: boundingBox?.center,
+            boundingBox
           };
           entities.push(entity);
           
@@ -128,28 +166,20 @@ export async function improvedEntityExtraction(model: any, modelId: string) {
     
     console.log(`✅ Extracted ${entities.length} entities with improved method`);
     
-    // Store in window.__bimData
-    (window as any).__bimData = {
-      ...(window as any).__bimData,
-      entities,
-      entityIndex,
-      spatialHierarchy,
-      extractionMethod: 'improved',
-      modelMetadata: model.getMetadata?.() || {}
-    };
-    
-    // Emit event
-    EventBus.emit('entities:loaded', {
-      entities,
-      entityIndex,
-      count: entities.length
+    // Names of the spatial elements, e.g. for storey labels
+    entities.forEach(entity => {
+      const node = spatialHierarchy[entity.localId];
+      if (node) node.name = entity.name;
     });
     
+    // Octree over the entity boxes for the spatial tools
+    const spatialIndex = buildSpatialIndex(entities);
+    
     return {
       entities,
       entityIndex,
       spatialHierarchy,
-      success: true
+      spatialIndex
     };
     
   } catch (error) {
@@ -158,31 +188,105 @@ export async function improvedEntityExtraction(model: any, modelId: string) {
   }
 }
 
-// Helper function to process spatial structure
-function processSpatialStructure(node: any, hierarchy: any, parent?: string) {
-  if (!node) return;
+export async function improvedEntityExtraction(model: FragmentsModel, modelId: string) {
+  const { entities, entityIndex, spatialHierarchy, spatialIndex } = await extractModelEntities(model, modelId);
   
-  hierarchy[node.id] = {
-    ...node,
-    parent,
-    children: node.children?.map((c: any) => c.id) || []
-  };
+  // Add to the federation; window.__bimData and entities:loaded cover all loaded models
+  modelRegistry.setEntities(modelId, {
+    entities,
+    entityIndex,
+    spatialHierarchy,
+    octreeReader: spatialIndex?.reader
+  });
+  publishModels(modelId);
   
-  if (node.children) {
-    node.children.forEach((child: any) => {
-      processSpatialStructure(child, hierarchy, node.id);
+  if (spatialIndex) {
+    EventBus.emit('spatial:index:ready', {
+      fragmentId: modelId,
+      octreeBuffer: spatialIndex.buffer,
+      entityCount: spatialIndex.entityCount
     });
   }
+  
+  return {
+    entities,
+    entityIndex,
+    spatialHierarchy,
+    success: true
+  };
+}
+
+// Helper function to get world-space boxes; the model applies its own transform
+async function getItemBoxes(model: any, localIds: number[]): Promise<any[]> {
+  if (!model.getBoxes || localIds.length === 0) return [];
+  try {
+    return await model.getBoxes(localIds);
+  } catch (error) {
+    console.warn('Failed to get item boxes:', error);
+    return [];
+  }
 }
 
-// Helper function to find spatial parent
-function findSpatialParent(itemId: number, hierarchy: any): string | undefined {
-  for (const [spatialId, spatial] of Object.entries(hierarchy)) {
-    if ((spatial as any).items?.includes(itemId)) {
-      return spatialId;
+// Helper function to build the octree over entities with geometry
+// Models without getBoxes (SingleThreadedFragmentsModel) are indexed by position
+function buildSpatialIndex(entities: IfcEntity[]): ModelExtractionResult['spatialIndex'] {
+  let indexed = entities.filter(entity => entity.boundingBox);
+  if (indexed.length === 0) {
+    indexed = entities.filter(entity => entity.position);
+    if (indexed.length > 0) {
+      console.warn('⚠️ No entity bounding boxes - spatial index built from positions');
     }
   }
-  return undefined;
+  if (indexed.length === 0) {
+    console.warn('⚠️ No entity bounding boxes - spatial index skipped');
+    return null;
+  }
+  
+  try {
+    const builder = new OctreeBuilder();
+    const buffer = builder.serialize(builder.buildFromEntities(indexed));
+    return { buffer, reader: OctreeBuilder.deserialize(buffer), entityCount: indexed.length };
+  } catch (error) {
+    console.warn('Failed to build spatial index:', error);
+    return null;
+  }
+}
+
+// Helper function to process spatial structure
+// Fragments nest items of one class below a class node without localId:
+// { category: 'IFCBUILDINGSTOREY', localId: null, children: [{ category: null, localId: 42, children: [...] }] }
+function processSpatialStructure(
+  node: SpatialTreeItem,
+  hierarchy: SpatialHierarchy,
+  parent?: number,
+  groupCategory?: string
+) {
+  if (!node) return;
+  const category = (node.category ?? groupCategory ?? '').toUpperCase();
+  
+  if (node.localId === null || node.localId === undefined) {
+    node.children?.forEach(child => processSpatialStructure(child, hierarchy, parent, node.category ?? groupCategory));
+    return;
+  }
+  
+  if (SPATIAL_CATEGORIES.has(category) || parent === undefined) {
+    hierarchy[node.localId] = { localId: node.localId, category, parent, children: [], items: [] };
+    if (parent !== undefined) hierarchy[parent]?.children.push(node.localId);
+    node.children?.forEach(child => processSpatialStructure(child, hierarchy, node.localId!));
+    return;
+  }
+  
+  // Elements and their parts (stair flights, curtain wall panels) belong to the spatial element above them
+  hierarchy[parent]?.items.push(node.localId);
+  node.children?.forEach(child => processSpatialStructure(child, hierarchy, parent));
+}
+
+// Helper function to index the spatial parent of every element and spatial element
+function indexSpatialParents(hierarchy: SpatialHierarchy, parents: Map<number, number>) {
+  Object.values(hierarchy).forEach(node => {
+    if (node.parent !== undefined) parents.set(node.localId, node.parent);
+    node.items.forEach(item => parents.set(item, node.localId));
+  });
 }
 
 // Smart Chunking optimization using spatial data
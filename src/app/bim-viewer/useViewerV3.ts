@@ -6,6 +6,10 @@ import * as OBC from "@thatopen/components";
 import * as FRAGS from "@thatopen/fragments";
 import { UseViewerReturn } from '@/types/bim';
 import { EventBus } from '@/core/events/event-bus';
+import { entityKey } from '@/core/entities/entity-key';
+import { modelRegistry } from '@/core/models';
+import { hashContent } from '@/features/fragments';
+import { viewpointService } from '@/core/viewpoints';
 
 export function useViewerV3(): UseViewerReturn {
   console.log("🚨 useViewerV3 HOOK LOADED");
@@ -13,8 +17,8 @@ export function useViewerV3(): UseViewerReturn {
   const componentsRef = useRef<OBC.Components | null>(null);
   const worldRef = useRef<any>(null);
   const fragmentsRef = useRef<FRAGS.FragmentsModels | null>(null);
-  const currentModelRef = useRef<any>(null);
   const isInitializedRef = useRef<boolean>(false);
+  const unregisterCameraRef = useRef<(() => void) | null>(null);
 
   const initializeViewer = useCallback(async () => {
     if (!containerRef.current || componentsRef.current || isInitializedRef.current) {
@@ -66,6 +70,30 @@ export function useViewerV3(): UseViewerReturn {
       // Update fragments when camera moves
       world.camera.controls.addEventListener("rest", () => fragments.update(true));
 
+      // Camera access for chat replay and BCF viewpoints
+      unregisterCameraRef.current = viewpointService.register({
+        getViewpoint: () => {
+          const position = world.camera.controls.getPosition(new THREE.Vector3());
+          const target = world.camera.controls.getTarget(new THREE.Vector3());
+          const camera = world.camera.three;
+          return {
+            position: [position.x, position.y, position.z],
+            target: [target.x, target.y, target.z],
+            fov: camera instanceof THREE.PerspectiveCamera ? camera.fov : undefined
+          };
+        },
+        setViewpoint: async ({ position, target }, animate) => {
+          await world.camera.controls.setLookAt(...position, ...target, animate);
+          await fragments.update(true);
+        },
+        captureSnapshot: async () => {
+          // Render right before reading, the drawing buffer is not preserved between frames
+          world.renderer.three.render(world.scene.three, world.camera.three);
+          const blob = await new Promise<Blob | null>(resolve => world.renderer.three.domElement.toBlob(resolve, 'image/png'));
+          return blob ? new Uint8Array(await blob.arrayBuffer()) : null;
+        }
+      });
+
       // Handle model loading
       fragments.models.list.onItemSet.add(({ value: model }) => {
         model.useCamera(world.camera.three);
@@ -81,18 +109,24 @@ export function useViewerV3(): UseViewerReturn {
         selectedIdsByModel.clear();
         try {
           console.log("🔄 Clearing user selection - emitting empty user:highlight");
-          EventBus.emit('user:highlight', { expressIds: [] } as any);
+          EventBus.emit('user:highlight', { keys: [] });
         } catch (e) {
           console.error("Failed to emit clear user:highlight:", e);
         }
       };
 
+      // Selected items as model-scoped keys, so equal local IDs of different models stay apart
+      const getSelectedKeys = (): string[] => {
+        const keys: string[] = [];
+        selectedIdsByModel.forEach((ids, model) => ids.forEach(id => keys.push(entityKey(model.modelId, id))));
+        return keys;
+      };
+
       const updateHighlights = async () => {
         try {
-          const allIds: number[] = [];
-          selectedIdsByModel.forEach(s => allIds.push(...s));
-          console.log("🔄 Updating user highlights with IDs:", allIds);
-          EventBus.emit('user:highlight', { expressIds: allIds } as any);
+          const keys = getSelectedKeys();
+          console.log("🔄 Updating user highlights with keys:", keys);
+          EventBus.emit('user:highlight', { keys });
         } catch (e) {
           console.error("Failed to emit updateHighlights user:highlight:", e);
         }
@@ -115,6 +149,8 @@ export function useViewerV3(): UseViewerReturn {
             let minDistance = Infinity;
 
             for (const [modelId, model] of fragments.models.list) {
+              // Hidden models of the federation can't be picked
+              if (!model.object.visible) continue;
               try {
                 const result = await model.raycast({
                   camera: world.camera.three,
@@ -158,6 +194,7 @@ export function useViewerV3(): UseViewerReturn {
                 : (data as any)?.GlobalId;
 
               console.log("🎯 Entity selected:", {
+                modelId: closestModel.modelId,
                 localId: closestResult.localId,
                 name,
                 type: (data as any)?.type,
@@ -165,10 +202,9 @@ export function useViewerV3(): UseViewerReturn {
 
               // Emit user highlight events for chat-tools selection context
               try {
-                const allIds: number[] = [];
-                selectedIdsByModel.forEach(s => allIds.push(...s));
-                console.log("🔄 Emitting user:highlight event with IDs:", allIds);
-                EventBus.emit('user:highlight', { expressIds: allIds } as any);
+                const keys = getSelectedKeys();
+                console.log("🔄 Emitting user:highlight event with keys:", keys);
+                EventBus.emit('user:highlight', { keys });
               } catch (e) {
                 console.error("Failed to emit user:highlight event:", e);
               }
@@ -223,7 +259,8 @@ export function useViewerV3(): UseViewerReturn {
     }
   }, []);
 
-  const loadFragmentFromBytes = useCallback(async (bytes: ArrayBuffer, modelId: string) => {
+  // Adds a model to the federation; already loaded models stay in the scene
+  const loadFragmentFromBytes = useCallback(async (bytes: ArrayBuffer, modelId: string, name?: string) => {
     console.log("📥 Loading fragment:", modelId);
     
     if (!fragmentsRef.current || !worldRef.current) {
@@ -237,15 +274,11 @@ export function useViewerV3(): UseViewerReturn {
     }
 
     try {
-      // Clear existing model
-      if (currentModelRef.current) {
-        console.log("🗑️ Clearing existing model");
-        currentModelRef.current.dispose();
-      }
-
       // Convert bytes to Uint8Array
       const uint8Array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
       const arrayBuffer = uint8Array.buffer.slice(uint8Array.byteOffset, uint8Array.byteOffset + uint8Array.byteLength) as ArrayBuffer;
+      // Hash before loading, fragments may transfer the buffer to its worker
+      const contentHash = await hashContent(arrayBuffer);
       
       // Load model with camera
       const model = await fragmentsRef.current.load(arrayBuffer, {
@@ -255,15 +288,13 @@ export function useViewerV3(): UseViewerReturn {
       });
 
       console.log("✅ Model loaded:", model);
-      currentModelRef.current = model;
+      modelRegistry.addModel(modelId, name || modelId, model, contentHash);
       
-      // Emit event that model is ready
-      if (typeof window !== 'undefined' && (window as any).EventBus) {
-        (window as any).EventBus.emit('fragment:loaded', {
-          fragment: model,
-          expressIds: []
-        });
-      }
+      // Emit event that model is ready (triggers entity extraction)
+      EventBus.emit('fragment:loaded', {
+        fragment: model,
+        expressIds: []
+      });
 
     } catch (error) {
       console.error("❌ Fragment loading failed:", error);
@@ -271,6 +302,27 @@ export function useViewerV3(): UseViewerReturn {
     }
   }, []);
 
+  const getLoadedModelIds = useCallback((): string[] => {
+    return Array.from(fragmentsRef.current?.models.list.keys() ?? []);
+  }, []);
+
+  const setModelVisible = useCallback(async (modelId: string, visible: boolean) => {
+    const model = fragmentsRef.current?.models.list.get(modelId);
+    if (!model) return;
+    model.object.visible = visible;
+    modelRegistry.setVisible(modelId, visible);
+    await fragmentsRef.current!.update(true);
+  }, []);
+
+  const unloadModel = useCallback(async (modelId: string) => {
+    if (!fragmentsRef.current?.models.list.has(modelId)) return;
+    console.log("🗑️ Unloading model:", modelId);
+    await fragmentsRef.current.disposeModel(modelId);
+    modelRegistry.removeModel(modelId);
+    EventBus.emit('model:removed', { modelId });
+    await fragmentsRef.current.update(true);
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -280,11 +332,13 @@ export function useViewerV3(): UseViewerReturn {
         delete (window as any).__viewerResizeObserver;
       }
       
+      unregisterCameraRef.current?.();
+      unregisterCameraRef.current = null;
+
       if (componentsRef.current && isInitializedRef.current) {
         try {
-          if (currentModelRef.current) {
-            currentModelRef.current.dispose();
-          }
+          void fragmentsRef.current?.dispose();
+          modelRegistry.clear();
           componentsRef.current.dispose();
         } catch (error) {
           console.warn("Error during cleanup:", error);
@@ -299,8 +353,10 @@ export function useViewerV3(): UseViewerReturn {
     componentsRef,
     worldRef,
     fragmentsRef,
-    currentModelRef,
     initializeViewer,
-    loadFragmentFromBytes
+    loadFragmentFromBytes,
+    getLoadedModelIds,
+    setModelVisible,
+    unloadModel
   };
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { Tool } from './tool-registry';
+import { defineTool, entityRef, listOf } from './define-tool';
+import { EntityStore, getEntityKey } from '@/core/entities';
+import { BcfTopicStore, bcfTopicStore, captureViewpoint } from '@/features/bcf';
+import { EntityKey } from '@/types/bim';
+
+// Label of topics the assistant created, to tell them apart from manual ones in Revit/Solibri
+const AI_LABEL = 'KI';
+
+const bcfTopicSchema = z.object({
+  title: z.string().min(1).describe('Short issue title, e.g. "Brandschutztüren ohne Feuerwiderstandsklasse"'),
+  description: z.string().optional().describe('What is wrong with the entities and why'),
+  entityIds: listOf(entityRef())
+    .describe('Entity keys ("modelId:localId") the issue is about, e.g. from bim_search or {"$ref": "working.entityIds"}'),
+  topicType: z.enum(['Issue', 'Clash', 'Request', 'Remark']).default('Issue').describe('BCF topic type (default: Issue)'),
+  priority: z.enum(['Low', 'Normal', 'High', 'Critical']).optional().describe('Priority of the issue'),
+  comment: z.string().optional().describe('First comment, e.g. the rule or finding that flagged the entities'),
+  snapshot: z.boolean().default(true).describe('Attach a snapshot of the current view (default: true)')
+});
+
+export const createBimBcfTopicTool = (store: EntityStore, topics: BcfTopicStore = bcfTopicStore): Tool => defineTool({
+  name: 'bcf_create_topic',
+  description: 'Create a BCF issue (topic) for entities you flagged, with the current camera, a snapshot and the entities as selected components (by IFC GlobalId). The user can export the topics as .bcfzip for Revit, Solibri and other BCF tools. Only create topics when the user asks for issues/BCF.',
+  schema: bcfTopicSchema,
+  execute: async ({ title, description, entityIds, topicType, priority, comment, snapshot }) => {
+    const keys: EntityKey[] = [];
+    const globalIds: string[] = [];
+    const notFound: Array<string | number> = [];
+    const withoutGlobalId: EntityKey[] = [];
+
+    for (const ref of entityIds) {
+      const entity = store.get(ref);
+      if (!entity) {
+        notFound.push(ref);
+      } else if (!entity.globalId) {
+        withoutGlobalId.push(getEntityKey(entity));
+      } else {
+        keys.push(getEntityKey(entity));
+        globalIds.push(entity.globalId);
+      }
+    }
+
+    if (globalIds.length === 0) {
+      return {
+        error: 'None of the entities has an IFC GlobalId, so BCF tools could not find them. Use entity keys from bim_search.',
+        notFound: notFound.length > 0 ? notFound : undefined,
+        withoutGlobalId: withoutGlobalId.length > 0 ? withoutGlobalId : undefined
+      };
+    }
+
+    const viewpoint = await captureViewpoint(globalIds, { snapshot });
+    const topic = topics.createTopic({
+      title,
+      description,
+      topicType,
+      priority,
+      labels: [AI_LABEL],
+      viewpoints: [viewpoint],
+      comment
+    });
+
+    return {
+      topicGuid: topic.guid,
+      title: topic.title,
+      components: viewpoint.selection.length,
+      entityIds: keys,
+      hasCamera: !!viewpoint.camera,
+      hasSnapshot: !!viewpoint.snapshot,
+      totalTopics: topics.size,
+      notFound: notFound.length > 0 ? notFound : undefined,
+      withoutGlobalId: withoutGlobalId.length > 0 ? withoutGlobalId : undefined
+    };
+  }
+});
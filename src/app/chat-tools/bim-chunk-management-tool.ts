@@ -1,31 +1,20 @@
+import { z } from 'zod';
 import { Tool } from './tool-registry';
+import { defineTool } from './define-tool';
 import { ChunkManager } from '@/core/chunks/chunk-manager';
 
-interface ChunkManagementParams {
-  operation: 'status' | 'analyze' | 'optimize';
-  chunkId?: string;
-}
+const chunkManagementSchema = z.object({
+  operation: z.enum(['status', 'analyze', 'optimize'])
+    .describe('Operation: status (current state), analyze (detailed analysis), optimize (trigger optimization)'),
+  chunkId: z.string().optional()
+    .describe('Optional: specific chunk ID to analyze')
+});
 
-export const createBimChunkManagementTool = (chunkManager: ChunkManager | null): Tool => ({
+export const createBimChunkManagementTool = (chunkManager: ChunkManager | null): Tool => defineTool({
   name: 'bim_chunk_management',
   description: 'Manage and analyze the chunk system for performance optimization. Shows memory usage, cache statistics, and chunk distribution.',
-  parameters: {
-    type: 'object',
-    properties: {
-      operation: {
-        type: 'string',
-        enum: ['status', 'analyze', 'optimize'],
-        description: 'Operation: status (current state), analyze (detailed analysis), optimize (trigger optimization)'
-      },
-      chunkId: {
-        type: 'string',
-        description: 'Optional: specific chunk ID to analyze'
-      }
-    },
-    required: ['operation']
-  },
-  execute: async (params) => {
-    const { operation, chunkId } = params as ChunkManagementParams;
+  schema: chunkManagementSchema,
+  execute: async ({ operation, chunkId }) => {
     
     if (!chunkManager) {
       return {
@@ -1,39 +1,43 @@
+import { z } from 'zod';
 import { Tool } from './tool-registry';
-import { IfcEntity } from '@/types/bim';
+import { defineTool, entityRef } from './define-tool';
+import { EntityStore, getEntityKey } from '@/core/entities';
 
-export const createBimEntityDetailTool = (entities: IfcEntity[]): Tool => ({
+const entityDetailSchema = z.object({
+  entityId: entityRef()
+    .describe('Entity key "modelId:localId" from bim_search (a bare express ID works if only one loaded model has it)'),
+  includeProperties: z.boolean().default(true)
+    .describe('Include all properties of the entity (default: true)')
+});
+
+export const createBimEntityDetailTool = (store: EntityStore): Tool => defineTool({
   name: 'bim_entity_detail',
-  description: 'Get detailed information about a specific IFC entity by its express ID. Use this to get properties and details of a single entity.',
-  parameters: {
-    type: 'object',
-    properties: {
-      expressId: { 
-        type: 'number', 
-        description: 'The express ID of the entity to retrieve' 
-      },
-      includeProperties: {
-        type: 'boolean',
-        description: 'Include all properties of the entity (default: true)'
-      }
-    },
-    required: ['expressId']
-  },
-  execute: async (params) => {
-    const { expressId, includeProperties = true } = params as { 
-      expressId: number; 
-      includeProperties?: boolean 
-    };
+  description: 'Get detailed information about a specific IFC entity by its entity key. Use this to get properties and details of a single entity.',
+  schema: entityDetailSchema,
+  execute: async ({ entityId, includeProperties }) => {
+    
+    // console.log(`🔍 [get_entity_by_id] Looking for entity: ${entityId}`);
+    
+    const matches = store.resolve(entityId);
     
-    // console.log(`🔍 [get_entity_by_id] Looking for entity with expressId: ${expressId}`);
+    if (matches.length > 1) {
+      // Bare express ID that exists in several loaded models
+      return {
+        success: false,
+        error: `Express ID ${entityId} exists in ${matches.length} models, use one of the entity keys`,
+        entityId,
+        candidates: matches.map(getEntityKey)
+      };
+    }
     
-    const entity = entities.find(e => e.expressID === expressId);
+    const entity = matches[0];
     
     if (!entity) {
-      // console.log(`❌ [get_entity_by_id] Entity not found: ${expressId}`);
+      // console.log(`❌ [get_entity_by_id] Entity not found: ${entityId}`);
       return {
         success: false,
-        error: `No entity found with expressId: ${expressId}`,
-        expressId
+        error: `No entity found with id: ${entityId}`,
+        entityId
       };
     }
     
@@ -41,6 +45,8 @@ export const createBimEntityDetailTool = (entities: IfcEntity[]): Tool => ({
     
     const result: any = {
       success: true,
+      key: getEntityKey(entity),
+      modelId: entity.modelId,
       expressId: entity.expressID,
       type: entity.type,
       globalId: entity.globalId,
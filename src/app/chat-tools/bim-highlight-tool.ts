@@ -1,58 +1,61 @@
+import { z } from 'zod';
 import { Tool } from './tool-registry';
-import { IfcEntity } from '@/types/bim';
+import { defineTool, entityRef, listOf } from './define-tool';
+import { EntityStore, getEntityKey } from '@/core/entities';
+import { EntityKey } from '@/types/bim';
 
-type HighlightCallback = (expressIds: number[], globalIds: string[]) => Promise<void> | void;
+type HighlightCallback = (keys: EntityKey[], globalIds: string[]) => Promise<void> | void;
 
-export const createBimHighlightTool = (onHighlight: HighlightCallback, entities: IfcEntity[]): Tool => ({
+const highlightSchema = z.object({
+  entityIds: listOf(entityRef())
+    .describe('Array of entity keys ("modelId:localId") to highlight (obtained from bim_search)')
+});
+
+export const createBimHighlightTool = (onHighlight: HighlightCallback, store: EntityStore): Tool => defineTool({
   name: 'bim_highlight',
-  description: 'Highlight entities in 3D viewer by their express IDs. Use this after querying entities to make them visible in the 3D model.',
-  parameters: {
-    type: 'object',
-    properties: {
-      entityIds: { 
-        type: 'array', 
-        items: { type: 'number' },
-        description: 'Array of express IDs to highlight (obtained from query_ifc_entities)'
-      }
-    },
-    required: ['entityIds']
-  },
-  execute: async (params) => {
-    const { entityIds } = params as { entityIds: number[] };
+  description: 'Highlight entities in 3D viewer by their entity keys. Use this after querying entities to make them visible in the 3D model.',
+  schema: highlightSchema,
+  execute: async ({ entityIds }) => {
     // console.log(`🔦 [highlight_entities] Starting highlight for ${entityIds.length} entities`);
     
-    // Convert express IDs to global IDs
+    // Resolve references to model-scoped keys and global IDs
     const globalIds: string[] = [];
-    const validExpressIds: number[] = [];
-    const notFound: number[] = [];
+    const keys: EntityKey[] = [];
+    const notFound: Array<string | number> = [];
+    const ambiguous: Array<string | number> = [];
     
-    for (const expressId of entityIds) {
-      const entity = entities.find(e => e.expressID === expressId);
-      if (entity && entity.globalId) {
+    for (const ref of entityIds) {
+      const matches = store.resolve(ref);
+      const entity = matches[0];
+      if (matches.length > 1) {
+        ambiguous.push(ref);
+      } else if (entity && entity.globalId) {
         globalIds.push(entity.globalId);
-        validExpressIds.push(expressId);
+        keys.push(getEntityKey(entity));
         
         // Log entity properties when highlighting
         console.log(entity);
       } else {
-        notFound.push(expressId);
+        notFound.push(ref);
       }
     }
     
     // console.log(`🔦 [highlight_entities] Conversion result:`);
-    // console.log(`   ✅ Found: ${validExpressIds.length} entities with global IDs`);
+    // console.log(`   ✅ Found: ${keys.length} entities with global IDs`);
     if (notFound.length > 0) {
-      console.warn(`   ⚠️ Not found: ${notFound.length} express IDs:`, notFound.slice(0, 5), notFound.length > 5 ? '...' : '');
+      console.warn(`   ⚠️ Not found: ${notFound.length} entity ids:`, notFound.slice(0, 5), notFound.length > 5 ? '...' : '');
     }
     
     // Call the highlight callback with both arrays
-    await onHighlight(validExpressIds, globalIds);
+    await onHighlight(keys, globalIds);
     // console.log(`✅ [highlight_entities] Highlight callback executed`);
     
     return { 
-      highlighted: validExpressIds.length,
-      expressIds: validExpressIds,
-      globalIds: globalIds
+      highlighted: keys.length,
+      entityIds: keys,
+      globalIds: globalIds,
+      // Bare express IDs that several loaded models have - use the keys from bim_search
+      ambiguous: ambiguous.length > 0 ? ambiguous : undefined
     };
   }
 }); 
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { Tool } from './tool-registry';
+import { defineTool } from './define-tool';
+import { EntityStore } from '@/core/entities';
+import { IdsDocumentStore, idsDocumentStore } from '@/features/ids';
+import { EntityKey } from '@/types/bim';
+
+// Failing entity keys returned for the working set; all of them are highlighted
+const MAX_ENTITY_IDS = 1000;
+
+type HighlightCallback = (keys: EntityKey[], globalIds: string[]) => Promise<void> | void;
+
+const idsValidationSchema = z.object({
+  document: z.string().optional().describe('Title or file name of the loaded IDS document (only needed if several are loaded)'),
+  specifications: z.array(z.string()).optional().describe('Only check these specifications (name or identifier); default: all'),
+  highlight: z.boolean().default(true).describe('Highlight the failing entities in the 3D viewer (default: true)'),
+  maxFailures: z.number().int().min(1).max(100).default(20).describe('Failing entities listed per specification (default: 20)')
+});
+
+export const createBimIdsValidationTool = (
+  onHighlight: HighlightCallback,
+  store: EntityStore,
+  documents: IdsDocumentStore = idsDocumentStore
+): Tool => defineTool({
+  name: 'bim_validate_ids',
+  description: 'Check the loaded model against an IDS file (Information Delivery Specification) the user loaded in the viewer. Returns pass/fail per specification with the failing entities and the reason per failed requirement (missing property, wrong value, class, classification, material). Use it to explain which information requirements the model misses; the failing entities are highlighted and become the working set.',
+  schema: idsValidationSchema,
+  execute: async ({ document: documentName, specifications, highlight, maxFailures }) => {
+    const loaded = documents.list();
+    if (loaded.length === 0) {
+      return { error: 'No IDS file is loaded. Ask the user to load an .ids file in the IDS panel of the viewer.' };
+    }
+
+    const document = documents.get(documentName);
+    if (!document) {
+      return {
+        error: documentName
+          ? `IDS document "${documentName}" is not loaded.`
+          : 'Several IDS documents are loaded, pass the document parameter.',
+        loadedDocuments: loaded.map(entry => entry.title)
+      };
+    }
+
+    const wanted = specifications?.map(name => name.toLowerCase());
+    const selected = wanted
+      ? document.specifications.filter(specification => wanted.includes(specification.name.toLowerCase())
+        || (specification.identifier !== undefined && wanted.includes(specification.identifier.toLowerCase())))
+      : document.specifications;
+    if (selected.length === 0) {
+      return {
+        error: 'None of the requested specifications exists in the IDS document.',
+        availableSpecifications: document.specifications.map(specification => specification.name)
+      };
+    }
+
+    const report = documents.validate({ ...document, specifications: selected }, store.getAll());
+
+    const failingKeys = Array.from(new Set(report.specifications.flatMap(result => result.failures.map(failure => failure.key))));
+    if (highlight) {
+      const globalIds = store.getMany(failingKeys)
+        .map(entity => entity.globalId)
+        .filter((globalId): globalId is string => !!globalId);
+      await onHighlight(failingKeys, globalIds);
+    }
+
+    return {
+      document: report.title,
+      checkedEntities: report.entityCount,
+      passedSpecifications: report.passedSpecifications,
+      failedSpecifications: report.failedSpecifications,
+      uncheckedSpecifications: report.uncheckedSpecifications,
+      specifications: report.specifications.map(result => ({
+        name: result.name,
+        identifier: result.identifier,
+        instructions: result.instructions,
+        passed: result.passed,
+        checked: result.checked,
+        applicable: result.applicableCount,
+        failed: result.failedCount,
+        cardinalityError: result.cardinalityError,
+        notChecked: result.uncheckedFacets.length > 0 ? result.uncheckedFacets : undefined,
+        failures: result.failures.slice(0, maxFailures).map(failure => ({
+          entityId: failure.key,
+          name: failure.name,
+          type: failure.type,
+          reasons: failure.reasons
+        }))
+      })),
+      // Failing entities of all checked specifications
+      entityIds: failingKeys.slice(0, MAX_ENTITY_IDS),
+      totalCount: failingKeys.length,
+      highlighted: highlight ? failingKeys.length : 0
+    };
+  }
+});
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { Tool, ToolValidationError } from './tool-registry';
+import { defineTool, entityRef, listOf } from './define-tool';
+import { EventBus } from '@/core/events/event-bus';
+import { EntityStore } from '@/core/entities';
+import { QuerySyntaxError } from '@/core/query';
+import { QTO_QUANTITY_KINDS, computeQuantityTakeoff } from '@/features/qto';
+import { QtoTotals } from '@/types/qto';
+
+// Entity keys returned for the working set
+const MAX_ENTITY_IDS = 1000;
+
+const quantityTakeoffSchema = z.object({
+  groupBy: listOf(z.enum(['type', 'storey', 'material', 'classification'])).default(['type'])
+    .describe('Grouping dimensions, outermost first (default: ["type"])'),
+  types: listOf(z.string()).default([])
+    .describe('IFC types to include (e.g. ["IfcWall", "IfcSlab"]). Default: all building elements, without spatial structure and openings'),
+  models: listOf(z.string()).default([])
+    .describe('Model ids to include; default: all loaded models'),
+  entityIds: listOf(entityRef()).default([])
+    .describe('Restrict the take-off to these entities. For follow-up questions use {"$ref": "working.entityIds"}'),
+  filter: z.string().optional()
+    .describe('Property filter in the bim_search syntax, e.g. "Pset_WallCommon.IsExternal = true"'),
+  maxRows: z.number().int().min(1).max(500).default(50)
+    .describe('Rows returned, in group order (default: 50); totals always cover all rows')
+});
+
+// Rounded quantities, zero values left out
+function quantitiesOf(values: QtoTotals): Record<string, number> {
+  const result: Record<string, number> = {};
+  QTO_QUANTITY_KINDS.forEach(kind => {
+    if (values[kind] > 0) result[kind] = Number(values[kind].toFixed(3));
+  });
+  return result;
+}
+
+export const createBimQuantityTakeoffTool = (store: EntityStore): Tool => defineTool({
+  name: 'bim_quantity_takeoff',
+  description: 'Quantity take-off (QTO): count, length (m), area (m²), volume (m³) and weight (kg) of the loaded models, summed per group of type, storey, material and/or classification. '
+    + 'Values come from IfcElementQuantity (Qto_*/BaseQuantities), then property sets; missing ones are estimated from bounding boxes and material densities ("estimated" counts those entities). '
+    + 'Returns structured numbers per group and the totals; the table is shown in the viewer and can be exported there as CSV or XLSX.',
+  schema: quantityTakeoffSchema,
+  execute: async ({ groupBy, types, models, entityIds, filter, maxRows }) => {
+    let table;
+    try {
+      table = computeQuantityTakeoff(store, { groupBy, types, models, entityIds, filter });
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) {
+        throw new ToolValidationError('bim_quantity_takeoff', [{ path: 'filter', message: error.message }]);
+      }
+      throw error;
+    }
+    if (table.totals.count === 0) {
+      return { error: 'No entities match the selection.', groupBy };
+    }
+    EventBus.emit('qto:computed', { table });
+
+    const keys = table.rows.flatMap(row => row.entityIds);
+    return {
+      groupBy: table.groupBy,
+      units: { length: 'm', area: 'm²', volume: 'm³', weight: 'kg' },
+      rows: table.rows.slice(0, maxRows).map(row => ({
+        ...Object.fromEntries(table.groupBy.map((dimension, index) => [dimension, row.groups[index]])),
+        count: row.count,
+        ...quantitiesOf(row),
+        estimated: row.estimatedCount > 0 ? row.estimatedCount : undefined
+      })),
+      totalRows: table.rows.length,
+      totals: {
+        count: table.totals.count,
+        ...quantitiesOf(table.totals),
+        estimated: table.totals.estimatedCount
+      },
+      entityIds: keys.slice(0, MAX_ENTITY_IDS),
+      totalCount: keys.length
+    };
+  }
+});
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { Tool } from './tool-registry';
+import { defineTool } from './define-tool';
+import { EntityStore } from '@/core/entities';
+import type { OctreeReader } from '@/core/spatial/octree-builder';
+import { RuleSetStore, findingEntityKeys, ruleSetStore } from '@/features/rules';
+import { EntityKey } from '@/types/bim';
+
+// Entity keys of the findings returned for the working set; all of them are highlighted
+const MAX_ENTITY_IDS = 1000;
+
+type HighlightCallback = (keys: EntityKey[], globalIds: string[]) => Promise<void> | void;
+
+const ruleCheckSchema = z.object({
+  ruleSet: z.string().optional().describe('Name of the rule set to run; omit to list the available rule sets'),
+  rules: z.array(z.string()).optional().describe('Only run these rule ids of the set; default: all'),
+  highlight: z.boolean().default(true).describe('Highlight the entities of the findings in the 3D viewer (default: true)'),
+  maxFindings: z.number().int().min(1).max(200).default(30).describe('Findings listed, errors first (default: 30)')
+});
+
+export const createBimRuleCheckTool = (
+  onHighlight: HighlightCallback,
+  store: EntityStore,
+  octrees?: Map<string, OctreeReader> | null,
+  ruleSets: RuleSetStore = ruleSetStore
+): Tool => defineTool({
+  name: 'bim_check_rules',
+  description: 'Run a named rule set of in-house model checks: property rules (e.g. every door has a FireRating), count rules, relationship rules (e.g. walls contained in a storey) and geometric rules (e.g. walls of a storey must not overlap). Returns the findings grouped by severity (error, warning, info) with their entities. Call without ruleSet to list the available rule sets.',
+  schema: ruleCheckSchema,
+  execute: async ({ ruleSet: ruleSetName, rules, highlight, maxFindings }) => {
+    const available = ruleSets.list().map(entry => ({
+      name: entry.name,
+      description: entry.description,
+      rules: entry.rules.map(rule => rule.id)
+    }));
+    if (!ruleSetName) {
+      return { ruleSets: available };
+    }
+
+    const ruleSet = ruleSets.get(ruleSetName);
+    if (!ruleSet) {
+      return { error: `Rule set "${ruleSetName}" does not exist.`, ruleSets: available };
+    }
+
+    const selected = rules ? ruleSet.rules.filter(rule => rules.includes(rule.id)) : ruleSet.rules;
+    if (selected.length === 0) {
+      return { error: 'None of the requested rules exists in the rule set.', rules: ruleSet.rules.map(rule => rule.id) };
+    }
+
+    const report = ruleSets.run({ ...ruleSet, rules: selected }, { store, octrees });
+    const keys = findingEntityKeys(report.findings);
+    if (highlight) {
+      const globalIds = store.getMany(keys)
+        .map(entity => entity.globalId)
+        .filter((globalId): globalId is string => !!globalId);
+      await onHighlight(keys, globalIds);
+    }
+
+    return {
+      ruleSet: report.ruleSet,
+      checkedEntities: report.entityCount,
+      severityCounts: report.severityCounts,
+      rules: report.rules.map(result => ({
+        id: result.ruleId,
+        name: result.name,
+        severity: result.severity,
+        checked: result.checkedCount,
+        findings: result.findingCount,
+        skipped: result.skippedCount > 0 ? result.skippedCount : undefined,
+        error: result.error
+      })),
+      findings: report.findings.slice(0, maxFindings).map(finding => ({
+        rule: finding.ruleId,
+        severity: finding.severity,
+        message: finding.message,
+        entityIds: finding.entityIds.slice(0, 10)
+      })),
+      totalFindings: report.findings.length,
+      entityIds: keys.slice(0, MAX_ENTITY_IDS),
+      totalCount: keys.length,
+      highlighted: highlight ? keys.length : 0
+    };
+  }
+});
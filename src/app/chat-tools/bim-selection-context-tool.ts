@@ -4,9 +4,13 @@
  */
 
 import * as FRAGS from "@thatopen/fragments";
+import { z } from 'zod';
 import { Tool } from './tool-registry';
+import { defineTool } from './define-tool';
 import { EventBus } from '@/core/events/event-bus';
+import { getEntityStore, getEntityKey } from '@/core/entities';
 import { EntityChunkData } from '@/types/tools';
+import { EntityKey, ExtractedEntity } from '@/types/bim';
 
 // Simple logger function
 const chunkLogger = {
@@ -18,9 +22,9 @@ const chunkLogger = {
 
 export class SelectedEntitiesChunkManager {
   private static instance: SelectedEntitiesChunkManager;
-  // Stores raw expressIds per source so we can decide which set is "active" by recency
-  public userHighlightExpressIds: number[] = [];
-  public aiHighlightExpressIds: number[] = [];
+  // Stores model-scoped entity keys per source so we can decide which set is "active" by recency
+  public userHighlightKeys: EntityKey[] = [];
+  public aiHighlightKeys: EntityKey[] = [];
 
   // Timestamps per source (ms since epoch) to resolve precedence by most-recent event
   public lastUserHighlightAt = 0;
@@ -33,35 +37,35 @@ export class SelectedEntitiesChunkManager {
     chunkLogger.log("Initialized with EventBus listener");
   }
   
-  private handleUserHighlight(data: { expressIds: number[]; globalIds?: string[] }) {
-    chunkLogger.log(`User highlight received: ${data.expressIds?.length || 0} entities`);
-    this.userHighlightExpressIds = data.expressIds || [];
+  private handleUserHighlight(data: { keys: EntityKey[]; globalIds?: string[] }) {
+    chunkLogger.log(`User highlight received: ${data.keys?.length || 0} entities`);
+    this.userHighlightKeys = data.keys || [];
     this.lastUserHighlightAt = Date.now();
-    chunkLogger.log(`Stored user highlight IDs: [${this.userHighlightExpressIds.join(', ')}]`);
+    chunkLogger.log(`Stored user highlight keys: [${this.userHighlightKeys.join(', ')}]`);
   }
 
-  private handleAiHighlight(data: { expressIds: number[]; globalIds?: string[] }) {
-    chunkLogger.log(`AI highlight received: ${data.expressIds?.length || 0} entities`);
-    this.aiHighlightExpressIds = data.expressIds || [];
+  private handleAiHighlight(data: { keys: EntityKey[]; globalIds?: string[] }) {
+    chunkLogger.log(`AI highlight received: ${data.keys?.length || 0} entities`);
+    this.aiHighlightKeys = data.keys || [];
     this.lastAiHighlightAt = Date.now();
-    chunkLogger.log(`Stored AI highlight IDs: [${this.aiHighlightExpressIds.join(', ')}]`);
+    chunkLogger.log(`Stored AI highlight keys: [${this.aiHighlightKeys.join(', ')}]`);
   }
 
-  public getActiveExpressIds(): number[] {
+  public getActiveKeys(): EntityKey[] {
     // Choose the most recent non-empty source. If empty, return an empty list
-    const candidates: Array<{ ts: number; ids: number[] }> = [
-      { ts: this.lastAiHighlightAt, ids: this.aiHighlightExpressIds },
-      { ts: this.lastUserHighlightAt, ids: this.userHighlightExpressIds },
-    ].filter(c => c.ids && c.ids.length > 0);
+    const candidates: Array<{ ts: number; keys: EntityKey[] }> = [
+      { ts: this.lastAiHighlightAt, keys: this.aiHighlightKeys },
+      { ts: this.lastUserHighlightAt, keys: this.userHighlightKeys },
+    ].filter(c => c.keys && c.keys.length > 0);
 
     if (candidates.length === 0) return [];
     candidates.sort((a, b) => b.ts - a.ts);
-    return candidates[0].ids;
+    return candidates[0].keys;
   }
 
-  private mapExpressIdsToChunks(expressIds: number[]): EntityChunkData[] {
+  private mapKeysToChunks(keys: EntityKey[]): EntityChunkData[] {
     const results: EntityChunkData[] = [];
-    if (!expressIds || expressIds.length === 0) return results;
+    if (!keys || keys.length === 0) return results;
 
     const bimData = (window as any).__bimData;
     if (!bimData || !Array.isArray(bimData.entities)) {
@@ -69,24 +73,24 @@ export class SelectedEntitiesChunkManager {
       return results;
     }
 
-    for (const expressId of expressIds) {
-      // Try both expressID and localId fields since entities might have different naming
-      const entity = bimData.entities.find((e: any) => 
-        e.expressID === expressId || e.localId === expressId || e.id === expressId
-      );
+    const store = getEntityStore(bimData.entities);
+    for (const key of keys) {
+      const entity = store.get(key) as (ExtractedEntity & Partial<Pick<EntityChunkData, 'attributes' | 'psets'>>) | undefined;
       if (!entity) {
-        chunkLogger.warn(`Entity not found for ID: ${expressId}`);
+        chunkLogger.warn(`Entity not found for key: ${key}`);
         continue;
       }
       results.push({
-        localId: entity.localId || entity.expressID || expressId,
-        expressId: entity.expressID || entity.localId || expressId,
+        key: getEntityKey(entity),
+        modelId: entity.modelId,
+        localId: entity.localId || entity.expressID,
+        expressId: entity.expressID || entity.localId,
         globalId: entity.globalId,
         attributes: entity.properties || entity.attributes || {},
         psets: entity.psets || {},
         category: entity.type || entity.category,
         name: entity.name,
-        description: `${entity.type || entity.category || 'Unknown'} (ID: ${expressId})`,
+        description: `${entity.type || entity.category || 'Unknown'} (ID: ${key})`,
       });
     }
     return results;
@@ -100,8 +104,8 @@ export class SelectedEntitiesChunkManager {
   }
   
   getSelectedChunks(): EntityChunkData[] {
-    const ids = this.getActiveExpressIds();
-    return this.mapExpressIdsToChunks(ids);
+    const keys = this.getActiveKeys();
+    return this.mapKeysToChunks(keys);
   }
   
   getChunksAsContext(): string {
@@ -114,7 +118,7 @@ export class SelectedEntitiesChunkManager {
       `Selected Entities (${selected.length}):`,
       ...selected.map(entity => {
         const lines = [
-          `\n- Entity ID: ${entity.expressId}`,
+          `\n- Entity ID: ${entity.key}`,
           `  Type: ${entity.category || 'Unknown'}`,
           `  Name: ${entity.name || 'Unnamed'}`,
           `  Global ID: ${entity.globalId || 'N/A'}`
@@ -138,32 +142,29 @@ export class SelectedEntitiesChunkManager {
   // Simplified method to add entities manually
   addEntity(entity: EntityChunkData) {
     // Treat manual add as user-originated highlight for consistency
-    this.userHighlightExpressIds.push(entity.expressId);
+    this.userHighlightKeys.push(entity.key);
     this.lastUserHighlightAt = Date.now();
   }
   
   clearEntities() {
-    this.userHighlightExpressIds = [];
-    this.aiHighlightExpressIds = [];
+    this.userHighlightKeys = [];
+    this.aiHighlightKeys = [];
     this.lastUserHighlightAt = this.lastAiHighlightAt = 0;
   }
 }
 
 // Create and export a tool for the LLM
-export const bimSelectionContextTool: Tool = {
+export const bimSelectionContextTool: Tool = defineTool({
   name: 'bim_selection_context',
   description: 'Get detailed information about currently selected/highlighted entities. Use this when the user asks "what is selected" or similar questions about current selection.',
-  parameters: {
-    type: "object",
-    properties: {}
-  },
+  schema: z.object({}),
   execute: async () => {
     const manager = SelectedEntitiesChunkManager.getInstance();
     
     // Debug logging
-    chunkLogger.log(`Selection tool called - checking active IDs...`);
-    const activeIds = manager.getActiveExpressIds();
-    chunkLogger.log(`Active IDs: [${activeIds.join(', ')}]`);
+    chunkLogger.log(`Selection tool called - checking active keys...`);
+    const activeKeys = manager.getActiveKeys();
+    chunkLogger.log(`Active keys: [${activeKeys.join(', ')}]`);
     
     const chunks = manager.getSelectedChunks();
     const context = manager.getChunksAsContext();
@@ -178,15 +179,15 @@ export const bimSelectionContextTool: Tool = {
         count: chunks.length,
         activeSource: chunks.length > 0 ? 'detected' : 'none',
         debugInfo: {
-          userHighlights: manager.userHighlightExpressIds,
-          aiHighlights: manager.aiHighlightExpressIds,
+          userHighlights: manager.userHighlightKeys,
+          aiHighlights: manager.aiHighlightKeys,
           lastUserAt: manager.lastUserHighlightAt,
           lastAiAt: manager.lastAiHighlightAt
         }
       }
     };
   }
-};
+});
 
 // Auto-initialize
 const manager = SelectedEntitiesChunkManager.getInstance();
\ No newline at end of file
@@ -1,116 +1,94 @@
+import { z } from 'zod';
 import { Tool } from './tool-registry';
-import { IfcEntity } from '@/types/bim';
-import { SpatialGeometryParams } from '@/types/tools';
+import { defineTool, entityRef, listOf } from './define-tool';
+import { DEFAULT_MODEL_ID, EntityStore, entityKey, getEntityKey } from '@/core/entities';
+import { boundsIntersect, distanceToBounds, getEntityBounds, mergeBounds, regionToBounds } from '@/core/spatial/bounds';
+import type { OctreeReader } from '@/core/spatial/octree-builder';
+import type { BoundingBox, Vec3 } from '@/types/base';
+import type { EntityKey } from '@/types/bim';
 
-export const createBimSpatialGeometryTool = (entities: IfcEntity[], octree?: any): Tool => ({
+const spatialGeometrySchema = z.object({
+  operation: z.enum(['bounds', 'volume', 'area', 'spatial_search', 'geometry_info'])
+    .describe('Operation to perform: bounds (get bounding box), volume, area, spatial_search (find in region), geometry_info (all properties)'),
+  entityIds: listOf(entityRef()).default([])
+    .describe('Entity keys ("modelId:localId") to analyze (for geometry operations)'),
+  region: z.object({
+    minX: z.number().optional(),
+    maxX: z.number().optional(),
+    minY: z.number().optional(),
+    maxY: z.number().optional(),
+    minZ: z.number().optional(),
+    maxZ: z.number().optional()
+  }).optional()
+    .describe('3D region for spatial search in viewer world coordinates (model units, Y is up: height is minY/maxY, IFC Z maps to Y and IFC Y to -Z); omitted sides are open'),
+  nearPoint: z.object({
+    x: z.number(),
+    y: z.number(),
+    z: z.number()
+  }).optional()
+    .describe('Point for proximity search, viewer world coordinates with Y up like region'),
+  radius: z.coerce.number().min(0).default(5)
+    .describe('Radius for proximity search (default: 5)')
+});
+
+// Candidate keys from the octrees of all loaded models (one octree per model, by model id)
+function queryOctrees(octrees: Map<string, OctreeReader>, query: (octree: OctreeReader) => number[]): EntityKey[] {
+  return Array.from(octrees).flatMap(([modelId, octree]) => query(octree).map(id => entityKey(modelId, id)));
+}
+
+export const createBimSpatialGeometryTool = (store: EntityStore, octrees?: Map<string, OctreeReader> | null): Tool => defineTool({
   name: 'bim_spatial_geometry',
   description: 'Analyze spatial and geometric properties of BIM entities. Can calculate volumes, areas, find entities in regions, or near points.',
-  parameters: {
-    type: 'object',
-    properties: {
-      operation: {
-        type: 'string',
-        enum: ['bounds', 'volume', 'area', 'spatial_search', 'geometry_info'],
-        description: 'Operation to perform: bounds (get bounding box), volume, area, spatial_search (find in region), geometry_info (all properties)'
-      },
-      entityIds: {
-        type: 'array',
-        items: { type: 'number' },
-        description: 'Entity IDs to analyze (for geometry operations)'
-      },
-      region: {
-        type: 'object',
-        properties: {
-          minX: { type: 'number' },
-          maxX: { type: 'number' },
-          minY: { type: 'number' },
-          maxY: { type: 'number' },
-          minZ: { type: 'number' },
-          maxZ: { type: 'number' }
-        },
-        description: '3D region for spatial search'
-      },
-      nearPoint: {
-        type: 'object',
-        properties: {
-          x: { type: 'number' },
-          y: { type: 'number' },
-          z: { type: 'number' }
-        },
-        description: 'Point for proximity search'
-      },
-      radius: {
-        type: 'number',
-        description: 'Radius for proximity search (default: 5)'
-      }
-    },
-    required: ['operation']
-  },
-  execute: async (params) => {
-    const { operation, entityIds = [], region, nearPoint, radius = 5 } = params as SpatialGeometryParams;
+  schema: spatialGeometrySchema,
+  execute: async ({ operation, entityIds, region, nearPoint, radius }) => {
     
     console.log(`📐 [bim_spatial_geometry] Operation: ${operation}`);
     
     switch (operation) {
       case 'spatial_search': {
-        // Find entities in spatial region or near point
+        // Find entities whose world-space bounding box intersects the region or lies within radius of the point
+        if (!region && !nearPoint) {
+          return { error: 'spatial_search requires region or nearPoint' };
+        }
+        
+        // The octree narrows the candidates; the exact test uses the entity boxes.
+        // Models without an octree (not indexed yet) are scanned.
+        const point = nearPoint as Vec3 | undefined;
+        const useOctree = !!octrees && octrees.size > 0;
+        const scanned = useOctree
+          ? store.getAll().filter(entity => !octrees!.has(entity.modelId ?? DEFAULT_MODEL_ID))
+          : store.getAll();
+        const candidates = useOctree
+          ? [...store.getMany(queryOctrees(octrees!, octree => (point ? octree.query(point, radius) : octree.queryRegion(region!)))), ...scanned]
+          : scanned;
+        const regionBounds = region ? regionToBounds(region) : undefined;
         const matchingEntities: any[] = [];
         
-        if (octree && (region || nearPoint)) {
-          // Use octree for optimized search
-          if (nearPoint) {
-            const nearbyIds = octree.query(nearPoint, radius);
-            for (const id of nearbyIds) {
-              const entity = entities.find(e => e.expressID === id);
-              if (entity) matchingEntities.push(entity);
-            }
-          } else if (region) {
-            const regionIds = octree.queryRegion(region);
-            for (const id of regionIds) {
-              const entity = entities.find(e => e.expressID === id);
-              if (entity) matchingEntities.push(entity);
-            }
-          }
-        } else {
-          // Fallback: brute force search using properties
-          for (const entity of entities) {
-            const props = entity.properties as any;
-            
-            // Try to extract position from properties
-            if (props?.ObjectPlacement?.RelativePlacement?.Location) {
-              const loc = props.ObjectPlacement.RelativePlacement.Location;
-              const x = loc.Coordinates?.[0] || 0;
-              const y = loc.Coordinates?.[1] || 0;
-              const z = loc.Coordinates?.[2] || 0;
-              
-              if (nearPoint) {
-                const distance = Math.sqrt(
-                  Math.pow(x - nearPoint.x, 2) +
-                  Math.pow(y - nearPoint.y, 2) +
-                  Math.pow(z - nearPoint.z, 2)
-                );
-                if (distance <= radius) {
-                  matchingEntities.push({ ...entity, distance });
-                }
-              } else if (region) {
-                if ((!region.minX || x >= region.minX) &&
-                    (!region.maxX || x <= region.maxX) &&
-                    (!region.minY || y >= region.minY) &&
-                    (!region.maxY || y <= region.maxY) &&
-                    (!region.minZ || z >= region.minZ) &&
-                    (!region.maxZ || z <= region.maxZ)) {
-                  matchingEntities.push(entity);
-                }
-              }
+        for (const entity of candidates) {
+          const entityBounds = getEntityBounds(entity);
+          if (!entityBounds) continue;
+          
+          if (point) {
+            const distance = distanceToBounds(point, entityBounds);
+            if (distance <= radius) {
+              matchingEntities.push({ ...entity, distance });
             }
+          } else if (regionBounds && boundsIntersect(entityBounds, regionBounds)) {
+            matchingEntities.push(entity);
           }
         }
         
+        if (point) {
+          matchingEntities.sort((a, b) => a.distance - b.distance);
+        }
+        
         return {
           operation: 'spatial_search',
           found: matchingEntities.length,
-          entityIds: matchingEntities.map(e => e.expressID),
+          method: useOctree ? (scanned.length > 0 ? 'octree+scan' : 'octree') : 'scan',
+          entityIds: matchingEntities.map(getEntityKey),
           examples: matchingEntities.slice(0, 5).map(e => ({
+            key: getEntityKey(e),
             expressID: e.expressID,
             type: e.type,
             name: e.name || 'Unnamed',
@@ -127,18 +105,16 @@ export const createBimSpatialGeometryTool = (entities: IfcEntity[], octree?: any
         const results: any[] = [];
         let totalVolume = 0;
         let totalArea = 0;
-        const bounds = {
-          min: { x: Infinity, y: Infinity, z: Infinity },
-          max: { x: -Infinity, y: -Infinity, z: -Infinity }
-        };
+        const entityBounds: BoundingBox[] = [];
         
         for (const id of entityIds) {
-          const entity = entities.find(e => e.expressID === id);
+          const entity = store.get(id);
           if (!entity) continue;
           
           const props = entity.properties as any;
           const result: any = {
-            expressID: id,
+            key: getEntityKey(entity),
+            expressID: entity.expressID,
             type: entity.type,
             name: entity.name
           };
@@ -169,21 +145,12 @@ export const createBimSpatialGeometryTool = (entities: IfcEntity[], octree?: any
             }
           }
           
-          // Update bounds
-          if (props?.ObjectPlacement?.RelativePlacement?.Location) {
-            const loc = props.ObjectPlacement.RelativePlacement.Location;
-            const x = loc.Coordinates?.[0] || 0;
-            const y = loc.Coordinates?.[1] || 0;
-            const z = loc.Coordinates?.[2] || 0;
-            
-            bounds.min.x = Math.min(bounds.min.x, x);
-            bounds.min.y = Math.min(bounds.min.y, y);
-            bounds.min.z = Math.min(bounds.min.z, z);
-            bounds.max.x = Math.max(bounds.max.x, x);
-            bounds.max.y = Math.max(bounds.max.y, y);
-            bounds.max.z = Math.max(bounds.max.z, z);
-            
-            result.position = { x, y, z };
+          // World-space bounds from the extracted geometry
+          const box = getEntityBounds(entity);
+          if (box) {
+            entityBounds.push(box);
+            result.boundingBox = { min: box.min, max: box.max };
+            result.position = box.center;
           }
           
           if (operation === 'geometry_info') {
@@ -191,6 +158,8 @@ export const createBimSpatialGeometryTool = (entities: IfcEntity[], octree?: any
           }
         }
         
+        const bounds = mergeBounds(entityBounds);
+        
         // Return based on operation
         switch (operation) {
           case 'volume':
@@ -198,7 +167,9 @@ export const createBimSpatialGeometryTool = (entities: IfcEntity[], octree?: any
           case 'area':
             return { operation: 'area', totalArea, entityCount: entityIds.length };
           case 'bounds':
-            return { operation: 'bounds', bounds, entityCount: entityIds.length };
+            return bounds
+              ? { operation: 'bounds', bounds, entityCount: entityIds.length, entitiesWithBounds: entityBounds.length }
+              : { operation: 'bounds', error: 'No geometry bounds available for these entities', entityCount: entityIds.length };
           case 'geometry_info':
             return { 
               operation: 'geometry_info',
@@ -1,42 +1,35 @@
+import { z } from 'zod';
 import { Tool } from './tool-registry';
-import { IfcEntity, IfcEntityIndex } from '@/types/bim';
+import { defineTool } from './define-tool';
+import { IfcEntity } from '@/types/bim';
+import { EntityStore, getEntityKey } from '@/core/entities';
 
-export const createBimTypeListTool = (entities: IfcEntity[], entityIndex: IfcEntityIndex): Tool => ({
+const typeListSchema = z.object({
+  limit: z.coerce.number().int().min(0).default(3)
+    .describe('Maximum number of examples per type (default: 3)')
+});
+
+export const createBimTypeListTool = (store: EntityStore): Tool => defineTool({
   name: 'bim_type_list',
   description: 'List all available entity types with examples',
-  parameters: {
-    type: 'object',
-    properties: {
-      limit: { type: 'number', description: 'Maximum number of examples per type (default: 3)' }
-    }
-  },
-  execute: async (params) => {
-    const { limit = 3 } = params as { limit?: number };
+  schema: typeListSchema,
+  execute: async ({ limit }) => {
     // console.log(`📊 [list_entity_types] Listing all entity types with up to ${limit} examples each`);
     
-    // Get all entity types with counts
-    const typeBreakdown = Object.entries(entityIndex).map(([type, ids]) => ({
-      type,
-      count: (ids as number[]).length,
-      ids: ids as number[]
-    })).sort((a, b) => b.count - a.count);
+    // Get all entity types with counts (largest first)
+    const typeBreakdown = Object.entries(store.getTypeCounts()).map(([type, count]) => ({ type, count }));
     
     // Collect examples for each type
     const examples: IfcEntity[] = [];
     
     for (const typeInfo of typeBreakdown) {
       // Get first few entities of this type as examples
-      const exampleIds = typeInfo.ids.slice(0, limit);
-      
-      for (const id of exampleIds) {
-        const entity = entities.find((e) => e.expressID === id);
-        if (entity) {
-          // Add type count info to the entity name
-          examples.push({
-            ...entity,
-            name: `${typeInfo.type} (${typeInfo.count} total) - ${entity.name || 'No name'}`
-          });
-        }
+      for (const entity of store.getByType(typeInfo.type, limit)) {
+        // Add type count info to the entity name
+        examples.push({
+          ...entity,
+          name: `${typeInfo.type} (${typeInfo.count} total) - ${entity.name || 'No name'}`
+        });
       }
     }
     
@@ -45,10 +38,10 @@ export const createBimTypeListTool = (entities: IfcEntity[], entityIndex: IfcEnt
     return {
       success: true,
       count: examples.length,
-      entityIds: examples.map(e => e.expressID),
+      entityIds: examples.map(getEntityKey),
       examples: examples,
       typeCount: typeBreakdown.length,
-      totalEntities: entities.length
+      totalEntities: store.size
     };
   }
 });
\ No newline at end of file
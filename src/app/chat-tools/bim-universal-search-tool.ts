@@ -1,130 +1,99 @@
-import { Tool } from './tool-registry';
-import { IfcEntity, IfcEntityIndex } from '@/types/bim';
+import { z } from 'zod';
+import { Tool, ToolValidationError } from './tool-registry';
+import { defineTool, entityRef, listOf } from './define-tool';
+import { EntityStore, getEntityKey } from '@/core/entities';
+import { QuerySyntaxError } from '@/core/query';
 // simplified search tool (no progressive/chunk logic)
 
-interface SearchParams {
-  query?: string;
-  types?: string[];
-  countOnly?: boolean;
-  limit?: number;
-  offset?: number;
-}
+const searchSchema = z.object({
+  query: z.string().optional()
+    .describe('Text to search in entity names and property values (optional)'),
+  types: listOf(z.string()).default([])
+    .describe('Array of IFC types to filter (e.g., ["IfcWall", "IfcDoor"]). If not provided, searches all types.'),
+  models: listOf(z.string()).default([])
+    .describe('Model ids to search (see "models" in the context). If not provided, searches all loaded models.'),
+  entityIds: listOf(entityRef()).default([])
+    .describe('Restrict the search to these entities (keys from an earlier result). For follow-up questions use {"$ref": "working.entityIds"}'),
+  filter: z.string().optional()
+    .describe('Property filter, e.g. "Pset_WallCommon.IsExternal = true AND (FireRating >= 60 OR NOT LoadBearing EXISTS)". '
+      + 'Operators: = != > >= < <= ~ (contains) =~ /regex/i, IN [a, b], BETWEEN 1 AND 5, EXISTS; combine with AND, OR, NOT and parentheses. '
+      + 'Paths are property set and property names ("Pset.Prop" or just "Prop") or entity fields (name, type, tag, objectType)'),
+  sortBy: z.string().optional()
+    .describe('Property path to sort by (e.g. "Width" or "name")'),
+  sortOrder: z.enum(['asc', 'desc']).default('asc')
+    .describe('Sort direction (default: asc)'),
+  groupBy: z.string().optional()
+    .describe('Property path to group by; returns counts per value in "groups"'),
+  countOnly: z.boolean().default(false)
+    .describe('If true, only returns count without entity details'),
+  limit: z.coerce.number().int().min(1).default(100)
+    .describe('Maximum number of results to return (default: 100)'),
+  offset: z.coerce.number().int().min(0).default(0)
+    .describe('Offset for pagination (default: 0)')
+});
 
 export const createBimUniversalSearchTool = (
-  entities: IfcEntity[],
-  entityIndex: IfcEntityIndex,
+  store: EntityStore,
   _chunkManager?: any
-): Tool => ({
+): Tool => defineTool({
   name: 'bim_search',
-  description: 'Search BIM entities by type and text. Returns counts and paginated results.',
-  parameters: {
-    type: 'object',
-    properties: {
-      query: { 
-        type: 'string', 
-        description: 'Text to search in entity names and properties (optional)'
-      },
-      types: { 
-        type: 'array',
-        items: { type: 'string' },
-        description: 'Array of IFC types to filter (e.g., ["IfcWall", "IfcDoor"]). If not provided, searches all types.'
-      },
-      countOnly: {
-        type: 'boolean',
-        description: 'If true, only returns count without entity details'
-      },
-      limit: { 
-        type: 'number',
-        description: 'Maximum number of results to return (default: 100)'
-      },
-      offset: {
-        type: 'number',
-        description: 'Offset for pagination (default: 0)'
-      }
-    },
-    required: []
-  },
-  execute: async (params) => {
-    const { 
-      query, 
-      types = [], 
-      countOnly = false,
-      limit = 100,
-      offset = 0
-    } = params as SearchParams;
+  description: 'Search BIM entities of all loaded models by type, text and property filters (boolean logic, ranges, regex). Supports sorting and grouping. Returns counts and paginated results; entityIds are model-scoped keys ("modelId:localId").',
+  schema: searchSchema,
+  execute: async ({ query, types, models, entityIds, filter, sortBy, sortOrder, groupBy, countOnly, limit, offset }) => {
     
     console.log(`🔍 [bim_search] Executing search:`, {
       query,
       types: types.length || 'all',
+      models: models.length || 'all',
+      entityIds: entityIds.length || 'all',
+      filter,
+      sortBy,
+      groupBy,
       countOnly,
       limit,
       offset
     });
     
-    // Collect all matching entities
-    let matchingEntities: IfcEntity[] = [];
-    const typeCounts: Record<string, number> = {};
-    
-    // If types specified, use index for efficiency
-    if (types.length > 0) {
-      for (const type of types) {
-        const typeIds = entityIndex[type] || [];
-        typeCounts[type] = typeIds.length;
-        
-        if (!countOnly) {
-          const typeEntities = typeIds
-            .map(id => entities.find(e => e.expressID === id))
-            .filter((e): e is IfcEntity => e !== undefined);
-          matchingEntities.push(...typeEntities);
-        }
-      }
-    } else {
-      // Search all entities
-      for (const entity of entities) {
-        const matchesQuery = !query || (
-          entity.name?.toLowerCase().includes(query.toLowerCase()) ||
-          entity.type?.toLowerCase().includes(query.toLowerCase()) ||
-          JSON.stringify(entity.properties).toLowerCase().includes(query.toLowerCase())
-        );
-        
-        if (matchesQuery) {
-          if (!typeCounts[entity.type]) {
-            typeCounts[entity.type] = 0;
-          }
-          typeCounts[entity.type]++;
-          
-          if (!countOnly) {
-            matchingEntities.push(entity);
-          }
-        }
+    let result;
+    try {
+      // Types, text and equality filters are answered from the store's indexes
+      result = store.query({
+        text: query,
+        types,
+        models,
+        entityIds,
+        filter,
+        sortBy,
+        sortOrder,
+        groupBy,
+        limit,
+        offset
+      });
+    } catch (error) {
+      // Invalid filter syntax goes back to Claude like any other invalid parameter
+      if (error instanceof QuerySyntaxError) {
+        throw new ToolValidationError('bim_search', [{ path: 'filter', message: error.message }]);
       }
+      throw error;
     }
     
-    // Apply text query filter if provided
-    if (query && !countOnly && types.length > 0) {
-      matchingEntities = matchingEntities.filter(entity => 
-        entity.name?.toLowerCase().includes(query.toLowerCase()) ||
-        JSON.stringify(entity.properties).toLowerCase().includes(query.toLowerCase())
-      );
-    }
-    
-    const totalCount = matchingEntities.length;
+    const { totalCount, typeCounts, groups, entities: paginatedEntities } = result;
     
     // Return count only if requested
     if (countOnly) {
       console.log(`✅ [bim_search] Count complete:`, typeCounts);
       return {
-        totalCount: Object.values(typeCounts).reduce((a, b) => a + b, 0),
+        totalCount,
         typeCounts,
-        types: Object.keys(typeCounts)
+        types: Object.keys(typeCounts),
+        groups
       };
     }
     
-    // Apply pagination
-    const paginatedEntities = matchingEntities.slice(offset, offset + limit);
-    
     // Format results
     const examples = paginatedEntities.slice(0, 5).map(e => ({
+      key: getEntityKey(e),
+      modelId: e.modelId,
       expressID: e.expressID,
       type: e.type,
       name: e.name || 'Unnamed',
@@ -139,9 +108,10 @@ export const createBimUniversalSearchTool = (
       offset,
       limit,
       hasMore: offset + limit < totalCount,
-      entityIds: paginatedEntities.map(e => e.expressID),
+      entityIds: paginatedEntities.map(getEntityKey),
       examples,
-      typeCounts: types.length === 0 ? typeCounts : undefined
+      typeCounts: types.length === 0 ? typeCounts : undefined,
+      groups
     };
   }
 });
\ No newline at end of file
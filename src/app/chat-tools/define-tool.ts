@@ -0,0 +1,44 @@
+// Typed tool builder - one zod schema for Claude's JSON schema, validation and the execute type
+
+import { z } from 'zod';
+import { Tool } from './tool-registry';
+import { zodToJsonSchema } from './zod-json-schema';
+
+export interface ToolDefinition<S extends z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  execute: (params: z.output<S>, context?: unknown) => Promise<unknown>;
+}
+
+/**
+ * Builds a Tool whose parameters are validated and coerced by the registry
+ * before execute runs, so execute receives z.output<S> instead of `any`.
+ */
+export function defineTool<S extends z.AnyZodObject>(definition: ToolDefinition<S>): Tool<z.output<S>> {
+  return {
+    name: definition.name,
+    description: definition.description,
+    parameters: zodToJsonSchema(definition.schema),
+    schema: definition.schema,
+    execute: definition.execute
+  };
+}
+
+/**
+ * Array parameter that also accepts a single value - Claude sometimes sends "IfcWall" instead of ["IfcWall"]
+ */
+export function listOf<T extends z.ZodTypeAny>(item: T) {
+  return z.preprocess(
+    value => (value === undefined || Array.isArray(value) ? value : [value]),
+    z.array(item)
+  );
+}
+
+/**
+ * Entity reference parameter: model-scoped key "modelId:localId" as returned by the tools,
+ * or a bare express ID (only unambiguous while a single model has that ID)
+ */
+export function entityRef() {
+  return z.union([z.number().int(), z.string()]);
+}
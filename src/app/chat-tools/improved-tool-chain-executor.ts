@@ -2,140 +2,210 @@
  * Improved Tool Chain Executor with robust error handling
  */
 
-import { ToolRegistry } from './tool-registry';
+import { ToolRegistry, ToolCall, ToolValidationError } from './tool-registry';
 import ClaudeClient from '@/features/ai/services/claude-client';
-import Ajv from 'ajv';
-import { ToolChainConfig } from './tool-chain-executor';
-import { ToolDecisionSchema, ToolDecisionResult } from '@/types/tools';
+import Ajv, { ValidateFunction } from 'ajv';
+import {
+  MAX_ITERATIONS_ANSWER,
+  ToolChainConfig,
+  ToolDecision,
+  buildToolChainSystemPrompt,
+  requestToolDecision,
+  runToolCalls
+} from './tool-chain-executor';
+import { toToolErrorContent } from './tool-call-scheduler';
+import { ClaudeMessage, ClaudeToolDefinition, ClaudeToolResultBlock, RunUsage } from '@/types/claude';
+import { describeBudgetExceeded, getUsageTracker } from '@/features/ai/usage';
 
 export class ImprovedToolChainExecutor {
   private validator: Ajv;
-  private retryCount: Map<string, number> = new Map();
-  
+  private schemaValidators: Map<string, ValidateFunction> = new Map();
+
   constructor(
     private registry: ToolRegistry,
     private claudeClient: ClaudeClient,
     private config: ToolChainConfig = {}
   ) {
-    this.validator = new Ajv({ allErrors: true });
+    this.validator = new Ajv({ allErrors: true, strict: false });
     this.config = {
       maxIterations: 5,
+      timeout: 30000,
+      maxConcurrency: 4,
       ...config
     } as any;
   }
-  
+
   async execute(userPrompt: string, context?: any, chatHistory?: Array<{role: 'user' | 'assistant', content: string}>): Promise<{
     toolCalls: Array<{ tool: string; input: Record<string, unknown>; output: unknown; duration: number }>;
     finalAnswer: string;
     iterations: number;
     errors: any[];
+    usage: RunUsage;
   }> {
     const toolCalls: Array<{ tool: string; input: Record<string, unknown>; output: unknown; duration: number }> = [];
     const errors: any[] = [];
     let iterations = 0;
     let finalAnswer = '';
-    let history = '';
-    
+    const memory = this.config.memory;
+    await memory?.compact();
+    // The memory also has the tool results of earlier turns; the plain chat history is the fallback
+    const history = memory && !memory.isEmpty() ? memory.toMessages() : this.normalizeHistory(chatHistory);
+    const messages: ClaudeMessage[] = [
+      ...history,
+      { role: 'user', content: userPrompt }
+    ];
+    const system = buildToolChainSystemPrompt(context, memory?.toPromptSection());
+    const tools = this.registry.getToolDefinitions();
+    const usageRun = (this.config.usageTracker || getUsageTracker()).startRun(this.config.budget);
+    // Tool outputs by tool_use id (and the memory's working set), so later calls can reference them
+    const outputsById = new Map<string, unknown>(memory?.getReferenceOutputs());
+
     while (iterations < (this.config.maxIterations || 5)) {
+      // Stop before the next model call once a budget is used up
+      const budgetExceeded = usageRun.checkBudget();
+      if (budgetExceeded) {
+        finalAnswer = describeBudgetExceeded(budgetExceeded);
+        // The tool calls made so far stay the working set for follow-ups
+        memory?.recordTurn(userPrompt, finalAnswer, toolCalls);
+        break;
+      }
+
       iterations++;
-      
+
       try {
-        const decision = await this.getToolDecision(userPrompt, history, context, chatHistory);
-        
+        const decision = await this.getToolDecision(messages, system, tools);
+        if (decision.usage) {
+          usageRun.record(decision.model, decision.usage.inputTokens, decision.usage.outputTokens);
+        }
+
         if (decision.error) {
           errors.push(decision.error);
+          if (toolCalls.length > 0) {
+            memory?.recordTurn(userPrompt, decision.error.message, toolCalls);
+          }
           break;
         }
-        
+
         if (!decision.toolCalls || decision.toolCalls.length === 0) {
           finalAnswer = decision.finalAnswer || finalAnswer || 'Error: Keine Antwort';
+          if (decision.finalAnswer) {
+            memory?.recordTurn(userPrompt, decision.finalAnswer, toolCalls);
+          }
           break;
         }
-        
+
         // Execute requested tools
-        for (const call of decision.toolCalls) {
-          try {
-            const { result, duration } = await this.registry.executeTool(
-              call.tool,
-              call.parameters
-            );
-            
-            toolCalls.push({
-              tool: call.tool,
-              input: call.parameters,
-              output: result,
-              duration
+        messages.push({ role: 'assistant', content: decision.blocks! });
+        const toolResults: ClaudeToolResultBlock[] = [];
+
+        const scheduled = await runToolCalls(
+          decision.toolCalls,
+          async (call, params) => {
+            // Let the model correct its own input instead of failing the chain
+            const validationError = this.validateParameters({ ...call, parameters: params });
+            if (validationError) throw validationError;
+            return (await this.registry.executeTool(call.name, params)).result;
+          },
+          this.config,
+          outputsById
+        );
+
+        for (const { call, params, output, error, duration } of scheduled) {
+          if (error !== undefined) {
+            if (!(error instanceof ToolValidationError)) {
+              console.error(`Tool execution failed: ${call.name}`, error);
+            }
+            toolResults.push({
+              type: 'tool_result',
+              tool_use_id: call.id,
+              content: toToolErrorContent(call, error),
+              is_error: true
             });
-            
-            const summarizedOutput = this.summarizeToolOutput(call.tool, result);
-            history += `\nTool: ${call.tool}\nInput: ${JSON.stringify(call.parameters)}\nOutput: ${summarizedOutput}\n`;
-          } catch (error) {
-            console.error(`Tool execution failed: ${call.tool}`, error);
-            history += `\nTool: ${call.tool} failed with error: ${error}\n`;
+            continue;
           }
+
+          outputsById.set(call.id, output);
+          toolCalls.push({
+            tool: call.name,
+            input: params,
+            output,
+            duration
+          });
+
+          toolResults.push({
+            type: 'tool_result',
+            tool_use_id: call.id,
+            content: this.summarizeToolOutput(call.name, output)
+          });
         }
+
+        messages.push({ role: 'user', content: toolResults });
       } catch (err) {
         errors.push(err);
+        if (toolCalls.length > 0) {
+          memory?.recordTurn(userPrompt, err instanceof Error ? err.message : String(err), toolCalls);
+        }
         break;
       }
     }
 
-    return { toolCalls, finalAnswer, iterations, errors };
+    // Max iterations reached without an answer
+    if (!finalAnswer && errors.length === 0) {
+      memory?.recordTurn(userPrompt, MAX_ITERATIONS_ANSWER, toolCalls);
+    }
+
+    return { toolCalls, finalAnswer, iterations, errors, usage: usageRun.getUsage() };
   }
 
   private async getToolDecision(
-    userPrompt: string,
-    history: string,
-    context?: any,
-    chatHistory?: Array<{role: 'user' | 'assistant', content: string}>
-  ): Promise<ToolDecisionResult> {
-    const toolDescriptions = this.registry.getToolDescriptions();
-    
-    const truncatedHistory = history && history.length > 20000 
-      ? history.substring(history.length - 20000) + '\n[... frühere Historie gekürzt ...]'
-      : history;
-    
-    const contextStr = context ? JSON.stringify(context, null, 2) : '';
-    const truncatedContext = contextStr.length > 10000 
-      ? contextStr.substring(0, 10000) + '\n... [gekürzt]'
-      : contextStr;
-    
-    const prompt = `Du bist ein hilfreicher Assistent mit Zugriff auf folgende Tools:
-
-${toolDescriptions}
-
-Benutzeranfrage: "${userPrompt}"
-
-Bisherige Tool-Historie (gekürzt):
-${truncatedHistory}
-
-Kontext (gekürzt):
-${truncatedContext}
-
-Wenn Tools nötig sind, antworte mit JSON nach diesem Schema:
-${JSON.stringify({ thought: 'kurze Begründung', toolCalls: [{ tool: 'tool_name', parameters: { key: 'value' } }] }, null, 2)}
-
-Wenn keine Tools nötig sind, antworte mit JSON:
-${JSON.stringify({ finalAnswer: 'Antworttext' }, null, 2)}
-`;
-
-    const response = await this.claudeClient.generatePlan(prompt, {}, chatHistory);
-    let json: ToolDecisionResult;
+    messages: ClaudeMessage[],
+    system: string,
+    tools: ClaudeToolDefinition[]
+  ): Promise<ToolDecision> {
+    return requestToolDecision(
+      this.claudeClient,
+      { messages, system, tools },
+      this.config.onProgress
+    );
+  }
 
-    try {
-      json = JSON.parse(response.content);
-    } catch (error) {
-      return {
-        error: {
-          message: 'Invalid JSON from model',
-          code: 'INVALID_JSON',
-          details: response.content,
-          retry: true
-        }
-      } as any;
+  // Untyped tools are checked against their JSON schema; zod tools are validated by the registry
+  private validateParameters(call: ToolCall): ToolValidationError | null {
+    const tool = this.registry.getTool(call.name);
+    if (!tool) {
+      return new ToolValidationError(call.name, [{ path: '', message: `Unknown tool: ${call.name}` }]);
+    }
+    if (tool.schema) {
+      return null;
+    }
+
+    let validate = this.schemaValidators.get(call.name);
+    if (!validate) {
+      validate = this.validator.compile(tool.parameters);
+      this.schemaValidators.set(call.name, validate);
     }
 
-    return json;
+    if (validate(call.parameters)) {
+      return null;
+    }
+    return new ToolValidationError(
+      call.name,
+      (validate.errors || []).map(error => ({
+        path: error.instancePath.replace(/^\//, '').replace(/\//g, '.'),
+        message: error.message || 'invalid'
+      }))
+    );
+  }
+
+  // The Messages API expects the conversation to start with a user turn
+  private normalizeHistory(chatHistory?: Array<{role: 'user' | 'assistant', content: string}>): ClaudeMessage[] {
+    if (!chatHistory) return [];
+    const firstUser = chatHistory.findIndex(msg => msg.role === 'user');
+    if (firstUser === -1) return [];
+    return chatHistory
+      .slice(firstUser)
+      .filter(msg => msg.content && msg.content.trim().length > 0)
+      .map(msg => ({ role: msg.role, content: msg.content }));
   }
 
   private summarizeToolOutput(tool: string, output: unknown): string {
@@ -146,4 +216,4 @@ ${JSON.stringify({ finalAnswer: 'Antworttext' }, null, 2)}
       return '[unserializable output]';
     }
   }
-}
\ No newline at end of file
+}
@@ -2,9 +2,13 @@
 
 // Core Infrastructure
 export { 
-  ToolRegistry
+  ToolRegistry,
+  ToolValidationError
 } from './tool-registry';
 
+export { defineTool, listOf, entityRef } from './define-tool';
+export { zodToJsonSchema } from './zod-json-schema';
+
 export { 
   ToolChainExecutor
 } from './tool-chain-executor';
@@ -13,6 +17,12 @@ export {
   ImprovedToolChainExecutor
 } from './improved-tool-chain-executor';
 
+export {
+  scheduleToolCalls,
+  ToolTimeoutError,
+  ToolReferenceError
+} from './tool-call-scheduler';
+
 // Main BIM Tools (6 consolidated tools)
 
 // 1. Universal Search Tool (combines search, count, progressive search)
@@ -37,13 +47,33 @@ export { createBimChunkManagementTool } from './bim-chunk-management-tool';
 // Context Tools
 export { bimSelectionContextTool } from './bim-selection-context-tool';
 
+// Issue Tools
+export { createBimBcfTopicTool } from './bim-bcf-topic-tool';
+
+// Validation Tools
+export { createBimIdsValidationTool } from './bim-ids-validation-tool';
+export { createBimRuleCheckTool } from './bim-rule-check-tool';
+
+// Quantity Tools
+export { createBimQuantityTakeoffTool } from './bim-quantity-takeoff-tool';
+
 // Type exports
 export type { 
   Tool, 
   ToolCall, 
-  ToolChainResult 
+  ToolChainResult,
+  ToolValidationIssue
 } from './tool-registry';
 
+export type { ToolDefinition } from './define-tool';
+
 export type { 
-  ToolChainConfig 
-} from './tool-chain-executor';
\ No newline at end of file
+  ToolChainConfig,
+  ToolChainProgressEvent,
+  ToolDecision
+} from './tool-chain-executor';
+
+export type {
+  ScheduledToolCall,
+  ToolScheduleOptions
+} from './tool-call-scheduler';
\ No newline at end of file
@@ -8,6 +8,9 @@ import { ToolRegistry } from './tool-registry';
 import ClaudeClient from '@/features/ai/services/claude-client';
 import { ToolChainConfig } from './tool-chain-executor';
 import { DirectSelectionParams } from '@/types/chunks';
+import { RunUsage } from '@/types/claude';
+import { selectContext } from '@/features/ai/services/context-client';
+import { getUsageTracker } from '@/features/ai/usage';
 
 export class SmartChunksToolChainExecutor extends ImprovedToolChainExecutor {
   private smartChunksProjectId: string | null = null;
@@ -30,6 +33,7 @@ export class SmartChunksToolChainExecutor extends ImprovedToolChainExecutor {
     finalAnswer: string
     iterations: number
     errors: any[]
+    usage: RunUsage
     smartChunksUsed?: number
   }> {
     // Run normal execution first
@@ -101,6 +105,24 @@ export class SmartChunksToolChainExecutor extends ImprovedToolChainExecutor {
   }
 
   private async fetchSmartChunksContext(params: DirectSelectionParams): Promise<{ context: string; chunks: number } | null> {
+    // Server-side selection (/api/context) once the project was mirrored there
+    const win = window as unknown as { __bimData?: { smartChunks?: { contextProjectId?: string } } }
+    const contextProjectId = win.__bimData?.smartChunks?.contextProjectId
+    const remainingBudget = getUsageTracker().getRemainingTokens()
+    if (remainingBudget <= 0) {
+      console.log('🧩 Session token budget used up, no Smart Chunks context')
+      return null
+    }
+    if (contextProjectId) {
+      const selection = await selectContext(contextProjectId, { params }, 8000, remainingBudget)
+      if (selection) {
+        return {
+          context: (selection.formattedContext || []).join('\n'),
+          chunks: selection.chunks.length,
+        }
+      }
+    }
+
     try {
       const chunkSystem = (window as any).__smartChunkSystem
       if (!chunkSystem || !this.smartChunksProjectId) {
@@ -117,7 +139,7 @@ export class SmartChunksToolChainExecutor extends ImprovedToolChainExecutor {
         query = params.queryType
       }
 
-      const result = await chunkSystem.getRelevantChunks(this.smartChunksProjectId, query, 8000)
+      const result = await chunkSystem.getRelevantChunks(this.smartChunksProjectId, query, Math.min(8000, remainingBudget))
 
       const contextParts: string[] = []
       result.chunks.forEach((chunk: any) => {
@@ -0,0 +1,247 @@
+/**
+ * Tool Call Scheduler - runs the tool calls of one iteration as a small DAG
+ *
+ * Calls without dependencies run concurrently (bounded by `concurrency`). A parameter
+ * value of the form { "$ref": "#1.entityIds" } waits for call #1 of the same response
+ * and is replaced by its output at the given path. Instead of "#n" a tool_use id can
+ * be used, which also reaches outputs of earlier iterations.
+ */
+
+import { ToolCall, ToolValidationError } from './tool-registry';
+
+const REF_KEY = '$ref';
+const DEFAULT_CONCURRENCY = 4;
+
+export interface ScheduledToolCall {
+  call: ToolCall;
+  // Parameters after reference resolution
+  params: Record<string, unknown>;
+  output?: unknown;
+  error?: unknown;
+  duration: number;
+}
+
+export interface ToolScheduleOptions {
+  concurrency?: number;
+  // Per-call timeout in ms
+  timeout?: number;
+  // Outputs of earlier iterations by tool_use id
+  previousOutputs?: Map<string, unknown>;
+  onStart?: (call: ToolCall, params: Record<string, unknown>) => void;
+  onEnd?: (result: ScheduledToolCall) => void;
+}
+
+export class ToolTimeoutError extends Error {
+  constructor(public toolName: string, public timeout: number) {
+    super(`Tool ${toolName} timed out after ${timeout}ms`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+export class ToolReferenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolReferenceError';
+  }
+}
+
+/**
+ * tool_result content for a failed call
+ */
+export function toToolErrorContent(call: ToolCall, error: unknown): string {
+  if (error instanceof ToolValidationError) {
+    return error.toToolResultContent();
+  }
+  return `Tool ${call.name} failed with error: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+function isReference(value: unknown): value is { [REF_KEY]: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as Record<string, unknown>)[REF_KEY] === 'string' &&
+    Object.keys(value).length === 1
+  );
+}
+
+function collectReferences(value: unknown, refs: string[] = []): string[] {
+  if (isReference(value)) {
+    refs.push(value[REF_KEY]);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, refs));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach(item => collectReferences(item, refs));
+  }
+  return refs;
+}
+
+function splitReference(ref: string): { target: string; path: string[] } {
+  const [target, ...path] = ref.split('.');
+  return { target, path: path.filter(Boolean) };
+}
+
+function readPath(output: unknown, path: string[], ref: string): unknown {
+  let current = output;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object' || !(key in (current as Record<string, unknown>))) {
+      throw new ToolReferenceError(`Reference ${ref} not found in tool output`);
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number | undefined, toolName: string): Promise<T> {
+  if (!timeout || timeout <= 0) return promise;
+
+  // The tool itself cannot be cancelled; its late result is ignored
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new ToolTimeoutError(toolName, timeout)), timeout);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+export async function scheduleToolCalls(
+  calls: ToolCall[],
+  runCall: (call: ToolCall, params: Record<string, unknown>) => Promise<unknown>,
+  options: ToolScheduleOptions = {}
+): Promise<ScheduledToolCall[]> {
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const outputs = new Map<string, unknown>(options.previousOutputs);
+  const results: Array<ScheduledToolCall | undefined> = new Array(calls.length);
+  const pending = new Set(calls.map((_, index) => index));
+  let running = 0;
+
+  // Map "#n" and tool_use ids to a call of this batch; -1 = output of an earlier iteration
+  const resolveTarget = (target: string): number => {
+    const position = target.match(/^#(\d+)$/);
+    if (position) {
+      const index = Number(position[1]) - 1;
+      if (index < 0 || index >= calls.length) {
+        throw new ToolReferenceError(`Reference ${target} does not match a tool call`);
+      }
+      return index;
+    }
+    const index = calls.findIndex(call => call.id === target);
+    if (index !== -1) return index;
+    if (outputs.has(target)) return -1;
+    throw new ToolReferenceError(`Reference ${target} does not match a tool call`);
+  };
+
+  const dependencies: Array<number[] | ToolReferenceError> = calls.map((call, index) => {
+    try {
+      const indices = collectReferences(call.parameters)
+        .map(ref => resolveTarget(splitReference(ref).target))
+        .filter(target => target !== -1);
+      if (indices.includes(index)) {
+        throw new ToolReferenceError(`Tool call #${index + 1} references its own output`);
+      }
+      return Array.from(new Set(indices));
+    } catch (error) {
+      return error as ToolReferenceError;
+    }
+  });
+
+  const resolveValue = (value: unknown): unknown => {
+    if (isReference(value)) {
+      const ref = value[REF_KEY];
+      const { target, path } = splitReference(ref);
+      const index = resolveTarget(target);
+      const output = index === -1 ? outputs.get(target) : outputs.get(calls[index].id);
+      return readPath(output, path, ref);
+    }
+    if (Array.isArray(value)) {
+      return value.map(resolveValue);
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveValue(item)]));
+    }
+    return value;
+  };
+
+  const settle = (index: number, result: ScheduledToolCall) => {
+    results[index] = result;
+    if (result.error === undefined) {
+      outputs.set(result.call.id, result.output);
+    }
+    options.onEnd?.(result);
+  };
+
+  const start = async (index: number): Promise<void> => {
+    const call = calls[index];
+    const startTime = Date.now();
+    let params = call.parameters;
+    try {
+      params = resolveValue(call.parameters) as Record<string, unknown>;
+      options.onStart?.(call, params);
+      const output = await withTimeout(runCall(call, params), options.timeout, call.name);
+      settle(index, { call, params, output, duration: Date.now() - startTime });
+    } catch (error) {
+      settle(index, { call, params, error, duration: Date.now() - startTime });
+    }
+  };
+
+  return new Promise<ScheduledToolCall[]>(resolve => {
+    const pump = () => {
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+        for (const index of Array.from(pending)) {
+          if (running >= concurrency) break;
+
+          const deps = dependencies[index];
+          let blockedBy: unknown;
+          if (deps instanceof Error) {
+            blockedBy = deps;
+          } else {
+            if (deps.some(dep => results[dep] === undefined)) continue;
+            const failed = deps.find(dep => results[dep]!.error !== undefined);
+            if (failed !== undefined) {
+              blockedBy = new ToolReferenceError(`Referenced tool call #${failed + 1} (${calls[failed].name}) failed`);
+            }
+          }
+
+          pending.delete(index);
+          progressed = true;
+
+          if (blockedBy !== undefined) {
+            settle(index, { call: calls[index], params: calls[index].parameters, error: blockedBy, duration: 0 });
+            continue;
+          }
+
+          running++;
+          void start(index).then(() => {
+            running--;
+            pump();
+          });
+        }
+      }
+
+      if (running === 0) {
+        // Whatever is still pending waits on itself in a cycle
+        for (const index of Array.from(pending)) {
+          pending.delete(index);
+          settle(index, {
+            call: calls[index],
+            params: calls[index].parameters,
+            error: new ToolReferenceError(`Tool call #${index + 1} has a circular reference`),
+            duration: 0
+          });
+        }
+        resolve(results as ScheduledToolCall[]);
+      }
+    };
+
+    pump();
+  });
+}
@@ -1,13 +1,158 @@
 // Tool Chain Executor - Orchestrates tool execution based on AI decisions
 
-import { ToolRegistry, ToolCall, ToolChainResult } from './tool-registry';
+import { ToolRegistry, ToolCall } from './tool-registry';
+import { ScheduledToolCall, scheduleToolCalls, toToolErrorContent } from './tool-call-scheduler';
 import ClaudeClient from '@/features/ai/services/claude-client';
+import { UsageTracker, describeBudgetExceeded, getUsageTracker } from '@/features/ai/usage';
+import type { ConversationMemory } from '@/features/ai/memory';
+import {
+  ClaudeContentBlock,
+  ClaudeMessage,
+  ClaudeMessageRequest,
+  ClaudeToolDefinition,
+  ClaudeToolResultBlock,
+  ClaudeToolUseBlock,
+  RunUsage,
+  UsageBudget
+} from '@/types/claude';
+
+// Answer of a run that hit ToolChainConfig.maxIterations
+export const MAX_ITERATIONS_ANSWER = 'Maximale Anzahl an Iterationen erreicht. Aufgabe möglicherweise unvollständig.';
+
+// Live progress of a tool chain run (streamed text and client-side tool steps)
+export type ToolChainProgressEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_start'; id: string; tool: string; input: Record<string, unknown> }
+  | { type: 'tool_end'; id: string; tool: string; duration: number; success: boolean }
+  | { type: 'usage'; inputTokens: number; outputTokens: number };
 
 // Type moved from tools.ts
 export interface ToolChainConfig {
   maxIterations?: number;
+  // Per tool call, in ms
   timeout?: number;
+  // Independent tool calls of one response that may run at the same time
+  maxConcurrency?: number;
   debug?: boolean;
+  // When set, Claude responses are streamed and progress is reported here
+  onProgress?: (event: ToolChainProgressEvent) => void;
+  // Overrides the env budget (USAGE_BUDGET) for this executor
+  budget?: UsageBudget;
+  // Defaults to the session tracker
+  usageTracker?: UsageTracker;
+  // Earlier turns and working entity set for follow-up questions; the run is recorded here
+  memory?: ConversationMemory;
+}
+
+export interface ToolDecision {
+  toolCalls?: ToolCall[];
+  finalAnswer?: string;
+  thought?: string;
+  blocks?: ClaudeContentBlock[];
+  model?: string;
+  usage?: { inputTokens: number; outputTokens: number };
+  error?: { message: string, code: string, status?: number, retry_after?: number };
+}
+
+const MAX_CONTEXT_LENGTH = 10000;
+
+export const TOOL_CHAIN_SYSTEM_PROMPT = `Du bist ein hilfreicher Assistent für BIM-Modelle und hast Zugriff auf Tools, mit denen du das geladene Modell abfragen kannst.
+
+WICHTIG: Wenn der Benutzer nach Informationen über Entities fragt (z.B. "Zeig Infos", "Zeige Details", "Info über..."), 
+MUSST du IMMER zuerst bim_search verwenden, um die Entities zu finden, 
+und dann optional bim_highlight um sie hervorzuheben.
+
+Rufe so viele Tools auf, wie zur Beantwortung nötig sind. Unabhängige Tool-Aufrufe kannst du in einer Antwort bündeln, sie werden parallel ausgeführt.
+Braucht ein Aufruf das Ergebnis eines anderen Aufrufs derselben Antwort, setze als Parameterwert {"$ref": "#1.entityIds"} (Ergebnis von Aufruf 1, Feld entityIds).
+So kannst du z.B. bim_search und bim_highlight in einer Antwort kombinieren.
+Es können mehrere Modelle gleichzeitig geladen sein (z.B. Architektur, Tragwerk, TGA). Entity-IDs haben die Form "modelId:localId"; gib sie unverändert an andere Tools weiter. Mit dem Parameter models von bim_search schränkst du die Suche auf einzelne Modelle ein.
+Für Eigenschaftsfilter nutze den Parameter filter von bim_search, z.B. "Pset_WallCommon.IsExternal = true AND FireRating >= 60" (AND/OR/NOT, Klammern, IN, BETWEEN, EXISTS, ~ enthält, =~ /regex/).
+Wenn keine weiteren Tools benötigt werden, antworte direkt mit der finalen Antwort auf Deutsch.`;
+
+export function buildToolChainSystemPrompt(context?: any, memorySection?: string): string {
+  // Limit context size but keep it reasonable
+  const contextStr = context ? JSON.stringify(context, null, 2) : '';
+  const truncatedContext = contextStr.length > MAX_CONTEXT_LENGTH 
+    ? contextStr.substring(0, MAX_CONTEXT_LENGTH) + '\n... [gekürzt]'
+    : contextStr;
+
+  // The memory section has its own token budget and is not cut with the context
+  return [
+    TOOL_CHAIN_SYSTEM_PROMPT,
+    truncatedContext ? `Kontext:\n${truncatedContext}` : '',
+    memorySection || ''
+  ].filter(Boolean).join('\n\n');
+}
+
+export function toToolCalls(blocks: ClaudeContentBlock[]): ToolCall[] {
+  return blocks
+    .filter((block): block is ClaudeToolUseBlock => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id,
+      name: block.name,
+      parameters: block.input || {}
+    }));
+}
+
+/**
+ * Asks Claude for the next step. Uses the streaming endpoint when a progress
+ * callback is given, so text deltas reach the UI while the model is writing.
+ */
+export async function requestToolDecision(
+  claudeClient: ClaudeClient,
+  request: ClaudeMessageRequest,
+  onProgress?: (event: ToolChainProgressEvent) => void
+): Promise<ToolDecision> {
+  const response = onProgress
+    ? await claudeClient.streamMessages(request, event => {
+        if (event.type === 'text_delta') {
+          onProgress({ type: 'text_delta', text: event.text });
+        } else if (event.type === 'usage') {
+          onProgress({ type: 'usage', inputTokens: event.usage.input_tokens, outputTokens: event.usage.output_tokens });
+        }
+      })
+    : await claudeClient.sendMessages(request);
+
+  if (response.error) {
+    return { error: response.error };
+  }
+
+  const blocks = response.blocks || [];
+  const toolCalls = toToolCalls(blocks);
+
+  return {
+    toolCalls,
+    blocks,
+    model: response.model,
+    usage: response.usage,
+    thought: toolCalls.length > 0 ? response.content : undefined,
+    finalAnswer: toolCalls.length === 0 ? response.content : undefined
+  };
+}
+
+/**
+ * Runs the tool calls of one response through the scheduler (concurrency, $ref
+ * dependencies, per-call timeout) and reports tool_start / tool_end progress.
+ */
+export function runToolCalls(
+  calls: ToolCall[],
+  runCall: (call: ToolCall, params: Record<string, unknown>) => Promise<unknown>,
+  config: ToolChainConfig,
+  previousOutputs?: Map<string, unknown>
+): Promise<ScheduledToolCall[]> {
+  return scheduleToolCalls(calls, runCall, {
+    concurrency: config.maxConcurrency,
+    timeout: config.timeout,
+    previousOutputs,
+    onStart: (call, params) => config.onProgress?.({ type: 'tool_start', id: call.id, tool: call.name, input: params }),
+    onEnd: result => config.onProgress?.({
+      type: 'tool_end',
+      id: result.call.id,
+      tool: result.call.name,
+      duration: result.duration,
+      success: result.error === undefined
+    })
+  });
 }
 
 export class ToolChainExecutor {
@@ -24,183 +169,144 @@ export class ToolChainExecutor {
     this.claudeClient = claudeClient;
     this.config = {
       maxIterations: 5,
+      timeout: 30000,
+      maxConcurrency: 4,
       ...config
     };
   }
 
-  async execute(userPrompt: string, context?: any): Promise<{ toolCalls: Array<{ tool: string; input: any; output: any; duration: number }>; finalAnswer: string; error?: { message: string; code: string } }> {
+  async execute(userPrompt: string, context?: any): Promise<{ toolCalls: Array<{ tool: string; input: any; output: any; duration: number }>; finalAnswer: string; usage: RunUsage; error?: { message: string; code: string } }> {
     const toolCalls: Array<{ tool: string; input: any; output: any; duration: number }> = [];
+    const memory = this.config.memory;
+    await memory?.compact();
+    const messages: ClaudeMessage[] = [
+      ...(memory?.toMessages() || []),
+      { role: 'user', content: userPrompt }
+    ];
+    const system = buildToolChainSystemPrompt(context, memory?.toPromptSection());
+    const tools = this.registry.getToolDefinitions();
+    const usageRun = (this.config.usageTracker || getUsageTracker()).startRun(this.config.budget);
+    // Tool outputs by tool_use id (and the memory's working set), so later calls can reference them
+    const outputsById = new Map<string, unknown>(memory?.getReferenceOutputs());
     let iteration = 0;
-    let conversationHistory = '';
 
     while (iteration < this.config.maxIterations!) {
       iteration++;
       // console.log(`🔄 Tool Chain Iteration ${iteration}`);
 
+      // Stop before the next model call once a budget is used up
+      const budgetExceeded = usageRun.checkBudget();
+      if (budgetExceeded) {
+        const finalAnswer = describeBudgetExceeded(budgetExceeded);
+        // The tool calls made so far stay the working set for follow-ups
+        memory?.recordTurn(userPrompt, finalAnswer, toolCalls);
+        return {
+          toolCalls,
+          finalAnswer,
+          usage: usageRun.getUsage()
+        };
+      }
+
       // Step 1: Ask Claude which tools to use
-      const toolDecision = await this.getToolDecision(
-        userPrompt,
-        conversationHistory,
-        context
-      );
+      const toolDecision = await this.getToolDecision(messages, system, tools);
+      if (toolDecision.usage) {
+        usageRun.record(toolDecision.model, toolDecision.usage.inputTokens, toolDecision.usage.outputTokens);
+      }
 
       // Check for errors first
       if (toolDecision.error) {
+        if (toolCalls.length > 0) {
+          memory?.recordTurn(userPrompt, toolDecision.error.message, toolCalls);
+        }
         return {
           toolCalls,
           finalAnswer: toolDecision.error.message,
+          usage: usageRun.getUsage(),
           error: toolDecision.error
         };
       }
 
       if (!toolDecision.toolCalls || toolDecision.toolCalls.length === 0) {
         // No more tools needed, return final answer
+        const finalAnswer = toolDecision.finalAnswer || 'Aufgabe abgeschlossen.';
+        memory?.recordTurn(userPrompt, finalAnswer, toolCalls);
         return {
           toolCalls,
-          finalAnswer: toolDecision.finalAnswer || 'Aufgabe abgeschlossen.'
+          finalAnswer,
+          usage: usageRun.getUsage()
         };
       }
 
-      // Step 2: Execute the requested tools
-      for (const call of toolDecision.toolCalls) {
-        try {
-          const { result, duration } = await this.registry.executeTool(
-            call.tool,
-            call.parameters
-          );
-
-          toolCalls.push({
-            tool: call.tool,
-            input: call.parameters,
-            output: result,
-            duration
-          });
+      // Step 2: Execute the requested tools and answer each tool_use with a tool_result
+      messages.push({ role: 'assistant', content: toolDecision.blocks! });
+      const toolResults: ClaudeToolResultBlock[] = [];
+
+      const scheduled = await runToolCalls(
+        toolDecision.toolCalls,
+        async (call, params) => (await this.registry.executeTool(call.name, params)).result,
+        this.config,
+        outputsById
+      );
 
-          // Update conversation history with summarized output
-          const summarizedOutput = this.summarizeToolOutput(call.tool, result);
-          conversationHistory += `\nTool: ${call.tool}\nInput: ${JSON.stringify(call.parameters)}\nOutput: ${summarizedOutput}\n`;
-        } catch (error) {
-          console.error(`Tool execution failed: ${call.tool}`, error);
-          conversationHistory += `\nTool: ${call.tool} failed with error: ${error}\n`;
+      for (const { call, params, output, error, duration } of scheduled) {
+        if (error !== undefined) {
+          console.error(`Tool execution failed: ${call.name}`, error);
+          toolResults.push({
+            type: 'tool_result',
+            tool_use_id: call.id,
+            content: toToolErrorContent(call, error),
+            is_error: true
+          });
+          continue;
         }
+
+        outputsById.set(call.id, output);
+        toolCalls.push({
+          tool: call.name,
+          input: params,
+          output,
+          duration
+        });
+
+        toolResults.push({
+          type: 'tool_result',
+          tool_use_id: call.id,
+          content: this.summarizeToolOutput(call.name, output)
+        });
       }
+
+      messages.push({ role: 'user', content: toolResults });
     }
 
     // Max iterations reached
+    memory?.recordTurn(userPrompt, MAX_ITERATIONS_ANSWER, toolCalls);
     return {
       toolCalls,
-      finalAnswer: 'Maximale Anzahl an Iterationen erreicht. Aufgabe möglicherweise unvollständig.'
+      finalAnswer: MAX_ITERATIONS_ANSWER,
+      usage: usageRun.getUsage()
     };
   }
 
   private async getToolDecision(
-    userPrompt: string,
-    history: string,
-    context?: any
-  ): Promise<{ toolCalls?: ToolCall[], finalAnswer?: string, error?: { message: string, code: string, status?: number, retry_after?: number } }> {
-    const toolDescriptions = this.registry.getToolDescriptions();
-    
-    // Increased limits for history and context
-    const truncatedHistory = history && history.length > 20000 
-      ? history.substring(history.length - 20000) + '\n[... frühere Historie gekürzt ...]'
-      : history;
-    
-    // Limit context size but keep it reasonable
-    const contextStr = context ? JSON.stringify(context, null, 2) : '';
-    const truncatedContext = contextStr.length > 10000 
-      ? contextStr.substring(0, 10000) + '\n... [gekürzt]'
-      : contextStr;
-    
-    const prompt = `Du bist ein hilfreicher Assistent mit Zugriff auf folgende Tools:
-
-${toolDescriptions}
-
-Benutzeranfrage: "${userPrompt}"
-
-${truncatedHistory ? `Bisheriger Verlauf:\n${truncatedHistory}` : ''}
-
-${truncatedContext ? `Kontext:\n${truncatedContext}` : ''}
-
-Entscheide, welche Tools als nächstes aufgerufen werden sollen, um die Anfrage zu beantworten.
-
-WICHTIG: Wenn der Benutzer nach Informationen über Entities fragt (z.B. "Zeig Infos", "Zeige Details", "Info über..."), 
-MUSST du IMMER zuerst bim_search verwenden, um die Entities zu finden, 
-und dann optional bim_highlight um sie hervorzuheben.
-
-Wenn keine weiteren Tools benötigt werden, gib eine finale Antwort.
-
-Antworte im JSON Format:
-{
-  "thought": "Dein Gedankengang",
-  "toolCalls": [
-    {
-      "tool": "tool_name",
-      "parameters": { ... }
-    }
-  ],
-  "finalAnswer": "Finale Antwort wenn fertig"
-}
-
-WICHTIG: 
-- Antworte NUR mit validem JSON
-- Verwende KEINE Kommentare im JSON (keine /* */ oder //)
-- Wenn du mehrere Tools aufrufen willst, liste sie alle im toolCalls Array auf
-- Setze "finalAnswer" nur wenn du keine weiteren Tools brauchst`;
-
+    messages: ClaudeMessage[],
+    system: string,
+    tools: ClaudeToolDefinition[]
+  ): Promise<ToolDecision> {
     try {
-      const response = await this.claudeClient.generatePlan(prompt, {});
-      
-      // Check for error in response
-      if (response.error) {
-        return {
-          error: {
-            message: response.error,
-            code: 'CLAUDE_API_ERROR'
-          }
-        };
-      }
-      
-      const content = response.message || '';
-      
-      // Parse JSON from response with better error handling
-      let decision;
-      try {
-        // First try to parse the entire response as JSON
-        decision = JSON.parse(content);
-      } catch {
-        // If that fails, try to extract JSON from the response
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          // If no JSON found, treat as final answer
-          return { finalAnswer: content };
-        }
-        
-        try {
-          decision = JSON.parse(jsonMatch[0]);
-        } catch {
-          console.error('Failed to parse JSON from Claude response:', content);
-          return { 
-            error: { 
-              message: 'Claude gab eine ungültige Antwort zurück.',
-              code: 'INVALID_JSON_RESPONSE'
-            }
-          };
-        }
-      }
-      
-      if (this.config.includeThoughts && decision.thought) {
-        // console.log(`💭 Claude's thought: ${decision.thought}`);
+      const decision = await requestToolDecision(
+        this.claudeClient,
+        { messages, system, tools },
+        this.config.onProgress
+      );
+
+      if (this.config.debug && decision.thought) {
+        console.log(`💭 Claude's thought: ${decision.thought}`);
       }
 
       return decision;
     } catch (error) {
       console.error('Failed to get tool decision:', error);
       
-      // Pass through error objects with codes
-      if (typeof error === 'object' && error !== null && 'code' in error && 'message' in error) {
-        return { error: error as { message: string, code: string, status?: number, retry_after?: number } };
-      }
-      
       // Fallback for other errors
       return { 
         error: { 
@@ -1,16 +1,24 @@
 // Tool Chain Registry - Manages available tools and their execution
 
+import { z } from 'zod';
+import { ClaudeToolDefinition } from '@/types/claude';
+
 // Types moved from tools.ts
-export interface Tool {
+export interface Tool<TParams = any> {
   name: string;
   description: string;
+  // JSON schema sent to Claude (generated from schema when built with defineTool)
   parameters: Record<string, any>;
-  execute: (params: any, context?: any) => Promise<any>;
+  // When set, parameters are validated and coerced before execute
+  schema?: z.ZodType<TParams, z.ZodTypeDef, unknown>;
+  execute: (params: TParams, context?: any) => Promise<any>;
 }
 
+// A tool_use request from Claude; id is echoed back in the matching tool_result
 export interface ToolCall {
+  id: string;
   name: string;
-  parameters: any;
+  parameters: Record<string, unknown>;
 }
 
 export interface ToolChainResult {
@@ -21,10 +29,34 @@ export interface ToolChainResult {
   executionTime: number;
 }
 
+export interface ToolValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Invalid tool parameters; sent back to Claude as a tool_result so it can correct the call
+export class ToolValidationError extends Error {
+  constructor(
+    public toolName: string,
+    public issues: ToolValidationIssue[]
+  ) {
+    super(`Invalid parameters for ${toolName}: ${issues.map(issue => `${issue.path || '(root)'}: ${issue.message}`).join('; ')}`);
+    this.name = 'ToolValidationError';
+  }
+
+  toToolResultContent(): string {
+    return JSON.stringify({
+      error: 'invalid_parameters',
+      tool: this.toolName,
+      issues: this.issues
+    });
+  }
+}
+
 export class ToolRegistry {
   private tools = new Map<string, Tool>();
 
-  register(tool: Tool) {
+  register<TParams>(tool: Tool<TParams>) {
     this.tools.set(tool.name, tool);
     // console.log(`🔧 Registered tool: ${tool.name}`);
   }
@@ -37,17 +69,17 @@ export class ToolRegistry {
     return this.tools.get(name);
   }
 
-  getToolDescriptions(): string {
-    return this.getTools().map(tool => {
-      // Compact parameter representation
-      const params = tool.parameters.properties;
-      const paramList = Object.entries(params).map(([key, value]: [string, any]) => {
-        const required = tool.parameters.required?.includes(key) ? ' (required)' : '';
-        return `${key}: ${value.type}${required}`;
-      }).join(', ');
-      
-      return `- ${tool.name}: ${tool.description}\n  Parameters: {${paramList}}`;
-    }).join('\n');
+  // Native Anthropic tool definitions - parameters already are JSON schemas
+  getToolDefinitions(): ClaudeToolDefinition[] {
+    return this.getTools().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: {
+        type: 'object',
+        properties: {},
+        ...tool.parameters
+      }
+    }));
   }
 
   async executeTool(name: string, params: Record<string, unknown>): Promise<{ result: unknown; duration: number }> {
@@ -56,9 +88,11 @@ export class ToolRegistry {
       throw new Error(`Tool ${name} not found`);
     }
 
+    const input = this.parseParameters(tool, params);
+
     const startTime = Date.now();
     try {
-      const result = await tool.execute(params);
+      const result = await tool.execute(input);
       const duration = Date.now() - startTime;
       // console.log(`✅ Tool ${name} executed in ${duration}ms | Input:`, JSON.stringify(params));
       return { result, duration };
@@ -67,4 +101,20 @@ export class ToolRegistry {
       throw error;
     }
   }
+
+  // Validates and coerces with the tool's zod schema; untyped tools get the raw parameters
+  private parseParameters(tool: Tool, params: Record<string, unknown>): unknown {
+    if (!tool.schema) {
+      return params;
+    }
+
+    const parsed = tool.schema.safeParse(params ?? {});
+    if (!parsed.success) {
+      throw new ToolValidationError(
+        tool.name,
+        parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+      );
+    }
+    return parsed.data;
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,64 @@
+// Zod → JSON schema conversion for Claude tool definitions
+// Covers the zod types used by the chat tools; unknown types become an open schema
+
+import { z } from 'zod';
+
+export type JsonSchema = Record<string, unknown>;
+
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const json = convertType(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function convertType(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    // preprocess / refine / transform - Claude only sees the validated shape
+    return zodToJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, field] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(field);
+      if (!field.isOptional()) {
+        required.push(key);
+      }
+    }
+    return { type: 'object', properties, required };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: 'string' };
+  }
+  if (schema instanceof z.ZodNumber) {
+    const json: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+    if (schema.minValue !== null) json.minimum = schema.minValue;
+    if (schema.maxValue !== null) json.maximum = schema.maxValue;
+    return json;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: 'array', items: zodToJsonSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)) };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+  return {};
+}
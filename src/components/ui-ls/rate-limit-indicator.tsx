@@ -4,49 +4,41 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import { RateLimitQuotaInfo, RateLimitUpdate } from '@/types/api';
 
-interface RateLimitInfo {
-  remaining: number;
-  limit: number;
-  resetTime: string;
+function secondsUntil(resetTime: string): number {
+  return Math.ceil(Math.max(0, new Date(resetTime).getTime() - Date.now()) / 1000);
 }
 
 export function RateLimitIndicator() {
-  const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitInfo | null>(null);
-  const [timeUntilReset, setTimeUntilReset] = useState<number>(0);
+  const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitUpdate | null>(null);
+  const [, setTick] = useState<number>(0);
 
   useEffect(() => {
-    // Listen for rate limit headers from API responses
-    const handleRateLimit = (event: CustomEvent) => {
-      const { remaining, limit, resetTime } = event.detail;
-      setRateLimitInfo({ remaining, limit, resetTime });
+    // Listen for rate limit updates dispatched by ClaudeClient
+    const handleRateLimit = (event: CustomEvent<RateLimitUpdate>) => {
+      setRateLimitInfo(event.detail);
     };
 
     window.addEventListener('ratelimit-update' as any, handleRateLimit);
     return () => window.removeEventListener('ratelimit-update' as any, handleRateLimit);
   }, []);
 
-  useEffect(() => {
-    if (!rateLimitInfo?.resetTime) return;
-
-    const updateTimer = () => {
-      const now = Date.now();
-      const reset = new Date(rateLimitInfo.resetTime).getTime();
-      const diff = Math.max(0, reset - now);
-      setTimeUntilReset(Math.ceil(diff / 1000));
-    };
+  // Both quotas are shown from the first answer on; older servers send no token quota
+  const requests = rateLimitInfo?.requests;
+  const tokens = rateLimitInfo?.tokens;
+  const visible = !!requests || !!tokens;
+  const isExhausted = requests?.remaining === 0 || tokens?.remaining === 0;
 
-    updateTimer();
-    const interval = setInterval(updateTimer, 1000);
+  useEffect(() => {
+    if (!isExhausted) return;
 
+    // Re-render every second so the countdown stays current
+    const interval = setInterval(() => setTick(tick => tick + 1), 1000);
     return () => clearInterval(interval);
-  }, [rateLimitInfo?.resetTime]);
+  }, [isExhausted]);
 
-  if (!rateLimitInfo || rateLimitInfo.remaining > 3) return null;
-
-  const percentage = (rateLimitInfo.remaining / rateLimitInfo.limit) * 100;
-  const isLow = rateLimitInfo.remaining <= 3;
-  const isExhausted = rateLimitInfo.remaining === 0;
+  if (!visible) return null;
 
   return (
     <Card 
@@ -65,28 +57,50 @@ export function RateLimitIndicator() {
         <CardTitle className="flex items-center gap-2 text-sm">
           <span>⚡</span>
           <span>
-            {isExhausted ? 'Limit erreicht' : 'Anfragen-Limit'}
+            {isExhausted ? 'Limit erreicht' : 'Kontingent'}
           </span>
         </CardTitle>
       </CardHeader>
       
       <CardContent className="space-y-3">
-        <div className="text-sm text-muted-foreground">
-          {isExhausted ? (
-            <p>Bitte warte {timeUntilReset} Sekunden</p>
-          ) : (
-            <p>Noch {rateLimitInfo.remaining} von {rateLimitInfo.limit} Anfragen</p>
-          )}
-        </div>
-
-        <Progress 
-          value={percentage} 
-          className="h-1"
-          style={{
-            backgroundColor: 'var(--progress-bg)',
-          }}
-        />
+        {requests && (
+          <QuotaRow
+            quota={requests}
+            label={`Noch ${requests.remaining} von ${requests.limit} Anfragen`}
+          />
+        )}
+        {tokens && (
+          <QuotaRow
+            quota={tokens}
+            label={`Noch ${tokens.remaining.toLocaleString('de-DE')} von ${tokens.limit.toLocaleString('de-DE')} Tokens`}
+          />
+        )}
       </CardContent>
     </Card>
   );
-} 
\ No newline at end of file
+}
+
+function QuotaRow({ quota, label }: { quota: RateLimitQuotaInfo; label: string }) {
+  const percentage = quota.limit > 0 ? (quota.remaining / quota.limit) * 100 : 0;
+  const isExhausted = quota.remaining === 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="text-sm text-muted-foreground">
+        {isExhausted ? (
+          <p>Bitte warte {secondsUntil(quota.resetTime)} Sekunden</p>
+        ) : (
+          <p>{label}</p>
+        )}
+      </div>
+
+      <Progress 
+        value={percentage} 
+        className="h-1"
+        style={{
+          backgroundColor: 'var(--progress-bg)',
+        }}
+      />
+    </div>
+  );
+}
@@ -7,6 +7,9 @@
 import { ChunkManager } from '@/core/chunks/chunk-manager';
 import { CacheManager } from '@/app/bim-context/storage/cache-manager';
 import { chunkLogger } from '@/app/bim-context/utils/enhanced-chunk-logger';
+import { getEntityKey, getEntityStore } from '@/core/entities';
+import { FederatedModelInfo, IfcEntity } from '@/types/bim';
+import { EntityQuery } from '@/types/query';
 
 export interface DebugCommands {
   // Chunk inspection
@@ -27,6 +30,7 @@ export interface DebugCommands {
   // Model info
   showModel: () => void;
   showEntities: (type?: string, limit?: number) => void;
+  queryEntities: (filter: string, options?: Omit<EntityQuery, 'filter'>) => void;
   showStats: () => void;
   
   // Smart Chunks specific
@@ -189,6 +193,7 @@ export function initializeDebugCommands(): void {
       
       if (bimData) {
         console.log('Legacy System:');
+        console.log(`- Models: ${((bimData.models || []) as FederatedModelInfo[]).map(model => `${model.name} (${model.entityCount})`).join(', ') || '-'}`);
         console.log(`- Entities: ${bimData.entities?.length || 0}`);
         console.log(`- Types: ${Object.keys(bimData.entityIndex || {}).join(', ')}`);
         console.log(`- Spatial Index: ${bimData.spatialIndex ? 'Yes' : 'No'}`);
@@ -223,7 +228,7 @@ export function initializeDebugCommands(): void {
       
       console.log(`\n🏢 Entities ${type ? `of type ${type}` : ''} (${filtered.length} total):`);
       filtered.slice(0, limit).forEach((entity: any, i: number) => {
-        console.log(`${i + 1}. ${entity.type} - ${entity.name || 'Unnamed'} (ID: ${entity.expressID})`);
+        console.log(`${i + 1}. ${entity.type} - ${entity.name || 'Unnamed'} (ID: ${getEntityKey(entity)})`);
         if (entity.properties && Object.keys(entity.properties).length > 0) {
           console.log(`   Properties: ${Object.keys(entity.properties).slice(0, 5).join(', ')}`);
         }
@@ -234,6 +239,27 @@ export function initializeDebugCommands(): void {
       }
     },
     
+    queryEntities: (filter: string, options = {}) => {
+      const { __bimData: bimData } = window as unknown as { __bimData?: { entities?: IfcEntity[] } };
+      const entities = bimData?.entities || [];
+      
+      if (entities.length === 0) {
+        console.log('❌ No entities loaded');
+        return;
+      }
+      
+      try {
+        const result = getEntityStore(entities).query({ limit: 10, ...options, filter });
+        console.log(`\n🔍 ${result.totalCount} entities match "${filter}"`);
+        console.table(result.entities.map(e => ({ key: getEntityKey(e), type: e.type, name: e.name || 'Unnamed' })));
+        if (result.groups) {
+          console.log('Groups:', result.groups);
+        }
+      } catch (error) {
+        console.log(`❌ ${error instanceof Error ? error.message : error}`);
+      }
+    },
+    
     showStats: () => {
       const stats = chunkLogger.getStats();
       console.log('\n📊 Processing Statistics:');
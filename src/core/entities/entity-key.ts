@@ -0,0 +1,52 @@
+/**
+ * Model-scoped entity keys
+ *
+ * Express IDs (fragments local IDs) are only unique within one model. With several
+ * models loaded (architecture, structure, MEP) entities are addressed by
+ * "modelId:localId"; model ids are generated by the viewer and contain no ':'.
+ */
+
+import { EntityKey, IfcEntity } from '@/types/bim';
+
+// Model id of entities extracted without one
+export const DEFAULT_MODEL_ID = 'model';
+
+// Entity reference as sent by Claude or older callers: a key or a bare express ID
+export type EntityRef = EntityKey | number;
+
+export function entityKey(modelId: string, localId: number): EntityKey {
+  return `${modelId}:${localId}`;
+}
+
+export function getEntityKey(entity: IfcEntity): EntityKey {
+  return entityKey(entity.modelId ?? DEFAULT_MODEL_ID, entity.expressID);
+}
+
+/**
+ * Splits a key into model id and local id; null for anything that is not a key
+ */
+export function parseEntityKey(key: string): { modelId: string; localId: number } | null {
+  const separator = key.lastIndexOf(':');
+  if (separator <= 0) return null;
+  const localId = Number(key.slice(separator + 1));
+  if (!Number.isInteger(localId)) return null;
+  return { modelId: key.slice(0, separator), localId };
+}
+
+/**
+ * Local IDs per model, e.g. to highlight keys model by model; invalid keys are skipped
+ */
+export function groupKeysByModel(keys: Iterable<EntityKey>): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  for (const key of keys) {
+    const parsed = parseEntityKey(key);
+    if (!parsed) continue;
+    const localIds = groups.get(parsed.modelId);
+    if (localIds) {
+      localIds.push(parsed.localId);
+    } else {
+      groups.set(parsed.modelId, [parsed.localId]);
+    }
+  }
+  return groups;
+}
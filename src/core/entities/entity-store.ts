@@ -0,0 +1,358 @@
+/**
+ * Entity Store - indexed, read-only view of the loaded IFC entities
+ *
+ * Built once per set of loaded models and shared by all chat tools, so lookups
+ * don't scan the entity array:
+ *   - model-scoped key ("modelId:localId") -> entity
+ *   - expressID -> entities (one per model that has it)
+ *   - model id -> entities
+ *   - IFC type -> entities (case-insensitive)
+ *   - full-text token index over names and property values
+ *   - per-property value indexes, used to narrow `=` / IN filters of queries
+ * Postings are positions in the entity array, kept in ascending order so results
+ * come back in model order.
+ */
+
+import { EntityKey, IfcEntity } from '@/types/bim';
+import { EntityQuery, EntityQueryResult, QueryNode } from '@/types/query';
+import { parseQuery } from '@/core/query/query-parser';
+import {
+  ENTITY_FIELDS,
+  queryEntities,
+  unwrap,
+  valueIndexKeys,
+  valueLookupKey
+} from '@/core/query/query-engine';
+import { DEFAULT_MODEL_ID, EntityRef, getEntityKey } from './entity-key';
+
+// Deeper than the query engine's search limit, so the value index is a superset of what it resolves
+const MAX_INDEX_DEPTH = 32;
+const TEXT_FIELDS = ['name', 'type', 'description', 'objectType', 'tag', 'globalId'] as const;
+
+interface TypeEntry {
+  type: string;
+  positions: number[];
+}
+
+/**
+ * Splits text into lowercase search tokens (used for indexing and queries)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9_.\-\u00C0-\u024F]+/)
+    .map(token => token.replace(/^[.-]+|[.-]+$/g, ''))
+    .filter(Boolean);
+}
+
+function addPosting<K>(index: Map<K, number[]>, key: K, position: number): void {
+  const postings = index.get(key);
+  if (!postings) {
+    index.set(key, [position]);
+  } else if (postings[postings.length - 1] !== position) {
+    postings.push(position);
+  }
+}
+
+function intersect(a: number[], b: number[]): number[] {
+  const result: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push(a[i]);
+      i++;
+      j++;
+    } else if (a[i] < b[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return result;
+}
+
+function union(lists: number[][]): number[] {
+  if (lists.length === 1) return lists[0];
+  return Array.from(new Set(lists.flat())).sort((a, b) => a - b);
+}
+
+export class EntityStore {
+  private positions = new Map<EntityKey, number>();
+  private localIds = new Map<number, number[]>();
+  private models = new Map<string, number[]>();
+  private globalIds = new Map<string, number[]>();
+  private types = new Map<string, TypeEntry>();
+  private tokens = new Map<string, number[]>();
+  private values = new Map<string, Map<string, number[]>>();
+
+  constructor(private entities: IfcEntity[] = []) {
+    const startTime = Date.now();
+    entities.forEach((entity, position) => this.add(entity, position));
+    if (entities.length > 0) {
+      console.log(`🗂️ EntityStore indexed ${entities.length} entities (${this.tokens.size} tokens, ${this.values.size} properties) in ${Date.now() - startTime}ms`);
+    }
+  }
+
+  get size(): number {
+    return this.entities.length;
+  }
+
+  // True if the store was built from exactly this array
+  isBuiltFrom(entities: IfcEntity[]): boolean {
+    return this.entities === entities;
+  }
+
+  getAll(): IfcEntity[] {
+    return this.entities;
+  }
+
+  getModelIds(): string[] {
+    return Array.from(this.models.keys());
+  }
+
+  /**
+   * All entities a reference can mean: one for a key, one per model for a bare express ID
+   */
+  resolve(ref: EntityRef): IfcEntity[] {
+    return this.toEntities(this.findRef(ref));
+  }
+
+  // Entity for a key, or for a bare express ID that only one loaded model has
+  get(ref: EntityRef): IfcEntity | undefined {
+    const matches = this.resolve(ref);
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  // Entities for the given references in reference order; unknown or ambiguous ones are skipped
+  getMany(refs: EntityRef[]): IfcEntity[] {
+    const result: IfcEntity[] = [];
+    for (const ref of refs) {
+      const entity = this.get(ref);
+      if (entity) result.push(entity);
+    }
+    return result;
+  }
+
+  /**
+   * Entities with these IFC GlobalIds; a GlobalId found in several models yields all of them
+   */
+  getByGlobalIds(globalIds: string[]): IfcEntity[] {
+    return this.toEntities(union(globalIds.map(globalId => this.globalIds.get(globalId) ?? [])));
+  }
+
+  getByType(type: string, limit?: number): IfcEntity[] {
+    const positions = this.types.get(type.toUpperCase())?.positions ?? [];
+    return this.toEntities(limit === undefined ? positions : positions.slice(0, limit));
+  }
+
+  // Entity count per IFC type, largest first
+  getTypeCounts(): Record<string, number> {
+    const entries = Array.from(this.types.values()).sort((a, b) => b.positions.length - a.positions.length);
+    return Object.fromEntries(entries.map(entry => [entry.type, entry.positions.length]));
+  }
+
+  /**
+   * Entities containing every token of `text` (as substring of an indexed token)
+   */
+  searchText(text: string): IfcEntity[] {
+    return this.toEntities(this.findText(text));
+  }
+
+  /**
+   * Entities with a property of that name equal to `value` (same semantics as `Name = value`)
+   */
+  findByProperty(name: string, value: string | number | boolean): IfcEntity[] {
+    return this.toEntities(this.findValue(name, valueLookupKey(value)!));
+  }
+
+  /**
+   * Runs a query against the store; types, text and `=` / IN filters are answered
+   * from the indexes, everything else is evaluated on the remaining candidates
+   */
+  query(query: EntityQuery): EntityQueryResult<IfcEntity> {
+    const filter = typeof query.filter === 'string' ? parseQuery(query.filter) : query.filter;
+    let candidates: number[] | null = null;
+
+    if (query.types?.length) {
+      candidates = union(query.types.map(type => this.types.get(type.toUpperCase())?.positions ?? []));
+    }
+    if (query.models?.length) {
+      const matches = union(query.models.map(modelId => this.models.get(modelId) ?? []));
+      candidates = candidates ? intersect(candidates, matches) : matches;
+    }
+    if (query.entityIds?.length) {
+      const matches = union(query.entityIds.map(ref => this.findRef(ref)));
+      candidates = candidates ? intersect(candidates, matches) : matches;
+    }
+    if (query.text) {
+      const matches = this.findText(query.text);
+      candidates = candidates ? intersect(candidates, matches) : matches;
+    }
+    if (filter) {
+      const matches = this.narrow(filter);
+      if (matches) {
+        candidates = candidates ? intersect(candidates, matches) : matches;
+      }
+    }
+
+    return queryEntities(candidates ? this.toEntities(candidates) : this.entities, {
+      ...query,
+      filter,
+      types: undefined,
+      models: undefined,
+      entityIds: undefined,
+      text: undefined
+    });
+  }
+
+  // Positions of the entities a reference can mean
+  private findRef(ref: EntityRef): number[] {
+    if (typeof ref === 'string' && !/^\d+$/.test(ref.trim())) {
+      const position = this.positions.get(ref.trim());
+      return position === undefined ? [] : [position];
+    }
+    return this.localIds.get(Number(ref)) ?? [];
+  }
+
+  private toEntities(positions: number[]): IfcEntity[] {
+    return positions.map(position => this.entities[position]);
+  }
+
+  private findText(text: string): number[] {
+    const terms = tokenize(text);
+    if (terms.length === 0) return this.entities.map((_, position) => position);
+
+    let result: number[] | null = null;
+    for (const term of terms) {
+      const lists: number[][] = [];
+      this.tokens.forEach((postings, token) => {
+        if (token.includes(term)) lists.push(postings);
+      });
+      const matches = lists.length > 0 ? union(lists) : [];
+      result = result ? intersect(result, matches) : matches;
+      if (result.length === 0) break;
+    }
+    return result ?? [];
+  }
+
+  private findValue(name: string, key: string): number[] {
+    return this.values.get(name.toLowerCase())?.get(key) ?? [];
+  }
+
+  // Superset of the entities matching `node`, or null if the indexes can't tell
+  private narrow(node: QueryNode): number[] | null {
+    switch (node.kind) {
+      case 'and': {
+        const lists = node.nodes.map(child => this.narrow(child)).filter((list): list is number[] => list !== null);
+        return lists.length > 0 ? lists.reduce(intersect) : null;
+      }
+      case 'or': {
+        const lists = node.nodes.map(child => this.narrow(child));
+        return lists.every(list => list !== null) ? union(lists as number[][]) : null;
+      }
+      case 'compare':
+      case 'in': {
+        if (node.kind === 'compare' && node.op !== '=') return null;
+        const values = node.kind === 'compare' ? [node.value] : node.values;
+        const keys = values.map(valueLookupKey);
+        const segments = node.path.split('.').filter(Boolean);
+        // Single segments may resolve to entity fields, which are not in the value index
+        const isField = segments.length === 1 &&
+          ENTITY_FIELDS.some(field => field.toLowerCase() === segments[0].toLowerCase());
+        if (isField || segments.length === 0 || keys.some(key => key === null)) return null;
+        const name = segments[segments.length - 1];
+        return union(keys.map(key => this.findValue(name, key!)));
+      }
+      default:
+        return null;
+    }
+  }
+
+  private add(entity: IfcEntity, position: number): void {
+    this.positions.set(getEntityKey(entity), position);
+    addPosting(this.localIds, entity.expressID, position);
+    addPosting(this.models, entity.modelId ?? DEFAULT_MODEL_ID, position);
+    if (entity.globalId) {
+      addPosting(this.globalIds, entity.globalId, position);
+    }
+
+    const type = entity.type ?? 'Unknown';
+    const typeKey = type.toUpperCase();
+    let entry = this.types.get(typeKey);
+    if (!entry) {
+      entry = { type, positions: [] };
+      this.types.set(typeKey, entry);
+    }
+    entry.positions.push(position);
+
+    for (const field of TEXT_FIELDS) {
+      const value = entity[field];
+      if (typeof value === 'string') this.addText(value, position);
+    }
+    if (entity.properties) {
+      this.addProperties(entity.properties, position);
+    }
+  }
+
+  private addText(text: string, position: number): void {
+    for (const token of tokenize(text)) {
+      addPosting(this.tokens, token, position);
+    }
+  }
+
+  private addValue(name: string, value: unknown, position: number): void {
+    const keys = valueIndexKeys(value);
+    if (keys.length === 0) return;
+
+    const property = name.toLowerCase();
+    let index = this.values.get(property);
+    if (!index) {
+      index = new Map();
+      this.values.set(property, index);
+    }
+    for (const key of keys) {
+      addPosting(index, key, position);
+    }
+  }
+
+  // Indexes every primitive for full text and every (key or Name, value) pair the query engine can resolve
+  private addProperties(properties: Record<string, unknown>, position: number): void {
+    const seen = new Set<unknown>();
+
+    const walk = (node: unknown, depth: number) => {
+      if (typeof node === 'string') {
+        this.addText(node, position);
+        return;
+      }
+      if (typeof node === 'number') {
+        addPosting(this.tokens, String(node), position);
+        return;
+      }
+      if (node === null || typeof node !== 'object' || seen.has(node) || depth > MAX_INDEX_DEPTH) return;
+      seen.add(node);
+
+      if (Array.isArray(node)) {
+        node.forEach(item => walk(item, depth + 1));
+        return;
+      }
+
+      const record = node as Record<string, unknown>;
+      const name = unwrap(record.Name);
+      if (depth > 0 && typeof name === 'string') {
+        this.addValue(name, unwrap(record), position);
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const value = unwrap(child);
+        if (Array.isArray(value)) {
+          value.forEach(item => this.addValue(key, unwrap(item), position));
+        } else {
+          this.addValue(key, value, position);
+        }
+        walk(child, depth + 1);
+      }
+    };
+
+    walk(properties, 0);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Entity store exports and the shared store of the loaded models
+ */
+
+import { EventBus } from '@/core/events/event-bus';
+import { IfcEntity } from '@/types/bim';
+import { UnsubscribeFn } from '@/types/events';
+import { EntityStore } from './entity-store';
+
+export { EntityStore, tokenize } from './entity-store';
+export {
+  DEFAULT_MODEL_ID,
+  entityKey,
+  getEntityKey,
+  parseEntityKey,
+  groupKeysByModel
+} from './entity-key';
+export type { EntityRef } from './entity-key';
+export { readClassifications, readMaterialLayers, readMaterials, readPropertySets, stringOf } from './item-data';
+
+let currentStore: EntityStore | null = null;
+
+/**
+ * Store of the loaded models. Passing `entities` rebuilds it only if it was built
+ * from a different array, so callers holding the raw array can still share it.
+ */
+export function getEntityStore(entities?: IfcEntity[]): EntityStore {
+  if (entities && !currentStore?.isBuiltFrom(entities)) {
+    currentStore = new EntityStore(entities);
+  }
+  if (!currentStore) {
+    currentStore = new EntityStore();
+  }
+  return currentStore;
+}
+
+/**
+ * Rebuilds the store on entities:loaded and drops it on model:clear
+ */
+export function connectEntityStore(): UnsubscribeFn {
+  const unsubscribeLoaded = EventBus.on('entities:loaded', ({ entities }) => {
+    getEntityStore(entities || []);
+  });
+  const unsubscribeClear = EventBus.on('model:clear', () => {
+    currentStore = null;
+  });
+
+  return () => {
+    unsubscribeLoaded();
+    unsubscribeClear();
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Item Data - reads property sets, element quantities, classifications and materials
+ * from the fragments item data in IfcEntity.properties
+ *
+ * Two layouts are understood:
+ *   IFC layout   named nodes with a list of named values (IsDefinedBy → HasProperties/Quantities),
+ *                classification and material nodes anywhere below the entity
+ *   flat layout  { Pset_WallCommon: { IsExternal: true } }
+ */
+
+import { ItemClassification, ItemMaterialLayer, ItemMaterialLayerSet, ItemProperty, ItemPropertySet } from '@/types/bim';
+import { unwrap } from '@/core/query/query-engine';
+
+const MAX_DEPTH = 8;
+// Keys of property and quantity values in fragments item data
+const VALUE_KEYS = ['NominalValue', 'LengthValue', 'AreaValue', 'VolumeValue', 'CountValue', 'WeightValue', 'TimeValue'];
+const MATERIAL_NAME_KEYS = ['Name', 'Category', 'LayerSetName', 'ProfileSetName'];
+
+type DataRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is DataRecord {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Non-empty string of a plain or { value, type } wrapped attribute
+ */
+export function stringOf(value: unknown): string | undefined {
+  const unwrapped = unwrap(value);
+  return typeof unwrapped === 'string' && unwrapped !== '' ? unwrapped : undefined;
+}
+
+function categoryOf(node: DataRecord): string {
+  return String(unwrap(node._category) ?? '').toUpperCase();
+}
+
+function typeOf(value: unknown): string | undefined {
+  return isRecord(value) && typeof value.type === 'string' ? value.type.toUpperCase() : undefined;
+}
+
+// Calls visit for every object below root (arrays are walked, cycles and deep nesting are cut)
+function walk(root: unknown, visit: (node: DataRecord, depth: number) => void): void {
+  const seen = new Set<unknown>();
+  const step = (node: unknown, depth: number) => {
+    if (node === null || typeof node !== 'object' || seen.has(node) || depth > MAX_DEPTH) return;
+    seen.add(node);
+    if (Array.isArray(node)) {
+      node.forEach(item => step(item, depth + 1));
+      return;
+    }
+    visit(node as DataRecord, depth);
+    Object.values(node as DataRecord).forEach(child => step(child, depth + 1));
+  };
+  step(root, 0);
+}
+
+function propertyOf(node: DataRecord): ItemProperty | null {
+  const name = stringOf(node.Name);
+  if (!name) return null;
+  const category = categoryOf(node) || undefined;
+
+  const key = VALUE_KEYS.find(candidate => candidate in node);
+  if (key) {
+    return { name, value: unwrap(node[key]), dataType: typeOf(node[key]), category };
+  }
+  if (Array.isArray(node.EnumerationValues)) {
+    return { name, value: node.EnumerationValues.map(unwrap), dataType: typeOf(node.EnumerationValues[0]), category };
+  }
+  return null;
+}
+
+/**
+ * Property sets and element quantities of an entity, in both layouts
+ */
+export function readPropertySets(properties: DataRecord | undefined): ItemPropertySet[] {
+  if (!properties) return [];
+  const sets: ItemPropertySet[] = [];
+
+  walk(properties, (node, depth) => {
+    const name = depth > 0 ? stringOf(node.Name) : undefined;
+    if (!name) return;
+    const values = Object.values(node)
+      .filter(Array.isArray)
+      .flat()
+      .filter(isRecord)
+      .map(propertyOf)
+      .filter((property): property is ItemProperty => property !== null);
+    if (values.length > 0) {
+      sets.push({ name, category: categoryOf(node) || undefined, properties: values });
+    }
+  });
+
+  for (const [name, value] of Object.entries(properties)) {
+    if (!isRecord(value) || 'value' in value || 'Name' in value) continue;
+    const values = Object.entries(value)
+      .filter(([, property]) => {
+        const unwrapped = unwrap(property);
+        return unwrapped !== null && typeof unwrapped !== 'object';
+      })
+      .map(([propertyName, property]) => ({ name: propertyName, value: unwrap(property), dataType: typeOf(property) }));
+    if (values.length > 0) {
+      sets.push({ name, properties: values });
+    }
+  }
+  return sets;
+}
+
+/**
+ * Classification references of an entity; a bare IfcClassification only names the system
+ */
+export function readClassifications(properties: DataRecord | undefined): ItemClassification[] {
+  const references: ItemClassification[] = [];
+  walk(properties, node => {
+    const category = categoryOf(node);
+    if (category === 'IFCCLASSIFICATIONREFERENCE') {
+      // The source chain ends at the IfcClassification, which names the system
+      let source = isRecord(node.ReferencedSource) ? node.ReferencedSource : undefined;
+      while (source && categoryOf(source) === 'IFCCLASSIFICATIONREFERENCE' && isRecord(source.ReferencedSource)) {
+        source = source.ReferencedSource;
+      }
+      references.push({
+        system: source ? stringOf(source.Name) : undefined,
+        identification: stringOf(node.Identification) ?? stringOf(node.ItemReference),
+        name: stringOf(node.Name)
+      });
+    } else if (category === 'IFCCLASSIFICATION') {
+      references.push({ system: stringOf(node.Name) });
+    }
+  });
+  return references;
+}
+
+/**
+ * Names and categories of the IFCMATERIAL* nodes of an entity, outermost first
+ * (a layer set name comes before the names of its layers)
+ */
+export function readMaterials(properties: DataRecord | undefined): string[] {
+  const names = new Set<string>();
+  walk(properties, node => {
+    if (!categoryOf(node).startsWith('IFCMATERIAL')) return;
+    MATERIAL_NAME_KEYS
+      .map(key => stringOf(node[key]))
+      .forEach(name => name && names.add(name));
+  });
+  return Array.from(names);
+}
+
+/**
+ * Material layer sets of an entity (reached through IfcMaterialLayerSetUsage), layers in IFC order
+ */
+export function readMaterialLayers(properties: DataRecord | undefined): ItemMaterialLayerSet[] {
+  const sets: ItemMaterialLayerSet[] = [];
+  walk(properties, node => {
+    if (categoryOf(node) !== 'IFCMATERIALLAYERSET') return;
+    const layers: ItemMaterialLayer[] = [];
+    walk(node.MaterialLayers, layer => {
+      if (categoryOf(layer) !== 'IFCMATERIALLAYER') return;
+      // Referenced material, inline or as a one-item relation list
+      const material = [layer.Material].flat()
+        .map(value => isRecord(value) ? stringOf(value.Name) : stringOf(value))
+        .find(Boolean);
+      const thickness = unwrap(layer.LayerThickness);
+      layers.push({
+        material,
+        name: stringOf(layer.Name),
+        thickness: typeof thickness === 'number' ? thickness : undefined
+      });
+    });
+    sets.push({ name: stringOf(node.LayerSetName), layers });
+  });
+  return sets;
+}
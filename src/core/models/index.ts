@@ -0,0 +1,43 @@
+/**
+ * Model federation exports and publishing of the federated entity set
+ */
+
+import { EventBus } from '@/core/events/event-bus';
+import { modelRegistry } from './model-registry';
+
+export { ModelRegistry, modelRegistry } from './model-registry';
+export type { FederatedModel, ModelEntityData } from './model-registry';
+
+/**
+ * Writes the entities of all loaded models to window.__bimData and emits
+ * entities:loaded, so chat state and entity store always see the whole federation
+ */
+export function publishModels(changedModelId?: string): void {
+  const entities = modelRegistry.getEntities();
+  const entityIndex = modelRegistry.getEntityIndex();
+  const models = modelRegistry.list();
+
+  if (typeof window !== 'undefined') {
+    const win = window as unknown as { __bimData?: Record<string, unknown> };
+    win.__bimData = {
+      ...win.__bimData,
+      loaded: models.length > 0,
+      models,
+      entities,
+      entityIndex,
+      entityTypes: Object.keys(entityIndex),
+      spatialHierarchy: modelRegistry.getSpatialHierarchy(),
+      octreeReaders: modelRegistry.getOctreeReaders()
+    };
+  }
+
+  console.log(`🧭 Federation: ${models.length} models, ${entities.length} entities`);
+
+  EventBus.emit('entities:loaded', {
+    entities,
+    entityIndex,
+    count: entities.length,
+    fragmentId: changedModelId,
+    fragmentName: changedModelId ? modelRegistry.get(changedModelId)?.name : undefined
+  });
+}
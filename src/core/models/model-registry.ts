@@ -0,0 +1,186 @@
+/**
+ * Model Registry - the federation of loaded fragments models
+ *
+ * Several models (architecture, structure, MEP, ...) can be loaded side by side.
+ * Each one keeps its own entities, type index and octree; consumers see the
+ * concatenated entity list, whose entities carry their modelId.
+ */
+
+import { EventBus } from '@/core/events/event-bus';
+import type { FragmentsModel } from '@thatopen/fragments';
+import type { OctreeReader } from '@/core/spatial/octree-builder';
+import { FederatedModelInfo, IfcEntity, IfcEntityIndex, SpatialHierarchy } from '@/types/bim';
+
+export interface FederatedModel {
+  id: string;
+  name: string;
+  model: FragmentsModel;
+  visible: boolean;
+  entities: IfcEntity[] | null;
+  entityIndex: IfcEntityIndex;
+  spatialHierarchy: SpatialHierarchy;
+  octreeReader: OctreeReader | null;
+  // SHA-256 of the fragment bytes; keys the Smart Chunks stored in the browser
+  contentHash: string | null;
+}
+
+export interface ModelEntityData {
+  entities: IfcEntity[];
+  entityIndex: IfcEntityIndex;
+  spatialHierarchy?: SpatialHierarchy;
+  octreeReader?: OctreeReader | null;
+}
+
+export class ModelRegistry {
+  private static instance: ModelRegistry;
+  private models = new Map<string, FederatedModel>();
+  // Concatenated entities; kept until a model changes so the entity store is not rebuilt needlessly
+  private allEntities: IfcEntity[] | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ModelRegistry {
+    if (!ModelRegistry.instance) {
+      ModelRegistry.instance = new ModelRegistry();
+    }
+    return ModelRegistry.instance;
+  }
+
+  has(modelId: string): boolean {
+    return this.models.has(modelId);
+  }
+
+  get(modelId: string): FederatedModel | undefined {
+    return this.models.get(modelId);
+  }
+
+  /**
+   * Registers a model right after loading; its entities follow with setEntities
+   */
+  addModel(modelId: string, name: string, model: FragmentsModel, contentHash: string | null = null): void {
+    this.models.set(modelId, {
+      id: modelId,
+      name,
+      model,
+      visible: true,
+      entities: null,
+      entityIndex: {},
+      spatialHierarchy: {},
+      octreeReader: null,
+      contentHash
+    });
+    this.changed();
+  }
+
+  setEntities(modelId: string, data: ModelEntityData): void {
+    const entry = this.models.get(modelId);
+    if (!entry) {
+      console.warn(`⚠️ ModelRegistry: unknown model ${modelId}, entities ignored`);
+      return;
+    }
+    entry.entities = data.entities;
+    entry.entityIndex = data.entityIndex;
+    entry.spatialHierarchy = data.spatialHierarchy ?? {};
+    entry.octreeReader = data.octreeReader ?? null;
+    this.changed();
+  }
+
+  setVisible(modelId: string, visible: boolean): void {
+    const entry = this.models.get(modelId);
+    if (!entry || entry.visible === visible) return;
+    entry.visible = visible;
+    this.changed(false);
+  }
+
+  removeModel(modelId: string): boolean {
+    const removed = this.models.delete(modelId);
+    if (removed) this.changed();
+    return removed;
+  }
+
+  clear(): void {
+    this.models.clear();
+    this.changed();
+  }
+
+  list(): FederatedModelInfo[] {
+    return Array.from(this.models.values()).map(entry => ({
+      id: entry.id,
+      name: entry.name,
+      entityCount: entry.entities?.length ?? 0,
+      visible: entry.visible,
+      ready: entry.entities !== null
+    }));
+  }
+
+  getEntities(): IfcEntity[] {
+    if (!this.allEntities) {
+      this.allEntities = Array.from(this.models.values()).flatMap(entry => entry.entities ?? []);
+    }
+    return this.allEntities;
+  }
+
+  // Type -> express IDs over all models; the IDs are only unique together with their model
+  getEntityIndex(): IfcEntityIndex {
+    const merged: IfcEntityIndex = {};
+    this.models.forEach(entry => {
+      for (const [type, ids] of Object.entries(entry.entityIndex)) {
+        merged[type] = (merged[type] || []).concat(ids);
+      }
+    });
+    return merged;
+  }
+
+  // Local IDs of different models collide here; use getSpatialHierarchies to keep them apart
+  getSpatialHierarchy(): SpatialHierarchy {
+    return Object.assign({}, ...Array.from(this.models.values()).map(entry => entry.spatialHierarchy));
+  }
+
+  // Content hashes of all models; null if one of them has none
+  getContentHashes(): string[] | null {
+    const hashes = Array.from(this.models.values()).map(entry => entry.contentHash);
+    return hashes.every((hash): hash is string => hash !== null) ? hashes : null;
+  }
+
+  /**
+   * Reference that finds the model again after a reload, when it gets a new id:
+   * its content hash, or its name while it has none
+   */
+  getModelRef(modelId: string): string | null {
+    const entry = this.models.get(modelId);
+    if (!entry) return null;
+    return entry.contentHash ?? `name:${entry.name}`;
+  }
+
+  // Id of the loaded model with that reference
+  findModelIdByRef(ref: string): string | null {
+    for (const entry of this.models.values()) {
+      if ((entry.contentHash ?? `name:${entry.name}`) === ref) return entry.id;
+    }
+    return null;
+  }
+
+  getSpatialHierarchies(): Map<string, SpatialHierarchy> {
+    const hierarchies = new Map<string, SpatialHierarchy>();
+    this.models.forEach(entry => {
+      if (Object.keys(entry.spatialHierarchy).length > 0) hierarchies.set(entry.id, entry.spatialHierarchy);
+    });
+    return hierarchies;
+  }
+
+  getOctreeReaders(): Map<string, OctreeReader> {
+    const readers = new Map<string, OctreeReader>();
+    this.models.forEach(entry => {
+      if (entry.octreeReader) readers.set(entry.id, entry.octreeReader);
+    });
+    return readers;
+  }
+
+  private changed(entitiesChanged = true): void {
+    if (entitiesChanged) this.allEntities = null;
+    EventBus.emit('models:changed', { models: this.list() });
+  }
+}
+
+// Global singleton instance
+export const modelRegistry = ModelRegistry.getInstance();
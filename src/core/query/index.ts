@@ -0,0 +1,6 @@
+/**
+ * Query module exports
+ */
+
+export { parseQuery, QuerySyntaxError } from './query-parser';
+export { queryEntities, compileFilter, matchesText, resolvePropertyPath } from './query-engine';
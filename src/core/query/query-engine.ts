@@ -0,0 +1,376 @@
+/**
+ * Query engine - evaluates query DSL expressions against IFC entities
+ *
+ * Property paths are resolved in this order:
+ *   1. entity fields (expressID, modelId, type, name, globalId, ...), single-segment paths only
+ *   2. direct keys of entity.properties (fragments attributes like { value, type } are unwrapped)
+ *   3. named nodes anywhere in entity.properties: property sets and properties are found by
+ *      their Name, so `Pset_WallCommon.IsExternal` and just `IsExternal` both work
+ * A path can resolve to several values (same property in several psets); a predicate
+ * matches if any of them matches.
+ */
+
+import { IfcEntity } from '@/types/bim';
+import { EntityQuery, EntityQueryResult, QueryNode, QueryValue } from '@/types/query';
+import { checkRegex, parseQuery } from './query-parser';
+import { DEFAULT_MODEL_ID } from '@/core/entities/entity-key';
+
+export const ENTITY_FIELDS = ['expressID', 'modelId', 'type', 'name', 'globalId', 'description', 'objectType', 'tag'] as const;
+const MAX_DEPTH = 8;
+
+type PathCache = Map<IfcEntity, Map<string, unknown[]>>;
+
+export function unwrap(value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    if ('NominalValue' in record) return unwrap(record.NominalValue);
+    if ('value' in record) return unwrap(record.value);
+  }
+  return value;
+}
+
+function nameOf(node: Record<string, unknown>): string | undefined {
+  const name = unwrap(node.Name);
+  return typeof name === 'string' ? name : undefined;
+}
+
+// Nodes below root that are keyed or named `name`
+function findNamed(root: unknown, name: string): unknown[] {
+  const wanted = name.toLowerCase();
+  const found: unknown[] = [];
+  const seen = new Set<unknown>();
+
+  const walk = (node: unknown, depth: number) => {
+    if (node === null || typeof node !== 'object' || seen.has(node) || depth > MAX_DEPTH) return;
+    seen.add(node);
+
+    if (Array.isArray(node)) {
+      node.forEach(item => walk(item, depth + 1));
+      return;
+    }
+
+    const record = node as Record<string, unknown>;
+    if (depth > 0 && nameOf(record)?.toLowerCase() === wanted) {
+      found.push(record);
+    }
+    for (const [key, child] of Object.entries(record)) {
+      if (key.toLowerCase() === wanted) {
+        found.push(child);
+      }
+      walk(child, depth + 1);
+    }
+  };
+
+  walk(root, 0);
+  return found;
+}
+
+function flatten(values: unknown[]): unknown[] {
+  return values
+    .map(unwrap)
+    .flatMap(value => (Array.isArray(value) ? value.map(unwrap) : [value]))
+    .filter(value => value !== undefined);
+}
+
+/**
+ * All values of a property path on an entity (empty if the property does not exist)
+ */
+export function resolvePropertyPath(entity: IfcEntity, path: string): unknown[] {
+  const segments = path.split('.').filter(Boolean);
+  if (segments.length === 0) return [];
+
+  if (segments.length === 1) {
+    const field = ENTITY_FIELDS.find(key => key.toLowerCase() === segments[0].toLowerCase());
+    if (field && entity[field] !== undefined) {
+      return [entity[field]];
+    }
+  }
+
+  const properties = entity.properties;
+  if (!properties) return [];
+
+  // Direct keys first, e.g. "ObjectType" or "Pset_WallCommon.IsExternal" for flat psets
+  let direct: unknown = properties;
+  for (const segment of segments) {
+    const record = unwrap(direct);
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+      direct = undefined;
+      break;
+    }
+    const key = Object.keys(record).find(candidate => candidate.toLowerCase() === segment.toLowerCase());
+    direct = key !== undefined ? (record as Record<string, unknown>)[key] : undefined;
+  }
+  if (direct !== undefined) {
+    return flatten([direct]);
+  }
+
+  let nodes: unknown[] = [properties];
+  for (const segment of segments) {
+    nodes = nodes.flatMap(node => findNamed(node, segment));
+    if (nodes.length === 0) return [];
+  }
+  return flatten(nodes);
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return null;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+// IFC exports booleans as true / "TRUE" / ".T."
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toUpperCase();
+    if (['TRUE', '.T.', 'YES', 'JA'].includes(normalized)) return true;
+    if (['FALSE', '.F.', 'NO', 'NEIN'].includes(normalized)) return false;
+  }
+  return null;
+}
+
+// Regexes compiled once per filter, keyed by the regex value or by the =~ node of a string pattern
+const compiledRegexes = new WeakMap<object, RegExp>();
+
+function toRegex(owner: object, value: QueryValue): RegExp {
+  let regex = compiledRegexes.get(owner);
+  if (!regex) {
+    const pattern = value !== null && typeof value === 'object' ? value.pattern : String(value);
+    const flags = value !== null && typeof value === 'object' ? value.flags.replace('g', '') : 'i';
+    checkRegex(pattern, flags, 0);
+    regex = new RegExp(pattern, flags);
+    compiledRegexes.set(owner, regex);
+  }
+  return regex;
+}
+
+// Compiles (and validates) every regex of a filter before it is evaluated
+function compileRegexes(node: QueryNode): void {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      node.nodes.forEach(compileRegexes);
+      return;
+    case 'not':
+      compileRegexes(node.node);
+      return;
+    case 'in':
+      node.values.forEach(value => {
+        if (value !== null && typeof value === 'object') toRegex(value, value);
+      });
+      return;
+    case 'compare':
+      if (node.op === '=~') {
+        toRegex(typeof node.value === 'object' && node.value !== null ? node.value : node, node.value);
+      } else if (node.value !== null && typeof node.value === 'object') {
+        toRegex(node.value, node.value);
+      }
+      return;
+    default:
+      return;
+  }
+}
+
+function equals(actual: unknown, expected: QueryValue): boolean {
+  if (expected === null) return actual === null || actual === undefined;
+  if (typeof expected === 'boolean') return toBoolean(actual) === expected;
+  if (typeof expected === 'number') return toNumber(actual) === expected;
+  if (typeof expected === 'object') return typeof actual === 'string' && toRegex(expected, expected).test(actual);
+  return String(actual).toLowerCase() === expected.toLowerCase();
+}
+
+/**
+ * Keys under which a property value is found by `=` and IN, for value indexes.
+ * Mirrors `equals`: a value is reachable as string, as number and as boolean.
+ */
+export function valueIndexKeys(value: unknown): string[] {
+  if (value === null || value === undefined || typeof value === 'object') return [];
+  const keys = [`s:${String(value).toLowerCase()}`];
+  const number = toNumber(value);
+  if (number !== null) keys.push(`n:${number}`);
+  const boolean = toBoolean(value);
+  if (boolean !== null) keys.push(`b:${boolean}`);
+  return keys;
+}
+
+/**
+ * Index key for an expected value, or null if it cannot be looked up (regex, null)
+ */
+export function valueLookupKey(expected: QueryValue): string | null {
+  if (expected === null || typeof expected === 'object') return null;
+  if (typeof expected === 'boolean') return `b:${expected}`;
+  if (typeof expected === 'number') return `n:${expected}`;
+  return `s:${expected.toLowerCase()}`;
+}
+
+function compareValue(actual: unknown, node: Extract<QueryNode, { kind: 'compare' }>): boolean {
+  const { op, value } = node;
+  switch (op) {
+    case '=':
+      return equals(actual, value);
+    case '!=':
+      return !equals(actual, value);
+    case '~':
+      return actual !== null && actual !== undefined &&
+        String(actual).toLowerCase().includes(String(value).toLowerCase());
+    case '=~':
+      return actual !== null && actual !== undefined &&
+        toRegex(value !== null && typeof value === 'object' ? value : node, value).test(String(actual));
+    default: {
+      const left = toNumber(actual);
+      const right = toNumber(value);
+      if (left === null || right === null) return false;
+      if (op === '>') return left > right;
+      if (op === '>=') return left >= right;
+      if (op === '<') return left < right;
+      return left <= right;
+    }
+  }
+}
+
+function evaluate(node: QueryNode, entity: IfcEntity, resolve: (entity: IfcEntity, path: string) => unknown[]): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.nodes.every(child => evaluate(child, entity, resolve));
+    case 'or':
+      return node.nodes.some(child => evaluate(child, entity, resolve));
+    case 'not':
+      return !evaluate(node.node, entity, resolve);
+    case 'exists':
+      return resolve(entity, node.path).length > 0;
+    case 'in':
+      return resolve(entity, node.path).some(actual => node.values.some(value => equals(actual, value)));
+    case 'between':
+      return resolve(entity, node.path).some(actual => {
+        const number = toNumber(actual);
+        return number !== null && number >= node.min && number <= node.max;
+      });
+    case 'compare': {
+      const values = resolve(entity, node.path);
+      // A missing property is "not equal" to anything
+      if (values.length === 0) return node.op === '!=';
+      return node.op === '!='
+        ? values.every(actual => compareValue(actual, node))
+        : values.some(actual => compareValue(actual, node));
+    }
+  }
+}
+
+function createResolver(): (entity: IfcEntity, path: string) => unknown[] {
+  const cache: PathCache = new Map();
+  return (entity, path) => {
+    let paths = cache.get(entity);
+    if (!paths) {
+      paths = new Map();
+      cache.set(entity, paths);
+    }
+    let values = paths.get(path);
+    if (!values) {
+      values = resolvePropertyPath(entity, path);
+      paths.set(path, values);
+    }
+    return values;
+  };
+}
+
+/**
+ * Compiles a filter into a reusable predicate (throws QuerySyntaxError on invalid input)
+ */
+export function compileFilter(filter: string | QueryNode): (entity: IfcEntity) => boolean {
+  const node = typeof filter === 'string' ? parseQuery(filter) : filter;
+  compileRegexes(node);
+  const resolve = createResolver();
+  return entity => evaluate(node, entity, resolve);
+}
+
+/**
+ * Free text match on name, type and property values (not on property keys)
+ */
+export function matchesText(entity: IfcEntity, text: string): boolean {
+  const needle = text.toLowerCase();
+  if (entity.name?.toLowerCase().includes(needle) || entity.type?.toLowerCase().includes(needle)) {
+    return true;
+  }
+
+  const seen = new Set<unknown>();
+  const walk = (node: unknown, depth: number): boolean => {
+    if (typeof node === 'string') return node.toLowerCase().includes(needle);
+    if (typeof node === 'number') return String(node) === needle;
+    if (node === null || typeof node !== 'object' || seen.has(node) || depth > MAX_DEPTH) return false;
+    seen.add(node);
+    return Object.values(node).some(child => walk(child, depth + 1));
+  };
+  return walk(entity.properties, 0);
+}
+
+function sortKey(values: unknown[]): number | string | null {
+  if (values.length === 0) return null;
+  const number = toNumber(values[0]);
+  return number !== null && typeof values[0] !== 'boolean' ? number : String(values[0]);
+}
+
+function compareKeys(a: number | string | null, b: number | string | null): number {
+  // Entities without the property go last in both directions
+  if (a === null) return b === null ? 0 : 1;
+  if (b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), 'de', { numeric: true });
+}
+
+/**
+ * Filters, sorts, groups and pages entities. `candidates` can be pre-filtered
+ * (e.g. via the entity type index) to avoid scanning the whole model.
+ */
+export function queryEntities<T extends IfcEntity>(candidates: T[], query: EntityQuery): EntityQueryResult<T> {
+  const types = query.types?.length ? new Set(query.types.map(type => type.toUpperCase())) : null;
+  const models = query.models?.length ? new Set(query.models) : null;
+  const predicate = query.filter ? compileFilter(query.filter) : null;
+  const resolve = createResolver();
+
+  let matches = candidates.filter(entity =>
+    (!types || types.has(entity.type?.toUpperCase())) &&
+    (!models || models.has(entity.modelId ?? DEFAULT_MODEL_ID)) &&
+    (!query.text || matchesText(entity, query.text)) &&
+    (!predicate || predicate(entity))
+  );
+
+  const typeCounts: Record<string, number> = {};
+  for (const entity of matches) {
+    typeCounts[entity.type] = (typeCounts[entity.type] || 0) + 1;
+  }
+
+  let groups: Record<string, number> | undefined;
+  if (query.groupBy) {
+    groups = {};
+    for (const entity of matches) {
+      const values = resolve(entity, query.groupBy);
+      const key = values.length > 0 ? String(toBoolean(values[0]) ?? values[0]) : '(none)';
+      groups[key] = (groups[key] || 0) + 1;
+    }
+  }
+
+  if (query.sortBy) {
+    const direction = query.sortOrder === 'desc' ? -1 : 1;
+    const keys = new Map(matches.map(entity => [entity, sortKey(resolve(entity, query.sortBy!))]));
+    matches = [...matches].sort((a, b) => {
+      const keyA = keys.get(a)!;
+      const keyB = keys.get(b)!;
+      if (keyA === null || keyB === null) return compareKeys(keyA, keyB);
+      return compareKeys(keyA, keyB) * direction;
+    });
+  }
+
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? matches.length;
+
+  return {
+    totalCount: matches.length,
+    entities: matches.slice(offset, offset + limit),
+    typeCounts,
+    groups
+  };
+}
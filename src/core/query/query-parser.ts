@@ -0,0 +1,296 @@
+/**
+ * Query DSL parser
+ *
+ * Grammar (keywords case-insensitive, && / || / ! as aliases):
+ *   expr      := and ( OR and )*
+ *   and       := unary ( AND unary )*
+ *   unary     := NOT unary | '(' expr ')' | predicate
+ *   predicate := path op value | path IN '[' value, ... ']'
+ *              | path BETWEEN number AND number | path EXISTS
+ *   op        := = | != | > | >= | < | <= | ~ (contains) | =~ (regex)
+ *   path      := name ( '.' name )*     names may be quoted: "Pset Name".Prop
+ *   value     := number | 'string' | "string" | true | false | null | /regex/flags | word
+ */
+
+import { QueryComparison, QueryNode, QueryValue } from '@/types/query';
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (Position ${position})`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+/**
+ * Throws QuerySyntaxError if pattern and flags do not form a valid regex
+ */
+export function checkRegex(pattern: string, flags: string, position: number): void {
+  try {
+    new RegExp(pattern, flags.replace('g', ''));
+  } catch (error) {
+    throw new QuerySyntaxError(`Invalid regex /${pattern}/${flags}: ${(error as Error).message}`, position);
+  }
+}
+
+type TokenType = 'word' | 'string' | 'number' | 'regex' | 'op' | 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'comma' | 'dot' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  flags?: string;
+}
+
+const OPERATORS = ['>=', '<=', '!=', '=~', '&&', '||', '==', '=', '>', '<', '~', '!'];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // A slash starts a regex only where a value is expected
+  const expectsValue = () => {
+    const last = tokens[tokens.length - 1];
+    return last !== undefined && (last.type === 'op' || last.type === 'lbracket' || last.type === 'comma');
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < input.length && input[i] !== char) {
+        if (input[i] === '\\' && i + 1 < input.length) i++;
+        value += input[i++];
+      }
+      if (i >= input.length) throw new QuerySyntaxError('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (char === '/' && expectsValue()) {
+      let pattern = '';
+      i++;
+      while (i < input.length && input[i] !== '/') {
+        if (input[i] === '\\' && i + 1 < input.length) pattern += input[i++];
+        pattern += input[i++];
+      }
+      if (i >= input.length) throw new QuerySyntaxError('Unterminated regex', start);
+      i++;
+      let flags = '';
+      while (i < input.length && /[gimsuy]/.test(input[i])) flags += input[i++];
+      tokens.push({ type: 'regex', value: pattern, flags, position: start });
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '-' && /[0-9.]/.test(input[i + 1] || ''))) {
+      const match = input.slice(i).match(/^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)!;
+      i += match[0].length;
+      tokens.push({ type: 'number', value: match[0], position: start });
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => input.startsWith(candidate, i));
+    if (op) {
+      i += op.length;
+      tokens.push({ type: 'op', value: op === '==' ? '=' : op, position: start });
+      continue;
+    }
+
+    const punctuation: Record<string, TokenType> = { '(': 'lparen', ')': 'rparen', '[': 'lbracket', ']': 'rbracket', ',': 'comma', '.': 'dot' };
+    if (punctuation[char]) {
+      i++;
+      tokens.push({ type: punctuation[char], value: char, position: start });
+      continue;
+    }
+
+    const word = input.slice(i).match(/^[A-Za-z0-9_$\-\u00C0-\u024F]+/);
+    if (word) {
+      i += word[0].length;
+      tokens.push({ type: 'word', value: word[0], position: start });
+      continue;
+    }
+
+    throw new QuerySyntaxError(`Unexpected character "${char}"`, start);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    if (this.peek().type !== 'eof') {
+      this.fail(`Unexpected "${this.peek().value}"`);
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const nodes = [this.parseAnd()];
+    while (this.matchKeyword('or') || this.matchOp('||')) {
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'or', nodes };
+  }
+
+  private parseAnd(): QueryNode {
+    const nodes = [this.parseUnary()];
+    while (this.matchKeyword('and') || this.matchOp('&&')) {
+      nodes.push(this.parseUnary());
+    }
+    return nodes.length === 1 ? nodes[0] : { kind: 'and', nodes };
+  }
+
+  private parseUnary(): QueryNode {
+    if (this.matchKeyword('not') || this.matchOp('!')) {
+      return { kind: 'not', node: this.parseUnary() };
+    }
+    if (this.peek().type === 'lparen') {
+      this.index++;
+      const node = this.parseOr();
+      this.expect('rparen', '")" expected');
+      return node;
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): QueryNode {
+    const path = this.parsePath();
+
+    if (this.matchKeyword('exists')) {
+      return { kind: 'exists', path };
+    }
+
+    if (this.matchKeyword('in')) {
+      this.expect('lbracket', '"[" expected after IN');
+      const values: QueryValue[] = [];
+      if (this.peek().type !== 'rbracket') {
+        do {
+          values.push(this.parseValue());
+        } while (this.match('comma'));
+      }
+      this.expect('rbracket', '"]" expected');
+      return { kind: 'in', path, values };
+    }
+
+    if (this.matchKeyword('between')) {
+      const min = this.parseNumber();
+      if (!this.matchKeyword('and')) this.fail('AND expected in BETWEEN');
+      const max = this.parseNumber();
+      return { kind: 'between', path, min, max };
+    }
+
+    const token = this.peek();
+    if (token.type !== 'op' || ['&&', '||', '!'].includes(token.value)) {
+      this.fail(`Operator expected after "${path}"`);
+    }
+    this.index++;
+    const valueToken = this.peek();
+    const value = this.parseValue();
+    // =~ also takes a plain string as pattern
+    if (token.value === '=~' && typeof value === 'string') {
+      checkRegex(value, 'i', valueToken.position);
+    }
+    return { kind: 'compare', path, op: token.value as QueryComparison, value };
+  }
+
+  private parsePath(): string {
+    const segments = [this.parsePathSegment()];
+    while (this.match('dot')) {
+      segments.push(this.parsePathSegment());
+    }
+    return segments.join('.');
+  }
+
+  private parsePathSegment(): string {
+    const token = this.peek();
+    if (token.type === 'word' || token.type === 'string' || token.type === 'number') {
+      this.index++;
+      return token.value;
+    }
+    return this.fail('Property name expected');
+  }
+
+  private parseValue(): QueryValue {
+    const token = this.peek();
+    this.index++;
+    switch (token.type) {
+      case 'number':
+        return Number(token.value);
+      case 'string':
+        return token.value;
+      case 'regex':
+        checkRegex(token.value, token.flags || '', token.position);
+        return { pattern: token.value, flags: token.flags || '' };
+      case 'word': {
+        const lower = token.value.toLowerCase();
+        if (lower === 'true') return true;
+        if (lower === 'false') return false;
+        if (lower === 'null') return null;
+        return token.value;
+      }
+      default:
+        this.index--;
+        return this.fail('Value expected');
+    }
+  }
+
+  private parseNumber(): number {
+    const value = this.parseValue();
+    if (typeof value !== 'number') this.fail('Number expected');
+    return value as number;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private match(type: TokenType): boolean {
+    if (this.peek().type !== type) return false;
+    this.index++;
+    return true;
+  }
+
+  private matchOp(op: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'op' || token.value !== op) return false;
+    this.index++;
+    return true;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'word' || token.value.toLowerCase() !== keyword) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(type: TokenType, message: string): void {
+    if (!this.match(type)) this.fail(message);
+  }
+
+  private fail(message: string): never {
+    throw new QuerySyntaxError(message, this.peek().position);
+  }
+}
+
+export function parseQuery(input: string): QueryNode {
+  if (!input.trim()) {
+    throw new QuerySyntaxError('Empty filter', 0);
+  }
+  return new Parser(tokenize(input)).parse();
+}
@@ -0,0 +1,107 @@
+/**
+ * Axis-aligned bounding box helpers (viewer world space, model units, Y up; IFC Z is Y here)
+ */
+
+import { BoundingBox, Vec3 } from '@/types/base';
+
+// Region with open sides, e.g. the first 3 m above ground from a tool call { minY: 0, maxY: 3 }
+export interface BoundsRegion {
+  minX?: number;
+  maxX?: number;
+  minY?: number;
+  maxY?: number;
+  minZ?: number;
+  maxZ?: number;
+}
+
+interface Box3Like {
+  min: Vec3;
+  max: Vec3;
+  isEmpty?: () => boolean;
+}
+
+function isFiniteVec(vec: Vec3): boolean {
+  return Number.isFinite(vec.x) && Number.isFinite(vec.y) && Number.isFinite(vec.z);
+}
+
+export function createBounds(min: Vec3, max: Vec3): BoundingBox {
+  const dx = max.x - min.x;
+  const dy = max.y - min.y;
+  const dz = max.z - min.z;
+  return {
+    min: { x: min.x, y: min.y, z: min.z },
+    max: { x: max.x, y: max.y, z: max.z },
+    center: { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 },
+    diagonal: Math.sqrt(dx * dx + dy * dy + dz * dz)
+  };
+}
+
+/**
+ * Converts a THREE.Box3 (or any { min, max }) into a BoundingBox; undefined for empty boxes
+ */
+export function fromBox3(box: Box3Like | null | undefined): BoundingBox | undefined {
+  if (!box || box.isEmpty?.() || !isFiniteVec(box.min) || !isFiniteVec(box.max)) {
+    return undefined;
+  }
+  if (box.min.x > box.max.x || box.min.y > box.max.y || box.min.z > box.max.z) {
+    return undefined;
+  }
+  return createBounds(box.min, box.max);
+}
+
+/**
+ * Box of an entity: its geometric bounding box, or a point box at its position
+ */
+export function getEntityBounds(entity: { boundingBox?: BoundingBox; position?: Vec3 }): BoundingBox | undefined {
+  if (entity.boundingBox) return entity.boundingBox;
+  if (entity.position && isFiniteVec(entity.position)) return createBounds(entity.position, entity.position);
+  return undefined;
+}
+
+/**
+ * Smallest box containing all given boxes; undefined if there are none
+ */
+export function mergeBounds(boxes: Array<BoundingBox | undefined>): BoundingBox | undefined {
+  let min: Vec3 | null = null;
+  let max: Vec3 | null = null;
+  for (const box of boxes) {
+    if (!box) continue;
+    if (!min || !max) {
+      min = { ...box.min };
+      max = { ...box.max };
+      continue;
+    }
+    min = { x: Math.min(min.x, box.min.x), y: Math.min(min.y, box.min.y), z: Math.min(min.z, box.min.z) };
+    max = { x: Math.max(max.x, box.max.x), y: Math.max(max.y, box.max.y), z: Math.max(max.z, box.max.z) };
+  }
+  return min && max ? createBounds(min, max) : undefined;
+}
+
+export function regionToBounds(region: BoundsRegion): BoundingBox {
+  return {
+    min: { x: region.minX ?? -Infinity, y: region.minY ?? -Infinity, z: region.minZ ?? -Infinity },
+    max: { x: region.maxX ?? Infinity, y: region.maxY ?? Infinity, z: region.maxZ ?? Infinity }
+  };
+}
+
+export function boundsIntersect(a: BoundingBox, b: BoundingBox): boolean {
+  return a.min.x <= b.max.x && a.max.x >= b.min.x &&
+    a.min.y <= b.max.y && a.max.y >= b.min.y &&
+    a.min.z <= b.max.z && a.max.z >= b.min.z;
+}
+
+export function boundsContain(outer: BoundingBox, inner: BoundingBox): boolean {
+  return inner.min.x >= outer.min.x && inner.max.x <= outer.max.x &&
+    inner.min.y >= outer.min.y && inner.max.y <= outer.max.y &&
+    inner.min.z >= outer.min.z && inner.max.z <= outer.max.z;
+}
+
+/**
+ * Distance from a point to the closest point of a box (0 if the point is inside)
+ */
+export function distanceToBounds(point: Vec3, box: BoundingBox): number {
+  const dx = Math.max(box.min.x - point.x, 0, point.x - box.max.x);
+  const dy = Math.max(box.min.y - point.y, 0, point.y - box.max.y);
+  const dz = Math.max(box.min.z - point.z, 0, point.z - box.max.z);
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
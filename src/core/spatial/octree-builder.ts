@@ -6,7 +6,8 @@ import { BoundingBox } from '@/generated/bounding-box';
 import { Vec3 } from '@/generated/vec3';
 import { EntityLocation } from '@/generated/entity-location';
 import { IfcEntity } from '@/types/bim';
-import { BBox, OctreeOptions } from '@/types';
+import { BBox, OctreeOptions, Vec3 as Point } from '@/types';
+import { BoundsRegion, boundsContain, boundsIntersect, distanceToBounds, getEntityBounds, regionToBounds } from './bounds';
 
 /**
  * Builds an octree spatial index from IFC entities
@@ -14,6 +15,7 @@ import { BBox, OctreeOptions } from '@/types';
 export class OctreeBuilder {
   private nodes: Map<number, OctreeNodeData> = new Map();
   private entityLocations: Map<number, number> = new Map(); // entity ID -> node ID
+  private entityBounds: Map<number, BBox> = new Map(); // entity ID -> world AABB
   private nodeIdCounter = 0;
   
   constructor(
@@ -37,11 +39,13 @@ export class OctreeBuilder {
     // 2. Create root node
     const rootId = this.createNode(bounds, 0);
     
-    // 3. Insert entities
+    // 3. Insert entities (boundingBox, or a point box at position)
     let processed = 0;
     for (const entity of entities) {
-      if (entity.position || entity.boundingBox) {
-        this.insertEntity(entity, rootId);
+      const entityBounds = getEntityBounds(entity);
+      if (entityBounds) {
+        this.entityBounds.set(entity.expressID, entityBounds);
+        this.insertEntity(entity.expressID, rootId);
         processed++;
       }
     }
@@ -188,6 +192,10 @@ export class OctreeBuilder {
     let minX = Infinity, minY = Infinity, minZ = Infinity;
     let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
     
+    if (!entities.some(entity => entity.boundingBox || entity.position)) {
+      return { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+    }
+    
     for (const entity of entities) {
       if (entity.boundingBox) {
         minX = Math.min(minX, entity.boundingBox.min.x);
@@ -226,7 +234,9 @@ export class OctreeBuilder {
     return id;
   }
   
-  private insertEntity(entity: IfcEntity, nodeId: number): void {
+  // Entities go to the deepest node that fully contains their AABB;
+  // entities straddling child boundaries stay in the inner node
+  private insertEntity(entityId: number, nodeId: number): void {
     const node = this.nodes.get(nodeId)!;
     
     // Check if we should subdivide
@@ -237,17 +247,12 @@ export class OctreeBuilder {
       this.subdivideNode(nodeId);
     }
     
-    if (node.isLeaf) {
-      // Add to leaf node
-      node.entities.push(entity.expressID);
-      this.entityLocations.set(entity.expressID, nodeId);
+    const childId = node.isLeaf ? undefined : this.getContainingChild(entityId, node);
+    if (childId !== undefined) {
+      this.insertEntity(entityId, childId);
     } else {
-      // Find appropriate child
-      const childIndex = this.getChildIndex(entity, node.bounds);
-      const childId = node.children[childIndex];
-      if (childId) {
-        this.insertEntity(entity, childId);
-      }
+      node.entities.push(entityId);
+      this.entityLocations.set(entityId, nodeId);
     }
   }
   
@@ -255,45 +260,56 @@ export class OctreeBuilder {
     const node = this.nodes.get(nodeId)!;
     node.isLeaf = false;
     
-    // Create 8 children
+    // Create up to 8 children. Short axes are not split (a storey is flat), otherwise
+    // most elements would straddle the middle plane and stay in the parent.
     const center = this.getCenter(node.bounds);
+    const splitAxes = this.getSplitAxes(node.bounds);
     
     for (let i = 0; i < 8; i++) {
-      const childBounds = this.getChildBounds(node.bounds, center, i);
+      if ((i & ~splitAxes) !== 0) continue;
+      const childBounds = this.getChildBounds(node.bounds, center, i, splitAxes);
       const childId = this.createNode(childBounds, node.level + 1);
       node.children[i] = childId;
     }
     
-    // Redistribute entities
+    // Redistribute entities that fit into a child
     const entities = [...node.entities];
     node.entities = [];
     
     for (const entityId of entities) {
-      // Note: We need entity data to properly redistribute
-      // For now, we'll keep them in the parent
-      this.entityLocations.set(entityId, nodeId);
+      const childId = this.getContainingChild(entityId, node);
+      if (childId !== undefined) {
+        this.insertEntity(entityId, childId);
+      } else {
+        node.entities.push(entityId);
+        this.entityLocations.set(entityId, nodeId);
+      }
     }
   }
   
-  private getChildIndex(entity: IfcEntity, bounds: BBox): number {
-    const center = this.getCenter(bounds);
-    const pos = entity.position || this.getCenter(entity.boundingBox!);
-    
-    let index = 0;
-    if (pos.x > center.x) index |= 1;
-    if (pos.y > center.y) index |= 2;
-    if (pos.z > center.z) index |= 4;
-    
-    return index;
+  private getContainingChild(entityId: number, node: OctreeNodeData): number | undefined {
+    const entityBounds = this.entityBounds.get(entityId)!;
+    return node.children.find(childId => childId && boundsContain(this.nodes.get(childId)!.bounds, entityBounds)) || undefined;
   }
   
-  private getChildBounds(parent: BBox, center: { x: number; y: number; z: number }, index: number): BBox {
+  // Bit mask of axes to split (1 = x, 2 = y, 4 = z), same bits as the child index
+  private getSplitAxes(bounds: BBox): number {
+    const sizes = [
+      bounds.max.x - bounds.min.x,
+      bounds.max.y - bounds.min.y,
+      bounds.max.z - bounds.min.z
+    ];
+    const longest = Math.max(...sizes);
+    return sizes.reduce((mask, size, axis) => (size >= longest / 2 ? mask | (1 << axis) : mask), 0);
+  }
+  
+  private getChildBounds(parent: BBox, center: { x: number; y: number; z: number }, index: number, splitAxes = 7): BBox {
     const min = { ...parent.min };
     const max = { ...parent.max };
     
-    if (index & 1) min.x = center.x; else max.x = center.x;
-    if (index & 2) min.y = center.y; else max.y = center.y;
-    if (index & 4) min.z = center.z; else max.z = center.z;
+    if (splitAxes & 1) { if (index & 1) min.x = center.x; else max.x = center.x; }
+    if (splitAxes & 2) { if (index & 2) min.y = center.y; else max.y = center.y; }
+    if (splitAxes & 4) { if (index & 4) min.z = center.z; else max.z = center.z; }
     
     return { min, max };
   }
@@ -395,8 +411,59 @@ interface OctreeStats {
  * Reader for Flatbuffer octree
  */
 export class OctreeReader {
+  private nodeIndex: Map<number, number> | null = null;
+  
   constructor(private octree: Octree) {}
   
+  /**
+   * Ids of entities whose octree node intersects the region. Candidates only:
+   * check the entity boxes for an exact answer.
+   */
+  queryRegion(region: BoundsRegion): number[] {
+    const bounds = regionToBounds(region);
+    return this.collect(nodeBounds => boundsIntersect(nodeBounds, bounds));
+  }
+  
+  /**
+   * Ids of entities whose octree node lies within `radius` of `point` (candidates, see queryRegion)
+   */
+  query(point: Point, radius: number): number[] {
+    return this.collect(nodeBounds => distanceToBounds(point, nodeBounds) <= radius);
+  }
+  
+  private collect(visit: (bounds: BBox) => boolean): number[] {
+    const result: number[] = [];
+    const rootId = this.octree.metadata()?.rootNodeId() ?? 0;
+    const stack = [rootId];
+    
+    while (stack.length > 0) {
+      const node = this.getNode(stack.pop()!);
+      const bounds = node?.bounds();
+      if (!node || !bounds || !visit(this.toBBox(bounds))) continue;
+      
+      const entities = node.entitiesArray();
+      if (entities) result.push(...Array.from(entities));
+      
+      const children = node.childrenArray();
+      if (children && !node.isLeaf()) {
+        children.forEach(childId => {
+          if (childId) stack.push(childId);
+        });
+      }
+    }
+    
+    return result;
+  }
+  
+  private toBBox(bounds: BoundingBox): BBox {
+    const min = bounds.min()!;
+    const max = bounds.max()!;
+    return {
+      min: { x: min.x(), y: min.y(), z: min.z() },
+      max: { x: max.x(), y: max.y(), z: max.z() }
+    };
+  }
+  
   getMetadata() {
     const meta = this.octree.metadata()!;
     return {
@@ -410,13 +477,14 @@ export class OctreeReader {
   }
   
   getNode(nodeId: number): OctreeNode | null {
-    for (let i = 0; i < this.octree.nodesLength(); i++) {
-      const node = this.octree.nodes(i)!;
-      if (node.id() === nodeId) {
-        return node;
+    if (!this.nodeIndex) {
+      this.nodeIndex = new Map();
+      for (let i = 0; i < this.octree.nodesLength(); i++) {
+        this.nodeIndex.set(this.octree.nodes(i)!.id(), i);
       }
     }
-    return null;
+    const index = this.nodeIndex.get(nodeId);
+    return index === undefined ? null : this.octree.nodes(index);
   }
   
   findEntityNode(entityId: number): number | null {
@@ -0,0 +1,3 @@
+// Viewpoints - Centralized exports
+export { ViewpointService, viewpointService } from './viewpoint-service';
+export type { CameraController } from './viewpoint-service';
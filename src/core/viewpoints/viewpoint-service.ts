@@ -0,0 +1,69 @@
+/**
+ * Viewpoint Service - reads and sets the viewer camera for features outside the viewer
+ * (chat session replay, BCF). The viewer registers its camera controller once initialized.
+ */
+
+import { CameraViewpoint } from '@/types/bim';
+import { UnsubscribeFn } from '@/types/events';
+
+export interface CameraController {
+  getViewpoint(): CameraViewpoint;
+  setViewpoint(viewpoint: CameraViewpoint, animate: boolean): Promise<void>;
+  // PNG of the current view
+  captureSnapshot(): Promise<Uint8Array | null>;
+}
+
+export class ViewpointService {
+  private controller: CameraController | null = null;
+
+  register(controller: CameraController): UnsubscribeFn {
+    this.controller = controller;
+    return () => {
+      if (this.controller === controller) {
+        this.controller = null;
+      }
+    };
+  }
+
+  isAvailable(): boolean {
+    return this.controller !== null;
+  }
+
+  /**
+   * Current camera, or null while no viewer is registered
+   */
+  getViewpoint(): CameraViewpoint | null {
+    if (!this.controller) return null;
+    try {
+      return this.controller.getViewpoint();
+    } catch (error) {
+      console.warn('⚠️ Failed to read camera viewpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Move the camera; false if no viewer is registered
+   */
+  async apply(viewpoint: CameraViewpoint, animate: boolean = true): Promise<boolean> {
+    if (!this.controller) return false;
+    await this.controller.setViewpoint(viewpoint, animate);
+    return true;
+  }
+
+  /**
+   * PNG of the viewer canvas, or null without viewer or if capturing fails
+   */
+  async captureSnapshot(): Promise<Uint8Array | null> {
+    if (!this.controller) return null;
+    try {
+      return await this.controller.captureSnapshot();
+    } catch (error) {
+      console.warn('⚠️ Failed to capture viewer snapshot:', error);
+      return null;
+    }
+  }
+}
+
+// Global singleton instance
+export const viewpointService = new ViewpointService();
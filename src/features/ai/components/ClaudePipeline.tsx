@@ -3,7 +3,6 @@
 import { useState, useImperativeHandle, forwardRef, useEffect } from 'react';
 
 import ClaudeClient from '../services/claude-client';
-import { ClaudeConfig } from '@/types/claude';
 import { 
   ToolRegistry, 
   ToolChainExecutor,
@@ -13,9 +12,18 @@ import {
   createBimEntityDetailTool,
   createBimSpatialGeometryTool,
   createBimChunkManagementTool,
+  createBimBcfTopicTool,
+  createBimIdsValidationTool,
+  createBimRuleCheckTool,
+  createBimQuantityTakeoffTool,
   bimSelectionContextTool
 } from '@/app/chat-tools';
+import type { ToolChainProgressEvent } from '@/app/chat-tools';
+import type { RunUsage } from '@/types/claude';
 import { EventBus } from '@/core/events/event-bus';
+import { getEntityStore } from '@/core/entities';
+import { getConversationMemory } from '../memory';
+import type { FederatedModelInfo } from '@/types/bim';
 import { OctreeBuilder } from '@/core/spatial/octree-builder';
 import { ChunkManager } from '@/core/chunks/chunk-manager';
 
@@ -26,9 +34,11 @@ interface ClaudePipelineProps {
     assistantResponse: string;
     queryResult?: any;
     highlightedEntities?: number[];
+    usage?: RunUsage;
   }) => void;
   onError: (error: string) => void;
   onPhaseChange?: (phase: string) => void;
+  onProgress?: (event: ToolChainProgressEvent) => void;
   entities: any[];
   entityIndex: any;
   modelContext?: string;
@@ -41,6 +51,7 @@ const ClaudePipeline = forwardRef<
   onResult,
   onError,
   onPhaseChange,
+  onProgress,
   entities,
   entityIndex,
   modelContext
@@ -52,14 +63,7 @@ const ClaudePipeline = forwardRef<
   
   // ChunkManager wird über chunks:ready Event gesetzt
   
-  const config: ClaudeConfig = {
-    apiKey: '',
-    model: 'claude-3-5-sonnet-20241022',
-    maxTokens: 2000,
-    temperature: 0.3,
-  };
-
-  const claudeClient = new ClaudeClient(config);
+  const claudeClient = new ClaudeClient();
 
   // Listen for spatial index ready events
   useEffect(() => {
@@ -153,7 +157,11 @@ const ClaudePipeline = forwardRef<
       const entities = bimData?.entities || [];
       const entityIndex = bimData?.entityIndex || {};
       const chunkManager = bimData?.chunkManager;
-      const octreeReader = bimData?.octreeReader;
+      // One octree per loaded model
+      const octreeReaders = bimData?.octreeReaders;
+      
+      // Indexierter Entity Store (wird nur bei neuem Modell neu aufgebaut)
+      const store = getEntityStore(entities);
       
       // Tool Registry initialisieren
       const registry = new ToolRegistry();
@@ -161,39 +169,53 @@ const ClaudePipeline = forwardRef<
       // Tools registrieren (6 konsolidierte Tools)
       
       // 1. Universal Search (combines search, count, progressive)
-      registry.register(createBimUniversalSearchTool(entities, entityIndex, chunkManager));
+      registry.register(createBimUniversalSearchTool(store, chunkManager));
       
       // 2. Entity Details
-      registry.register(createBimEntityDetailTool(entities));
+      registry.register(createBimEntityDetailTool(store));
       
       // 3. Type List
-      registry.register(createBimTypeListTool(entities, entityIndex));
+      registry.register(createBimTypeListTool(store));
       
       // 4. Spatial & Geometry (combines spatial search and geometry analysis)
-      registry.register(createBimSpatialGeometryTool(entities, octreeReader));
+      registry.register(createBimSpatialGeometryTool(store, octreeReaders));
       
       // 5. Chunk Management (combines status and analysis)
       registry.register(createBimChunkManagementTool(chunkManager));
       
       // Highlight callback function
-      const handleHighlight = (expressIds: number[], globalIds: string[]) => {
-        // console.log('🔦 Highlighting entities:', expressIds.length, 'with global IDs:', globalIds.length);
+      const handleHighlight = (keys: string[], globalIds: string[]) => {
+        // console.log('🔦 Highlighting entities:', keys.length, 'with global IDs:', globalIds.length);
         
         // Emit AI highlight event for the 3D viewer
         EventBus.emit('ai:highlight', {
-          expressIds,
+          keys,
           globalIds
         });
       };
       
-      registry.register(createBimHighlightTool(handleHighlight, entities));
+      registry.register(createBimHighlightTool(handleHighlight, store));
+      
+      // BCF issues for flagged entities
+      registry.register(createBimBcfTopicTool(store));
+      
+      // IDS check of the loaded model, failing entities are highlighted
+      registry.register(createBimIdsValidationTool(handleHighlight, store));
+      
+      // In-house rule sets (property, count, relationship, geometric rules)
+      registry.register(createBimRuleCheckTool(handleHighlight, store, octreeReaders));
+      
+      // Quantities per type, storey, material or classification
+      registry.register(createBimQuantityTakeoffTool(store));
       
       // Register selected entities context tool
       registry.register(bimSelectionContextTool);
       
       // Tool Chain Executor erstellen
       const executor = new ToolChainExecutor(registry, claudeClient, {
-        maxIterations: 5
+        maxIterations: 5,
+        onProgress,
+        memory: getConversationMemory()
       });
       
       // Context erstellen
@@ -201,6 +223,8 @@ const ClaudePipeline = forwardRef<
         modelLoaded: entities.length > 0,
         entityCount: entities.length,
         entityTypes: Object.keys(entityIndex || {}),
+        // Loaded models of the federation (ids for the models parameter of bim_search)
+        models: ((bimData?.models || []) as FederatedModelInfo[]).map(model => ({ id: model.id, name: model.name, entityCount: model.entityCount })),
         modelContext: modelContext,
         smartChunksContext: smartChunksContext, // Add Smart Chunks context
         smartChunksAvailable: !!smartChunksProjectId,
@@ -273,8 +297,7 @@ const ClaudePipeline = forwardRef<
         // Create examples from highlighted entities for display
         if (highlightedEntities.length > 0 && entities.length > 0) {
           highlightedExamples = highlightedEntities.slice(0, 20).map(id => {
-            const entity = entities.find((e: any) => e.expressID === id);
-            return entity || { expressID: id, type: 'UNKNOWN', name: `Entity ${id}` };
+            return store.get(id) || { expressID: id, type: 'UNKNOWN', name: `Entity ${id}` };
           }).filter(Boolean);
           // console.log(`📍 Created ${highlightedExamples.length} examples from highlighted entities`);
         }
@@ -332,7 +355,8 @@ const ClaudePipeline = forwardRef<
         userMessage,
         assistantResponse: result.finalAnswer,
         queryResult,
-        highlightedEntities
+        highlightedEntities,
+        usage: result.usage
       });
       
     } catch (error) {
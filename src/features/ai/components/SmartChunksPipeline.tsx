@@ -1,9 +1,7 @@
 "use client";
 
-import { useState, useImperativeHandle, forwardRef, useEffect, useMemo } from 'react';
+import { useState, useImperativeHandle, forwardRef, useMemo } from 'react';
 
-// ClaudeConfig was defined in claude-client.ts
-import { ClaudeConfig } from '../services/claude-client';
 import { 
   createBimUniversalSearchTool,
   createBimHighlightTool,
@@ -11,13 +9,20 @@ import {
   createBimEntityDetailTool,
   createBimSpatialGeometryTool,
   createBimChunkManagementTool,
+  createBimBcfTopicTool,
+  createBimIdsValidationTool,
+  createBimRuleCheckTool,
+  createBimQuantityTakeoffTool,
   bimSelectionContextTool
 } from '@/app/chat-tools';
 import { SmartChunksToolChainExecutor } from '@/app/chat-tools/smart-chunks-tool-chain-executor';
+import type { ToolChainProgressEvent } from '@/app/chat-tools';
+import type { RunUsage } from '@/types/claude';
 import { ToolRegistry } from '@/app/chat-tools/tool-registry';
 import ClaudeClient from '../services/claude-client';
 import { EventBus } from '@/core/events/event-bus';
-// Smart chunks imports removed - will use API routes instead
+import { getEntityStore } from '@/core/entities';
+import { getConversationMemory } from '../memory';
 
 interface SmartChunksClaudePipelineProps {
   onResult: (result: {
@@ -27,9 +32,11 @@ interface SmartChunksClaudePipelineProps {
     highlightedEntities?: number[];
     contextUsed?: boolean;
     chunksUsed?: number;
+    usage?: RunUsage;
   }) => void;
   onError: (error: string) => void;
   onPhaseChange?: (phase: string) => void;
+  onProgress?: (event: ToolChainProgressEvent) => void;
   entities: any[];
   entityIndex: any;
   modelContext?: string;
@@ -46,6 +53,7 @@ const SmartChunksClaudePipeline = forwardRef<
   onResult,
   onError,
   onPhaseChange,
+  onProgress,
   entities,
   entityIndex,
   modelContext,
@@ -54,27 +62,8 @@ const SmartChunksClaudePipeline = forwardRef<
   onContextChange
 }, ref) => {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [smartChunkProvider, setSmartChunkProvider] = useState<any>(null);
   
-  const config: ClaudeConfig = {
-    apiKey: '',
-    model: 'claude-3-5-sonnet-20241022',
-    maxTokens: 2000,
-    temperature: 0.3,
-  };
-
-  const claudeClient = new ClaudeClient(config);
-
-  // Smart chunks provider disabled - needs to use API routes
-  useEffect(() => {
-    if (useSmartChunks && smartChunkProjectId) {
-      console.log('🧩 Smart Chunks is enabled but needs API integration');
-      // TODO: Create API route for smart chunks context
-      setSmartChunkProvider(null);
-    } else {
-      setSmartChunkProvider(null);
-    }
-  }, [useSmartChunks, smartChunkProjectId]);
+  const claudeClient = new ClaudeClient();
 
   const processMessage = async (userMessage: string, chatHistory?: Array<{role: 'user' | 'assistant', content: string}>) => {
     if (isProcessing) {
@@ -94,7 +83,7 @@ const SmartChunksClaudePipeline = forwardRef<
       
       if (useSmartChunks && smartChunkProjectId) {
         console.log('🧩 Smart Chunks enabled - will use tool parameters for context selection');
-        // Smart chunks context will be fetched after tool selection
+        // Context is selected after the tool call, on the server via /api/context when available
       }
       
       onPhaseChange?.('tools');
@@ -102,31 +91,40 @@ const SmartChunksClaudePipeline = forwardRef<
       // Tool Registry initialisieren
       const registry = new ToolRegistry();
       
+      // Indexierter Entity Store (wird nur bei neuem Modell neu aufgebaut)
+      const store = getEntityStore(entities);
+      
       // Tools registrieren (7 konsolidierte Tools)
-      registry.register(createBimUniversalSearchTool(entities, entityIndex, null)); // No chunk manager in SmartChunks mode
-      registry.register(createBimEntityDetailTool(entities));
-      registry.register(createBimTypeListTool(entities, entityIndex));
-      registry.register(createBimSpatialGeometryTool(entities, null)); // No octree in SmartChunks mode
+      registry.register(createBimUniversalSearchTool(store, null)); // No chunk manager in SmartChunks mode
+      registry.register(createBimEntityDetailTool(store));
+      registry.register(createBimTypeListTool(store));
+      registry.register(createBimSpatialGeometryTool(store, null)); // No octree in SmartChunks mode
       registry.register(createBimChunkManagementTool(null)); // Will show "not available" message
       registry.register(bimSelectionContextTool); // Selection context tool
       
       // Highlight callback function
-      const handleHighlight = (expressIds: number[], globalIds: string[]) => {
+      const handleHighlight = (keys: string[], globalIds: string[]) => {
         // Emit AI highlight event for the 3D viewer
         EventBus.emit('ai:highlight', {
-          expressIds,
+          keys,
           globalIds
         });
       };
       
-      registry.register(createBimHighlightTool(handleHighlight, entities));
+      registry.register(createBimHighlightTool(handleHighlight, store));
+      registry.register(createBimBcfTopicTool(store));
+      registry.register(createBimIdsValidationTool(handleHighlight, store));
+      registry.register(createBimRuleCheckTool(handleHighlight, store, null)); // No octree in SmartChunks mode
+      registry.register(createBimQuantityTakeoffTool(store));
       
       // Tool Chain Executor erstellen
       const executor = new SmartChunksToolChainExecutor(registry, claudeClient, {
         maxIterations: 5,
         includeThoughts: true,
         retryOnError: true,
-        maxRetries: 2
+        maxRetries: 2,
+        onProgress,
+        memory: getConversationMemory()
       });
       
       // Set Smart Chunks project ID if enabled
@@ -192,7 +190,8 @@ Wenn Elemente gefunden wurden, beschreibe sie kurz.
         queryResult: result.toolCalls,
         highlightedEntities,
         contextUsed: useSmartChunks && chunksUsed > 0,
-        chunksUsed
+        chunksUsed,
+        usage: result.usage
       });
       
     } catch (error) {
@@ -214,13 +213,6 @@ Wenn Elemente gefunden wurden, beschreibe sie kurz.
     processMessage
   }));
 
-  // Update project ID when it changes
-  useEffect(() => {
-    if (smartChunkProvider && smartChunkProjectId) {
-      smartChunkProvider.setProjectId(smartChunkProjectId);
-    }
-  }, [smartChunkProjectId, smartChunkProvider]);
-
   return null;
 });
 
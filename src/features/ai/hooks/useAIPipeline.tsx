@@ -1,11 +1,13 @@
 import React, { useRef, useCallback } from 'react';
 import ClaudePipeline from '../components/ClaudePipeline';
 import SmartChunksPipeline from '../components/SmartChunksPipeline';
+import type { ToolChainProgressEvent } from '@/app/chat-tools';
 
 interface UseAIPipelineProps {
   onResult: (result: any) => void;
   onError: (error: string) => void;
   onPhaseChange?: (phase: string) => void;
+  onProgress?: (event: ToolChainProgressEvent) => void;
   entities: any[];
   entityIndex: any;
   modelContext?: string;
@@ -17,6 +19,7 @@ export function useAIPipeline({
   onResult,
   onError,
   onPhaseChange,
+  onProgress,
   entities,
   entityIndex,
   modelContext,
@@ -42,6 +45,7 @@ export function useAIPipeline({
           onResult={onResult}
           onError={onError}
           onPhaseChange={onPhaseChange}
+          onProgress={onProgress}
           entities={entities}
           entityIndex={entityIndex}
           modelContext={modelContext}
@@ -56,6 +60,7 @@ export function useAIPipeline({
           onResult={onResult}
           onError={onError}
           onPhaseChange={onPhaseChange}
+          onProgress={onProgress}
           entities={entities}
           entityIndex={entityIndex}
           modelContext={modelContext}
@@ -68,6 +73,7 @@ export function useAIPipeline({
     onResult,
     onError,
     onPhaseChange,
+    onProgress,
     entities,
     entityIndex,
     modelContext
@@ -0,0 +1,250 @@
+// Conversation memory of the chat session: earlier turns, their tool results and the working entity set
+
+import { ClaudeMessage } from '@/types/claude';
+import { ConversationToolRecord, ConversationTurn, WorkingEntitySet } from '@/types/chat';
+import { tokenCounter } from '@/app/bim-context/utils/token-counter';
+
+// Folds turns into the running summary of the conversation
+export type ConversationSummarizer = (turns: ConversationTurn[], previousSummary: string) => Promise<string>;
+
+export interface ConversationMemoryOptions {
+  // Prompt tokens for summary, turns and tool results; older turns are summarized above it
+  maxTokens?: number;
+  // Most recent turns that are always kept verbatim
+  keepRecentTurns?: number;
+  summarizer?: ConversationSummarizer;
+}
+
+export interface ToolCallRecordInput {
+  tool: string;
+  input: Record<string, unknown>;
+  output: unknown;
+}
+
+// Reference target of the working set in tool parameters: {"$ref": "working.entityIds"}
+export const WORKING_SET_REF = 'working';
+
+const WORKING_SET_LIMIT = 1000;
+const TOOL_SUMMARY_LENGTH = 200;
+const ANSWER_SUMMARY_LENGTH = 200;
+const MAX_SUMMARY_LENGTH = 4000;
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > length ? singleLine.slice(0, length) + '…' : singleLine;
+}
+
+function toJson(value: unknown, length: number): string {
+  try {
+    return truncate(JSON.stringify(value) ?? '', length);
+  } catch {
+    return '[unserializable]';
+  }
+}
+
+/**
+ * Summary without model call: one line per turn with question, shortened answer and tools
+ */
+export async function summarizeTurnsExtractive(turns: ConversationTurn[], previousSummary: string): Promise<string> {
+  const lines = turns.map(turn => {
+    const tools = turn.toolCalls.length > 0
+      ? ` [${turn.toolCalls.map(call => `${call.tool} ${toJson(call.input, 80)}`).join('; ')}]`
+      : '';
+    return `- Frage ${turn.turn}: ${truncate(turn.user, 150)} → ${truncate(turn.assistant, ANSWER_SUMMARY_LENGTH)}${tools}`;
+  });
+
+  let summary = [previousSummary, ...lines].filter(Boolean).join('\n');
+  // Oldest lines go first once the summary itself gets too long
+  while (summary.length > MAX_SUMMARY_LENGTH && summary.includes('\n')) {
+    summary = summary.slice(summary.indexOf('\n') + 1);
+  }
+  return summary;
+}
+
+/**
+ * Entities a tool call was about: search results, highlighted entities or any output with entityIds
+ */
+function extractWorkingSet(call: ToolCallRecordInput, turn: number): WorkingEntitySet | null {
+  if (!call.output || typeof call.output !== 'object') return null;
+
+  const output = call.output as { entityIds?: unknown; totalCount?: unknown };
+  const entityIds = Array.isArray(output.entityIds) ? output.entityIds.map(String) : [];
+  const totalCount = typeof output.totalCount === 'number' ? output.totalCount : entityIds.length;
+
+  // A counting search has no IDs, but its parameters still define "davon"
+  if (entityIds.length === 0 && !(call.tool === 'bim_search' && typeof output.totalCount === 'number')) {
+    return null;
+  }
+
+  return {
+    tool: call.tool,
+    input: call.input,
+    entityIds: entityIds.slice(0, WORKING_SET_LIMIT),
+    totalCount,
+    complete: entityIds.length > 0 && entityIds.length >= totalCount && entityIds.length <= WORKING_SET_LIMIT,
+    turn
+  };
+}
+
+export class ConversationMemory {
+  private turns: ConversationTurn[] = [];
+  private summary = '';
+  private workingSet: WorkingEntitySet | null = null;
+  private turnCount = 0;
+  private maxTokens: number;
+  private keepRecentTurns: number;
+  private summarizer: ConversationSummarizer;
+
+  constructor(options: ConversationMemoryOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 4000;
+    this.keepRecentTurns = Math.max(1, options.keepRecentTurns ?? 2);
+    this.summarizer = options.summarizer ?? summarizeTurnsExtractive;
+  }
+
+  isEmpty(): boolean {
+    return this.turns.length === 0 && !this.summary;
+  }
+
+  getTurns(): ConversationTurn[] {
+    return [...this.turns];
+  }
+
+  getSummary(): string {
+    return this.summary;
+  }
+
+  getWorkingSet(): WorkingEntitySet | null {
+    return this.workingSet;
+  }
+
+  /**
+   * Stores a finished turn; the last tool call with entities becomes the working set
+   */
+  recordTurn(user: string, assistant: string, toolCalls: ToolCallRecordInput[] = []): ConversationTurn {
+    const turn = ++this.turnCount;
+
+    toolCalls.forEach(call => {
+      const workingSet = extractWorkingSet(call, turn);
+      if (workingSet) this.workingSet = workingSet;
+    });
+
+    const record: ConversationTurn = {
+      turn,
+      user,
+      assistant,
+      toolCalls: toolCalls.map((call): ConversationToolRecord => ({
+        tool: call.tool,
+        input: call.input,
+        summary: toJson(call.output, TOOL_SUMMARY_LENGTH)
+      })),
+      timestamp: new Date().toISOString()
+    };
+    this.turns.push(record);
+    return record;
+  }
+
+  /**
+   * Folds the oldest turns into the summary while the memory exceeds its token budget
+   */
+  async compact(): Promise<boolean> {
+    const folded: ConversationTurn[] = [];
+    while (this.turns.length > this.keepRecentTurns && this.estimateTokens() > this.maxTokens) {
+      folded.push(this.turns.shift()!);
+    }
+    if (folded.length === 0) return false;
+
+    try {
+      this.summary = await this.summarizer(folded, this.summary);
+    } catch (error) {
+      console.warn('⚠️ Conversation summary failed, using extractive summary:', error);
+      this.summary = await summarizeTurnsExtractive(folded, this.summary);
+    }
+
+    console.log(`🧠 Conversation memory: ${folded.length} turns summarized, ${this.turns.length} kept`);
+    return true;
+  }
+
+  /**
+   * Earlier turns as user/assistant messages (the Messages API expects them alternating)
+   */
+  toMessages(): ClaudeMessage[] {
+    return this.turns
+      .filter(turn => turn.user.trim() && turn.assistant.trim())
+      .flatMap((turn): ClaudeMessage[] => [
+        { role: 'user', content: turn.user },
+        { role: 'assistant', content: turn.assistant }
+      ]);
+  }
+
+  /**
+   * Memory section of the system prompt: summary, tool results of the kept turns and working set
+   */
+  toPromptSection(): string {
+    const sections: string[] = [];
+
+    if (this.summary) {
+      sections.push(`Zusammenfassung früherer Fragen:\n${this.summary}`);
+    }
+
+    const toolLines = this.turns.flatMap(turn =>
+      turn.toolCalls.map(call => `- Frage ${turn.turn}: ${call.tool} ${toJson(call.input, 150)} → ${call.summary}`)
+    );
+    if (toolLines.length > 0) {
+      sections.push(`Tool-Ergebnisse der letzten Fragen:\n${toolLines.join('\n')}`);
+    }
+
+    if (this.workingSet) {
+      sections.push(this.describeWorkingSet(this.workingSet));
+    }
+
+    return sections.length > 0 ? `Gesprächsgedächtnis:\n\n${sections.join('\n\n')}` : '';
+  }
+
+  /**
+   * Tool outputs that calls of the next run can reference (scheduler previousOutputs)
+   */
+  getReferenceOutputs(): Map<string, unknown> {
+    const outputs = new Map<string, unknown>();
+    if (this.workingSet && this.workingSet.entityIds.length > 0) {
+      outputs.set(WORKING_SET_REF, {
+        entityIds: this.workingSet.entityIds,
+        totalCount: this.workingSet.totalCount
+      });
+    }
+    return outputs;
+  }
+
+  estimateTokens(): number {
+    const text = [
+      this.summary,
+      ...this.turns.map(turn => `${turn.user}\n${turn.assistant}\n${turn.toolCalls.map(call => call.summary).join('\n')}`)
+    ].join('\n');
+    return tokenCounter.estimateTokens(text);
+  }
+
+  reset(): void {
+    this.turns = [];
+    this.summary = '';
+    this.workingSet = null;
+    this.turnCount = 0;
+  }
+
+  private describeWorkingSet(workingSet: WorkingEntitySet): string {
+    const source = `${workingSet.tool} ${toJson(workingSet.input, 200)} (Frage ${workingSet.turn})`;
+    const lines = [
+      `Arbeitsmenge - darauf beziehen sich Folgefragen wie "davon", "diese", "die gleichen", "those":`,
+      `${workingSet.totalCount} Entities aus ${source}.`
+    ];
+
+    if (workingSet.complete) {
+      lines.push(
+        `IDs: ${workingSet.entityIds.slice(0, 20).join(', ')}${workingSet.entityIds.length > 20 ? ', …' : ''}`,
+        `Übergib für Folgefragen entityIds: {"$ref": "${WORKING_SET_REF}.entityIds"} an bim_search oder bim_highlight, um auf diese Entities einzuschränken.`
+      );
+    } else {
+      lines.push('Die IDs sind nicht vollständig bekannt: wiederhole für Folgefragen die Suche mit denselben Parametern und ergänze die neue Einschränkung.');
+    }
+
+    return lines.join('\n');
+  }
+}
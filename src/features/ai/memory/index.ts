@@ -0,0 +1,65 @@
+// Conversation Memory - Centralized exports and session memory
+
+import ClaudeClient from '../services/claude-client';
+import { UsageTracker, getUsageTracker } from '../usage';
+import { ConversationMemory, ConversationSummarizer, summarizeTurnsExtractive } from './conversation-memory';
+
+export {
+  ConversationMemory,
+  WORKING_SET_REF,
+  summarizeTurnsExtractive
+} from './conversation-memory';
+export type {
+  ConversationMemoryOptions,
+  ConversationSummarizer,
+  ToolCallRecordInput
+} from './conversation-memory';
+
+const SUMMARY_SYSTEM_PROMPT = `Fasse den bisherigen Verlauf eines Chats über ein BIM-Modell knapp auf Deutsch zusammen.
+Behalte Fragen, Ergebnisse (Anzahlen, Typen, Geschosse, Entity-IDs) und worauf sich der Benutzer zuletzt bezogen hat.
+Antworte nur mit der Zusammenfassung als Stichpunktliste, höchstens 15 Punkte.`;
+
+// Prompt tokens of the memory (public env var, the tool chain runs in the browser)
+const MEMORY_TOKEN_BUDGET = parseInt(process.env.NEXT_PUBLIC_AI_MEMORY_TOKEN_BUDGET || '', 10) || 4000;
+
+/**
+ * Summarizes with the chat model; usage counts against the session budget.
+ * Falls back to the extractive summary if the model is unavailable or the budget is used up.
+ */
+export function createModelSummarizer(
+  claudeClient: ClaudeClient,
+  usageTracker: UsageTracker = getUsageTracker()
+): ConversationSummarizer {
+  return async (turns, previousSummary) => {
+    const extractive = await summarizeTurnsExtractive(turns, previousSummary);
+    if (usageTracker.checkSessionBudget()) {
+      return extractive;
+    }
+
+    const response = await claudeClient.sendMessages({
+      system: SUMMARY_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: extractive }],
+      maxTokens: 600
+    });
+    if (response.usage) {
+      usageTracker.record(response.model, response.usage.inputTokens, response.usage.outputTokens);
+    }
+
+    return !response.error && response.content.trim() ? response.content.trim() : extractive;
+  };
+}
+
+let sessionMemory: ConversationMemory | null = null;
+
+/**
+ * Conversation memory of the current browser session (reset on page reload)
+ */
+export function getConversationMemory(): ConversationMemory {
+  if (!sessionMemory) {
+    sessionMemory = new ConversationMemory({
+      maxTokens: MEMORY_TOKEN_BUDGET,
+      summarizer: createModelSummarizer(new ClaudeClient())
+    });
+  }
+  return sessionMemory;
+}
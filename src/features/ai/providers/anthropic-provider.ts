@@ -0,0 +1,109 @@
+// Anthropic Provider - Claude via the official SDK
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ClaudeContentBlock, ClaudeMessageRequest, ClaudeStreamEvent } from '@/types/claude';
+import { LLMProvider, LLMResponse } from './llm-provider';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-0';
+const DEFAULT_MAX_TOKENS = 2000;
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private client: Anthropic | null = null;
+
+  constructor(private apiKey?: string, model?: string) {
+    // keep server authority for model choice
+    this.model = model || DEFAULT_MODEL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async createMessage(request: ClaudeMessageRequest): Promise<LLMResponse> {
+    const response = await this.getClient().messages.create(this.buildParams(request));
+
+    return {
+      content: response.content as ClaudeContentBlock[],
+      stop_reason: response.stop_reason,
+      usage: {
+        input_tokens: response.usage.input_tokens,
+        output_tokens: response.usage.output_tokens,
+      },
+      model: response.model,
+    };
+  }
+
+  async *streamMessage(request: ClaudeMessageRequest): AsyncGenerator<ClaudeStreamEvent> {
+    const stream = this.getClient().messages.stream(this.buildParams(request));
+    const usage = { input_tokens: 0, output_tokens: 0 };
+    let finished = false;
+
+    try {
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'message_start':
+            usage.input_tokens = event.message.usage.input_tokens;
+            break;
+          case 'content_block_start':
+            if (event.content_block.type === 'tool_use') {
+              yield { type: 'tool_use_start', id: event.content_block.id, name: event.content_block.name };
+            }
+            break;
+          case 'content_block_delta':
+            if (event.delta.type === 'text_delta') {
+              yield { type: 'text_delta', text: event.delta.text };
+            }
+            break;
+          case 'content_block_stop': {
+            const block = stream.currentMessage?.content[event.index];
+            if (block?.type === 'tool_use') {
+              yield { type: 'tool_use_end', id: block.id, name: block.name, input: (block.input || {}) as Record<string, unknown> };
+            }
+            break;
+          }
+          case 'message_delta':
+            usage.output_tokens = event.usage.output_tokens;
+            yield { type: 'usage', usage: { ...usage } };
+            break;
+        }
+      }
+
+      const message = await stream.finalMessage();
+      finished = true;
+      yield {
+        type: 'done',
+        content: message.content as ClaudeContentBlock[],
+        stop_reason: message.stop_reason,
+        usage: {
+          input_tokens: message.usage.input_tokens,
+          output_tokens: message.usage.output_tokens,
+        },
+        model: message.model,
+      };
+    } finally {
+      // Client went away before the message was complete
+      if (!finished) {
+        stream.abort();
+      }
+    }
+  }
+
+  private getClient(): Anthropic {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  private buildParams(request: ClaudeMessageRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: this.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      messages: request.messages as Anthropic.MessageParam[],
+      system: request.system || undefined,
+      tools: request.tools && request.tools.length > 0 ? request.tools : undefined,
+    };
+  }
+}
@@ -0,0 +1,54 @@
+// LLM Providers - Centralized exports and provider selection (server-side only)
+
+import { LLMProvider } from './llm-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { MockProvider } from './mock-provider';
+import { RecordingProvider } from './recording-provider';
+
+export type { LLMProvider, LLMResponse } from './llm-provider';
+export { getTextContent, getConversationPosition } from './llm-provider';
+export { AnthropicProvider } from './anthropic-provider';
+export { MockProvider } from './mock-provider';
+export type { MockScript, MockScenario, MockTurn } from './mock-provider';
+export { RecordingProvider } from './recording-provider';
+
+export type LLMProviderName = 'anthropic' | 'mock';
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Returns the provider selected by LLM_PROVIDER (default: anthropic).
+ * With LLM_RECORD_FILE set, every decision is also written as a mock script.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (provider) {
+    return provider;
+  }
+
+  const name = (process.env.LLM_PROVIDER || 'anthropic').toLowerCase() as LLMProviderName;
+  let selected: LLMProvider;
+
+  switch (name) {
+    case 'mock':
+      selected = MockProvider.fromFile(process.env.LLM_MOCK_SCRIPT);
+      break;
+    case 'anthropic':
+      selected = new AnthropicProvider(process.env.ANTHROPIC_API_KEY, process.env.ANTHROPIC_MODEL);
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+
+  if (process.env.LLM_RECORD_FILE) {
+    selected = new RecordingProvider(selected, process.env.LLM_RECORD_FILE);
+  }
+
+  provider = selected;
+  return provider;
+}
+
+// Mainly for scripts and tests that switch providers at runtime
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
+
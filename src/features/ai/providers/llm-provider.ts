@@ -0,0 +1,51 @@
+// LLM Provider Layer - the model backend behind /api/claude (server-side only)
+
+import { ClaudeContentBlock, ClaudeMessageRequest, ClaudeStreamEvent, ClaudeUsage } from '@/types/claude';
+
+export interface LLMResponse {
+  content: ClaudeContentBlock[];
+  stop_reason: string | null;
+  usage: ClaudeUsage;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  createMessage(request: ClaudeMessageRequest): Promise<LLMResponse>;
+  // Yields text/tool/usage events and ends with a single 'done' event
+  streamMessage(request: ClaudeMessageRequest): AsyncIterable<ClaudeStreamEvent>;
+}
+
+export function getTextContent(content: ClaudeContentBlock[]): string {
+  return content
+    .filter(block => block.type === 'text')
+    .map(block => (block as { text: string }).text)
+    .join('\n');
+}
+
+/**
+ * The user text that started the current tool conversation and the number of
+ * assistant turns since then. Mock replay and recording are keyed by both.
+ */
+export function getConversationPosition(request: ClaudeMessageRequest): { prompt: string; turn: number } {
+  const { messages } = request;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role !== 'user') continue;
+
+    const prompt = typeof msg.content === 'string'
+      ? msg.content
+      : msg.content
+          .filter(block => block.type === 'text')
+          .map(block => (block as { text: string }).text)
+          .join('\n');
+
+    if (prompt) {
+      const turn = messages.slice(i + 1).filter(m => m.role === 'assistant').length;
+      return { prompt, turn };
+    }
+  }
+  return { prompt: '', turn: 0 };
+}
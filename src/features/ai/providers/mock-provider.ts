@@ -0,0 +1,111 @@
+// Mock Provider - replays scripted tool-call decisions without network access
+
+import fs from 'fs';
+import { ClaudeContentBlock, ClaudeMessageRequest, ClaudeStreamEvent, ClaudeToolResultBlock } from '@/types/claude';
+import { TokenCounter } from '@/app/bim-context/utils/token-counter';
+import { LLMProvider, LLMResponse, getConversationPosition } from './llm-provider';
+
+export interface MockTurn {
+  // Final answer or thought; {{toolResult}} is replaced by the last tool_result content
+  text?: string;
+  toolCalls?: Array<{ name: string; input: Record<string, unknown> }>;
+}
+
+export interface MockScenario {
+  name?: string;
+  // Case-insensitive regex tested against the user prompt; omitted = fallback scenario
+  match?: string;
+  turns: MockTurn[];
+}
+
+export interface MockScript {
+  scenarios: MockScenario[];
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock-scripted';
+  private tokenCounter = new TokenCounter();
+
+  constructor(private script: MockScript = { scenarios: [] }) {}
+
+  static fromFile(filePath?: string): MockProvider {
+    if (!filePath) {
+      return new MockProvider();
+    }
+    if (!fs.existsSync(filePath)) {
+      // A recording run may not have created the script yet
+      console.warn(`[MockProvider] Script not found: ${filePath}`);
+      return new MockProvider();
+    }
+    const script = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as MockScript;
+    if (!Array.isArray(script.scenarios)) {
+      throw new Error(`Invalid mock script (missing scenarios): ${filePath}`);
+    }
+    return new MockProvider(script);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async createMessage(request: ClaudeMessageRequest): Promise<LLMResponse> {
+    const { prompt, turn } = getConversationPosition(request);
+    const scenario = this.findScenario(prompt);
+    const scripted = scenario?.turns[turn];
+    const content: ClaudeContentBlock[] = [];
+
+    if (!scripted) {
+      content.push({ type: 'text', text: scenario ? 'Keine weiteren Schritte im Mock-Skript.' : `[mock] ${prompt}` });
+    } else {
+      if (scripted.text) {
+        content.push({ type: 'text', text: scripted.text.replace(/\{\{toolResult\}\}/g, this.getLastToolResult(request)) });
+      }
+      (scripted.toolCalls || []).forEach((call, i) => {
+        content.push({ type: 'tool_use', id: `toolu_mock_${turn}_${i}`, name: call.name, input: call.input || {} });
+      });
+    }
+
+    const hasToolUse = content.some(block => block.type === 'tool_use');
+    return {
+      content,
+      stop_reason: hasToolUse ? 'tool_use' : 'end_turn',
+      usage: {
+        input_tokens: this.tokenCounter.estimateTokens(JSON.stringify(request)),
+        output_tokens: this.tokenCounter.estimateTokens(JSON.stringify(content)),
+      },
+      model: this.model,
+    };
+  }
+
+  async *streamMessage(request: ClaudeMessageRequest): AsyncGenerator<ClaudeStreamEvent> {
+    const response = await this.createMessage(request);
+
+    for (const block of response.content) {
+      if (block.type === 'text') {
+        // Word-sized deltas, like a real stream
+        for (const piece of block.text.match(/\S+\s*|\s+/g) || []) {
+          yield { type: 'text_delta', text: piece };
+        }
+      } else if (block.type === 'tool_use') {
+        yield { type: 'tool_use_start', id: block.id, name: block.name };
+        yield { type: 'tool_use_end', id: block.id, name: block.name, input: block.input };
+      }
+    }
+
+    yield { type: 'usage', usage: response.usage };
+    yield { type: 'done', content: response.content, stop_reason: response.stop_reason, usage: response.usage, model: response.model };
+  }
+
+  private findScenario(prompt: string): MockScenario | undefined {
+    return this.script.scenarios.find(s => s.match && new RegExp(s.match, 'i').test(prompt))
+      || this.script.scenarios.find(s => !s.match);
+  }
+
+  private getLastToolResult(request: ClaudeMessageRequest): string {
+    const last = request.messages[request.messages.length - 1];
+    if (!last || typeof last.content === 'string') return '';
+    const results = last.content.filter((b): b is ClaudeToolResultBlock => b.type === 'tool_result');
+    return results.length > 0 ? results[results.length - 1].content : '';
+  }
+}
@@ -0,0 +1,77 @@
+// Recording Provider - writes every decision of a real provider as a mock script
+
+import fs from 'fs';
+import path from 'path';
+import { ClaudeContentBlock, ClaudeMessageRequest, ClaudeStreamEvent, ClaudeToolUseBlock } from '@/types/claude';
+import { LLMProvider, LLMResponse, getConversationPosition, getTextContent } from './llm-provider';
+import { MockScript, MockTurn } from './mock-provider';
+
+export class RecordingProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private filePath: string) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  async createMessage(request: ClaudeMessageRequest): Promise<LLMResponse> {
+    const response = await this.inner.createMessage(request);
+    this.record(request, response.content);
+    return response;
+  }
+
+  async *streamMessage(request: ClaudeMessageRequest): AsyncGenerator<ClaudeStreamEvent> {
+    for await (const event of this.inner.streamMessage(request)) {
+      if (event.type === 'done') {
+        this.record(request, event.content);
+      }
+      yield event;
+    }
+  }
+
+  private record(request: ClaudeMessageRequest, content: ClaudeContentBlock[]): void {
+    try {
+      const { prompt, turn } = getConversationPosition(request);
+      const script = this.load();
+      // Exact prompt match, so replays pick the recorded conversation
+      const match = `^${prompt.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`;
+
+      let scenario = script.scenarios.find(s => s.match === match);
+      if (!scenario) {
+        scenario = { name: prompt.slice(0, 60), match, turns: [] };
+        script.scenarios.push(scenario);
+      }
+
+      const toolCalls = content
+        .filter((block): block is ClaudeToolUseBlock => block.type === 'tool_use')
+        .map(block => ({ name: block.name, input: block.input }));
+      const recorded: MockTurn = { text: getTextContent(content) || undefined };
+      if (toolCalls.length > 0) {
+        recorded.toolCalls = toolCalls;
+      }
+
+      scenario.turns[turn] = recorded;
+      // A new answer at this turn invalidates whatever was recorded after it
+      scenario.turns.length = turn + 1;
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(script, null, 2));
+    } catch (error) {
+      console.error('[RecordingProvider] Failed to record decision:', error);
+    }
+  }
+
+  private load(): MockScript {
+    if (!fs.existsSync(this.filePath)) {
+      return { scenarios: [] };
+    }
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as MockScript;
+  }
+}
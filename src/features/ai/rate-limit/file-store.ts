@@ -0,0 +1,96 @@
+// File-backed rate limit store - survives restarts, shared by processes on one host
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RateLimitState, RateLimitStore, RateLimitUpdate } from './rate-limiter';
+
+type StoredEntries = Record<string, { state: RateLimitState; expiresAt: number }>;
+
+// Lock files older than this were left behind by a crashed process
+const STALE_LOCK_MS = 5000;
+const LOCK_RETRY_MS = 10;
+const MAX_LOCK_ATTEMPTS = 500;
+
+export class FileRateLimitStore implements RateLimitStore {
+  // Serializes read-modify-write cycles within this process; the lock file across processes
+  private queue: Promise<unknown> = Promise.resolve();
+  private lockPath: string;
+
+  constructor(private filePath: string) {
+    this.lockPath = `${filePath}.lock`;
+  }
+
+  async get(key: string): Promise<RateLimitState | null> {
+    const entries = await this.read();
+    const entry = entries[key];
+    return entry && entry.expiresAt > Date.now() ? entry.state : null;
+  }
+
+  async set(key: string, state: RateLimitState, ttlMs: number): Promise<void> {
+    await this.update(key, ttlMs, () => state);
+  }
+
+  async update(key: string, ttlMs: number, apply: RateLimitUpdate): Promise<void> {
+    await this.locked(async () => {
+      const now = Date.now();
+      const entries = await this.read();
+      const entry = entries[key];
+      const next = apply(entry && entry.expiresAt > now ? entry.state : null);
+      if (!next) return;
+      entries[key] = { state: next, expiresAt: now + ttlMs };
+
+      // Drop expired entries so the file does not grow forever
+      for (const [entryKey, stored] of Object.entries(entries)) {
+        if (stored.expiresAt <= now) delete entries[entryKey];
+      }
+
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(entries));
+      await fs.rename(tmpPath, this.filePath);
+    });
+  }
+
+  private locked(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(async () => {
+      await this.acquireLock();
+      try {
+        await task();
+      } finally {
+        await fs.rm(this.lockPath, { force: true });
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async acquireLock(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    for (let attempt = 0; attempt < MAX_LOCK_ATTEMPTS; attempt++) {
+      try {
+        const handle = await fs.open(this.lockPath, 'wx');
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        const stat = await fs.stat(this.lockPath).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > STALE_LOCK_MS) {
+          await fs.rm(this.lockPath, { force: true });
+          continue;
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+    throw new Error(`[RateLimit] Timed out waiting for ${this.lockPath}`);
+  }
+
+  private async read(): Promise<StoredEntries> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as StoredEntries;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('[RateLimit] Failed to read store, starting empty:', error);
+      }
+      return {};
+    }
+  }
+}
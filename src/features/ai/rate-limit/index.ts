@@ -0,0 +1,111 @@
+// Rate Limiting - Centralized exports and store selection (server-side only)
+
+import path from 'path';
+import { RateLimitAlgorithm, RateLimitConfig, RateLimiter, RateLimitResult, RateLimitStore, QuotaOverride, QuotaStatus } from './rate-limiter';
+import { MemoryRateLimitStore } from './memory-store';
+import { FileRateLimitStore } from './file-store';
+import { RedisRateLimitStore, createRestRedisClient } from './redis-store';
+
+export { RateLimiter } from './rate-limiter';
+export type { RateLimitConfig, RateLimitResult, RateLimitRule, RateLimitStore, RateLimitState, RateLimitUpdate, QuotaStatus, QuotaOverride } from './rate-limiter';
+export { MemoryRateLimitStore } from './memory-store';
+export { FileRateLimitStore } from './file-store';
+export { RedisRateLimitStore, createRestRedisClient } from './redis-store';
+export type { RedisClient } from './redis-store';
+
+// Registered API keys, e.g. RATE_LIMIT_API_KEYS='{"key-123": {"user": "team-a", "requests": 100, "tokens": 500000}}'
+interface ApiKeyEntry extends QuotaOverride {
+  user: string;
+}
+
+const algorithm = (process.env.RATE_LIMIT_ALGORITHM || 'sliding-window') as RateLimitAlgorithm;
+
+export const RATE_LIMIT: RateLimitConfig = {
+  requests: {
+    limit: parseInt(process.env.RATE_LIMIT_MAX || '10'),
+    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '60000'),
+    algorithm,
+  },
+  tokens: {
+    limit: parseInt(process.env.RATE_LIMIT_TOKENS_MAX || '200000'),
+    windowMs: parseInt(process.env.RATE_LIMIT_TOKENS_WINDOW || '3600000'),
+    algorithm,
+  },
+};
+
+let apiKeys: Record<string, ApiKeyEntry> | null = null;
+let limiter: RateLimiter | null = null;
+
+function getApiKeys(): Record<string, ApiKeyEntry> {
+  if (!apiKeys) {
+    try {
+      apiKeys = JSON.parse(process.env.RATE_LIMIT_API_KEYS || '{}') as Record<string, ApiKeyEntry>;
+    } catch (error) {
+      console.error('[RateLimit] RATE_LIMIT_API_KEYS is not valid JSON:', error);
+      apiKeys = {};
+    }
+  }
+  return apiKeys;
+}
+
+function createStore(): RateLimitStore {
+  switch (process.env.RATE_LIMIT_STORE || 'memory') {
+    case 'file':
+      return new FileRateLimitStore(
+        process.env.RATE_LIMIT_FILE || path.join(process.cwd(), 'data', 'rate-limits.json')
+      );
+    case 'redis': {
+      const url = process.env.REDIS_REST_URL;
+      const token = process.env.REDIS_REST_TOKEN;
+      if (!url || !token) {
+        throw new Error('RATE_LIMIT_STORE=redis requires REDIS_REST_URL and REDIS_REST_TOKEN');
+      }
+      return new RedisRateLimitStore(createRestRedisClient(url, token));
+    }
+    case 'memory':
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${process.env.RATE_LIMIT_STORE}`);
+  }
+}
+
+/**
+ * Limiter selected by RATE_LIMIT_STORE (memory | file | redis) and
+ * RATE_LIMIT_ALGORITHM (sliding-window | token-bucket).
+ */
+export function getRateLimiter(): RateLimiter {
+  if (!limiter) {
+    const overrides: Record<string, QuotaOverride> = {};
+    for (const entry of Object.values(getApiKeys())) {
+      overrides[`user:${entry.user}`] = { requests: entry.requests, tokens: entry.tokens };
+    }
+    limiter = new RateLimiter(createStore(), RATE_LIMIT, overrides);
+  }
+  return limiter;
+}
+
+/**
+ * Quota identity of a request: the user of a registered API key, otherwise the client IP.
+ * Unknown keys are ignored so they cannot be used to get a fresh quota.
+ */
+export function resolveIdentity(headers: Headers, clientIP: string): string {
+  const bearer = headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = headers.get('x-api-key') || bearer;
+  const entry = apiKey ? getApiKeys()[apiKey] : undefined;
+  return entry ? `user:${entry.user}` : `ip:${clientIP}`;
+}
+
+function quotaHeaders(prefix: string, status: QuotaStatus): Record<string, string> {
+  return {
+    [`${prefix}-Limit`]: status.limit.toString(),
+    [`${prefix}-Remaining`]: status.remaining.toString(),
+    [`${prefix}-Reset`]: new Date(status.resetTime).toISOString(),
+  };
+}
+
+export function rateLimitHeaders(result: Pick<RateLimitResult, 'requests' | 'tokens'>): Record<string, string> {
+  return {
+    ...quotaHeaders('X-RateLimit', result.requests),
+    ...quotaHeaders('X-RateLimit-Tokens', result.tokens),
+  };
+}
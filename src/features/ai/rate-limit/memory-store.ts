@@ -0,0 +1,29 @@
+// In-memory rate limit store - per process, lost on restart
+
+import { RateLimitState, RateLimitStore, RateLimitUpdate } from './rate-limiter';
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+
+  async get(key: string): Promise<RateLimitState | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.state;
+  }
+
+  async set(key: string, state: RateLimitState, ttlMs: number): Promise<void> {
+    this.entries.set(key, { state, expiresAt: Date.now() + ttlMs });
+  }
+
+  // Read, apply and write without an await in between, so no other update can interleave
+  async update(key: string, ttlMs: number, apply: RateLimitUpdate): Promise<void> {
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > Date.now() ? entry.state : null;
+    const next = apply(current);
+    if (next) this.entries.set(key, { state: next, expiresAt: Date.now() + ttlMs });
+  }
+}
@@ -0,0 +1,190 @@
+// Rate Limiter - request and token quotas per identity (server-side only)
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+  algorithm: RateLimitAlgorithm;
+}
+
+export interface RateLimitConfig {
+  requests: RateLimitRule;
+  tokens: RateLimitRule;
+}
+
+// Per-algorithm state as persisted by a store
+export type RateLimitState =
+  | { kind: 'sliding-window'; windowStart: number; current: number; previous: number }
+  | { kind: 'token-bucket'; tokens: number; updatedAt: number };
+
+// Computes the next state from the stored one; null leaves the store unchanged
+export type RateLimitUpdate = (state: RateLimitState | null) => RateLimitState | null;
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitState | null>;
+  set(key: string, state: RateLimitState, ttlMs: number): Promise<void>;
+  // Atomic read-modify-write of one key; concurrent updates of a key never see the same state.
+  // `apply` may run more than once (optimistic stores retry on conflicts) and must be pure.
+  update(key: string, ttlMs: number, apply: RateLimitUpdate): Promise<void>;
+}
+
+export interface QuotaOverride {
+  requests?: number;
+  tokens?: number;
+}
+
+export interface QuotaStatus {
+  limit: number;
+  remaining: number;
+  resetTime: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Which quota rejected the request
+  exceeded?: 'requests' | 'tokens';
+  retryAfterMs: number;
+  requests: QuotaStatus;
+  tokens: QuotaStatus;
+}
+
+interface ConsumeResult {
+  allowed: boolean;
+  state: RateLimitState;
+  status: QuotaStatus;
+  retryAfterMs: number;
+}
+
+/**
+ * Sliding window counter: the previous fixed window is weighted by how much of
+ * it still overlaps the sliding window. Constant state size, also for tokens.
+ */
+function consumeSlidingWindow(rule: RateLimitRule, stored: RateLimitState | null, amount: number, now: number, force: boolean): ConsumeResult {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+  let state = stored?.kind === 'sliding-window' ? stored : { kind: 'sliding-window' as const, windowStart, current: 0, previous: 0 };
+
+  if (state.windowStart !== windowStart) {
+    const adjacent = state.windowStart === windowStart - rule.windowMs;
+    state = { kind: 'sliding-window', windowStart, current: 0, previous: adjacent ? state.current : 0 };
+  }
+
+  const overlap = 1 - (now - windowStart) / rule.windowMs;
+  const used = state.previous * overlap + state.current;
+  const allowed = force || used + amount <= rule.limit;
+  const next = allowed ? { ...state, current: state.current + amount } : state;
+  const usedAfter = allowed ? used + amount : used;
+
+  // Earliest moment the weighted previous window has decayed enough for `amount`
+  let retryAfterMs = 0;
+  if (!allowed) {
+    const excess = used + amount - rule.limit;
+    retryAfterMs = state.previous > 0 && excess <= state.previous * overlap
+      ? Math.ceil((excess / state.previous) * rule.windowMs)
+      : windowStart + rule.windowMs - now;
+  }
+
+  return {
+    allowed,
+    state: next,
+    retryAfterMs,
+    status: {
+      limit: rule.limit,
+      remaining: Math.max(0, Math.floor(rule.limit - usedAfter)),
+      resetTime: windowStart + rule.windowMs,
+    },
+  };
+}
+
+// Token bucket: capacity `limit`, refilled continuously over `windowMs`
+function consumeTokenBucket(rule: RateLimitRule, stored: RateLimitState | null, amount: number, now: number, force: boolean): ConsumeResult {
+  const refillPerMs = rule.limit / rule.windowMs;
+  const previous = stored?.kind === 'token-bucket' ? stored : { kind: 'token-bucket' as const, tokens: rule.limit, updatedAt: now };
+  const tokens = Math.min(rule.limit, previous.tokens + (now - previous.updatedAt) * refillPerMs);
+
+  const allowed = force || tokens >= amount;
+  const left = allowed ? tokens - amount : tokens;
+
+  return {
+    allowed,
+    state: { kind: 'token-bucket', tokens: left, updatedAt: now },
+    retryAfterMs: allowed ? 0 : Math.ceil((amount - tokens) / refillPerMs),
+    status: {
+      limit: rule.limit,
+      remaining: Math.max(0, Math.floor(left)),
+      resetTime: now + Math.ceil((rule.limit - left) / refillPerMs),
+    },
+  };
+}
+
+function consume(rule: RateLimitRule, stored: RateLimitState | null, amount: number, now: number, force = false): ConsumeResult {
+  return rule.algorithm === 'token-bucket'
+    ? consumeTokenBucket(rule, stored, amount, now, force)
+    : consumeSlidingWindow(rule, stored, amount, now, force);
+}
+
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore,
+    private config: RateLimitConfig,
+    // Per-identity quota overrides (e.g. registered API keys)
+    private overrides: Record<string, QuotaOverride> = {}
+  ) {}
+
+  getConfig(identity?: string): RateLimitConfig {
+    const override = identity ? this.overrides[identity] : undefined;
+    return {
+      requests: { ...this.config.requests, limit: override?.requests ?? this.config.requests.limit },
+      tokens: { ...this.config.tokens, limit: override?.tokens ?? this.config.tokens.limit },
+    };
+  }
+
+  /**
+   * Counts one request for the identity. Rejected when either the request
+   * quota is used up or no token quota is left for the answer.
+   */
+  async check(identity: string, now = Date.now()): Promise<RateLimitResult> {
+    const config = this.getConfig(identity);
+    const tokenState = await this.store.get(this.key(identity, 'tokens'));
+
+    // Peek at tokens: at least one must be available, the real amount is known after the call
+    const tokens = consume(config.tokens, tokenState, 1, now);
+    if (!tokens.allowed) {
+      const requests = consume(config.requests, await this.store.get(this.key(identity, 'requests')), 0, now);
+      return { allowed: false, exceeded: 'tokens', retryAfterMs: tokens.retryAfterMs, requests: requests.status, tokens: { ...tokens.status, remaining: 0 } };
+    }
+
+    // Counted in one atomic step, so concurrent requests can't both take the last slot
+    let requests: ConsumeResult | undefined;
+    await this.store.update(this.key(identity, 'requests'), config.requests.windowMs * 2, state => {
+      requests = consume(config.requests, state, 1, now);
+      return requests.allowed ? requests.state : null;
+    });
+    if (!requests) throw new Error('Rate limit store did not apply the update');
+
+    const tokenStatus = consume(config.tokens, tokenState, 0, now).status;
+    return {
+      allowed: requests.allowed,
+      exceeded: requests.allowed ? undefined : 'requests',
+      retryAfterMs: requests.retryAfterMs,
+      requests: requests.status,
+      tokens: tokenStatus,
+    };
+  }
+
+  // Books the tokens of a finished call; may overdraw the quota, later calls wait
+  async recordUsage(identity: string, tokenCount: number, now = Date.now()): Promise<QuotaStatus> {
+    const config = this.getConfig(identity);
+    let result: ConsumeResult | undefined;
+    await this.store.update(this.key(identity, 'tokens'), config.tokens.windowMs * 2, state => {
+      result = consume(config.tokens, state, tokenCount, now, true);
+      return result.state;
+    });
+    if (!result) throw new Error('Rate limit store did not apply the update');
+    return result.status;
+  }
+
+  private key(identity: string, quota: 'requests' | 'tokens'): string {
+    return `ratelimit:${quota}:${identity}`;
+  }
+}
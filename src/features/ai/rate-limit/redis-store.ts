@@ -0,0 +1,80 @@
+// Redis-compatible rate limit store - shared across instances
+
+import { RateLimitState, RateLimitStore, RateLimitUpdate } from './rate-limiter';
+
+// Minimal client surface; ioredis, node-redis and REST clients can be adapted to it
+export interface RedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  eval(script: string, keys: string[], args: Array<string | number>): Promise<unknown>;
+}
+
+// Writes ARGV[2] only if the key still holds ARGV[1] ('' for a missing key); 1 on success
+const COMPARE_AND_SET = `
+local current = redis.call('GET', KEYS[1]) or ''
+if current ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+// Compare-and-set attempts before an update gives up under contention
+const MAX_UPDATE_ATTEMPTS = 10;
+
+/**
+ * Client for Redis REST endpoints (Upstash / Vercel KV protocol).
+ * Needs no extra dependency, which keeps serverless bundles small.
+ */
+export function createRestRedisClient(url: string, token: string): RedisClient {
+  const command = async (args: Array<string | number>) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+    if (!response.ok) {
+      throw new Error(`Redis command ${args[0]} failed: ${response.status}`);
+    }
+    const data = await response.json() as { result?: unknown; error?: string };
+    if (data.error) {
+      throw new Error(`Redis command ${args[0]} failed: ${data.error}`);
+    }
+    return data.result;
+  };
+
+  return {
+    get: async (key) => (await command(['GET', key])) as string | null,
+    set: async (key, value, ttlMs) => {
+      await command(['SET', key, value, 'PX', ttlMs]);
+    },
+    eval: (script, keys, args) => command(['EVAL', script, keys.length, ...keys, ...args]),
+  };
+}
+
+// Updates are optimistic: the new state is written by a compare-and-set script and
+// recomputed when another request changed the key in between
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private client: RedisClient) {}
+
+  async get(key: string): Promise<RateLimitState | null> {
+    const value = await this.client.get(key);
+    return value ? (JSON.parse(value) as RateLimitState) : null;
+  }
+
+  async set(key: string, state: RateLimitState, ttlMs: number): Promise<void> {
+    await this.client.set(key, JSON.stringify(state), Math.ceil(ttlMs));
+  }
+
+  async update(key: string, ttlMs: number, apply: RateLimitUpdate): Promise<void> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const current = await this.client.get(key);
+      const next = apply(current ? (JSON.parse(current) as RateLimitState) : null);
+      if (!next) return;
+      const written = await this.client.eval(COMPARE_AND_SET, [key], [current ?? '', JSON.stringify(next), Math.ceil(ttlMs)]);
+      if (Number(written) === 1) return;
+    }
+    throw new Error(`[RateLimit] Update of ${key} failed after ${MAX_UPDATE_ATTEMPTS} conflicting writes`);
+  }
+}
@@ -1,44 +1,79 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { ClaudeMessageRequest, ClaudeStreamEvent, ClaudeToolDefinition } from '@/types/claude';
 
-// Shared in-memory rate limit store
-const requestCounts = new Map<string, { count: number; resetTime: number }>();
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const MAX_TOOLS = 32;
 
-export const RATE_LIMIT = {
-  requests: parseInt(process.env.RATE_LIMIT_MAX || '10'),
-  windowMs: parseInt(process.env.RATE_LIMIT_WINDOW || '60000'),
-};
-
-export function checkRateLimit(ip: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const userRequests = requestCounts.get(ip);
+interface RawMessage {
+  role?: string;
+  content?: unknown;
+}
 
-  if (!userRequests || now > userRequests.resetTime) {
-    const resetTime = now + RATE_LIMIT.windowMs;
-    requestCounts.set(ip, { count: 1, resetTime });
-    return { allowed: true, remaining: RATE_LIMIT.requests - 1, resetTime };
+function getLatestUserText(data: { message?: unknown; messages?: RawMessage[] }): string | undefined {
+  if (typeof data.message === 'string') {
+    return data.message;
   }
-
-  if (userRequests.count >= RATE_LIMIT.requests) {
-    return { allowed: false, remaining: 0, resetTime: userRequests.resetTime };
+  if (!Array.isArray(data.messages)) {
+    return undefined;
   }
+  for (let i = data.messages.length - 1; i >= 0; i--) {
+    const msg = data.messages[i];
+    if (msg?.role !== 'user') continue;
+    if (typeof msg.content === 'string') return msg.content;
+    // Tool results are produced by our own tools, only free text is user input
+    const textBlocks = Array.isArray(msg.content)
+      ? (msg.content as Array<{ type?: string; text?: unknown }>)
+          .filter(b => b?.type === 'text' && typeof b.text === 'string')
+      : [];
+    if (textBlocks.length > 0) {
+      return textBlocks.map(b => b.text as string).join('\n');
+    }
+  }
+  return undefined;
+}
 
-  userRequests.count++;
-  return {
-    allowed: true,
-    remaining: RATE_LIMIT.requests - userRequests.count,
-    resetTime: userRequests.resetTime,
-  };
+function validateTools(tools: unknown): { valid: boolean; error?: string } {
+  if (tools === undefined) {
+    return { valid: true };
+  }
+  if (!Array.isArray(tools) || tools.length > MAX_TOOLS) {
+    return { valid: false, error: `Tools must be an array with at most ${MAX_TOOLS} entries` };
+  }
+  for (const tool of tools as Array<Partial<ClaudeToolDefinition>>) {
+    if (!tool || typeof tool.name !== 'string' || !TOOL_NAME_PATTERN.test(tool.name)) {
+      return { valid: false, error: 'Tool name is invalid' };
+    }
+    if (typeof tool.description !== 'string') {
+      return { valid: false, error: `Tool ${tool.name} is missing a description` };
+    }
+    if (!tool.input_schema || tool.input_schema.type !== 'object') {
+      return { valid: false, error: `Tool ${tool.name} needs an object input_schema` };
+    }
+  }
+  return { valid: true };
 }
 
 export function validateClaudeInput(data: any): { valid: boolean; error?: string } {
   if (!data || typeof data !== 'object') {
     return { valid: false, error: 'Invalid request body' };
   }
-  if (!data.message || typeof data.message !== 'string') {
+  const hasMessages = Array.isArray(data.messages) && data.messages.length > 0;
+  if (!hasMessages && (!data.message || typeof data.message !== 'string')) {
     return { valid: false, error: 'Message is required and must be a string' };
   }
+  if (hasMessages) {
+    for (const msg of data.messages) {
+      if (!msg || (msg.role !== 'user' && msg.role !== 'assistant')) {
+        return { valid: false, error: 'Messages must have role user or assistant' };
+      }
+      if (typeof msg.content !== 'string' && !Array.isArray(msg.content)) {
+        return { valid: false, error: 'Message content must be a string or an array of blocks' };
+      }
+    }
+  }
   const maxLength = 30000;
-  if (data.message.length > maxLength) {
+  const userText = getLatestUserText(data) || '';
+  if (userText.length > maxLength) {
     return { valid: false, error: `Message too long (max ${maxLength} characters)` };
   }
   const prohibitedPatterns = [
@@ -46,34 +81,66 @@ export function validateClaudeInput(data: any): { valid: boolean; error?: string
     /\b(hack|exploit|malware)\b/i,
   ];
   for (const pattern of prohibitedPatterns) {
-    if (pattern.test(data.message)) {
+    if (pattern.test(userText)) {
       return { valid: false, error: 'Message contains prohibited content' };
     }
   }
-  return { valid: true };
+  return validateTools(data.tools);
 }
 
-export function createAnthropicClient(apiKey: string) {
-  return new Anthropic({ apiKey });
+// Route body -> provider request (the model itself stays a server decision)
+export function toMessageRequest(data: any): ClaudeMessageRequest {
+  return {
+    messages: data.messages || [
+      { role: 'user', content: data.message },
+    ],
+    system: data.systemPrompt || undefined,
+    tools: data.tools,
+    maxTokens: data.maxTokens || 2000,
+  };
 }
 
-export async function callClaude(client: Anthropic, data: any) {
-  const messages = data.messages || [
-    { role: 'user', content: data.message },
-  ];
-  const maxTokens = data.maxTokens || 2000;
+function encodeEvent(encoder: TextEncoder, event: ClaudeStreamEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
 
-  const response = await client.messages.create({
-    model: 'claude-sonnet-4-0', // keep server authority for model choice
-    max_tokens: maxTokens,
-    messages,
-    system: data.systemPrompt || undefined,
-  });
+/**
+ * Encodes provider stream events as server-sent events (see ClaudeStreamEvent).
+ * The first event is awaited before the response starts, so HTTP errors from
+ * the provider (auth, overload, billing) still reach the route's error handling.
+ */
+export async function createEventStream(events: AsyncIterable<ClaudeStreamEvent>): Promise<ReadableStream<Uint8Array>> {
+  const iterator = events[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const encoder = new TextEncoder();
 
-  return response;
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (let next = first; !next.done; next = await iterator.next()) {
+          controller.enqueue(encodeEvent(encoder, next.value));
+        }
+      } catch (error) {
+        console.error('[ERROR] Claude stream error:', error);
+        const overloaded = isAnthropicError(error) && error.status === 529;
+        controller.enqueue(encodeEvent(encoder, {
+          type: 'error',
+          error: overloaded
+            ? 'Die Claude-Server sind momentan überlastet. Bitte versuche es in wenigen Augenblicken erneut.'
+            : 'Die Antwort wurde unterbrochen. Bitte versuche es erneut.',
+          code: overloaded ? 'CLAUDE_OVERLOADED' : 'STREAM_ERROR',
+        }));
+      } finally {
+        controller.close();
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
 }
 
-export function isAnthropicError(error: unknown): error is Anthropic.APIError {
+export function isAnthropicError(error: unknown): error is InstanceType<typeof Anthropic.APIError> {
   return error instanceof Anthropic.APIError;
 }
 
@@ -1,15 +1,10 @@
 // Claude Client Wrapper - Provides generatePlan method for tool-chain-executor
 
-import { ClaudeConfig, ClaudeResponse } from '@/types/claude';
+import { ClaudeResponse, ClaudeMessageRequest, ClaudeStreamEvent } from '@/types/claude';
+import { RateLimitQuotaInfo, RateLimitUpdate } from '@/types/api';
 
+// Provider and model are chosen server-side by /api/claude (see LLM_PROVIDER)
 export class ClaudeClient {
-  private apiKey: string;
-  private model: string;
-
-  constructor(config: ClaudeConfig) {
-    this.apiKey = config.apiKey;
-    this.model = config.model || 'claude-sonnet-4-0';
-  }
 
   async generatePlan(userMessage: string, context?: any, chatHistory?: Array<{role: 'user' | 'assistant', content: string}>): Promise<ClaudeResponse> {
     try {
@@ -43,6 +38,185 @@ export class ClaudeClient {
     }
   }
 
+  /**
+   * Sends a full message list with native tool definitions.
+   * Returns the raw content blocks so tool_use calls can be executed by the caller.
+   */
+  async sendMessages(request: ClaudeMessageRequest): Promise<ClaudeResponse> {
+    try {
+      const response = await fetch('/api/claude', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messages: request.messages,
+          systemPrompt: request.system,
+          tools: request.tools,
+          maxTokens: request.maxTokens,
+        }),
+      });
+
+      this.reportRateLimitHeaders(response);
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        return this.toErrorResponse(response, data);
+      }
+
+      return {
+        content: data.response || '',
+        blocks: data.content || [],
+        stopReason: data.stop_reason,
+        model: data.model,
+        usage: data.usage ? {
+          inputTokens: data.usage.input_tokens,
+          outputTokens: data.usage.output_tokens,
+        } : undefined,
+      };
+    } catch (error) {
+      console.error('Claude API error:', error);
+      return {
+        content: '',
+        error: {
+          message: error instanceof Error ? error.message : 'Netzwerkfehler bei der Claude-Anfrage.',
+          code: 'NETWORK_ERROR',
+        },
+      };
+    }
+  }
+
+  /**
+   * Same request as sendMessages, but in streaming mode. Every server-sent event
+   * is passed to onEvent; the resolved response matches sendMessages.
+   */
+  async streamMessages(
+    request: ClaudeMessageRequest,
+    onEvent: (event: ClaudeStreamEvent) => void
+  ): Promise<ClaudeResponse> {
+    try {
+      const response = await fetch('/api/claude', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messages: request.messages,
+          systemPrompt: request.system,
+          tools: request.tools,
+          maxTokens: request.maxTokens,
+          stream: true,
+        }),
+      });
+
+      this.reportRateLimitHeaders(response);
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        return this.toErrorResponse(response, data);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let result: ClaudeResponse | null = null;
+
+      const handleEvent = (event: ClaudeStreamEvent) => {
+        onEvent(event);
+        if (event.type === 'done') {
+          result = {
+            content: event.content
+              .filter(block => block.type === 'text')
+              .map(block => (block as { text: string }).text)
+              .join('\n'),
+            blocks: event.content,
+            stopReason: event.stop_reason,
+            model: event.model,
+            usage: {
+              inputTokens: event.usage.input_tokens,
+              outputTokens: event.usage.output_tokens,
+            },
+          };
+        } else if (event.type === 'rate_limit') {
+          this.reportRateLimit(event.rateLimit);
+        } else if (event.type === 'error') {
+          result = { content: '', error: { message: event.error, code: event.code } };
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE frames are separated by a blank line
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const frame = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          const payload = frame
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('');
+          if (payload) {
+            handleEvent(JSON.parse(payload) as ClaudeStreamEvent);
+          }
+          boundary = buffer.indexOf('\n\n');
+        }
+      }
+
+      return result || {
+        content: '',
+        error: { message: 'Die Antwort wurde unterbrochen.', code: 'STREAM_ERROR' },
+      };
+    } catch (error) {
+      console.error('Claude API error:', error);
+      return {
+        content: '',
+        error: {
+          message: error instanceof Error ? error.message : 'Netzwerkfehler bei der Claude-Anfrage.',
+          code: 'NETWORK_ERROR',
+        },
+      };
+    }
+  }
+
+  // Quota updates are picked up by RateLimitIndicator via the 'ratelimit-update' window event
+  private reportRateLimit(update: RateLimitUpdate): void {
+    if (typeof window === 'undefined') return;
+    window.dispatchEvent(new CustomEvent<RateLimitUpdate>('ratelimit-update', { detail: update }));
+  }
+
+  private reportRateLimitHeaders(response: Response): void {
+    const requests = this.readQuotaHeaders(response.headers, 'X-RateLimit');
+    if (!requests) return;
+    this.reportRateLimit({
+      requests,
+      tokens: this.readQuotaHeaders(response.headers, 'X-RateLimit-Tokens'),
+    });
+  }
+
+  private readQuotaHeaders(headers: Headers, prefix: string): RateLimitQuotaInfo | undefined {
+    const limit = headers.get(`${prefix}-Limit`);
+    const remaining = headers.get(`${prefix}-Remaining`);
+    const resetTime = headers.get(`${prefix}-Reset`);
+    if (limit === null || remaining === null || resetTime === null) return undefined;
+    return { limit: Number(limit), remaining: Number(remaining), resetTime };
+  }
+
+  private toErrorResponse(response: Response, data: { error?: string; code?: string; retry_after?: number; retryAfter?: number }): ClaudeResponse {
+    return {
+      content: '',
+      error: {
+        message: data.error || `API request failed: ${response.statusText}`,
+        code: data.code || 'API_ERROR',
+        status: response.status,
+        retry_after: data.retry_after ?? data.retryAfter,
+      },
+    };
+  }
+
   async formatResponse(userMessage: string, queryResults: any, context?: any): Promise<ClaudeResponse> {
     try {
       const response = await fetch('/api/claude', {
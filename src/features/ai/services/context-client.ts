@@ -0,0 +1,103 @@
+// Context Client - Smart Chunks projects on the server (/api/context)
+
+import { EnhancedIfcEntity, ExtractedEntity, IfcEntity, IfcEntityIndex } from '@/types/bim';
+import { ChunkSelectionResult, DirectSelectionParams } from '@/types/chunks';
+import { ContextProjectSummary } from '@/types/api';
+import { unwrap } from '@/core/query/query-engine';
+
+type ContextEntity = IfcEntity
+  & Pick<ExtractedEntity, 'spatialParent'>
+  & Pick<EnhancedIfcEntity, 'geometry' | 'materials' | 'quantities'>;
+
+// Server project of a model, derived from its content hash so a reload finds it again
+export function getContextProjectId(contentHash: string): string {
+  return `model_${contentHash.slice(0, 16)}`;
+}
+
+export async function hasContextProject(projectId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/context/projects/${encodeURIComponent(projectId)}`);
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+// The fields the server chunks and indexes; of the properties only simple values are kept, the
+// item data trees (property sets, relations) would end up in the chunks as [object Object]
+function toContextEntity(entity: IfcEntity): ContextEntity {
+  const { expressID, modelId, type, name, globalId, description, objectType, tag, position, boundingBox } = entity;
+  const { spatialParent } = entity as ExtractedEntity;
+  const { geometry, materials, quantities } = entity as EnhancedIfcEntity;
+  const properties = Object.entries(entity.properties ?? {})
+    .map(([key, value]) => [key, unwrap(value)] as const)
+    .filter(([, value]) => value !== null && value !== undefined && typeof value !== 'object');
+
+  return {
+    expressID, modelId, type, name, globalId, description, objectType, tag, position, boundingBox,
+    spatialParent, geometry, materials, quantities,
+    properties: properties.length > 0 ? Object.fromEntries(properties) : undefined
+  };
+}
+
+/**
+ * Uploads the entities unless the server already has the project; false if it is not available
+ */
+export async function ensureContextProject(
+  projectId: string,
+  name: string,
+  entities: IfcEntity[],
+  entityIndex: IfcEntityIndex
+): Promise<boolean> {
+  if (await hasContextProject(projectId)) {
+    return true;
+  }
+
+  try {
+    const response = await fetch('/api/context/projects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ projectId, name, entities: entities.map(toContextEntity), entityIndex })
+    });
+    if (!response.ok) {
+      console.warn(`⚠️ Context project ${projectId} not created: ${response.status}`);
+      return false;
+    }
+    const data = await response.json() as { project: ContextProjectSummary };
+    console.log(`✅ Context project ${projectId}: ${data.project.totalChunks} chunks on the server`);
+    return true;
+  } catch (error) {
+    console.warn(`⚠️ Context project ${projectId} not created:`, error);
+    return false;
+  }
+}
+
+/**
+ * Chunks selected on the server, by tool parameters or free-text query; null if unavailable.
+ * remainingBudget are the tokens left in the session budget (Infinity without a limit)
+ */
+export async function selectContext(
+  projectId: string,
+  selection: { params: DirectSelectionParams } | { query: string },
+  maxTokens?: number,
+  remainingBudget: number = Infinity
+): Promise<ChunkSelectionResult | null> {
+  try {
+    const response = await fetch('/api/context/select', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        projectId,
+        maxTokens,
+        // JSON has no Infinity; a missing value means unlimited
+        remainingBudget: Number.isFinite(remainingBudget) ? remainingBudget : undefined,
+        ...selection
+      })
+    });
+    if (!response.ok) return null;
+    return await response.json() as ChunkSelectionResult;
+  } catch (error) {
+    console.warn('⚠️ Context selection failed:', error);
+    return null;
+  }
+}
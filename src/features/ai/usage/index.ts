@@ -0,0 +1,33 @@
+// Usage Accounting - Centralized exports and session tracker
+
+import { UsageBudget } from '@/types/claude';
+import { UsageTracker } from './usage-tracker';
+
+export { UsageTracker, UsageRun, describeBudgetExceeded } from './usage-tracker';
+export { estimateCost, getModelPricing } from './pricing';
+export type { ModelPricing } from './pricing';
+
+function readLimit(value?: string): number | undefined {
+  const limit = value ? parseFloat(value) : NaN;
+  return Number.isFinite(limit) && limit > 0 ? limit : undefined;
+}
+
+// The tool chain runs in the browser, so the limits are public env vars
+export const USAGE_BUDGET: UsageBudget = {
+  maxRunTokens: readLimit(process.env.NEXT_PUBLIC_AI_RUN_TOKEN_BUDGET),
+  maxRunCostUsd: readLimit(process.env.NEXT_PUBLIC_AI_RUN_COST_BUDGET),
+  maxSessionTokens: readLimit(process.env.NEXT_PUBLIC_AI_SESSION_TOKEN_BUDGET),
+  maxSessionCostUsd: readLimit(process.env.NEXT_PUBLIC_AI_SESSION_COST_BUDGET),
+};
+
+let sessionTracker: UsageTracker | null = null;
+
+/**
+ * Usage tracker of the current browser session (reset on page reload)
+ */
+export function getUsageTracker(): UsageTracker {
+  if (!sessionTracker) {
+    sessionTracker = new UsageTracker(USAGE_BUDGET);
+  }
+  return sessionTracker;
+}
@@ -0,0 +1,32 @@
+// Model price list (USD per million tokens) for cost estimates
+
+export interface ModelPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+// Matched by model name prefix, first match wins
+const MODEL_PRICING: Array<[string, ModelPricing]> = [
+  ['claude-opus-4', { inputPerMTok: 15, outputPerMTok: 75 }],
+  ['claude-sonnet-4', { inputPerMTok: 3, outputPerMTok: 15 }],
+  ['claude-3-7-sonnet', { inputPerMTok: 3, outputPerMTok: 15 }],
+  ['claude-3-5-sonnet', { inputPerMTok: 3, outputPerMTok: 15 }],
+  ['claude-3-5-haiku', { inputPerMTok: 0.8, outputPerMTok: 4 }],
+  ['claude-3-opus', { inputPerMTok: 15, outputPerMTok: 75 }],
+  ['claude-3-haiku', { inputPerMTok: 0.25, outputPerMTok: 1.25 }],
+  ['mock', { inputPerMTok: 0, outputPerMTok: 0 }],
+];
+
+// Unknown models are estimated like Sonnet, the default model of /api/claude
+const DEFAULT_PRICING: ModelPricing = { inputPerMTok: 3, outputPerMTok: 15 };
+
+export function getModelPricing(model?: string): ModelPricing {
+  if (!model) return DEFAULT_PRICING;
+  const entry = MODEL_PRICING.find(([prefix]) => model.startsWith(prefix));
+  return entry ? entry[1] : DEFAULT_PRICING;
+}
+
+export function estimateCost(model: string | undefined, inputTokens: number, outputTokens: number): number {
+  const pricing = getModelPricing(model);
+  return (inputTokens * pricing.inputPerMTok + outputTokens * pricing.outputPerMTok) / 1000000;
+}
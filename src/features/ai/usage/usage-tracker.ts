@@ -0,0 +1,129 @@
+// Token usage accounting for tool-chain runs and the browser session
+
+import { BudgetExceeded, RunUsage, UsageBudget, UsageTotals } from '@/types/claude';
+import { estimateCost } from './pricing';
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, calls: 0 };
+}
+
+function addUsage(totals: UsageTotals, inputTokens: number, outputTokens: number, costUsd: number): void {
+  totals.inputTokens += inputTokens;
+  totals.outputTokens += outputTokens;
+  totals.totalTokens += inputTokens + outputTokens;
+  totals.costUsd += costUsd;
+  totals.calls += 1;
+}
+
+function checkLimits(
+  scope: BudgetExceeded['scope'],
+  totals: UsageTotals,
+  maxTokens?: number,
+  maxCostUsd?: number
+): BudgetExceeded | null {
+  if (maxTokens !== undefined && totals.totalTokens >= maxTokens) {
+    return { scope, kind: 'tokens', limit: maxTokens, used: totals.totalTokens };
+  }
+  if (maxCostUsd !== undefined && totals.costUsd >= maxCostUsd) {
+    return { scope, kind: 'cost', limit: maxCostUsd, used: totals.costUsd };
+  }
+  return null;
+}
+
+/**
+ * Session-wide usage totals. Every run started here also counts against the
+ * session budget, so several questions cannot add up past the session limit.
+ */
+export class UsageTracker {
+  private session: UsageTotals = emptyTotals();
+
+  constructor(private budget: UsageBudget = {}) {}
+
+  getBudget(): UsageBudget {
+    return this.budget;
+  }
+
+  setBudget(budget: UsageBudget): void {
+    this.budget = budget;
+  }
+
+  getSessionUsage(): UsageTotals {
+    return { ...this.session };
+  }
+
+  /**
+   * Tokens left in the session budget (Infinity without a token limit)
+   */
+  getRemainingTokens(): number {
+    if (this.budget.maxSessionTokens === undefined) return Infinity;
+    return Math.max(0, this.budget.maxSessionTokens - this.session.totalTokens);
+  }
+
+  checkSessionBudget(): BudgetExceeded | null {
+    return checkLimits('session', this.session, this.budget.maxSessionTokens, this.budget.maxSessionCostUsd);
+  }
+
+  startRun(budget?: UsageBudget): UsageRun {
+    return new UsageRun(this, { ...this.budget, ...budget });
+  }
+
+  /**
+   * Adds one model call to the session totals and returns its estimated cost
+   */
+  record(model: string | undefined, inputTokens: number, outputTokens: number): number {
+    const costUsd = estimateCost(model, inputTokens, outputTokens);
+    addUsage(this.session, inputTokens, outputTokens, costUsd);
+    return costUsd;
+  }
+
+  reset(): void {
+    this.session = emptyTotals();
+  }
+}
+
+export class UsageRun {
+  private totals: UsageTotals = emptyTotals();
+  private model?: string;
+  private exceeded?: BudgetExceeded;
+
+  constructor(private tracker: UsageTracker, private budget: UsageBudget) {}
+
+  record(model: string | undefined, inputTokens: number, outputTokens: number): void {
+    const costUsd = this.tracker.record(model, inputTokens, outputTokens);
+    addUsage(this.totals, inputTokens, outputTokens, costUsd);
+    this.model = model || this.model;
+  }
+
+  /**
+   * Checked before every model call; the first exceeded limit is kept for the run result
+   */
+  checkBudget(): BudgetExceeded | null {
+    const exceeded =
+      checkLimits('run', this.totals, this.budget.maxRunTokens, this.budget.maxRunCostUsd) ||
+      checkLimits('session', this.tracker.getSessionUsage(), this.budget.maxSessionTokens, this.budget.maxSessionCostUsd);
+    if (exceeded && !this.exceeded) {
+      this.exceeded = exceeded;
+    }
+    return exceeded;
+  }
+
+  getUsage(): RunUsage {
+    return {
+      ...this.totals,
+      model: this.model,
+      session: this.tracker.getSessionUsage(),
+      budgetExceeded: this.exceeded,
+    };
+  }
+}
+
+/**
+ * User-facing note for a run that was stopped by its budget
+ */
+export function describeBudgetExceeded(exceeded: BudgetExceeded): string {
+  const scope = exceeded.scope === 'run' ? 'diese Anfrage' : 'diese Sitzung';
+  const limit = exceeded.kind === 'tokens'
+    ? `${exceeded.limit.toLocaleString('de-DE')} Tokens`
+    : `$${exceeded.limit.toFixed(2)}`;
+  return `Das Budget für ${scope} (${limit}) ist aufgebraucht. Die Bearbeitung wurde vorzeitig beendet.`;
+}
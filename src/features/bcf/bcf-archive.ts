@@ -0,0 +1,144 @@
+/**
+ * BCF Archive - reads and writes .bcfzip files (BCF 2.1 and 3.0)
+ * One folder per topic with markup.bcf, its viewpoints (.bcfv) and snapshots.
+ */
+
+import JSZip from 'jszip';
+import { BcfProject, BcfTopic, BcfVersion, BcfViewpoint } from '@/types/bcf';
+import {
+  ViewpointFiles,
+  buildExtensions,
+  buildMarkup,
+  buildProject,
+  buildVersion,
+  buildVisualizationInfo,
+  parseMarkup,
+  parseProject,
+  parseVersion,
+  parseVisualizationInfo
+} from './bcf-xml';
+
+export class BcfFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BcfFormatError';
+  }
+}
+
+// 2.0 archives use the 2.1 layout
+const LAYOUT_BY_VERSION: Record<string, BcfVersion> = {
+  '2.0': '2.1',
+  '2.1': '2.1',
+  '3.0': '3.0'
+};
+
+function snapshotExtension(snapshot: BcfViewpoint['snapshot']): string {
+  return snapshot && /\.jpe?g$/i.test(snapshot.fileName) ? 'jpg' : 'png';
+}
+
+// The first viewpoint uses the default file names, so tools that only read those still find it
+function viewpointFiles(topic: BcfTopic): Map<string, ViewpointFiles> {
+  const files = new Map<string, ViewpointFiles>();
+  topic.viewpoints.forEach((viewpoint, index) => {
+    const name = index === 0 ? null : viewpoint.guid;
+    files.set(viewpoint.guid, {
+      viewpoint: name ? `${name}.bcfv` : 'viewpoint.bcfv',
+      snapshot: viewpoint.snapshot ? `${name ?? 'snapshot'}.${snapshotExtension(viewpoint.snapshot)}` : undefined
+    });
+  });
+  return files;
+}
+
+/**
+ * .bcfzip of the topics in the given BCF version
+ */
+export async function exportBcfArchive(project: BcfProject, version: BcfVersion = project.version): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('bcf.version', buildVersion(version));
+  if (project.projectId) {
+    zip.file('project.bcfp', buildProject(project, version));
+  }
+  if (version === '3.0') {
+    zip.file('extensions.xml', buildExtensions(project.topics));
+  }
+
+  project.topics.forEach(topic => {
+    const folder = zip.folder(topic.guid)!;
+    const files = viewpointFiles(topic);
+    folder.file('markup.bcf', buildMarkup(topic, version, files));
+
+    topic.viewpoints.forEach(viewpoint => {
+      const { viewpoint: viewpointFile, snapshot: snapshotFile } = files.get(viewpoint.guid)!;
+      folder.file(viewpointFile, buildVisualizationInfo(viewpoint, version));
+      if (viewpoint.snapshot && snapshotFile) {
+        folder.file(snapshotFile, viewpoint.snapshot.data);
+      }
+    });
+  });
+
+  const data = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  console.log(`📋 BCF ${version} export: ${project.topics.length} topics, ${Math.round(data.length / 1024)} KB`);
+  return data;
+}
+
+async function readViewpoint(
+  zip: JSZip,
+  folder: string,
+  reference: { guid: string; viewpoint?: string; snapshot?: string }
+): Promise<BcfViewpoint> {
+  const viewpointFile = zip.file(`${folder}/${reference.viewpoint ?? 'viewpoint.bcfv'}`);
+  const snapshotFile = reference.snapshot ? zip.file(`${folder}/${reference.snapshot}`) : null;
+
+  const info = viewpointFile
+    ? parseVisualizationInfo(await viewpointFile.async('string'))
+    : { selection: [] };
+
+  return {
+    guid: reference.guid,
+    camera: info.camera,
+    selection: info.selection,
+    snapshot: snapshotFile && reference.snapshot
+      ? { fileName: reference.snapshot, data: await snapshotFile.async('uint8array') }
+      : undefined
+  };
+}
+
+/**
+ * Topics of a .bcfzip; throws BcfFormatError for other files and unsupported versions
+ */
+export async function importBcfArchive(data: Uint8Array | ArrayBuffer): Promise<BcfProject> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new BcfFormatError('Die Datei ist kein BCF-Archiv (.bcfzip).');
+  }
+
+  const versionFile = zip.file('bcf.version');
+  const versionId = versionFile ? parseVersion(await versionFile.async('string')) : undefined;
+  const version = versionId ? LAYOUT_BY_VERSION[versionId] : undefined;
+  if (!version) {
+    throw new BcfFormatError(versionId
+      ? `BCF-Version ${versionId} wird nicht unterstützt (2.1 und 3.0 werden unterstützt).`
+      : 'Das BCF-Archiv enthält keine bcf.version.');
+  }
+
+  const projectFile = zip.file('project.bcfp');
+  const projectInfo = projectFile ? parseProject(await projectFile.async('string')) : {};
+
+  const topics: BcfTopic[] = [];
+  for (const markupFile of zip.file(/^[^/]+\/markup\.bcf$/)) {
+    const folder = markupFile.name.slice(0, markupFile.name.indexOf('/'));
+    const markup = parseMarkup(await markupFile.async('string'), version);
+    if (!markup) {
+      console.warn(`⚠️ BCF topic ${folder} has no <Topic>, skipped`);
+      continue;
+    }
+
+    const viewpoints = await Promise.all(markup.viewpoints.map(reference => readViewpoint(zip, folder, reference)));
+    topics.push({ ...markup.topic, guid: markup.topic.guid || folder, viewpoints });
+  }
+
+  console.log(`📋 BCF ${versionId} import: ${topics.length} topics`);
+  return { version, ...projectInfo, topics };
+}
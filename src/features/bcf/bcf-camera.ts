@@ -0,0 +1,74 @@
+// Camera conversion between the viewer (three.js, Y up) and BCF (IFC coordinates, Z up)
+
+import { CameraViewpoint } from '@/types/bim';
+import { BcfCamera } from '@/types/bcf';
+
+type Vec = [number, number, number];
+
+// BCF has no look-at target; imported cameras look at a point this far ahead (m)
+const TARGET_DISTANCE = 10;
+const DEFAULT_FOV = 60;
+
+// The fragments loader maps IFC (x, y, z) to three.js (x, z, -y)
+export function toIfcCoordinates([x, y, z]: Vec): Vec {
+  return [x, -z, y];
+}
+
+export function toViewerCoordinates([x, y, z]: Vec): Vec {
+  return [x, z, -y];
+}
+
+function subtract(a: Vec, b: Vec): Vec {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function scale(v: Vec, factor: number): Vec {
+  return [v[0] * factor, v[1] * factor, v[2] * factor];
+}
+
+function dot(a: Vec, b: Vec): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(v: Vec): Vec {
+  const length = Math.sqrt(dot(v, v));
+  return length > 0 ? scale(v, 1 / length) : [0, 0, 0];
+}
+
+/**
+ * BCF camera of a viewer viewpoint; the up vector is world up made orthogonal to the view direction
+ */
+export function toBcfCamera(viewpoint: CameraViewpoint, aspectRatio: number = 1): BcfCamera {
+  const position = toIfcCoordinates(viewpoint.position);
+  let direction = normalize(subtract(toIfcCoordinates(viewpoint.target), position));
+  if (dot(direction, direction) === 0) {
+    direction = [0, 1, 0];
+  }
+
+  // Looking straight up or down: any horizontal up vector will do
+  const worldUp: Vec = Math.abs(direction[2]) > 0.999 ? [0, 1, 0] : [0, 0, 1];
+  const upVector = normalize(subtract(worldUp, scale(direction, dot(worldUp, direction))));
+
+  return {
+    viewPoint: position,
+    direction,
+    upVector,
+    fieldOfView: viewpoint.fov ?? DEFAULT_FOV,
+    aspectRatio
+  };
+}
+
+export function fromBcfCamera(camera: BcfCamera): CameraViewpoint {
+  const direction = normalize(camera.direction);
+  const target: Vec = [
+    camera.viewPoint[0] + direction[0] * TARGET_DISTANCE,
+    camera.viewPoint[1] + direction[1] * TARGET_DISTANCE,
+    camera.viewPoint[2] + direction[2] * TARGET_DISTANCE
+  ];
+
+  return {
+    position: toViewerCoordinates(camera.viewPoint),
+    target: toViewerCoordinates(target),
+    fov: camera.fieldOfView
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * BCF Topic Store - the issues of the current session, created in the viewer, by the chat or imported
+ */
+
+import { EventBus } from '@/core/events/event-bus';
+import { BcfComment, BcfTopic, BcfViewpoint } from '@/types/bcf';
+
+// Author of topics and comments created here (BCF expects an e-mail address)
+const DEFAULT_AUTHOR = process.env.NEXT_PUBLIC_BCF_AUTHOR || 'bim-viewer@localhost';
+
+export interface BcfTopicInput {
+  title: string;
+  description?: string;
+  topicType?: string;
+  topicStatus?: string;
+  priority?: string;
+  labels?: string[];
+  assignedTo?: string;
+  viewpoints?: BcfViewpoint[];
+  // First comment, attached to the first viewpoint
+  comment?: string;
+}
+
+function createGuid(): string {
+  return crypto.randomUUID();
+}
+
+export class BcfTopicStore {
+  private topics = new Map<string, BcfTopic>();
+
+  constructor(public author: string = DEFAULT_AUTHOR) {}
+
+  list(): BcfTopic[] {
+    return Array.from(this.topics.values());
+  }
+
+  get(guid: string): BcfTopic | undefined {
+    return this.topics.get(guid);
+  }
+
+  get size(): number {
+    return this.topics.size;
+  }
+
+  createTopic(input: BcfTopicInput): BcfTopic {
+    const now = new Date().toISOString();
+    const viewpoints = input.viewpoints ?? [];
+    const topic: BcfTopic = {
+      guid: createGuid(),
+      title: input.title,
+      description: input.description,
+      topicType: input.topicType ?? 'Issue',
+      topicStatus: input.topicStatus ?? 'Open',
+      priority: input.priority,
+      labels: input.labels ?? [],
+      creationDate: now,
+      creationAuthor: this.author,
+      assignedTo: input.assignedTo,
+      comments: input.comment
+        ? [{ guid: createGuid(), date: now, author: this.author, comment: input.comment, viewpointGuid: viewpoints[0]?.guid }]
+        : [],
+      viewpoints
+    };
+
+    this.topics.set(topic.guid, topic);
+    console.log(`📋 BCF topic created: ${topic.title} (${viewpoints[0]?.selection.length ?? 0} components)`);
+    this.changed();
+    return topic;
+  }
+
+  /**
+   * Adds a comment; returns null if the topic does not exist
+   */
+  addComment(topicGuid: string, text: string, viewpointGuid?: string): BcfComment | null {
+    const topic = this.topics.get(topicGuid);
+    if (!topic) return null;
+
+    const now = new Date().toISOString();
+    const comment: BcfComment = { guid: createGuid(), date: now, author: this.author, comment: text, viewpointGuid };
+    this.topics.set(topicGuid, {
+      ...topic,
+      comments: [...topic.comments, comment],
+      modifiedDate: now,
+      modifiedAuthor: this.author
+    });
+    this.changed();
+    return comment;
+  }
+
+  update(topicGuid: string, changes: Partial<Omit<BcfTopic, 'guid'>>): BcfTopic | null {
+    const topic = this.topics.get(topicGuid);
+    if (!topic) return null;
+
+    const updated: BcfTopic = {
+      ...topic,
+      ...changes,
+      modifiedDate: new Date().toISOString(),
+      modifiedAuthor: this.author
+    };
+    this.topics.set(topicGuid, updated);
+    this.changed();
+    return updated;
+  }
+
+  /**
+   * Adds imported topics; a topic with a known GUID replaces the stored one
+   */
+  importTopics(topics: BcfTopic[]): void {
+    topics.forEach(topic => this.topics.set(topic.guid, topic));
+    this.changed();
+  }
+
+  remove(topicGuid: string): void {
+    if (this.topics.delete(topicGuid)) {
+      this.changed();
+    }
+  }
+
+  clear(): void {
+    this.topics.clear();
+    this.changed();
+  }
+
+  private changed(): void {
+    EventBus.emit('bcf:topics:changed', { count: this.topics.size });
+  }
+}
+
+// Global singleton instance
+export const bcfTopicStore = new BcfTopicStore();
@@ -0,0 +1,44 @@
+// BCF viewpoints from and to the viewer: camera, snapshot and selected components
+
+import { EventBus } from '@/core/events/event-bus';
+import { EntityStore, getEntityKey } from '@/core/entities';
+import { viewpointService } from '@/core/viewpoints';
+import { BcfViewpoint } from '@/types/bcf';
+import { fromBcfCamera, toBcfCamera } from './bcf-camera';
+
+/**
+ * Viewpoint of the current view with the given components; without viewer only the selection is set
+ */
+export async function captureViewpoint(globalIds: string[], options: { snapshot?: boolean } = {}): Promise<BcfViewpoint> {
+  const camera = viewpointService.getViewpoint();
+  const snapshot = options.snapshot !== false ? await viewpointService.captureSnapshot() : null;
+
+  return {
+    guid: crypto.randomUUID(),
+    camera: camera ? toBcfCamera(camera) : undefined,
+    selection: Array.from(new Set(globalIds)),
+    snapshot: snapshot ? { fileName: 'snapshot.png', data: snapshot } : undefined
+  };
+}
+
+/**
+ * Moves the camera to the viewpoint and selects its components in the viewer
+ */
+export async function showViewpoint(viewpoint: BcfViewpoint, store: EntityStore): Promise<{ found: number; missing: number }> {
+  const entities = store.getByGlobalIds(viewpoint.selection);
+  const foundGlobalIds = new Set(entities.map(entity => entity.globalId));
+
+  EventBus.emit('user:highlight', {
+    keys: entities.map(getEntityKey),
+    globalIds: Array.from(foundGlobalIds).filter((globalId): globalId is string => !!globalId)
+  });
+
+  if (viewpoint.camera) {
+    await viewpointService.apply(fromBcfCamera(viewpoint.camera));
+  }
+
+  return {
+    found: foundGlobalIds.size,
+    missing: viewpoint.selection.filter(globalId => !foundGlobalIds.has(globalId)).length
+  };
+}
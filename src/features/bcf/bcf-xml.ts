@@ -0,0 +1,319 @@
+// BCF XML documents: markup.bcf, viewpoint.bcfv, bcf.version, project.bcfp and extensions.xml (2.1 and 3.0)
+
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { BcfCamera, BcfComment, BcfProject, BcfTopic, BcfVersion, BcfViewpoint } from '@/types/bcf';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+// Elements that may repeat, by path; everything else is parsed as a single node
+const ARRAY_PATHS = new Set([
+  'Markup.Comment',
+  'Markup.Viewpoints',
+  'Markup.Topic.Labels',
+  'Markup.Topic.Labels.Label',
+  'Markup.Topic.Comments.Comment',
+  'Markup.Topic.Viewpoints.ViewPoint',
+  'VisualizationInfo.Components.Selection.Component'
+]);
+
+const builder = new XMLBuilder({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  format: true,
+  suppressEmptyNode: true,
+  suppressBooleanAttributes: false
+});
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (_tagName, jPath) => ARRAY_PATHS.has(jPath)
+});
+
+type XmlNode = Record<string, unknown>;
+
+// Files of a viewpoint inside the topic folder
+export interface ViewpointFiles {
+  viewpoint: string;
+  snapshot?: string;
+}
+
+export interface ParsedMarkup {
+  topic: Omit<BcfTopic, 'viewpoints'>;
+  viewpoints: Array<{ guid: string } & Partial<ViewpointFiles>>;
+}
+
+function build(root: XmlNode): string {
+  return XML_DECLARATION + builder.build(root);
+}
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object') {
+    const node = value as XmlNode;
+    return node['#text'] !== undefined ? String(node['#text']) : undefined;
+  }
+  return String(value);
+}
+
+function attribute(node: unknown, name: string): string | undefined {
+  return node && typeof node === 'object' ? text((node as XmlNode)[`@_${name}`]) : undefined;
+}
+
+function child(node: unknown, name: string): XmlNode | undefined {
+  const value = node && typeof node === 'object' ? (node as XmlNode)[name] : undefined;
+  return value && typeof value === 'object' ? value as XmlNode : undefined;
+}
+
+function children(node: unknown, name: string): unknown[] {
+  const value = node && typeof node === 'object' ? (node as XmlNode)[name] : undefined;
+  if (value === undefined || value === '') return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function vector([x, y, z]: [number, number, number]): XmlNode {
+  return { X: x, Y: y, Z: z };
+}
+
+function readVector(node: XmlNode | undefined): [number, number, number] | null {
+  const values = ['X', 'Y', 'Z'].map(axis => parseFloat(text(node?.[axis]) ?? ''));
+  return values.every(Number.isFinite) ? values as [number, number, number] : null;
+}
+
+function nonEmpty<T>(values: T[]): T[] | undefined {
+  return values.length > 0 ? values : undefined;
+}
+
+// Markup
+
+function buildComment(comment: BcfComment): XmlNode {
+  return {
+    '@_Guid': comment.guid,
+    Date: comment.date,
+    Author: comment.author,
+    Comment: comment.comment,
+    Viewpoint: comment.viewpointGuid ? { '@_Guid': comment.viewpointGuid } : undefined
+  };
+}
+
+/**
+ * markup.bcf of a topic; `files` names the viewpoint and snapshot file of each viewpoint
+ */
+export function buildMarkup(topic: BcfTopic, version: BcfVersion, files: Map<string, ViewpointFiles>): string {
+  const viewpoints = topic.viewpoints.map(viewpoint => ({
+    '@_Guid': viewpoint.guid,
+    Viewpoint: files.get(viewpoint.guid)?.viewpoint,
+    Snapshot: files.get(viewpoint.guid)?.snapshot
+  }));
+  const comments = topic.comments.map(buildComment);
+
+  const header: XmlNode = {
+    '@_Guid': topic.guid,
+    '@_TopicType': topic.topicType,
+    '@_TopicStatus': topic.topicStatus,
+    Title: topic.title,
+    Priority: topic.priority,
+    // 2.1 repeats <Labels>, 3.0 wraps <Label> elements
+    Labels: version === '3.0'
+      ? (topic.labels.length > 0 ? { Label: topic.labels } : undefined)
+      : nonEmpty(topic.labels),
+    CreationDate: topic.creationDate,
+    CreationAuthor: topic.creationAuthor,
+    ModifiedDate: topic.modifiedDate,
+    ModifiedAuthor: topic.modifiedAuthor,
+    DueDate: topic.dueDate,
+    AssignedTo: topic.assignedTo,
+    Description: topic.description
+  };
+
+  if (version === '3.0') {
+    return build({
+      Markup: {
+        Topic: {
+          ...header,
+          Comments: comments.length > 0 ? { Comment: comments } : undefined,
+          Viewpoints: viewpoints.length > 0 ? { ViewPoint: viewpoints } : undefined
+        }
+      }
+    });
+  }
+
+  return build({
+    Markup: {
+      Topic: header,
+      Comment: nonEmpty(comments),
+      Viewpoints: nonEmpty(viewpoints)
+    }
+  });
+}
+
+function parseComment(node: unknown): BcfComment {
+  const comment = node as XmlNode;
+  return {
+    guid: attribute(comment, 'Guid') ?? '',
+    date: text(comment.Date) ?? '',
+    author: text(comment.Author) ?? '',
+    comment: text(comment.Comment) ?? '',
+    viewpointGuid: attribute(comment.Viewpoint, 'Guid')
+  };
+}
+
+/**
+ * Topic, comments and viewpoint file references of a markup.bcf (layout by version)
+ */
+export function parseMarkup(xml: string, version: BcfVersion): ParsedMarkup | null {
+  const markup = child(parser.parse(xml), 'Markup');
+  const topicNode = child(markup, 'Topic');
+  if (!topicNode) return null;
+
+  const labels = version === '3.0'
+    ? children(topicNode, 'Labels').flatMap(node => children(node, 'Label'))
+    : children(topicNode, 'Labels');
+  const commentNodes = version === '3.0'
+    ? children(child(topicNode, 'Comments'), 'Comment')
+    : children(markup, 'Comment');
+  const viewpointNodes = version === '3.0'
+    ? children(child(topicNode, 'Viewpoints'), 'ViewPoint')
+    : children(markup, 'Viewpoints');
+
+  const field = (name: string) => text(topicNode[name]) || undefined;
+
+  return {
+    topic: {
+      guid: attribute(topicNode, 'Guid') ?? '',
+      title: field('Title') ?? '',
+      description: field('Description'),
+      topicType: attribute(topicNode, 'TopicType') || undefined,
+      topicStatus: attribute(topicNode, 'TopicStatus') || undefined,
+      priority: field('Priority'),
+      labels: labels.map(text).filter((label): label is string => !!label),
+      creationDate: field('CreationDate') ?? '',
+      creationAuthor: field('CreationAuthor') ?? '',
+      modifiedDate: field('ModifiedDate'),
+      modifiedAuthor: field('ModifiedAuthor'),
+      assignedTo: field('AssignedTo'),
+      dueDate: field('DueDate'),
+      comments: commentNodes.map(parseComment)
+    },
+    viewpoints: viewpointNodes.map(node => ({
+      guid: attribute(node, 'Guid') ?? '',
+      viewpoint: text((node as XmlNode).Viewpoint) || undefined,
+      snapshot: text((node as XmlNode).Snapshot) || undefined
+    }))
+  };
+}
+
+// Visualization info
+
+export function buildVisualizationInfo(viewpoint: BcfViewpoint, version: BcfVersion): string {
+  const camera = viewpoint.camera;
+  return build({
+    VisualizationInfo: {
+      '@_Guid': viewpoint.guid,
+      Components: {
+        Selection: viewpoint.selection.length > 0
+          ? { Component: viewpoint.selection.map(globalId => ({ '@_IfcGuid': globalId })) }
+          : undefined,
+        Visibility: { '@_DefaultVisibility': 'true' }
+      },
+      PerspectiveCamera: camera
+        ? {
+          CameraViewPoint: vector(camera.viewPoint),
+          CameraDirection: vector(camera.direction),
+          CameraUpVector: vector(camera.upVector),
+          FieldOfView: camera.fieldOfView,
+          AspectRatio: version === '3.0' ? camera.aspectRatio : undefined
+        }
+        : undefined
+    }
+  });
+}
+
+/**
+ * Camera and selection of a viewpoint.bcfv; orthogonal cameras are ignored
+ */
+export function parseVisualizationInfo(xml: string): { camera?: BcfCamera; selection: string[] } {
+  const info = child(parser.parse(xml), 'VisualizationInfo');
+  const selection = children(child(child(info, 'Components'), 'Selection'), 'Component')
+    .map(component => attribute(component, 'IfcGuid'))
+    .filter((globalId): globalId is string => !!globalId);
+
+  const cameraNode = child(info, 'PerspectiveCamera');
+  const viewPoint = readVector(child(cameraNode, 'CameraViewPoint'));
+  const direction = readVector(child(cameraNode, 'CameraDirection'));
+  const upVector = readVector(child(cameraNode, 'CameraUpVector'));
+  if (!viewPoint || !direction) {
+    return { selection };
+  }
+
+  const fieldOfView = parseFloat(text(cameraNode?.FieldOfView) ?? '');
+  const aspectRatio = parseFloat(text(cameraNode?.AspectRatio) ?? '');
+  return {
+    camera: {
+      viewPoint,
+      direction,
+      upVector: upVector ?? [0, 0, 1],
+      fieldOfView: Number.isFinite(fieldOfView) ? fieldOfView : 60,
+      aspectRatio: Number.isFinite(aspectRatio) ? aspectRatio : 1
+    },
+    selection
+  };
+}
+
+// Archive level documents
+
+export function buildVersion(version: BcfVersion): string {
+  return build({
+    Version: {
+      '@_VersionId': version,
+      DetailedVersion: version === '2.1' ? version : undefined
+    }
+  });
+}
+
+export function parseVersion(xml: string): string | undefined {
+  return attribute(child(parser.parse(xml), 'Version'), 'VersionId');
+}
+
+export function buildProject(project: BcfProject, version: BcfVersion): string {
+  const projectNode = { '@_ProjectId': project.projectId, Name: project.projectName };
+  return build(version === '3.0'
+    ? { ProjectInfo: { Project: projectNode } }
+    : { ProjectExtension: { Project: projectNode } });
+}
+
+export function parseProject(xml: string): { projectId?: string; projectName?: string } {
+  const document = parser.parse(xml);
+  const project = child(child(document, 'ProjectInfo') ?? child(document, 'ProjectExtension'), 'Project');
+  return {
+    projectId: attribute(project, 'ProjectId'),
+    projectName: text(project?.Name) || undefined
+  };
+}
+
+/**
+ * extensions.xml (required by 3.0): the types, statuses, priorities, labels and users in use
+ */
+export function buildExtensions(topics: BcfTopic[]): string {
+  const used = (values: Array<string | undefined>) => nonEmpty(Array.from(new Set(values.filter((value): value is string => !!value))));
+  const users = used(topics.flatMap(topic => [
+    topic.creationAuthor,
+    topic.modifiedAuthor,
+    topic.assignedTo,
+    ...topic.comments.map(comment => comment.author)
+  ]));
+
+  return build({
+    Extensions: {
+      TopicTypes: { TopicType: used(topics.map(topic => topic.topicType)) },
+      TopicStatuses: { TopicStatus: used(topics.map(topic => topic.topicStatus)) },
+      Priorities: { Priority: used(topics.map(topic => topic.priority)) },
+      TopicLabels: { TopicLabel: used(topics.flatMap(topic => topic.labels)) },
+      Users: { User: users }
+    }
+  });
+}
@@ -0,0 +1,6 @@
+// BCF - Centralized exports
+export { BcfFormatError, exportBcfArchive, importBcfArchive } from './bcf-archive';
+export { BcfTopicStore, bcfTopicStore } from './bcf-topic-store';
+export type { BcfTopicInput } from './bcf-topic-store';
+export { captureViewpoint, showViewpoint } from './bcf-viewpoints';
+export { toBcfCamera, fromBcfCamera, toIfcCoordinates, toViewerCoordinates } from './bcf-camera';
@@ -4,9 +4,11 @@ import React, { useState } from 'react';
 import { useChatContext } from '../context/ChatProvider';
 import { ChatMessages } from './ChatMessages';
 import { QuickTips } from './QuickTips';
+import ChatSessionsPanel from './ChatSessionsPanel';
+import ReplayControls from './ReplayControls';
 
 export default function ChatContent() {
-  const { chatState, handleQuickAction } = useChatContext();
+  const { chatState, handleQuickAction, replay } = useChatContext();
   const [showQuickTips, setShowQuickTips] = useState(true);
 
   const handleQuickActionAndHide = (action: string) => {
@@ -16,8 +18,14 @@ export default function ChatContent() {
 
   return (
     <div className="h-full min-h-0 max-h-full w-full flex flex-col overflow-hidden">
+      <ChatSessionsPanel />
+      <ReplayControls />
       <div className="flex-1 min-h-0 h-full overflow-hidden">
-        {showQuickTips && chatState.messages.length === 0 ? (
+        {replay.active ? (
+          <div className="h-full">
+            <ChatMessages messages={replay.messages} />
+          </div>
+        ) : showQuickTips && chatState.messages.length === 0 ? (
           <div className="h-full overflow-auto">
             <QuickTips
               onQuickAction={handleQuickActionAndHide}
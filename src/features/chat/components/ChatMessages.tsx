@@ -4,7 +4,7 @@ import React, { useEffect, useRef } from 'react';
 import { User, Bot, AlertTriangle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { ChatMessage } from '@/types/chat';
+import { ChatMessage, ChatToolStep } from '@/types/chat';
 
 interface ChatMessagesProps {
   messages: ChatMessage[];
@@ -17,6 +17,33 @@ export function ChatMessages({ messages }: ChatMessagesProps) {
     endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
   }, [messages.length]);
 
+  // Keep following a streamed answer while it grows
+  const lastMessage = messages[messages.length - 1];
+  useEffect(() => {
+    if (lastMessage?.isStreaming) {
+      endRef.current?.scrollIntoView({ block: 'end' });
+    }
+  }, [lastMessage?.isStreaming, lastMessage?.content, lastMessage?.toolSteps?.length]);
+
+  const getToolStepVariant = (step: ChatToolStep) => {
+    switch (step.status) {
+      case 'error':
+        return 'destructive' as const;
+      case 'done':
+        return 'secondary' as const;
+      default:
+        return 'outline' as const;
+    }
+  };
+
+  const formatUsage = (message: ChatMessage): string | null => {
+    const usage = message.usage;
+    if (!usage || usage.calls === 0) return null;
+    const tokens = `${usage.inputTokens.toLocaleString('de-DE')} in / ${usage.outputTokens.toLocaleString('de-DE')} out`;
+    const session = `Sitzung: ${usage.session.totalTokens.toLocaleString('de-DE')} Tokens · ~$${usage.session.costUsd.toFixed(3)}`;
+    return `${tokens} · ~$${usage.costUsd.toFixed(3)} · ${session}`;
+  };
+
   const getAvatar = (message: ChatMessage): React.ReactElement | null => {
     if (message.isError) {
       return (
@@ -69,7 +96,7 @@ export function ChatMessages({ messages }: ChatMessagesProps) {
           ) : (
             messages.map((message, index) => (
               <div
-                key={index}
+                key={message.id || index}
                 className={getMessageStyle(message)}
               >
                 {/* Avatar */}
@@ -79,10 +106,38 @@ export function ChatMessages({ messages }: ChatMessagesProps) {
                 
                 {/* Message Content */}
                 <div className="chat-message-content">
+                  {/* Tool steps executed for this answer */}
+                  {message.toolSteps && message.toolSteps.length > 0 && (
+                    <div className="chat-tool-steps">
+                      {message.toolSteps.map(step => (
+                        <Badge
+                          key={step.id}
+                          variant={getToolStepVariant(step)}
+                          className={`chat-tool-step ${step.status}`}
+                        >
+                          {step.tool}
+                          {step.duration !== undefined && step.status !== 'running' ? ` · ${step.duration}ms` : ''}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Message Bubble */}
-                  <div className="chat-message-bubble">
-                    <p>{message.content}</p>
-                  </div>
+                  {(message.content || !message.isStreaming) && (
+                    <div className="chat-message-bubble">
+                      <p className={message.isStreaming ? 'chat-streaming-cursor' : undefined}>{message.content}</p>
+                    </div>
+                  )}
+                  
+                  {/* Token usage of the run behind this answer */}
+                  {!message.isStreaming && formatUsage(message) && (
+                    <div
+                      className={`chat-message-usage${message.usage?.budgetExceeded ? ' exceeded' : ''}`}
+                      title={message.usage?.model}
+                    >
+                      {formatUsage(message)}
+                    </div>
+                  )}
                   
                   {/* Timestamp removed per request */}
                 </div>
@@ -0,0 +1,219 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { Check, FileJson, FileText, History, Pencil, Play, Plus, Trash2, Upload, X } from 'lucide-react';
+import { useChatContext } from '../context/ChatProvider';
+import { exportSessionJson, exportSessionMarkdown, parseSessionJson, SessionFormatError } from '../sessions';
+import { ChatSessionInfo } from '@/types/chat';
+
+function downloadFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function toFileName(name: string): string {
+  return name.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'chat';
+}
+
+// Stored chat sessions of the loaded model: switch, rename, delete, export and replay
+export default function ChatSessionsPanel() {
+  const { sessions, replay } = useChatContext();
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const list: ChatSessionInfo[] = sessions.sessions;
+  const activeName = list.find(session => session.id === sessions.activeSessionId)?.name;
+
+  const handleExport = async (id: string, format: 'md' | 'json') => {
+    const session = await sessions.getSession(id);
+    if (!session) return;
+    if (format === 'md') {
+      downloadFile(exportSessionMarkdown(session), `${toFileName(session.name)}.md`, 'text/markdown');
+    } else {
+      downloadFile(exportSessionJson(session), `${toFileName(session.name)}.json`, 'application/json');
+    }
+  };
+
+  const handleReplay = async (id: string) => {
+    const session = await sessions.getSession(id);
+    if (!session) return;
+    replay.start(session);
+    setOpen(false);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      replay.start(parseSessionJson(await file.text()));
+      setError(null);
+      setOpen(false);
+    } catch (importError) {
+      setError(importError instanceof SessionFormatError ? importError.message : 'Die Datei konnte nicht gelesen werden.');
+    }
+  };
+
+  const startRename = (session: ChatSessionInfo) => {
+    setEditingId(session.id);
+    setEditName(session.name);
+  };
+
+  const submitRename = async () => {
+    if (editingId) {
+      await sessions.renameSession(editingId, editName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="border-b text-sm">
+      <div className="flex items-center gap-2 px-3 py-1.5">
+        <button
+          type="button"
+          className="flex min-w-0 flex-1 items-center gap-2 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+          onClick={() => setOpen(prev => !prev)}
+          disabled={!sessions.available}
+          title={sessions.available ? undefined : 'Verläufe werden gespeichert, sobald ein Modell geladen ist'}
+        >
+          <History className="h-4 w-4 shrink-0" />
+          <span className="truncate">{activeName || 'Neuer Chat'}</span>
+          <span className="shrink-0 text-xs text-gray-400">({list.length})</span>
+        </button>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-gray-700"
+          onClick={() => fileInputRef.current?.click()}
+          aria-label="Exportierten Chat abspielen"
+          title="Exportierten Chat (JSON) abspielen"
+        >
+          <Upload className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-gray-700"
+          onClick={() => sessions.newSession()}
+          aria-label="Neuer Chat"
+          title="Neuer Chat"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between px-3 pb-1.5 text-xs text-red-600">
+          <span>{error}</span>
+          <button type="button" onClick={() => setError(null)} aria-label="Schließen">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {open && (
+        list.length === 0 ? (
+          <div className="px-3 pb-2 text-xs text-gray-500">
+            Noch keine gespeicherten Chats für dieses Modell.
+          </div>
+        ) : (
+          <ul className="max-h-64 overflow-y-auto border-t py-1">
+            {list.map(session => (
+              <li
+                key={session.id}
+                className={`flex items-center gap-2 px-3 py-1.5 ${session.id === sessions.activeSessionId ? 'bg-gray-50' : ''}`}
+              >
+                {editingId === session.id ? (
+                  <form
+                    className="flex min-w-0 flex-1 items-center gap-1"
+                    onSubmit={event => {
+                      event.preventDefault();
+                      void submitRename();
+                    }}
+                  >
+                    <input
+                      className="min-w-0 flex-1 rounded border px-1 py-0.5 text-sm"
+                      value={editName}
+                      onChange={event => setEditName(event.target.value)}
+                      onKeyDown={event => event.key === 'Escape' && setEditingId(null)}
+                      autoFocus
+                    />
+                    <button type="submit" className="text-gray-400 hover:text-gray-700" aria-label="Namen speichern">
+                      <Check className="h-4 w-4" />
+                    </button>
+                  </form>
+                ) : (
+                  <button
+                    type="button"
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() => {
+                      void sessions.switchSession(session.id);
+                      setOpen(false);
+                    }}
+                  >
+                    <div className="truncate text-gray-800">{session.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {session.messageCount} Nachrichten · {new Date(session.updatedAt).toLocaleString('de-DE')}
+                    </div>
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-gray-700"
+                  onClick={() => void handleReplay(session.id)}
+                  aria-label={`${session.name} abspielen`}
+                  title="Abspielen"
+                >
+                  <Play className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-gray-700"
+                  onClick={() => void handleExport(session.id, 'md')}
+                  aria-label={`${session.name} als Markdown exportieren`}
+                  title="Als Markdown exportieren"
+                >
+                  <FileText className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-gray-700"
+                  onClick={() => void handleExport(session.id, 'json')}
+                  aria-label={`${session.name} als JSON exportieren`}
+                  title="Als JSON exportieren"
+                >
+                  <FileJson className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-gray-700"
+                  onClick={() => startRename(session)}
+                  aria-label={`${session.name} umbenennen`}
+                  title="Umbenennen"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-red-600"
+                  onClick={() => void sessions.deleteSession(session.id)}
+                  aria-label={`${session.name} löschen`}
+                  title="Löschen"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import React from 'react';
+import { ChevronLeft, ChevronRight, Play, X } from 'lucide-react';
+import { useChatContext } from '../context/ChatProvider';
+
+// Step controls of the session replay, shown above the replayed messages
+export default function ReplayControls() {
+  const { replay, sessions } = useChatContext();
+  if (!replay.active || !replay.session) return null;
+
+  const otherModel = sessions.modelKey !== null && replay.session.modelKey !== sessions.modelKey;
+
+  return (
+    <div className="border-b bg-gray-50 px-3 py-1.5 text-sm">
+      <div className="flex items-center gap-2">
+        <Play className="h-4 w-4 shrink-0 text-gray-500" />
+        <span className="min-w-0 flex-1 truncate text-gray-700" title={replay.session.name}>
+          {replay.session.name}
+        </span>
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-900 disabled:opacity-30"
+          onClick={replay.previous}
+          disabled={replay.step <= 1}
+          aria-label="Vorherige Antwort"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="shrink-0 text-xs text-gray-600">
+          Schritt {replay.step}/{replay.stepCount}
+        </span>
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-900 disabled:opacity-30"
+          onClick={replay.next}
+          disabled={replay.step >= replay.stepCount}
+          aria-label="Nächste Antwort"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          className="text-gray-400 hover:text-gray-700"
+          onClick={replay.stop}
+          aria-label="Wiedergabe beenden"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      {otherModel && (
+        <div className="pt-1 text-xs text-amber-700">
+          Der Chat wurde mit einem anderen Modell aufgezeichnet ({replay.session.modelNames.join(', ')}) - Hervorhebungen passen evtl. nicht.
+        </div>
+      )}
+    </div>
+  );
+}
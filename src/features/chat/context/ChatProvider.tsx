@@ -1,11 +1,17 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { useEventBusApi } from '@/core/events/event-bus';
-import { ChatMessage } from '@/types/chat';
+import React, { createContext, useContext, useEffect, useRef, ReactNode } from 'react';
+import { EventBus, useEventBusApi } from '@/core/events/event-bus';
+import { viewpointService } from '@/core/viewpoints';
+import { EntityKey } from '@/types/bim';
+import { ChatMessage, ChatToolStep } from '@/types/chat';
 import { useChatState } from '../hooks/useChatState';
 import { useChatEvents, createEntityInfoMessage } from '../hooks/useChatEvents';
+import { useChatSessions } from '../hooks/useChatSessions';
+import { useSessionReplay } from '../hooks/useSessionReplay';
+import { captureEntityModels } from '../sessions';
 import { useAIPipeline } from '@/features/ai/hooks/useAIPipeline';
+import type { ToolChainProgressEvent } from '@/app/chat-tools';
 
 // Create Context
 const ChatContext = createContext<any>(undefined);
@@ -32,18 +38,40 @@ export function ChatProvider({ children }: ChatProviderProps) {
     setSmartChunkProjectId,
     setUseSmartChunks,
     addMessage,
+    updateMessage,
+    removeMessage,
     updateChatState,
+    setMessages,
   } = useChatState();
 
+  // Stored sessions of the loaded model and replay of a stored or exported one
+  const sessions = useChatSessions(chatState.messages, setMessages);
+  const replay = useSessionReplay();
+
+  // Id of the assistant message that is currently being streamed
+  const streamingMessageIdRef = useRef<string | null>(null);
+  // Entities the tools of the running question highlighted; stored with the answer
+  const runActiveRef = useRef(false);
+  const runHighlightRef = useRef<EntityKey[] | null>(null);
+
+  useEffect(() => {
+    return EventBus.on('ai:highlight', ({ keys }) => {
+      if (runActiveRef.current) {
+        runHighlightRef.current = keys;
+      }
+    });
+  }, []);
+
   // Event Handlers
   const handleEntitiesLoaded = (data: any) => {
     console.log('📊 New entities loaded:', {
       entityCount: data.entities?.length || 0,
       entityTypes: Object.keys(data.entityIndex || {})
     });
+    // The event carries the entities of all loaded models, not only the one that changed
     setEntities(data.entities || []);
     setEntityIndex(data.entityIndex || {});
-    updateChatState({ hasModel: true });
+    updateChatState({ hasModel: (data.entities?.length || 0) > 0 });
   };
 
   const handleEntityClicked = (data: any) => {
@@ -66,31 +94,108 @@ export function ChatProvider({ children }: ChatProviderProps) {
   });
 
   // AI Pipeline
+  const sanitize = (text: string) => (text || '').replace(/\*/g, '');
+
+  const handleProgress = (event: ToolChainProgressEvent) => {
+    let id = streamingMessageIdRef.current;
+    if (!id) {
+      id = `assistant-${Date.now()}`;
+      streamingMessageIdRef.current = id;
+      addMessage({
+        id,
+        role: 'assistant',
+        content: '',
+        timestamp: new Date().toISOString(),
+        isStreaming: true,
+        toolSteps: [],
+      });
+    }
+
+    switch (event.type) {
+      case 'text_delta':
+        updateMessage(id, msg => ({ ...msg, content: msg.content + sanitize(event.text) }));
+        break;
+      case 'tool_start':
+        updateMessage(id, msg => ({
+          ...msg,
+          toolSteps: [...(msg.toolSteps || []), { id: event.id, tool: event.tool, status: 'running', input: event.input }],
+        }));
+        break;
+      case 'tool_end':
+        updateMessage(id, msg => {
+          const steps = msg.toolSteps || [];
+          const status: ChatToolStep['status'] = event.success ? 'done' : 'error';
+          // Calls that failed before starting (e.g. a broken $ref) never sent tool_start
+          if (!steps.some(step => step.id === event.id)) {
+            return { ...msg, toolSteps: [...steps, { id: event.id, tool: event.tool, status, duration: event.duration }] };
+          }
+          return {
+            ...msg,
+            toolSteps: steps.map(step =>
+              step.id === event.id ? { ...step, status, duration: event.duration } : step
+            ),
+          };
+        });
+        break;
+    }
+  };
+
   const handleClaudeResult = (result: any) => {
-    const sanitize = (text: string) => (text || '').replace(/\*/g, '');
+    const content = sanitize(result.assistantResponse || result.response || result.finalAnswer || 'Ich konnte keine Antwort generieren.');
+    const streamingId = streamingMessageIdRef.current;
+    streamingMessageIdRef.current = null;
+    runActiveRef.current = false;
 
-    const assistantMessage: ChatMessage = {
-      role: 'assistant',
-      content: sanitize(result.assistantResponse || result.response || result.finalAnswer || 'Ich konnte keine Antwort generieren.'),
-      timestamp: new Date().toISOString(),
-    };
+    // Kept with the answer for session export and replay
+    const queryEntityIds: EntityKey[] | undefined = result.queryResult?.entityIds?.length > 0 ? result.queryResult.entityIds : undefined;
+    const highlightedEntityIds = runHighlightRef.current ?? queryEntityIds;
+    const entityModels = captureEntityModels(highlightedEntityIds);
+    const viewpoint = viewpointService.getViewpoint() ?? undefined;
 
-    addMessage(assistantMessage);
+    if (streamingId) {
+      // The streamed text may contain intermediate thoughts - settle on the final answer
+      updateMessage(streamingId, msg => ({
+        ...msg,
+        content,
+        isStreaming: false,
+        usage: result.usage,
+        highlightedEntityIds,
+        entityModels,
+        viewpoint,
+      }));
+    } else {
+      const assistantMessage: ChatMessage = {
+        role: 'assistant',
+        content,
+        timestamp: new Date().toISOString(),
+        usage: result.usage,
+        highlightedEntityIds,
+        entityModels,
+        viewpoint,
+      };
+      addMessage(assistantMessage);
+    }
     updateChatState({ isProcessing: false, currentPhase: null });
 
     // Emit AI highlight directly if we have entity IDs
     if (result.queryResult && result.queryResult.entityIds && result.queryResult.entityIds.length > 0) {
       try {
         emit('ai:highlight', {
-          expressIds: result.queryResult.entityIds,
+          keys: result.queryResult.entityIds,
           globalIds: [],
-        } as any);
+        });
       } catch {}
     }
   };
 
   const handleClaudeError = (error: Error | string) => {
     console.error('❌ Claude Pipeline Error:', error);
+    const streamingId = streamingMessageIdRef.current;
+    streamingMessageIdRef.current = null;
+    runActiveRef.current = false;
+    if (streamingId) {
+      removeMessage(streamingId);
+    }
     updateChatState({ 
       error: typeof error === 'string' ? error : error.message,
       isProcessing: false 
@@ -105,6 +210,11 @@ export function ChatProvider({ children }: ChatProviderProps) {
     e.preventDefault();
     if (!inputValue.trim() || chatState.isProcessing) return;
 
+    // A new question ends the replay and continues the live conversation
+    if (replay.active) {
+      replay.stop();
+    }
+
     const userMessage: ChatMessage = {
       role: 'user',
       content: inputValue.trim(),
@@ -114,6 +224,8 @@ export function ChatProvider({ children }: ChatProviderProps) {
     addMessage(userMessage);
     updateChatState({ isProcessing: true, error: null });
     setInputValue('');
+    runActiveRef.current = true;
+    runHighlightRef.current = null;
     
     // Trigger AI Pipeline
     console.log('🚀 Triggering AI Pipeline with message:', inputValue.trim());
@@ -161,6 +273,7 @@ export function ChatProvider({ children }: ChatProviderProps) {
     onResult: handleClaudeResult,
     onError: handleClaudeError,
     onPhaseChange: handlePhaseChange,
+    onProgress: handleProgress,
     entities,
     entityIndex,
     modelContext: getModelContext(),
@@ -185,6 +298,10 @@ export function ChatProvider({ children }: ChatProviderProps) {
     handleDismissError,
     handlePhaseChange,
     getModelContext,
+
+    // Sessions
+    sessions,
+    replay,
   };
 
   return (
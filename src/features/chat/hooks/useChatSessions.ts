@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EventBus } from '@/core/events/event-bus';
+import { modelRegistry } from '@/core/models';
+import { getProjectContentHash } from '@/app/bim-context/storage/smart-chunk-store';
+import { ToolCallRecordInput, getConversationMemory } from '@/features/ai/memory';
+import { ChatMessage, ChatSession, ChatSessionInfo } from '@/types/chat';
+import { chatSessionStore, resolveHighlightedEntities } from '../sessions';
+
+// Wait for a pause in message updates before writing the session
+const AUTOSAVE_DELAY_MS = 800;
+const SESSION_NAME_LENGTH = 40;
+
+interface ActiveSession {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+interface ModelKey {
+  key: string;
+  names: string[];
+}
+
+/**
+ * Key the sessions of the loaded model(s) are stored under: the content hash,
+ * or the model names while a model has no hash
+ */
+async function resolveModelKey(): Promise<ModelKey | null> {
+  const models = modelRegistry.list();
+  if (models.length === 0) return null;
+
+  const names = models.map(model => model.name);
+  const hashes = modelRegistry.getContentHashes();
+  const hash = hashes ? await getProjectContentHash(hashes) : null;
+  return { key: hash ?? `names:${[...names].sort().join('|')}`, names };
+}
+
+function createSessionName(messages: ChatMessage[]): string {
+  const question = messages.find(message => message.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+  if (!question) return `Chat vom ${new Date().toLocaleString('de-DE')}`;
+  return question.length > SESSION_NAME_LENGTH ? question.slice(0, SESSION_NAME_LENGTH) + '…' : question;
+}
+
+// Tools whose output entities make up the working set
+const ENTITY_SET_TOOLS = ['bim_search', 'bim_highlight'];
+
+/**
+ * Tool calls of a stored answer for the memory. Tool outputs are not stored; the highlighted
+ * entities stand in as output of the last search or highlight, so they become the working set again.
+ */
+function restoreToolCalls(message: ChatMessage): ToolCallRecordInput[] {
+  const toolCalls: ToolCallRecordInput[] = (message.toolSteps || [])
+    .filter(step => step.status === 'done')
+    .map(step => ({ tool: step.tool, input: step.input || {}, output: null }));
+
+  const entityIds = resolveHighlightedEntities(message);
+  if (entityIds.length > 0) {
+    const output = { entityIds, totalCount: entityIds.length };
+    const source = [...toolCalls].reverse().find(call => ENTITY_SET_TOOLS.includes(call.tool));
+    if (source) {
+      source.output = output;
+    } else {
+      toolCalls.push({ tool: 'bim_highlight', input: {}, output });
+    }
+  }
+  return toolCalls;
+}
+
+/**
+ * Rebuilds the conversation memory from stored messages, so follow-ups refer to the loaded session
+ */
+function restoreMemory(messages: ChatMessage[]): void {
+  const memory = getConversationMemory();
+  memory.reset();
+
+  let question: string | null = null;
+  messages.forEach(message => {
+    if (message.role === 'user') {
+      question = message.content;
+    } else if (message.role === 'assistant' && question !== null && !message.isError) {
+      memory.recordTurn(question, message.content, restoreToolCalls(message));
+      question = null;
+    }
+  });
+}
+
+/**
+ * Chat sessions of the loaded model(s), persisted in IndexedDB.
+ * The conversation is saved automatically once an answer is complete.
+ */
+export function useChatSessions(messages: ChatMessage[], setMessages: (messages: ChatMessage[]) => void) {
+  const [modelKey, setModelKey] = useState<ModelKey | null>(null);
+  const [sessions, setSessions] = useState<ChatSessionInfo[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+
+  const activeSessionRef = useRef<ActiveSession | null>(null);
+  // Messages as last saved or loaded; unchanged messages are not written again
+  const savedMessagesRef = useRef<ChatMessage[] | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!modelKey || !chatSessionStore.isAvailable()) {
+      setSessions([]);
+      return;
+    }
+    try {
+      setSessions(await chatSessionStore.listSessions(modelKey.key));
+    } catch (error) {
+      console.warn('⚠️ Failed to list chat sessions:', error);
+    }
+  }, [modelKey]);
+
+  // Follow the loaded models; a running conversation continues as a new session of the new key
+  useEffect(() => {
+    const update = () => {
+      resolveModelKey()
+        .then(next => setModelKey(prev => (prev?.key === next?.key ? prev : next)))
+        .catch(error => console.warn('⚠️ Failed to resolve chat session key:', error));
+    };
+    update();
+    return EventBus.on('models:changed', update);
+  }, []);
+
+  useEffect(() => {
+    activeSessionRef.current = null;
+    savedMessagesRef.current = null;
+    setActiveSessionId(null);
+    void refresh();
+  }, [refresh]);
+
+  // Autosave
+  useEffect(() => {
+    if (!modelKey || !chatSessionStore.isAvailable()) return;
+    if (messages === savedMessagesRef.current || messages.some(message => message.isStreaming)) return;
+    if (!messages.some(message => message.role === 'user')) return;
+
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      if (!activeSessionRef.current) {
+        activeSessionRef.current = { id: `session-${now}`, name: createSessionName(messages), createdAt: now };
+        setActiveSessionId(activeSessionRef.current.id);
+      }
+
+      const session: ChatSession = {
+        ...activeSessionRef.current,
+        modelKey: modelKey.key,
+        modelNames: modelKey.names,
+        // A reload cannot continue a half-streamed answer
+        messages: messages.map(message => ({ ...message, isStreaming: undefined })),
+        updatedAt: now
+      };
+
+      savedMessagesRef.current = messages;
+      chatSessionStore.saveSession(session)
+        .then(() => refresh())
+        .catch(error => console.warn('⚠️ Failed to save chat session:', error));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [messages, modelKey, refresh]);
+
+  const newSession = useCallback(() => {
+    activeSessionRef.current = null;
+    savedMessagesRef.current = [];
+    setActiveSessionId(null);
+    setMessages([]);
+    getConversationMemory().reset();
+  }, [setMessages]);
+
+  const switchSession = useCallback(async (id: string) => {
+    const session = await chatSessionStore.getSession(id);
+    if (!session) {
+      await refresh();
+      return;
+    }
+
+    activeSessionRef.current = { id: session.id, name: session.name, createdAt: session.createdAt };
+    savedMessagesRef.current = session.messages;
+    setActiveSessionId(session.id);
+    setMessages(session.messages);
+    restoreMemory(session.messages);
+    console.log(`💬 Loaded chat session "${session.name}" (${session.messages.length} messages)`);
+  }, [refresh, setMessages]);
+
+  const renameSession = useCallback(async (id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    await chatSessionStore.renameSession(id, trimmed);
+    if (activeSessionRef.current?.id === id) {
+      activeSessionRef.current = { ...activeSessionRef.current, name: trimmed };
+    }
+    await refresh();
+  }, [refresh]);
+
+  const deleteSession = useCallback(async (id: string) => {
+    await chatSessionStore.deleteSession(id);
+    if (activeSessionRef.current?.id === id) {
+      newSession();
+    }
+    await refresh();
+  }, [newSession, refresh]);
+
+  const getSession = useCallback((id: string) => chatSessionStore.getSession(id), []);
+
+  return {
+    available: chatSessionStore.isAvailable() && modelKey !== null,
+    modelKey: modelKey?.key ?? null,
+    sessions,
+    activeSessionId,
+    newSession,
+    switchSession,
+    renameSession,
+    deleteSession,
+    getSession,
+  };
+}
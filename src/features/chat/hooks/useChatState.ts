@@ -24,6 +24,20 @@ export function useChatState() {
     }));
   };
 
+  const updateMessage = (id: string, update: (message: ChatMessage) => ChatMessage) => {
+    setChatState(prev => ({
+      ...prev,
+      messages: prev.messages.map(msg => (msg.id === id ? update(msg) : msg)),
+    }));
+  };
+
+  const removeMessage = (id: string) => {
+    setChatState(prev => ({
+      ...prev,
+      messages: prev.messages.filter(msg => msg.id !== id),
+    }));
+  };
+
   const updateChatState = (updates: Partial<ChatState>) => {
     setChatState(prev => ({ ...prev, ...updates }));
   };
@@ -32,6 +46,11 @@ export function useChatState() {
     setChatState(prev => ({ ...prev, messages: [] }));
   };
 
+  // Replaces the conversation, e.g. with a stored session
+  const setMessages = (messages: ChatMessage[]) => {
+    setChatState(prev => ({ ...prev, messages, error: null }));
+  };
+
   return {
     // State
     chatState,
@@ -50,7 +69,10 @@ export function useChatState() {
     
     // Actions
     addMessage,
+    updateMessage,
+    removeMessage,
     updateChatState,
     clearMessages,
+    setMessages,
   };
 } 
\ No newline at end of file
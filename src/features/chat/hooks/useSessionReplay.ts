@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { EventBus } from '@/core/events/event-bus';
+import { viewpointService } from '@/core/viewpoints';
+import { ChatSession } from '@/types/chat';
+import { resolveHighlightedEntities } from '../sessions';
+
+/**
+ * Replay of a stored or imported session: one step per answer, re-applying
+ * the highlighted entities and the camera of that answer in the viewer
+ */
+export function useSessionReplay() {
+  const [session, setSession] = useState<ChatSession | null>(null);
+  const [step, setStep] = useState(0);
+
+  // Message index of each answer
+  const answerIndices = useMemo(() => (session?.messages || [])
+    .map((message, index) => (message.role === 'assistant' && !message.isError ? index : -1))
+    .filter(index => index >= 0), [session]);
+
+  const stepCount = answerIndices.length;
+
+  const messages = useMemo(() => {
+    if (!session) return [];
+    if (stepCount === 0) return session.messages;
+    return session.messages.slice(0, answerIndices[step - 1] + 1);
+  }, [session, step, stepCount, answerIndices]);
+
+  useEffect(() => {
+    if (!session || step === 0) return;
+
+    const answer = session.messages[answerIndices[step - 1]];
+    // Stored keys carry the model ids of the recording; map them to the models loaded now
+    EventBus.emit('ai:highlight', { keys: resolveHighlightedEntities(answer) });
+    if (answer.viewpoint) {
+      viewpointService.apply(answer.viewpoint)
+        .catch(error => console.warn('⚠️ Failed to apply replay viewpoint:', error));
+    }
+  }, [session, step, answerIndices]);
+
+  const start = useCallback((replaySession: ChatSession) => {
+    console.log(`▶️ Replaying chat session "${replaySession.name}"`);
+    setSession(replaySession);
+    setStep(replaySession.messages.some(message => message.role === 'assistant' && !message.isError) ? 1 : 0);
+  }, []);
+
+  const stop = useCallback(() => {
+    setSession(null);
+    setStep(0);
+    EventBus.emit('ai:highlight', { keys: [] });
+  }, []);
+
+  const next = useCallback(() => setStep(prev => Math.min(prev + 1, stepCount)), [stepCount]);
+  const previous = useCallback(() => setStep(prev => Math.max(prev - 1, stepCount > 0 ? 1 : 0)), [stepCount]);
+
+  return {
+    active: session !== null,
+    session,
+    messages,
+    step,
+    stepCount,
+    start,
+    stop,
+    next,
+    previous,
+  };
+}
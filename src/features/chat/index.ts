@@ -2,9 +2,22 @@
 export { ChatProvider } from './context/ChatProvider';
 export { useChatState } from './hooks/useChatState';
 export { useChatEvents } from './hooks/useChatEvents';
+export { useChatSessions } from './hooks/useChatSessions';
+export { useSessionReplay } from './hooks/useSessionReplay';
+
+// Sessions
+export {
+  chatSessionStore,
+  exportSessionMarkdown,
+  exportSessionJson,
+  parseSessionJson,
+  SessionFormatError
+} from './sessions';
 
 // Components
 export { default as ChatInput } from './components/ChatInput';
 export { ChatMessages } from './components/ChatMessages';
 export { QuickTips } from './components/QuickTips';
-export { default as ChatContent } from './components/ChatContent'; 
\ No newline at end of file
+export { default as ChatContent } from './components/ChatContent';
+export { default as ChatSessionsPanel } from './components/ChatSessionsPanel';
+export { default as ReplayControls } from './components/ReplayControls';
\ No newline at end of file
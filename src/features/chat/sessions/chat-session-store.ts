@@ -0,0 +1,131 @@
+/**
+ * Browser storage for chat sessions
+ * Keeps the messages of each session in IndexedDB, grouped by the content hash of the loaded model(s).
+ */
+
+import { ChatSession, ChatSessionInfo } from '@/types/chat';
+
+export class ChatSessionStore {
+  private dbName = 'bim-chat-sessions';
+  private sessionStore = 'sessions';
+  private db?: IDBDatabase;
+
+  /**
+   * Whether IndexedDB is available (not during SSR or in private modes without storage)
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Sessions of a model, most recently updated first
+   */
+  async listSessions(modelKey: string): Promise<ChatSessionInfo[]> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.sessionStore], 'readonly');
+    const sessions = await this.request<ChatSession[]>(
+      transaction.objectStore(this.sessionStore).index('modelKey').getAll(modelKey)
+    );
+    return sessions
+      .map(session => this.toInfo(session))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getSession(id: string): Promise<ChatSession | null> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.sessionStore], 'readonly');
+    const session = await this.request<ChatSession | undefined>(
+      transaction.objectStore(this.sessionStore).get(id)
+    );
+    return session ?? null;
+  }
+
+  /**
+   * Save a session, replacing an earlier version with the same id
+   */
+  async saveSession(session: ChatSession): Promise<ChatSessionInfo> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.sessionStore], 'readwrite');
+    transaction.objectStore(this.sessionStore).put(session);
+    await this.complete(transaction);
+    return this.toInfo(session);
+  }
+
+  async renameSession(id: string, name: string): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.sessionStore], 'readwrite');
+    const sessions = transaction.objectStore(this.sessionStore);
+
+    const session = await this.request<ChatSession | undefined>(sessions.get(id));
+    if (session) {
+      sessions.put({ ...session, name, updatedAt: Date.now() });
+    }
+    await this.complete(transaction);
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.getDB();
+    const transaction = db.transaction([this.sessionStore], 'readwrite');
+    transaction.objectStore(this.sessionStore).delete(id);
+    await this.complete(transaction);
+    console.log(`🗑️ Deleted chat session ${id}`);
+  }
+
+  private toInfo(session: ChatSession): ChatSessionInfo {
+    return {
+      id: session.id,
+      name: session.name,
+      modelKey: session.modelKey,
+      modelNames: session.modelNames,
+      messageCount: session.messages.length,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt
+    };
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private complete(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+  }
+
+  private async getDB(): Promise<IDBDatabase> {
+    if (!this.isAvailable()) {
+      throw new Error('IndexedDB is not available');
+    }
+    if (!this.db) {
+      this.db = await this.openDB();
+    }
+    return this.db;
+  }
+
+  private openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, 1);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        if (!db.objectStoreNames.contains(this.sessionStore)) {
+          const store = db.createObjectStore(this.sessionStore, { keyPath: 'id' });
+          store.createIndex('modelKey', 'modelKey', { unique: false });
+        }
+      };
+    });
+  }
+}
+
+// Global singleton instance
+export const chatSessionStore = new ChatSessionStore();
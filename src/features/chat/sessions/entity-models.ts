@@ -0,0 +1,43 @@
+// Highlighted entities of stored answers across reloads: model ids change on every load, local ids do not
+
+import { entityKey, groupKeysByModel, parseEntityKey } from '@/core/entities';
+import { modelRegistry } from '@/core/models';
+import { EntityKey } from '@/types/bim';
+import { ChatMessage } from '@/types/chat';
+
+/**
+ * References of the models the keys belong to, stored with the answer as entityModels
+ */
+export function captureEntityModels(keys: EntityKey[] | undefined): Record<string, string> | undefined {
+  if (!keys || keys.length === 0) return undefined;
+
+  const entityModels: Record<string, string> = {};
+  groupKeysByModel(keys).forEach((_, modelId) => {
+    const ref = modelRegistry.getModelRef(modelId);
+    if (ref) entityModels[modelId] = ref;
+  });
+  return entityModels;
+}
+
+/**
+ * Highlighted entities of an answer as keys of the models loaded now; entities of models
+ * that are not loaded are left out
+ */
+export function resolveHighlightedEntities(message: ChatMessage): EntityKey[] {
+  const modelIds = new Map<string, string | null>();
+
+  return (message.highlightedEntityIds || []).flatMap(key => {
+    const parsed = parseEntityKey(key);
+    if (!parsed) return [];
+
+    if (!modelIds.has(parsed.modelId)) {
+      const ref = message.entityModels?.[parsed.modelId];
+      // Sessions without references only match while the same model instance is loaded
+      modelIds.set(parsed.modelId, ref
+        ? modelRegistry.findModelIdByRef(ref)
+        : modelRegistry.has(parsed.modelId) ? parsed.modelId : null);
+    }
+    const modelId = modelIds.get(parsed.modelId);
+    return modelId ? [entityKey(modelId, parsed.localId)] : [];
+  });
+}
@@ -0,0 +1,10 @@
+// Chat Sessions - Centralized exports
+export { ChatSessionStore, chatSessionStore } from './chat-session-store';
+export { captureEntityModels, resolveHighlightedEntities } from './entity-models';
+export {
+  SESSION_EXPORT_FORMAT,
+  SessionFormatError,
+  exportSessionMarkdown,
+  exportSessionJson,
+  parseSessionJson
+} from './session-export';
@@ -0,0 +1,128 @@
+// Session export: Markdown for reading, JSON for replay
+
+import { CameraViewpoint } from '@/types/bim';
+import { ChatMessage, ChatSession, ChatSessionExport } from '@/types/chat';
+
+export const SESSION_EXPORT_FORMAT = 'bim-chat-session';
+
+// Highlighted IDs listed per answer in Markdown; the JSON export keeps all of them
+const MARKDOWN_ENTITY_LIMIT = 50;
+
+export class SessionFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionFormatError';
+  }
+}
+
+function formatDate(timestamp: number | string): string {
+  return new Date(timestamp).toLocaleString('de-DE');
+}
+
+function formatVector(vector: [number, number, number]): string {
+  return `(${vector.map(value => value.toFixed(2)).join(', ')})`;
+}
+
+function formatViewpoint(viewpoint: CameraViewpoint): string {
+  const fov = viewpoint.fov !== undefined ? `, FOV ${Math.round(viewpoint.fov)}°` : '';
+  return `Position ${formatVector(viewpoint.position)} → Ziel ${formatVector(viewpoint.target)}${fov}`;
+}
+
+function describeAnswer(message: ChatMessage): string[] {
+  const lines: string[] = [];
+
+  (message.toolSteps || []).forEach(step => {
+    const input = step.input ? ` \`${JSON.stringify(step.input)}\`` : '';
+    const duration = step.duration !== undefined ? ` · ${step.duration} ms` : '';
+    const failed = step.status === 'error' ? ' · Fehler' : '';
+    lines.push(`- Tool \`${step.tool}\`${input}${duration}${failed}`);
+  });
+
+  const ids = message.highlightedEntityIds || [];
+  if (ids.length > 0) {
+    const listed = ids.slice(0, MARKDOWN_ENTITY_LIMIT).map(id => `\`${id}\``).join(', ');
+    const more = ids.length > MARKDOWN_ENTITY_LIMIT ? ` … (+${ids.length - MARKDOWN_ENTITY_LIMIT})` : '';
+    lines.push(`- Hervorgehoben (${ids.length}): ${listed}${more}`);
+  }
+
+  if (message.viewpoint) {
+    lines.push(`- Kamera: ${formatViewpoint(message.viewpoint)}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Readable protocol of the session with tool calls, highlights and camera per answer
+ */
+export function exportSessionMarkdown(session: ChatSession): string {
+  const lines: string[] = [
+    `# ${session.name}`,
+    '',
+    `- Modell: ${session.modelNames.join(', ') || session.modelKey}`,
+    `- Erstellt: ${formatDate(session.createdAt)}`,
+    `- Zuletzt geändert: ${formatDate(session.updatedAt)}`
+  ];
+
+  let question = 0;
+  session.messages.forEach(message => {
+    if (message.role === 'user') {
+      question++;
+      lines.push('', `## Frage ${question}`, '', message.content);
+      return;
+    }
+
+    const label = message.role === 'system' ? 'System' : message.isError ? 'Fehler' : 'Antwort';
+    lines.push('', `**${label}:**`, '', message.content);
+
+    const details = describeAnswer(message);
+    if (details.length > 0) {
+      lines.push('', ...details);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+export function exportSessionJson(session: ChatSession): string {
+  const data: ChatSessionExport = {
+    format: SESSION_EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    session
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Session of a JSON export; throws SessionFormatError for other files
+ */
+export function parseSessionJson(text: string): ChatSession {
+  let data: Partial<ChatSessionExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SessionFormatError('Die Datei ist kein gültiges JSON.');
+  }
+
+  if (!data || data.format !== SESSION_EXPORT_FORMAT) {
+    throw new SessionFormatError('Die Datei ist kein exportierter Chat-Verlauf.');
+  }
+  if (data.version !== 1) {
+    throw new SessionFormatError(`Version ${String(data.version)} des Chat-Exports wird nicht unterstützt.`);
+  }
+
+  const session = data.session;
+  if (!session || typeof session.id !== 'string' || !Array.isArray(session.messages)) {
+    throw new SessionFormatError('Der Chat-Export enthält keine Nachrichten.');
+  }
+
+  return {
+    ...session,
+    name: session.name || 'Importierter Chat',
+    modelNames: Array.isArray(session.modelNames) ? session.modelNames : [],
+    messages: session.messages.filter(message =>
+      message && typeof message.content === 'string' && ['user', 'assistant', 'system'].includes(message.role)
+    )
+  };
+}
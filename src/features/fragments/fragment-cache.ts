@@ -0,0 +1,203 @@
+// Fragment Cache - converted IFC models as .frag files keyed by content hash (server-side only)
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FragmentCacheEntry, FragmentCacheStats } from '@/types/api';
+
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface StoreFragmentOptions {
+  name: string;
+  // SHA-256 of the IFC the fragment was converted from; the fragment's own hash if missing
+  sourceHash?: string;
+}
+
+export interface StoredFragment {
+  entry: FragmentCacheEntry;
+  // False if an entry with the hash existed and was kept
+  created: boolean;
+}
+
+export function isFragmentHash(hash: string): boolean {
+  return HASH_PATTERN.test(hash);
+}
+
+export function hashBytes(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * One directory with <hash>.frag and <hash>.json (metadata) per conversion.
+ * Least recently used entries are evicted once the total size exceeds maxBytes.
+ */
+export class FragmentCache {
+  // Serializes writes and evictions within this process
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string, private maxBytes: number) {}
+
+  async get(hash: string): Promise<{ entry: FragmentCacheEntry; data: Buffer } | null> {
+    const entry = await this.readEntry(hash);
+    if (!entry) return null;
+
+    try {
+      const data = await fs.readFile(this.fragmentPath(hash));
+      entry.lastAccessAt = new Date().toISOString();
+      await this.writeEntry(entry);
+      return { entry, data };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      // Metadata without fragment, e.g. after an interrupted write
+      await this.delete(hash);
+      return null;
+    }
+  }
+
+  /**
+   * Stores the fragment unless the hash is taken; the source hash cannot be checked against
+   * the fragment bytes, so an existing entry is never overwritten by another upload
+   */
+  async put(data: Uint8Array, options: StoreFragmentOptions): Promise<StoredFragment> {
+    const fragmentHash = hashBytes(data);
+    const hash = options.sourceHash ?? fragmentHash;
+    if (!isFragmentHash(hash)) {
+      throw new Error(`Invalid fragment hash: ${hash}`);
+    }
+
+    const task = this.queue.then(async (): Promise<StoredFragment> => {
+      const existing = await this.readEntry(hash);
+      if (existing && await this.hasFragment(hash)) {
+        return { entry: existing, created: false };
+      }
+
+      const now = new Date().toISOString();
+      const entry: FragmentCacheEntry = {
+        hash,
+        name: options.name,
+        size: data.byteLength,
+        fragmentHash,
+        createdAt: now,
+        lastAccessAt: now
+      };
+
+      await fs.mkdir(this.directory, { recursive: true });
+      const tmpPath = `${this.fragmentPath(hash)}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, data);
+      await fs.rename(tmpPath, this.fragmentPath(hash));
+      await this.writeEntry(entry);
+      await this.evict(hash);
+      return { entry, created: true };
+    });
+    this.queue = task.catch(() => undefined);
+    return task;
+  }
+
+  async delete(hash: string): Promise<boolean> {
+    if (!isFragmentHash(hash)) return false;
+    const results = await Promise.allSettled([
+      fs.unlink(this.fragmentPath(hash)),
+      fs.unlink(this.entryPath(hash))
+    ]);
+    return results.some(result => result.status === 'fulfilled');
+  }
+
+  // Most recently used first
+  async list(): Promise<FragmentCacheEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const hashes = files
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length));
+    const entries = await Promise.all(hashes.map(hash => this.readEntry(hash)));
+    return entries
+      .filter((entry): entry is FragmentCacheEntry => entry !== null)
+      .sort((a, b) => b.lastAccessAt.localeCompare(a.lastAccessAt));
+  }
+
+  async stats(): Promise<FragmentCacheStats> {
+    const entries = await this.list();
+    return {
+      directory: this.directory,
+      entries: entries.length,
+      totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxBytes: this.maxBytes
+    };
+  }
+
+  /**
+   * Throws if the cache directory cannot be created or written
+   */
+  async checkWritable(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.access(this.directory, fs.constants.W_OK);
+  }
+
+  // Drops least recently used entries until the cache fits; the entry just stored is kept
+  private async evict(keepHash: string): Promise<void> {
+    const entries = await this.list();
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of entries.reverse()) {
+      if (totalBytes <= this.maxBytes) break;
+      if (entry.hash === keepHash) continue;
+      await this.delete(entry.hash);
+      totalBytes -= entry.size;
+      console.log(`🗑️ FragmentCache: evicted ${entry.name} (${entry.hash.slice(0, 12)})`);
+    }
+  }
+
+  private async hasFragment(hash: string): Promise<boolean> {
+    try {
+      await fs.access(this.fragmentPath(hash));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async readEntry(hash: string): Promise<FragmentCacheEntry | null> {
+    if (!isFragmentHash(hash)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.entryPath(hash), 'utf-8')) as FragmentCacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[FragmentCache] Failed to read entry ${hash}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private async writeEntry(entry: FragmentCacheEntry): Promise<void> {
+    await fs.writeFile(this.entryPath(entry.hash), JSON.stringify(entry, null, 2));
+  }
+
+  private fragmentPath(hash: string): string {
+    return path.join(this.directory, `${hash}.frag`);
+  }
+
+  private entryPath(hash: string): string {
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
+
+let cache: FragmentCache | null = null;
+
+/**
+ * Cache in FRAGMENT_CACHE_DIR (default ./data/fragments), limited to FRAGMENT_CACHE_MAX_MB
+ */
+export function getFragmentCache(): FragmentCache {
+  if (!cache) {
+    cache = new FragmentCache(
+      process.env.FRAGMENT_CACHE_DIR || path.join(process.cwd(), 'data', 'fragments'),
+      parseInt(process.env.FRAGMENT_CACHE_MAX_MB || '2048') * 1024 * 1024
+    );
+  }
+  return cache;
+}
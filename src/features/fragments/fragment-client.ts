@@ -0,0 +1,106 @@
+// Fragment cache client - reuses IFC conversions stored by /api/save-fragment
+
+import { FragmentCacheEntry } from '@/types/api';
+
+export type IfcConverter = (ifcBytes: Uint8Array) => Promise<Uint8Array>;
+
+/**
+ * SHA-256 hex of the given bytes; null where WebCrypto is unavailable (insecure origins)
+ */
+export async function hashContent(data: ArrayBuffer | Uint8Array): Promise<string | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function fetchCachedFragment(hash: string): Promise<ArrayBuffer | null> {
+  try {
+    const response = await fetch(`/api/fragments/${hash}`);
+    return response.ok ? await response.arrayBuffer() : null;
+  } catch (error) {
+    console.warn('Fragment cache not reachable:', error);
+    return null;
+  }
+}
+
+export async function listCachedFragments(): Promise<FragmentCacheEntry[]> {
+  const response = await fetch('/api/fragments');
+  if (!response.ok) {
+    throw new Error(`Fragment list failed: ${response.statusText}`);
+  }
+  const data = await response.json();
+  return data.fragments as FragmentCacheEntry[];
+}
+
+/**
+ * Uploads converted fragment bytes as binary body; sourceHash is the hash of the IFC
+ */
+export async function saveFragment(fragBytes: Uint8Array, name: string, sourceHash?: string | null): Promise<FragmentCacheEntry | null> {
+  try {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'X-Fragment-Name': encodeURIComponent(name)
+    };
+    if (sourceHash) headers['X-Source-Hash'] = sourceHash;
+
+    const response = await fetch('/api/save-fragment', {
+      method: 'POST',
+      headers,
+      body: fragBytes as BodyInit
+    });
+    if (!response.ok) {
+      console.warn(`Could not save FRAG file: ${response.status} ${response.statusText}`);
+      return null;
+    }
+    const data = await response.json();
+    return data.fragment as FragmentCacheEntry;
+  } catch (error) {
+    console.warn('Could not save FRAG file:', error);
+    return null;
+  }
+}
+
+export interface IfcLoadResult {
+  buffer: ArrayBuffer;
+  // True if the conversion was skipped because the IFC was converted before
+  cached: boolean;
+  sourceHash: string | null;
+}
+
+export type IfcLoadPhase = 'cache' | 'converting' | 'saving';
+
+/**
+ * FRAG bytes for an IFC file: from the server cache if it was converted before,
+ * otherwise converted and stored for the next load
+ */
+export async function loadOrConvertIfc(
+  ifcBuffer: ArrayBuffer,
+  name: string,
+  convert: IfcConverter,
+  onPhase?: (phase: IfcLoadPhase) => void
+): Promise<IfcLoadResult> {
+  onPhase?.('cache');
+  const sourceHash = await hashContent(ifcBuffer);
+  if (sourceHash) {
+    const cached = await fetchCachedFragment(sourceHash);
+    if (cached) {
+      console.log(`⚡ Using cached fragment for ${name} (${sourceHash.slice(0, 12)})`);
+      return { buffer: cached, cached: true, sourceHash };
+    }
+  }
+
+  onPhase?.('converting');
+  console.log(`🔧 Converting ${name} to FRAG...`);
+  const fragBytes = await convert(new Uint8Array(ifcBuffer));
+  console.log('✅ IFC converted, size:', fragBytes.byteLength);
+
+  // Caching is optional, the converted model is loaded either way
+  onPhase?.('saving');
+  const saved = await saveFragment(fragBytes, name, sourceHash);
+  if (saved) {
+    console.log(`💾 ${name} cached as ${saved.hash.slice(0, 12)}`);
+  }
+
+  const buffer = fragBytes.buffer.slice(fragBytes.byteOffset, fragBytes.byteOffset + fragBytes.byteLength) as ArrayBuffer;
+  return { buffer, cached: false, sourceHash };
+}
@@ -0,0 +1,120 @@
+// IFC Preprocessor - headless IFC -> FRAG conversion with entities, Smart Chunks and octree (server-side only)
+
+import path from 'path';
+import * as FRAGS from '@thatopen/fragments';
+import { extractModelEntities } from '@/app/bim-viewer/improved-entity-extraction';
+import { SmartChunker } from '@/app/bim-context/chunking/smart-chunker';
+import { FileStore } from '@/app/bim-context/storage/file-store';
+import { ManifestManager } from '@/app/bim-context/storage/manifest-manager';
+import { ChunkingResult, ProjectManifest } from '@/types/chunks';
+import { hashBytes } from './fragment-cache';
+
+export interface IfcPreprocessOptions {
+  // Model name, also used for the default project id
+  name: string;
+  // Smart Chunks project; the viewer uses `${name}_project`
+  projectId?: string;
+  // Directory containing web-ifc-node.wasm (default node_modules/web-ifc)
+  wasmPath?: string;
+}
+
+export interface IfcPreprocessResult {
+  name: string;
+  projectId: string;
+  // SHA-256 of the IFC, the key of the fragment cache
+  sourceHash: string;
+  fragBytes: Uint8Array;
+  entityCount: number;
+  chunking: ChunkingResult;
+  // Serialized octree as read by OctreeBuilder.deserialize; null without positioned entities
+  octree: Uint8Array | null;
+  timings: Record<'conversion' | 'extraction' | 'chunking', number>;
+}
+
+function defaultWasmPath(): string {
+  return path.join(process.cwd(), 'node_modules', 'web-ifc') + path.sep;
+}
+
+/**
+ * IFC -> FRAG with the same IfcImporter the viewer runs in the browser
+ */
+export async function convertIfcToFragments(ifcBytes: Uint8Array, wasmPath = defaultWasmPath()): Promise<Uint8Array> {
+  const importer = new FRAGS.IfcImporter();
+  importer.wasm = { absolute: true, path: wasmPath };
+  return importer.process({ bytes: ifcBytes, raw: true });
+}
+
+/**
+ * Runs conversion, entity extraction, Smart Chunking and octree build of one IFC file
+ */
+export async function preprocessIfc(ifcBytes: Uint8Array, options: IfcPreprocessOptions): Promise<IfcPreprocessResult> {
+  const projectId = options.projectId || `${options.name}_project`;
+
+  let start = Date.now();
+  const fragBytes = await convertIfcToFragments(ifcBytes, options.wasmPath);
+  const conversion = Date.now() - start;
+  console.log(`✅ IFC converted, size: ${fragBytes.byteLength} bytes (${conversion} ms)`);
+
+  // Query-only model without renderer or worker
+  start = Date.now();
+  const model = new FRAGS.SingleThreadedFragmentsModel(options.name, fragBytes, true);
+  let extracted;
+  try {
+    extracted = await extractModelEntities(model, options.name);
+  } finally {
+    model.dispose();
+  }
+  const extraction = Date.now() - start;
+
+  start = Date.now();
+  const chunking = await new SmartChunker().processModel(
+    projectId,
+    { entities: extracted.entities, entityIndex: extracted.entityIndex },
+    options.name
+  );
+  const chunkingTime = Date.now() - start;
+  console.log(`🧩 Created ${chunking.chunks.length} chunks (${chunkingTime} ms)`);
+
+  return {
+    name: options.name,
+    projectId,
+    sourceHash: hashBytes(ifcBytes),
+    fragBytes,
+    entityCount: extracted.entities.length,
+    chunking,
+    octree: extracted.spatialIndex?.buffer ?? null,
+    timings: { conversion, extraction, chunking: chunkingTime }
+  };
+}
+
+/**
+ * Writes the chunks as Smart Chunks project through FileStore and ManifestManager;
+ * an existing project with the same id is replaced
+ */
+export async function saveSmartChunkProject(
+  result: IfcPreprocessResult,
+  fileName: string,
+  projectsPath?: string
+): Promise<ProjectManifest> {
+  const fileStore = new FileStore(projectsPath);
+  const manifestManager = new ManifestManager(fileStore);
+
+  if (await fileStore.projectExists(result.projectId)) {
+    await fileStore.deleteProject(result.projectId);
+  }
+  await fileStore.createProject(result.projectId, {
+    name: result.name,
+    fileName,
+    sourceHash: result.sourceHash,
+    entityCount: result.entityCount
+  });
+  await fileStore.saveChunks(result.chunking.chunks);
+
+  const manifest = manifestManager.createManifest(result.projectId, result.name, result.chunking.chunks, {
+    fileName,
+    fileSize: result.fragBytes.byteLength,
+    processingTime: result.timings.conversion + result.timings.extraction + result.timings.chunking
+  });
+  await manifestManager.saveManifest(manifest);
+  return manifest;
+}
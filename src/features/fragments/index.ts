@@ -0,0 +1,4 @@
+// Fragments Feature - Centralized client exports
+// The server-side cache (./fragment-cache) and ./ifc-preprocessor use fs and are imported directly
+export { hashContent, fetchCachedFragment, listCachedFragments, saveFragment, loadOrConvertIfc } from './fragment-client';
+export type { IfcConverter, IfcLoadResult, IfcLoadPhase } from './fragment-client';
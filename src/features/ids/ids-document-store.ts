@@ -0,0 +1,69 @@
+/**
+ * IDS Document Store - the IDS files loaded in this session and the latest validation report
+ */
+
+import { EventBus } from '@/core/events/event-bus';
+import { IfcEntity } from '@/types/bim';
+import { IdsDocument, IdsReport } from '@/types/ids';
+import { validateIds } from './ids-validator';
+
+export class IdsDocumentStore {
+  private documents = new Map<string, IdsDocument>();
+  private report: IdsReport | null = null;
+
+  list(): IdsDocument[] {
+    return Array.from(this.documents.values());
+  }
+
+  /**
+   * Document by id or title; the only loaded document if no id is given
+   */
+  get(idOrTitle?: string): IdsDocument | undefined {
+    if (!idOrTitle) {
+      return this.documents.size === 1 ? this.list()[0] : undefined;
+    }
+    const wanted = idOrTitle.toLowerCase();
+    return this.documents.get(idOrTitle)
+      ?? this.list().find(document => document.id.toLowerCase() === wanted || document.title.toLowerCase() === wanted);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get lastReport(): IdsReport | null {
+    return this.report;
+  }
+
+  /**
+   * Adds a document; a document with the same id replaces the loaded one
+   */
+  add(document: IdsDocument): void {
+    this.documents.set(document.id, document);
+    this.changed();
+  }
+
+  remove(id: string): void {
+    if (!this.documents.delete(id)) return;
+    if (this.report?.documentId === id) {
+      this.report = null;
+    }
+    this.changed();
+  }
+
+  /**
+   * Validates the entities against a loaded document and keeps the report as the latest one
+   */
+  validate(document: IdsDocument, entities: IfcEntity[]): IdsReport {
+    this.report = validateIds(document, entities);
+    EventBus.emit('ids:validated', { report: this.report });
+    return this.report;
+  }
+
+  private changed(): void {
+    EventBus.emit('ids:documents:changed', { count: this.documents.size });
+  }
+}
+
+// Global singleton instance
+export const idsDocumentStore = new IdsDocumentStore();
@@ -0,0 +1,204 @@
+/**
+ * IDS Parser - reads IDS 1.0 documents (and the 0.9 facet cardinality via minOccurs/maxOccurs)
+ * Namespace prefixes are dropped, so <xs:restriction> and <restriction> read the same.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { IdsCardinality, IdsDocument, IdsFacet, IdsSpecification, IdsValue } from '@/types/ids';
+
+export class IdsFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdsFormatError';
+  }
+}
+
+const FACET_ELEMENTS = ['entity', 'partOf', 'classification', 'attribute', 'property', 'material'] as const;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: tagName => tagName === 'specification' || tagName === 'enumeration' || tagName === 'pattern'
+    || (FACET_ELEMENTS as readonly string[]).includes(tagName)
+});
+
+type XmlNode = Record<string, unknown>;
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'object') {
+    const node = value as XmlNode;
+    return node['#text'] !== undefined ? String(node['#text']) : undefined;
+  }
+  return String(value);
+}
+
+function attribute(node: unknown, name: string): string | undefined {
+  return node && typeof node === 'object' ? text((node as XmlNode)[`@_${name}`]) : undefined;
+}
+
+function child(node: unknown, name: string): XmlNode | undefined {
+  const value = node && typeof node === 'object' ? (node as XmlNode)[name] : undefined;
+  if (Array.isArray(value)) return value[0] as XmlNode | undefined;
+  return value && typeof value === 'object' ? value as XmlNode : undefined;
+}
+
+function children(node: unknown, name: string): XmlNode[] {
+  const value = node && typeof node === 'object' ? (node as XmlNode)[name] : undefined;
+  if (value === undefined || value === null) return [];
+  // Empty elements like <entity/> parse as ''
+  return (Array.isArray(value) ? value : [value]).map(item => (typeof item === 'object' ? item as XmlNode : {}));
+}
+
+function numberAttribute(node: XmlNode | undefined, name: string): number | undefined {
+  const value = parseFloat(attribute(child(node, name) ?? {}, 'value') ?? '');
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function parseValue(node: unknown): IdsValue | undefined {
+  if (node === undefined || node === null || node === '') return undefined;
+  const simpleValue = typeof node === 'object' ? text((node as XmlNode).simpleValue) : text(node);
+  if (simpleValue !== undefined) {
+    return { kind: 'simple', value: simpleValue };
+  }
+
+  const restriction = child(node, 'restriction');
+  if (!restriction) return undefined;
+
+  const values = (name: string) => children(restriction, name)
+    .map(item => attribute(item, 'value'))
+    .filter((value): value is string => value !== undefined);
+  const enumeration = values('enumeration');
+  const pattern = values('pattern');
+
+  return {
+    kind: 'restriction',
+    base: attribute(restriction, 'base')?.replace(/^xs:/, ''),
+    enumeration: enumeration.length > 0 ? enumeration : undefined,
+    pattern: pattern.length > 0 ? pattern : undefined,
+    minInclusive: numberAttribute(restriction, 'minInclusive'),
+    maxInclusive: numberAttribute(restriction, 'maxInclusive'),
+    minExclusive: numberAttribute(restriction, 'minExclusive'),
+    maxExclusive: numberAttribute(restriction, 'maxExclusive'),
+    length: numberAttribute(restriction, 'length'),
+    minLength: numberAttribute(restriction, 'minLength'),
+    maxLength: numberAttribute(restriction, 'maxLength')
+  };
+}
+
+function requiredValue(node: XmlNode, name: string, facet: string): IdsValue {
+  const value = parseValue(node[name]);
+  if (!value) {
+    throw new IdsFormatError(`Die IDS-Facette <${facet}> hat kein gültiges <${name}>.`);
+  }
+  return value;
+}
+
+// IDS 1.0 uses cardinality="…", 0.9 used minOccurs/maxOccurs on the facets
+function parseCardinality(node: XmlNode): IdsCardinality {
+  const cardinality = attribute(node, 'cardinality');
+  if (cardinality === 'required' || cardinality === 'optional' || cardinality === 'prohibited') {
+    return cardinality;
+  }
+  if (attribute(node, 'maxOccurs') === '0') return 'prohibited';
+  if (attribute(node, 'minOccurs') === '0') return 'optional';
+  return 'required';
+}
+
+function parseFacets(container: XmlNode | undefined): IdsFacet[] {
+  if (!container) return [];
+
+  return FACET_ELEMENTS.flatMap(element => children(container, element).map((node): IdsFacet => {
+    const cardinality = parseCardinality(node);
+    switch (element) {
+      case 'entity':
+        return { kind: 'entity', name: requiredValue(node, 'name', element), predefinedType: parseValue(node.predefinedType) };
+      case 'attribute':
+        return { kind: 'attribute', name: requiredValue(node, 'name', element), value: parseValue(node.value), cardinality };
+      case 'property':
+        return {
+          kind: 'property',
+          propertySet: requiredValue(node, 'propertySet', element),
+          // 0.9 called it <name>
+          baseName: parseValue(node.baseName) ?? requiredValue(node, 'name', element),
+          value: parseValue(node.value),
+          dataType: attribute(node, 'dataType')?.toUpperCase(),
+          cardinality
+        };
+      case 'classification':
+        return { kind: 'classification', system: parseValue(node.system), value: parseValue(node.value), cardinality };
+      case 'material':
+        return { kind: 'material', value: parseValue(node.value), cardinality };
+      case 'partOf':
+        return { kind: 'partOf', relation: attribute(node, 'relation'), cardinality };
+    }
+  }));
+}
+
+function parseSpecification(node: XmlNode, index: number): IdsSpecification {
+  const applicabilityNode = child(node, 'applicability');
+  const applicability = parseFacets(applicabilityNode);
+  if (applicability.length === 0) {
+    throw new IdsFormatError(`Spezifikation ${index + 1} hat keine Anwendbarkeit (<applicability>).`);
+  }
+
+  // Applicability minOccurs/maxOccurs (IDS 1.0), or the 0.9 attributes on the specification
+  const occurs = applicabilityNode && (attribute(applicabilityNode, 'minOccurs') || attribute(applicabilityNode, 'maxOccurs'))
+    ? applicabilityNode
+    : node;
+  const minOccurs = attribute(occurs, 'minOccurs');
+  const maxOccurs = attribute(occurs, 'maxOccurs');
+  const cardinality: IdsCardinality = maxOccurs === '0' ? 'prohibited' : minOccurs === '0' ? 'optional' : 'required';
+
+  const requirementsNode = child(node, 'requirements');
+  return {
+    name: attribute(node, 'name') || `Spezifikation ${index + 1}`,
+    identifier: attribute(node, 'identifier'),
+    description: attribute(node, 'description'),
+    instructions: attribute(node, 'instructions'),
+    ifcVersions: (attribute(node, 'ifcVersion') ?? '').split(/\s+/).filter(Boolean),
+    cardinality,
+    applicability,
+    requirements: parseFacets(requirementsNode)
+  };
+}
+
+/**
+ * Specifications of an IDS file; throws IdsFormatError for other XML and invalid facets
+ */
+export function parseIds(xml: string, id?: string): IdsDocument {
+  let document: XmlNode;
+  try {
+    document = parser.parse(xml, true);
+  } catch {
+    throw new IdsFormatError('Die Datei ist kein gültiges XML.');
+  }
+
+  const ids = child(document, 'ids');
+  if (!ids) {
+    throw new IdsFormatError('Die Datei ist kein IDS-Dokument (<ids> fehlt).');
+  }
+
+  const info = child(ids, 'info');
+  const field = (name: string) => text(info?.[name]) || undefined;
+  const specifications = children(child(ids, 'specifications'), 'specification').map(parseSpecification);
+  if (specifications.length === 0) {
+    throw new IdsFormatError('Das IDS-Dokument enthält keine Spezifikationen.');
+  }
+
+  const title = field('title') ?? id ?? 'IDS';
+  console.log(`📐 IDS parsed: ${title}, ${specifications.length} specifications`);
+  return {
+    id: id ?? title,
+    title,
+    version: field('version'),
+    author: field('author'),
+    date: field('date'),
+    description: field('description'),
+    specifications
+  };
+}
@@ -0,0 +1,386 @@
+/**
+ * IDS Validator - checks extracted IFC entities against the specifications of an IDS document
+ *
+ * Facets are read from IfcEntity.properties (fragments item data):
+ *   entity          entity.type, PredefinedType (ObjectType if USERDEFINED)
+ *   attribute       direct keys like Name or FireRating, { value, type } unwrapped
+ *   property        named nodes with a property list (IsDefinedBy → HasProperties/Quantities),
+ *                   or flat { Pset_X: { Prop: value } } objects
+ *   classification  IFCCLASSIFICATIONREFERENCE nodes (Identification, ReferencedSource name)
+ *   material        names and categories of IFCMATERIAL* nodes
+ * partOf is not checked: the extracted entities carry no aggregation/containment relations.
+ * A partOf requirement is skipped; a specification with partOf applicability is not checked at all.
+ */
+
+import { IfcEntity, ItemClassification, ItemPropertySet } from '@/types/bim';
+import {
+  IdsDocument,
+  IdsEntityFailure,
+  IdsFacet,
+  IdsFacetKind,
+  IdsReport,
+  IdsSpecification,
+  IdsSpecificationResult,
+  IdsValue
+} from '@/types/ids';
+import { getEntityKey, readClassifications, readMaterials, readPropertySets, stringOf } from '@/core/entities';
+import { unwrap } from '@/core/query/query-engine';
+
+// Relative tolerance for numbers, IFC exports round lengths and areas differently
+const NUMBER_TOLERANCE = 1e-6;
+
+// Facet outcome on one entity: whether the information exists and whether it satisfies the facet
+interface FacetOutcome {
+  present: boolean;
+  matched: boolean;
+  // Actual value(s) for the failure reason
+  actual?: string;
+  // What was checked when it is not the facet value, e.g. the class of an entity facet with predefinedType
+  expected?: IdsValue;
+}
+
+// What the facets read from one entity, collected on first use
+interface EntityData {
+  entity: IfcEntity;
+  propertySets: ItemPropertySet[];
+  classifications: ItemClassification[];
+  materials: string[];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Values
+
+function displayValue(value: unknown): string {
+  if (typeof value === 'string') return `'${value}'`;
+  return String(value);
+}
+
+function equalsSimple(actual: unknown, expected: string): boolean {
+  if (typeof actual === 'boolean') {
+    return expected.toUpperCase() === (actual ? 'TRUE' : 'FALSE');
+  }
+  if (typeof actual === 'number') {
+    const number = Number(expected);
+    if (expected.trim() === '' || !Number.isFinite(number)) return false;
+    return Math.abs(actual - number) <= NUMBER_TOLERANCE * Math.max(1, Math.abs(number));
+  }
+  return String(actual) === expected;
+}
+
+function matchesPattern(actual: string, pattern: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`, 'u').test(actual);
+  } catch {
+    console.warn(`⚠️ IDS pattern not supported: ${pattern}`);
+    return false;
+  }
+}
+
+/**
+ * Whether one value satisfies an IDS value (simpleValue or all constraints of an xs:restriction)
+ */
+export function matchesIdsValue(expected: IdsValue, actual: unknown): boolean {
+  if (isEmpty(actual)) return false;
+  if (expected.kind === 'simple') {
+    return equalsSimple(actual, expected.value);
+  }
+
+  const text = typeof actual === 'boolean' ? (actual ? 'TRUE' : 'FALSE') : String(actual);
+  const number = typeof actual === 'number' ? actual : Number(text);
+  const numeric = Number.isFinite(number) && text.trim() !== '';
+
+  if (expected.enumeration && !expected.enumeration.some(option => equalsSimple(actual, option))) return false;
+  if (expected.pattern && !expected.pattern.some(pattern => matchesPattern(text, pattern))) return false;
+  if (expected.length !== undefined && text.length !== expected.length) return false;
+  if (expected.minLength !== undefined && text.length < expected.minLength) return false;
+  if (expected.maxLength !== undefined && text.length > expected.maxLength) return false;
+
+  const bounds = [expected.minInclusive, expected.maxInclusive, expected.minExclusive, expected.maxExclusive];
+  if (bounds.some(bound => bound !== undefined)) {
+    if (!numeric) return false;
+    if (expected.minInclusive !== undefined && number < expected.minInclusive) return false;
+    if (expected.maxInclusive !== undefined && number > expected.maxInclusive) return false;
+    if (expected.minExclusive !== undefined && number <= expected.minExclusive) return false;
+    if (expected.maxExclusive !== undefined && number >= expected.maxExclusive) return false;
+  }
+  return true;
+}
+
+/**
+ * Readable form of an IDS value for reports, e.g. 'REI90', eines von ['A', 'B'], ≥ 0
+ */
+export function describeIdsValue(value: IdsValue): string {
+  if (value.kind === 'simple') return `'${value.value}'`;
+
+  const parts: string[] = [];
+  if (value.enumeration) parts.push(`eines von [${value.enumeration.map(option => `'${option}'`).join(', ')}]`);
+  if (value.pattern) parts.push(`Muster ${value.pattern.map(pattern => `/${pattern}/`).join(' oder ')}`);
+  if (value.minInclusive !== undefined) parts.push(`≥ ${value.minInclusive}`);
+  if (value.minExclusive !== undefined) parts.push(`> ${value.minExclusive}`);
+  if (value.maxInclusive !== undefined) parts.push(`≤ ${value.maxInclusive}`);
+  if (value.maxExclusive !== undefined) parts.push(`< ${value.maxExclusive}`);
+  if (value.length !== undefined) parts.push(`Länge ${value.length}`);
+  if (value.minLength !== undefined) parts.push(`Länge ≥ ${value.minLength}`);
+  if (value.maxLength !== undefined) parts.push(`Länge ≤ ${value.maxLength}`);
+  return parts.join(', ') || 'beliebig';
+}
+
+// Entity data
+
+function attributeValue(entity: IfcEntity, name: string): unknown {
+  const properties = entity.properties;
+  if (properties && name in properties) {
+    return unwrap(properties[name]);
+  }
+  // Attributes the extraction moved to entity fields
+  const fields: Record<string, unknown> = {
+    Name: entity.name,
+    GlobalId: entity.globalId,
+    Description: entity.description,
+    ObjectType: entity.objectType,
+    Tag: entity.tag
+  };
+  return fields[name];
+}
+
+function attributeNames(entity: IfcEntity, name: IdsValue): string[] {
+  if (name.kind === 'simple') return [name.value];
+  const keys = new Set([...Object.keys(entity.properties ?? {}), 'Name', 'GlobalId', 'Description', 'ObjectType', 'Tag']);
+  return Array.from(keys).filter(key => !key.startsWith('_') && matchesIdsValue(name, key));
+}
+
+function entityData(entity: IfcEntity): EntityData {
+  let propertySets: ItemPropertySet[] | undefined;
+  let classifications: ItemClassification[] | undefined;
+  let materials: string[] | undefined;
+  return {
+    entity,
+    get propertySets() {
+      return propertySets ??= readPropertySets(entity.properties);
+    },
+    get classifications() {
+      return classifications ??= readClassifications(entity.properties);
+    },
+    get materials() {
+      return materials ??= readMaterials(entity.properties);
+    }
+  };
+}
+
+// Facets
+
+function outcome(values: unknown[], expected: IdsValue | undefined, present = values.length > 0): FacetOutcome {
+  return {
+    present,
+    matched: present && (!expected || values.some(value => matchesIdsValue(expected, value))),
+    actual: values.length > 0 ? values.map(displayValue).join(', ') : undefined
+  };
+}
+
+function evaluateFacet(facet: IdsFacet, data: EntityData): FacetOutcome | null {
+  const { entity } = data;
+
+  switch (facet.kind) {
+    case 'entity': {
+      const type = entity.type.toUpperCase();
+      if (!matchesIdsValue(facet.name, type)) {
+        return { present: true, matched: false, actual: type, expected: facet.name };
+      }
+      if (!facet.predefinedType) {
+        return { present: true, matched: true };
+      }
+      const predefinedType = stringOf(entity.properties?.PredefinedType);
+      const effective = predefinedType === 'USERDEFINED' ? entity.objectType ?? stringOf(entity.properties?.ObjectType) : predefinedType;
+      return outcome(effective ? [effective] : [], facet.predefinedType);
+    }
+
+    case 'attribute': {
+      const values = attributeNames(entity, facet.name)
+        .map(name => attributeValue(entity, name))
+        .filter(value => !isEmpty(value) && typeof value !== 'object');
+      return outcome(values, facet.value);
+    }
+
+    case 'property': {
+      const properties = data.propertySets
+        .filter(set => matchesIdsValue(facet.propertySet, set.name))
+        .flatMap(set => set.properties.filter(property => matchesIdsValue(facet.baseName, property.name)))
+        .filter(property => !isEmpty(property.value));
+      // A known data type has to match; fragments data does not always carry it
+      const typed = facet.dataType
+        ? properties.filter(property => !property.dataType || property.dataType === facet.dataType)
+        : properties;
+      const values = typed.flatMap(property => (Array.isArray(property.value) ? property.value : [property.value]));
+      const result = outcome(values, facet.value, properties.length > 0);
+      if (properties.length > 0 && typed.length === 0) {
+        return { ...result, actual: `Datentyp ${properties.map(property => property.dataType).join(', ')}` };
+      }
+      return result;
+    }
+
+    case 'classification': {
+      const references = data.classifications.filter(reference => !facet.system
+        || (reference.system !== undefined && matchesIdsValue(facet.system, reference.system)));
+      const values = references
+        .map(reference => reference.identification)
+        .filter((value): value is string => value !== undefined);
+      return outcome(values, facet.value, references.length > 0);
+    }
+
+    case 'material':
+      return outcome(data.materials, facet.value);
+
+    case 'partOf':
+      return null;
+  }
+}
+
+function facetLabel(facet: IdsFacet): string {
+  const name = (value: IdsValue) => (value.kind === 'simple' ? value.value : `[${describeIdsValue(value)}]`);
+  switch (facet.kind) {
+    case 'entity': return facet.predefinedType ? 'PredefinedType' : 'IFC-Klasse';
+    case 'attribute': return `Attribut ${name(facet.name)}`;
+    case 'property': return `${name(facet.propertySet)}.${name(facet.baseName)}`;
+    case 'classification': return facet.system ? `Klassifikation ${name(facet.system)}` : 'Klassifikation';
+    case 'material': return 'Material';
+    case 'partOf': return `Teil von (${facet.relation ?? 'beliebig'})`;
+  }
+}
+
+function expectedValue(facet: IdsFacet): IdsValue | undefined {
+  switch (facet.kind) {
+    case 'entity': return facet.predefinedType;
+    case 'property': return facet.value;
+    case 'attribute': return facet.value;
+    case 'classification': return facet.value;
+    case 'material': return facet.value;
+    case 'partOf': return undefined;
+  }
+}
+
+// Reason a requirement failed, or null if it is satisfied
+function checkRequirement(facet: IdsFacet, data: EntityData): string | null {
+  const result = evaluateFacet(facet, data);
+  if (!result) return null;
+
+  const label = result.expected ? 'IFC-Klasse' : facetLabel(facet);
+  const expected = result.expected ?? expectedValue(facet);
+  const cardinality = facet.kind === 'entity' ? 'required' : facet.cardinality;
+
+  if (cardinality === 'prohibited') {
+    return result.matched ? `${label} ist unzulässig${result.actual ? ` (${result.actual})` : ''}` : null;
+  }
+  if (!result.present) {
+    return cardinality === 'required' ? `${label} fehlt` : null;
+  }
+  if (result.matched) return null;
+  return `${label} = ${result.actual ?? 'leer'}, erwartet ${expected ? describeIdsValue(expected) : 'einen Wert'}`;
+}
+
+// Null if the entity matches every evaluable facet but a facet cannot be evaluated (partOf)
+function isApplicable(specification: IdsSpecification, data: EntityData): boolean | null {
+  let open = false;
+  for (const facet of specification.applicability) {
+    const result = evaluateFacet(facet, data);
+    if (!result) open = true;
+    else if (!result.matched) return false;
+  }
+  return open ? null : true;
+}
+
+function validateSpecification(specification: IdsSpecification, entities: EntityData[]): IdsSpecificationResult {
+  const uncheckedFacets: IdsFacetKind[] = [...specification.applicability, ...specification.requirements]
+    .some(facet => facet.kind === 'partOf') ? ['partOf'] : [];
+  const summary = {
+    name: specification.name,
+    identifier: specification.identifier,
+    description: specification.description,
+    instructions: specification.instructions,
+    uncheckedFacets
+  };
+
+  const applicability = entities.map(data => isApplicable(specification, data));
+  if (applicability.includes(null)) {
+    return {
+      ...summary,
+      passed: false,
+      checked: false,
+      applicableCount: 0,
+      passedCount: 0,
+      failedCount: 0,
+      failures: []
+    };
+  }
+
+  const applicable = entities.filter((_, index) => applicability[index]);
+  const failures: IdsEntityFailure[] = [];
+
+  if (specification.cardinality !== 'prohibited') {
+    for (const data of applicable) {
+      const reasons = specification.requirements
+        .map(facet => checkRequirement(facet, data))
+        .filter((reason): reason is string => reason !== null);
+      if (reasons.length > 0) {
+        failures.push({
+          key: getEntityKey(data.entity),
+          type: data.entity.type,
+          name: data.entity.name,
+          globalId: data.entity.globalId,
+          reasons
+        });
+      }
+    }
+  }
+
+  let cardinalityError: string | undefined;
+  if (specification.cardinality === 'required' && applicable.length === 0) {
+    cardinalityError = 'Keine anwendbaren Bauteile im Modell, die Spezifikation verlangt mindestens eines.';
+  } else if (specification.cardinality === 'prohibited' && applicable.length > 0) {
+    cardinalityError = `${applicable.length} anwendbare Bauteile vorhanden, die Spezifikation verbietet sie.`;
+    applicable.forEach(data => failures.push({
+      key: getEntityKey(data.entity),
+      type: data.entity.type,
+      name: data.entity.name,
+      globalId: data.entity.globalId,
+      reasons: ['Bauteil ist laut Spezifikation unzulässig']
+    }));
+  }
+
+  return {
+    ...summary,
+    passed: failures.length === 0 && !cardinalityError,
+    checked: true,
+    applicableCount: applicable.length,
+    passedCount: applicable.length - failures.length,
+    failedCount: failures.length,
+    failures,
+    cardinalityError
+  };
+}
+
+/**
+ * Pass/fail report of every specification of the document against the given entities
+ */
+export function validateIds(document: IdsDocument, entities: IfcEntity[]): IdsReport {
+  const startTime = performance.now();
+  const data = entities.map(entityData);
+
+  const specifications = document.specifications.map(specification => validateSpecification(specification, data));
+  const passedSpecifications = specifications.filter(result => result.passed).length;
+  const uncheckedSpecifications = specifications.filter(result => !result.checked).length;
+
+  console.log(`📐 IDS ${document.title}: ${passedSpecifications}/${specifications.length} specifications passed, ${uncheckedSpecifications} not checked, ${entities.length} entities (${Math.round(performance.now() - startTime)}ms)`);
+  return {
+    documentId: document.id,
+    title: document.title,
+    checkedAt: new Date().toISOString(),
+    entityCount: entities.length,
+    passedSpecifications,
+    failedSpecifications: specifications.length - passedSpecifications - uncheckedSpecifications,
+    uncheckedSpecifications,
+    specifications
+  };
+}
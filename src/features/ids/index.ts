@@ -0,0 +1,4 @@
+// IDS - Centralized exports
+export { IdsFormatError, parseIds } from './ids-parser';
+export { validateIds, matchesIdsValue, describeIdsValue } from './ids-validator';
+export { IdsDocumentStore, idsDocumentStore } from './ids-document-store';
@@ -0,0 +1,302 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, ChevronDown, ChevronRight, Info, X } from 'lucide-react';
+import { EventBus } from '@/core/events/event-bus';
+import { getEntityKey, getEntityStore } from '@/core/entities';
+import { EntityKey, ItemPropertySet } from '@/types/bim';
+import { EntityInspection, InspectorComparisonRow, InspectorRelationKind, InspectorRelationTarget } from '@/types/inspector';
+import { ATTRIBUTE_GROUP, compareInspections, formatInspectorValue, inspectEntity } from '../entity-inspector';
+import { loadInspectorItemData } from '../item-loader';
+
+// Entities loaded and compared for a multi-selection; a storey selects thousands
+const MAX_INSPECTED_ENTITIES = 50;
+// Selections the back button returns to
+const MAX_HISTORY = 20;
+
+const RELATION_LABELS: Record<InspectorRelationKind, string> = {
+  containedIn: 'Enthalten in',
+  partOf: 'Teil von',
+  hasOpenings: 'Öffnungen',
+  voids: 'Öffnung in',
+  hasFillings: 'Gefüllt durch',
+  fills: 'Füllt',
+  connectedTo: 'Verbunden mit'
+};
+
+function formatThickness(value: number | undefined): string {
+  return value === undefined ? '–' : value.toLocaleString('de-DE', { maximumFractionDigits: 3 });
+}
+
+function sameKeys(a: EntityKey[], b: EntityKey[]): boolean {
+  return a.length === b.length && a.every((key, index) => key === b[index]);
+}
+
+function selectEntities(keys: EntityKey[]): void {
+  const globalIds = getEntityStore().getMany(keys)
+    .map(entity => entity.globalId)
+    .filter((globalId): globalId is string => !!globalId);
+  EventBus.emit('user:highlight', { keys, globalIds });
+}
+
+function Section({ title, count, children }: { title: string; count?: number; children: React.ReactNode }) {
+  const [open, setOpen] = useState(true);
+  return (
+    <div className="border-t">
+      <button
+        type="button"
+        className="flex w-full items-center gap-1 px-3 py-1 text-left text-xs font-semibold text-gray-700 hover:bg-gray-50"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+        <span className="truncate">{title}</span>
+        {count !== undefined && <span className="ml-auto font-normal text-gray-400">{count}</span>}
+      </button>
+      {open && <div className="pb-1">{children}</div>}
+    </div>
+  );
+}
+
+function ValueRow({ name, value, title, className = '' }: { name: string; value: string; title?: string; className?: string }) {
+  return (
+    <div className={`flex gap-2 px-3 py-0.5 pl-7 text-xs ${className}`} title={title}>
+      <span className="w-2/5 shrink-0 truncate text-gray-500" title={name}>{name}</span>
+      <span className="min-w-0 flex-1 break-words text-gray-800">{value}</span>
+    </div>
+  );
+}
+
+function PropertySetSection({ set }: { set: ItemPropertySet }) {
+  return (
+    <Section title={set.name} count={set.properties.length}>
+      {set.properties.map(property => (
+        <ValueRow key={property.name} name={property.name} value={formatInspectorValue(property.value)} title={property.dataType} />
+      ))}
+    </Section>
+  );
+}
+
+function TargetLink({ target }: { target: InspectorRelationTarget }) {
+  return (
+    <button
+      type="button"
+      className="block w-full truncate px-3 py-0.5 pl-7 text-left text-xs text-blue-700 hover:bg-blue-50 hover:underline"
+      onClick={() => selectEntities([target.key])}
+      title={`${target.type ?? 'Element'} ${target.key} auswählen`}
+    >
+      {target.name ?? target.key}
+      {target.type && <span className="ml-1 text-gray-400">{target.type}</span>}
+    </button>
+  );
+}
+
+function SingleInspection({ inspection }: { inspection: EntityInspection }) {
+  return (
+    <>
+      <Section title="Attribute" count={inspection.attributes.length}>
+        <ValueRow name="IFC-Klasse" value={inspection.type} />
+        {inspection.attributes.map(attribute => (
+          <ValueRow key={attribute.name} name={attribute.name} value={formatInspectorValue(attribute.value)} title={attribute.dataType} />
+        ))}
+      </Section>
+
+      {inspection.propertySets.map(set => <PropertySetSection key={`pset-${set.name}`} set={set} />)}
+      {inspection.quantitySets.map(set => <PropertySetSection key={`qto-${set.name}`} set={set} />)}
+
+      {(inspection.materialLayers.length > 0 || inspection.materials.length > 0) && (
+        <Section title="Material">
+          {inspection.materialLayers.map((layerSet, index) => (
+            <div key={index}>
+              {layerSet.name && <div className="px-3 py-0.5 pl-7 text-xs font-medium text-gray-700">{layerSet.name}</div>}
+              {layerSet.layers.map((layer, layerIndex) => (
+                <ValueRow
+                  key={layerIndex}
+                  name={`${layerIndex + 1}. ${layer.material ?? layer.name ?? 'Schicht'}`}
+                  value={formatThickness(layer.thickness)}
+                  title="Schichtdicke"
+                />
+              ))}
+            </div>
+          ))}
+          {inspection.materials.map(material => <ValueRow key={material} name="Material" value={material} />)}
+        </Section>
+      )}
+
+      {inspection.relations.length > 0 && (
+        <Section title="Beziehungen">
+          {inspection.relations.map(relation => (
+            <div key={relation.kind}>
+              <div className="px-3 py-0.5 pl-7 text-xs text-gray-500">{RELATION_LABELS[relation.kind]}</div>
+              {relation.targets.map(target => <TargetLink key={target.key} target={target} />)}
+            </div>
+          ))}
+        </Section>
+      )}
+    </>
+  );
+}
+
+function ComparisonRowView({ row, count }: { row: InspectorComparisonRow; count: number }) {
+  if (row.common) {
+    return <ValueRow name={row.name} value={formatInspectorValue(row.values[0])} />;
+  }
+  const missing = row.values.filter(value => value === undefined).length;
+  const distinct = Array.from(new Set(row.values.filter(value => value !== undefined).map(formatInspectorValue)));
+  const summary = distinct.length === 1
+    ? `${distinct[0]} (fehlt bei ${missing} von ${count})`
+    : `${distinct.length} verschiedene Werte${missing > 0 ? `, fehlt bei ${missing}` : ''}`;
+  return <ValueRow name={row.name} value={summary} title={distinct.join('\n')} className="bg-amber-50" />;
+}
+
+// Inspector of the selected entities: attributes, property sets, quantities, material layers and
+// navigable relationships; a multi-selection shows common and differing values
+export default function PropertyInspectorPanel() {
+  const [selection, setSelection] = useState<EntityKey[]>([]);
+  const [inspections, setInspections] = useState<EntityInspection[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [onlyDiffering, setOnlyDiffering] = useState(false);
+  const [history, setHistory] = useState<EntityKey[][]>([]);
+  // Number of the latest load; results of earlier loads are dropped
+  const requestRef = useRef(0);
+  // Last non-empty selection; the viewer clears the selection before every click
+  const selectionRef = useRef<EntityKey[]>([]);
+  const goingBackRef = useRef(false);
+
+  useEffect(() => {
+    const unsubscribeUser = EventBus.on('user:highlight', ({ keys }) => {
+      if (keys.length === 0) {
+        setSelection([]);
+        return;
+      }
+      const previous = selectionRef.current;
+      if (sameKeys(keys, previous)) {
+        setSelection(current => (current.length === 0 ? keys : current));
+        return;
+      }
+      if (goingBackRef.current) {
+        goingBackRef.current = false;
+      } else if (previous.length > 0) {
+        setHistory(current => [...current, previous].slice(-MAX_HISTORY));
+      }
+      selectionRef.current = keys;
+      setSelection(keys);
+      setDismissed(false);
+    });
+    const unsubscribeClear = EventBus.on('model:clear', () => {
+      selectionRef.current = [];
+      setSelection([]);
+      setHistory([]);
+    });
+    return () => {
+      unsubscribeUser();
+      unsubscribeClear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const request = ++requestRef.current;
+    if (selection.length === 0) {
+      setInspections([]);
+      return;
+    }
+
+    const store = getEntityStore();
+    const entities = store.getMany(selection.slice(0, MAX_INSPECTED_ENTITIES));
+    // Extracted properties right away, the item data with relations replaces them
+    setInspections(entities.map(entity => inspectEntity(entity, store)));
+    setLoading(true);
+    loadInspectorItemData(entities.map(getEntityKey))
+      .then(itemData => {
+        if (request !== requestRef.current) return;
+        setInspections(entities.map(entity => inspectEntity(entity, store, itemData.get(getEntityKey(entity)))));
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoading(false);
+      });
+  }, [selection]);
+
+  const comparison = useMemo(
+    () => (inspections.length > 1 ? compareInspections(inspections) : null),
+    [inspections]
+  );
+
+  const typeSummary = useMemo(() => {
+    const counts = new Map<string, number>();
+    inspections.forEach(inspection => counts.set(inspection.type, (counts.get(inspection.type) ?? 0) + 1));
+    return Array.from(counts.entries()).map(([type, count]) => `${count} × ${type}`).join(', ');
+  }, [inspections]);
+
+  const handleBack = () => {
+    const previous = history[history.length - 1];
+    if (!previous) return;
+    setHistory(history.slice(0, -1));
+    goingBackRef.current = true;
+    selectEntities(previous);
+  };
+
+  if (dismissed || inspections.length === 0) return null;
+
+  const single = inspections.length === 1 ? inspections[0] : null;
+  const comparedRows = comparison?.rows.filter(row => !onlyDiffering || !row.common) ?? [];
+  const groups = Array.from(new Set(comparedRows.map(row => row.group)));
+
+  return (
+    <div className="flex min-h-0 w-80 flex-col rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center gap-2 px-3 py-2">
+        {history.length > 0 && (
+          <button type="button" className="text-gray-500 hover:text-gray-900" onClick={handleBack} title="Zurück zur vorherigen Auswahl">
+            <ArrowLeft className="h-4 w-4" />
+          </button>
+        )}
+        <Info className="h-4 w-4 shrink-0 text-gray-700" />
+        <div className="min-w-0 flex-1">
+          {single ? (
+            <>
+              <div className="truncate font-semibold text-gray-700">{single.name ?? single.key}</div>
+              <div className="truncate text-xs text-gray-500" title={single.globalId}>
+                {single.type}{single.globalId ? ` · ${single.globalId}` : ''}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="font-semibold text-gray-700">{selection.length} Elemente ausgewählt</div>
+              <div className="truncate text-xs text-gray-500" title={typeSummary}>
+                {selection.length > inspections.length ? `Vergleich der ersten ${inspections.length}: ` : ''}{typeSummary}
+              </div>
+            </>
+          )}
+        </div>
+        {loading && <span className="text-xs text-gray-400">lädt…</span>}
+        <button type="button" className="text-gray-500 hover:text-gray-900" onClick={() => setDismissed(true)} aria-label="Schließen">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        {single && <SingleInspection inspection={single} />}
+
+        {comparison && (
+          <>
+            <label className="flex items-center gap-2 border-t px-3 py-1 text-xs text-gray-600">
+              <input type="checkbox" checked={onlyDiffering} onChange={event => setOnlyDiffering(event.target.checked)} />
+              Nur abweichende Werte
+              <span className="ml-auto text-gray-400">
+                {comparison.commonCount} gleich · {comparison.differingCount} verschieden
+              </span>
+            </label>
+            {groups.length === 0 && <div className="border-t px-3 py-2 text-xs text-gray-500">Keine Werte.</div>}
+            {groups.map(group => {
+              const rows = comparedRows.filter(row => row.group === group);
+              return (
+                <Section key={group} title={group === ATTRIBUTE_GROUP ? 'Attribute' : group} count={rows.length}>
+                  {rows.map(row => <ComparisonRowView key={row.name} row={row} count={inspections.length} />)}
+                </Section>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+/**
+ * Entity Inspector - what the property inspector shows for one entity, and the comparison
+ * of several entities
+ *
+ * Reads the fragments item data of an entity (fetched with relations by item-loader, or the
+ * extracted IfcEntity.properties):
+ *   attributes       direct IFC attributes with simple values
+ *   property sets    IsDefinedBy → IfcPropertySet, split from IfcElementQuantity
+ *   materials        IfcMaterialLayerSet layers, else the material names
+ *   relations        ContainedInStructure, Decomposes, HasOpenings/VoidsElements,
+ *                    HasFillings/FillsVoids, ConnectedTo/ConnectedFrom
+ */
+
+import {
+  DEFAULT_MODEL_ID,
+  EntityStore,
+  entityKey,
+  getEntityKey,
+  readMaterialLayers,
+  readMaterials,
+  readPropertySets,
+  stringOf
+} from '@/core/entities';
+import { unwrap } from '@/core/query/query-engine';
+import { ExtractedEntity, IfcEntity, ItemProperty, ItemPropertySet } from '@/types/bim';
+import {
+  EntityInspection,
+  InspectorComparison,
+  InspectorComparisonRow,
+  InspectorRelation,
+  InspectorRelationKind,
+  InspectorRelationTarget
+} from '@/types/inspector';
+
+type DataRecord = Record<string, unknown>;
+
+// Item data attributes holding related items, per relation kind of the inspector
+export const INSPECTOR_RELATION_ATTRIBUTES: Record<InspectorRelationKind, string[]> = {
+  containedIn: ['ContainedInStructure'],
+  partOf: ['Decomposes'],
+  hasOpenings: ['HasOpenings'],
+  voids: ['VoidsElements'],
+  hasFillings: ['HasFillings'],
+  fills: ['FillsVoids'],
+  connectedTo: ['ConnectedTo', 'ConnectedFrom']
+};
+
+// Group name of the direct attributes in comparisons
+export const ATTRIBUTE_GROUP = 'Attribute';
+
+// Attributes listed first, in this order; the rest follow as they come
+const LEADING_ATTRIBUTES = ['Name', 'Description', 'ObjectType', 'PredefinedType', 'Tag', 'LongName', 'GlobalId'];
+
+// Unique per entity, left out of comparisons
+const UNCOMPARED_ATTRIBUTES = new Set(['GlobalId', 'Tag']);
+
+const RELATION_KEYS = new Set(Object.values(INSPECTOR_RELATION_ATTRIBUTES).flat());
+
+function isRecord(value: unknown): value is DataRecord {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function categoryOf(node: DataRecord): string | undefined {
+  return stringOf(node._category)?.toUpperCase();
+}
+
+function localIdOf(node: DataRecord): number | undefined {
+  const localId = unwrap(node._localId);
+  return typeof localId === 'number' ? localId : undefined;
+}
+
+function readAttributes(data: DataRecord): ItemProperty[] {
+  const attributes: ItemProperty[] = [];
+  for (const [name, value] of Object.entries(data)) {
+    if (name.startsWith('_')) continue;
+    const unwrapped = unwrap(value);
+    if (unwrapped === null || unwrapped === undefined || unwrapped === '' || typeof unwrapped === 'object') continue;
+    attributes.push({
+      name,
+      value: unwrapped,
+      dataType: isRecord(value) && typeof value.type === 'string' ? value.type.toUpperCase() : undefined
+    });
+  }
+  const rank = (name: string) => {
+    const index = LEADING_ATTRIBUTES.indexOf(name);
+    return index === -1 ? LEADING_ATTRIBUTES.length : index;
+  };
+  return attributes.sort((a, b) => rank(a.name) - rank(b.name));
+}
+
+function isQuantitySet(set: ItemPropertySet): boolean {
+  return set.category === 'IFCELEMENTQUANTITY'
+    || (set.properties.length > 0 && set.properties.every(property => property.category?.startsWith('IFCQUANTITY')));
+}
+
+// Related items of one relation attribute; objectified relationships (IFCREL*) are resolved to
+// the items they relate, other than the inspected one
+function relatedItems(value: unknown, ownLocalId: number): DataRecord[] {
+  return [value].flat().filter(isRecord).flatMap(node => {
+    if (!categoryOf(node)?.startsWith('IFCREL')) return [node];
+    return Object.values(node)
+      .flatMap(child => [child].flat())
+      .filter(isRecord)
+      .filter(child => localIdOf(child) !== undefined && localIdOf(child) !== ownLocalId);
+  });
+}
+
+function readRelations(
+  data: DataRecord,
+  entity: IfcEntity,
+  store: EntityStore
+): InspectorRelation[] {
+  const modelId = entity.modelId ?? DEFAULT_MODEL_ID;
+  const ownLocalId = entity.expressID;
+
+  const targetOf = (localId: number, node?: DataRecord): InspectorRelationTarget => {
+    const key = entityKey(modelId, localId);
+    const known = store.get(key);
+    return {
+      key,
+      type: (node && categoryOf(node)) ?? known?.type,
+      name: (node && stringOf(node.Name)) ?? known?.name
+    };
+  };
+
+  const relations: InspectorRelation[] = [];
+  for (const [kind, attributes] of Object.entries(INSPECTOR_RELATION_ATTRIBUTES) as Array<[InspectorRelationKind, string[]]>) {
+    const targets = new Map<string, InspectorRelationTarget>();
+    attributes
+      .flatMap(attribute => relatedItems(data[attribute], ownLocalId))
+      .forEach(node => {
+        const localId = localIdOf(node);
+        if (localId !== undefined) targets.set(entityKey(modelId, localId), targetOf(localId, node));
+      });
+
+    // The extraction's containment when the item data came without relations
+    const spatialParent = (entity as ExtractedEntity).spatialParent;
+    if (kind === 'containedIn' && targets.size === 0 && spatialParent !== undefined) {
+      const target = targetOf(Number(spatialParent));
+      targets.set(target.key, target);
+    }
+
+    if (targets.size > 0) relations.push({ kind, targets: Array.from(targets.values()) });
+  }
+  return relations;
+}
+
+/**
+ * Inspector content of an entity; itemData are its fragments item data with relations,
+ * the extracted properties are used without them
+ */
+export function inspectEntity(entity: IfcEntity, store: EntityStore, itemData?: DataRecord): EntityInspection {
+  const data = itemData ?? entity.properties ?? {};
+  // Property sets and materials of the entity itself, not of related items
+  const ownData = Object.fromEntries(Object.entries(data).filter(([name]) => !RELATION_KEYS.has(name)));
+  const sets = readPropertySets(ownData);
+  const materialLayers = readMaterialLayers(ownData);
+
+  return {
+    key: getEntityKey(entity),
+    type: entity.type,
+    name: entity.name,
+    globalId: entity.globalId,
+    attributes: readAttributes(data),
+    propertySets: sets.filter(set => !isQuantitySet(set)),
+    quantitySets: sets.filter(isQuantitySet),
+    materialLayers,
+    materials: materialLayers.length > 0 ? [] : readMaterials(ownData),
+    relations: readRelations(data, entity, store)
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Attributes, properties and quantities of several entities side by side; rows keep the order
+ * in which the values first appear
+ */
+export function compareInspections(inspections: EntityInspection[]): InspectorComparison {
+  const rows = new Map<string, InspectorComparisonRow>();
+
+  const add = (group: string, property: ItemProperty, index: number) => {
+    const id = `${group}\u0000${property.name}`;
+    let row = rows.get(id);
+    if (!row) {
+      row = { group, name: property.name, values: new Array(inspections.length).fill(undefined), common: false };
+      rows.set(id, row);
+    }
+    row.values[index] = property.value;
+  };
+
+  inspections.forEach((inspection, index) => {
+    inspection.attributes
+      .filter(attribute => !UNCOMPARED_ATTRIBUTES.has(attribute.name))
+      .forEach(attribute => add(ATTRIBUTE_GROUP, attribute, index));
+    [...inspection.propertySets, ...inspection.quantitySets].forEach(set => {
+      set.properties.forEach(property => add(set.name, property, index));
+    });
+  });
+
+  const result = Array.from(rows.values());
+  result.forEach(row => {
+    row.common = row.values.every(value => value !== undefined && sameValue(value, row.values[0]));
+  });
+  const commonCount = result.filter(row => row.common).length;
+
+  return {
+    keys: inspections.map(inspection => inspection.key),
+    rows: result,
+    commonCount,
+    differingCount: result.length - commonCount
+  };
+}
+
+/**
+ * Display text of an attribute, property or quantity value
+ */
+export function formatInspectorValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '–';
+  if (typeof value === 'boolean') return value ? 'ja' : 'nein';
+  if (typeof value === 'number') return value.toLocaleString('de-DE', { maximumFractionDigits: 3 });
+  if (Array.isArray(value)) return value.map(formatInspectorValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,6 @@
+// Inspector - Centralized exports
+export { inspectEntity, compareInspections, formatInspectorValue, INSPECTOR_RELATION_ATTRIBUTES } from './entity-inspector';
+export { loadInspectorItemData } from './item-loader';
+
+// Components
+export { default as PropertyInspectorPanel } from './components/PropertyInspectorPanel';
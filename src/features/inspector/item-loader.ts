@@ -0,0 +1,44 @@
+/**
+ * Item Loader - fetches the item data of inspected entities from their fragments models,
+ * including the relations the extraction leaves out
+ */
+
+import type { ItemsDataConfig } from '@thatopen/fragments';
+import { entityKey, groupKeysByModel } from '@/core/entities';
+import { modelRegistry } from '@/core/models';
+import { EntityKey } from '@/types/bim';
+import { INSPECTOR_RELATION_ATTRIBUTES } from './entity-inspector';
+
+// Related items with their attributes only (name, class, local ID)
+const RELATED = { attributes: true, relations: false };
+// Property sets and material associations down to their values and layers
+const NESTED = { attributes: true, relations: true };
+
+const INSPECTOR_ITEM_DATA: Partial<ItemsDataConfig> = {
+  attributesDefault: true,
+  relations: {
+    IsDefinedBy: NESTED,
+    HasAssociations: NESTED,
+    ...Object.fromEntries(Object.values(INSPECTOR_RELATION_ATTRIBUTES).flat().map(name => [name, RELATED]))
+  }
+};
+
+/**
+ * Item data per entity key; entities of unknown models or failed requests are missing,
+ * the inspector then falls back to the extracted properties
+ */
+export async function loadInspectorItemData(keys: EntityKey[]): Promise<Map<EntityKey, Record<string, unknown>>> {
+  const result = new Map<EntityKey, Record<string, unknown>>();
+
+  for (const [modelId, localIds] of groupKeysByModel(keys)) {
+    const model = modelRegistry.get(modelId)?.model;
+    if (!model) continue;
+    try {
+      const items = await model.getItemsData(localIds, INSPECTOR_ITEM_DATA);
+      items.forEach((item, index) => result.set(entityKey(modelId, localIds[index]), item));
+    } catch (error) {
+      console.warn(`⚠️ Inspector: item data of model ${modelId} not available:`, error);
+    }
+  }
+  return result;
+}
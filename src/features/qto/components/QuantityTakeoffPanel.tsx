@@ -0,0 +1,193 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { Calculator, ChevronDown, ChevronUp, FileSpreadsheet, FileText, Play, X } from 'lucide-react';
+import { EventBus } from '@/core/events/event-bus';
+import { getEntityStore } from '@/core/entities';
+import { QtoGroupBy, QtoQuantityKind, QtoRow, QtoTable } from '@/types/qto';
+import { computeQuantityTakeoff } from '../quantity-takeoff';
+import { QTO_GROUP_LABELS, QTO_QUANTITY_LABELS, exportQtoCsv, exportQtoXlsx } from '../qto-export';
+
+// Rows rendered in the table; exports contain all of them
+const MAX_LISTED_ROWS = 100;
+
+const GROUP_OPTIONS: QtoGroupBy[] = ['type', 'storey', 'material', 'classification'];
+const QUANTITY_COLUMNS: QtoQuantityKind[] = ['length', 'area', 'volume', 'weight'];
+
+function downloadFile(data: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatQuantity(value: number): string {
+  return value === 0 ? '–' : value.toLocaleString('de-DE', { maximumFractionDigits: 2 });
+}
+
+// Quantity take-off below the viewer: choose the grouping, compute, export as CSV or XLSX
+export default function QuantityTakeoffPanel() {
+  const [groupBy, setGroupBy] = useState<QtoGroupBy[]>(['type']);
+  const [table, setTable] = useState<QtoTable | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Take-offs of the chat tool show up here as well
+    return EventBus.on('qto:computed', ({ table: latest }) => {
+      setTable(latest);
+      setGroupBy(latest.groupBy);
+      setExpanded(true);
+    });
+  }, []);
+
+  // Grouping dimensions in the order they were switched on
+  const toggleGroup = (dimension: QtoGroupBy) => {
+    setGroupBy(current => current.includes(dimension)
+      ? current.filter(entry => entry !== dimension)
+      : [...current, dimension]);
+  };
+
+  const handleCompute = () => {
+    const store = getEntityStore();
+    if (store.size === 0) {
+      setMessage('Kein Modell geladen.');
+      return;
+    }
+    setTable(computeQuantityTakeoff(store, { groupBy }));
+    setExpanded(true);
+    setMessage(null);
+  };
+
+  const handleExportCsv = () => {
+    if (table) downloadFile(exportQtoCsv(table), 'mengen.csv', 'text/csv;charset=utf-8');
+  };
+
+  const handleExportXlsx = async () => {
+    if (!table) return;
+    const data = await exportQtoXlsx(table);
+    downloadFile(new Uint8Array(data), 'mengen.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  };
+
+  const handleShowRow = (row: QtoRow) => {
+    const globalIds = getEntityStore().getMany(row.entityIds)
+      .map(entity => entity.globalId)
+      .filter((globalId): globalId is string => !!globalId);
+    EventBus.emit('user:highlight', { keys: row.entityIds, globalIds });
+  };
+
+  return (
+    <div className="rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <Calculator className="h-4 w-4 shrink-0 text-gray-700" />
+        <div className="flex min-w-0 flex-1 flex-wrap gap-1">
+          {GROUP_OPTIONS.map(dimension => (
+            <button
+              key={dimension}
+              type="button"
+              className={`rounded border px-1.5 py-0.5 text-xs ${groupBy.includes(dimension) ? 'border-gray-700 bg-gray-700 text-white' : 'text-gray-600 hover:text-gray-900'}`}
+              onClick={() => toggleGroup(dimension)}
+              aria-pressed={groupBy.includes(dimension)}
+            >
+              {QTO_GROUP_LABELS[dimension]}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-900"
+          onClick={handleCompute}
+          title="Mengen ermitteln"
+        >
+          <Play className="h-4 w-4" />
+        </button>
+        {table && (
+          <>
+            <button type="button" className="text-gray-500 hover:text-gray-900" onClick={handleExportCsv} title="Als CSV exportieren">
+              <FileText className="h-4 w-4" />
+            </button>
+            <button type="button" className="text-gray-500 hover:text-gray-900" onClick={handleExportXlsx} title="Als XLSX exportieren">
+              <FileSpreadsheet className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              className="text-gray-600 hover:text-gray-900"
+              onClick={() => setExpanded(!expanded)}
+              aria-label={expanded ? 'Tabelle einklappen' : 'Tabelle anzeigen'}
+            >
+              {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+            </button>
+          </>
+        )}
+      </div>
+
+      {message && (
+        <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-t text-xs text-gray-600">
+          <span>{message}</span>
+          <button type="button" onClick={() => setMessage(null)} aria-label="Hinweis schließen">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {table && expanded && (
+        <div className="max-h-64 overflow-auto border-t text-xs">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-white text-left text-gray-500">
+              <tr>
+                {table.groupBy.map(dimension => (
+                  <th key={dimension} className="px-2 py-1 font-medium">{QTO_GROUP_LABELS[dimension]}</th>
+                ))}
+                <th className="px-2 py-1 text-right font-medium">Anzahl</th>
+                {QUANTITY_COLUMNS.map(kind => (
+                  <th key={kind} className="whitespace-nowrap px-2 py-1 text-right font-medium">{QTO_QUANTITY_LABELS[kind]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, MAX_LISTED_ROWS).map(row => (
+                <tr
+                  key={row.groups.join('\u0000')}
+                  className="cursor-pointer text-gray-700 hover:bg-gray-100"
+                  onClick={() => handleShowRow(row)}
+                  title={row.estimatedCount > 0 ? `${row.estimatedCount} Bauteile mit geschätzten Werten` : 'Bauteile hervorheben'}
+                >
+                  {row.groups.map((group, index) => <td key={index} className="px-2 py-0.5">{group}</td>)}
+                  <td className="px-2 py-0.5 text-right">{row.count}</td>
+                  {QUANTITY_COLUMNS.map(kind => (
+                    <td key={kind} className="px-2 py-0.5 text-right">
+                      {formatQuantity(row[kind])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {table.rows.length > MAX_LISTED_ROWS && (
+                <tr>
+                  <td colSpan={table.groupBy.length + 1 + QUANTITY_COLUMNS.length} className="px-2 py-0.5 text-gray-400">
+                    … und {table.rows.length - MAX_LISTED_ROWS} weitere Zeilen (im Export enthalten)
+                  </td>
+                </tr>
+              )}
+            </tbody>
+            <tfoot className="border-t font-semibold text-gray-800">
+              <tr>
+                <td colSpan={table.groupBy.length} className="px-2 py-1">Summe</td>
+                <td className="px-2 py-1 text-right">{table.totals.count}</td>
+                {QUANTITY_COLUMNS.map(kind => (
+                  <td key={kind} className="px-2 py-1 text-right">{formatQuantity(table.totals[kind])}</td>
+                ))}
+              </tr>
+            </tfoot>
+          </table>
+          {table.totals.estimatedCount > 0 && (
+            <div className="px-3 py-1 text-gray-500">
+              {table.totals.estimatedCount} Bauteile mit Werten aus der Bounding Box oder der Materialdichte geschätzt.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+// QTO - Centralized exports
+export { readEntityQuantities, densityOf, QTO_QUANTITY_KINDS } from './quantity-extractor';
+export { computeQuantityTakeoff } from './quantity-takeoff';
+export { exportQtoCsv, exportQtoXlsx, QTO_GROUP_LABELS, QTO_QUANTITY_LABELS } from './qto-export';
+
+// Components
+export { default as QuantityTakeoffPanel } from './components/QuantityTakeoffPanel';
@@ -0,0 +1,183 @@
+/**
+ * QTO Export - quantity tables as CSV (German Excel: semicolons, decimal comma) and XLSX
+ */
+
+import JSZip from 'jszip';
+import { QtoGroupBy, QtoQuantityKind, QtoTable } from '@/types/qto';
+
+export const QTO_GROUP_LABELS: Record<QtoGroupBy, string> = {
+  type: 'Typ',
+  storey: 'Geschoss',
+  material: 'Material',
+  classification: 'Klassifikation'
+};
+
+export const QTO_QUANTITY_LABELS: Record<QtoQuantityKind, string> = {
+  length: 'Länge (m)',
+  area: 'Fläche (m²)',
+  volume: 'Volumen (m³)',
+  weight: 'Gewicht (kg)'
+};
+
+const QUANTITY_COLUMNS: QtoQuantityKind[] = ['length', 'area', 'volume', 'weight'];
+// Quantities are rounded to this many decimals in CSV and shown with them in XLSX
+const DECIMALS = 3;
+
+type Cell = string | number;
+
+// Header, one line per row and the totals line
+function tableCells(table: QtoTable): Cell[][] {
+  const header = [
+    ...table.groupBy.map(dimension => QTO_GROUP_LABELS[dimension]),
+    'Anzahl',
+    ...QUANTITY_COLUMNS.map(kind => QTO_QUANTITY_LABELS[kind]),
+    'davon geschätzt'
+  ];
+  const round = (value: number) => Number(value.toFixed(DECIMALS));
+  const rows = table.rows.map(row => [
+    ...row.groups,
+    row.count,
+    ...QUANTITY_COLUMNS.map(kind => round(row[kind])),
+    row.estimatedCount
+  ]);
+  // The label takes the first group column; without group columns the line has none
+  const totals = [
+    ...table.groupBy.map((_, index) => index === 0 ? 'Summe' : ''),
+    table.totals.count,
+    ...QUANTITY_COLUMNS.map(kind => round(table.totals[kind])),
+    table.totals.estimatedCount
+  ];
+  return [header, ...rows, totals];
+}
+
+function csvCell(cell: Cell): string {
+  if (typeof cell === 'number') return String(cell).replace('.', ',');
+  return /[";\n\r]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * CSV with a byte order mark, so Excel reads the umlauts as UTF-8
+ */
+export function exportQtoCsv(table: QtoTable): string {
+  return '\uFEFF' + tableCells(table).map(line => line.map(csvCell).join(';')).join('\r\n') + '\r\n';
+}
+
+// XLSX
+
+const BOLD_STYLE = 1;
+const NUMBER_STYLE = 2;
+const BOLD_NUMBER_STYLE = 3;
+const COUNT_STYLE = 4;
+const BOLD_COUNT_STYLE = 5;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let rest = index + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    name = String.fromCharCode(65 + ((rest - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// quantityColumns get the decimal format, other numbers (counts) the integer format
+function sheetXml(cells: Cell[][], quantityColumns: Set<number>): string {
+  const last = cells.length - 1;
+  const rows = cells.map((line, rowIndex) => {
+    const bold = rowIndex === 0 || rowIndex === last;
+    const xml = line.map((cell, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`;
+      if (typeof cell === 'number') {
+        const style = quantityColumns.has(columnIndex)
+          ? (bold ? BOLD_NUMBER_STYLE : NUMBER_STYLE)
+          : (bold ? BOLD_COUNT_STYLE : COUNT_STYLE);
+        return `<c r="${ref}" s="${style}"><v>${cell}</v></c>`;
+      }
+      const style = bold ? ` s="${BOLD_STYLE}"` : '';
+      return `<c r="${ref}" t="inlineStr"${style}><is><t>${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${xml.join('')}</row>`;
+  });
+  const widths = cells[0].map((_, index) => {
+    const width = Math.min(60, Math.max(10, ...cells.map(line => String(line[index] ?? '').length + 2)));
+    return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<cols>${widths.join('')}</cols>`
+    + `<sheetData>${rows.join('')}</sheetData>`
+    + '</worksheet>';
+}
+
+const CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+  + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+  + '<Default Extension="xml" ContentType="application/xml"/>'
+  + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+  + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+  + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+  + '</Types>';
+
+const ROOT_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+  + '</Relationships>';
+
+const WORKBOOK = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+  + '<sheets><sheet name="Mengen" sheetId="1" r:id="rId1"/></sheets>'
+  + '</workbook>';
+
+const WORKBOOK_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+  + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+  + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  + '</Relationships>';
+
+// Cell styles: 0 default, 1 bold, 2 number with DECIMALS decimals, 3 bold number,
+// 4 integer (built-in format 3), 5 bold integer
+const STYLES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+  + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+  + `<numFmts count="1"><numFmt numFmtId="164" formatCode="#,##0.${'0'.repeat(DECIMALS)}"/></numFmts>`
+  + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+  + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+  + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+  + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+  + '<cellXfs count="6">'
+  + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+  + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+  + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>'
+  + '<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+  + '<xf numFmtId="3" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>'
+  + '</cellXfs>'
+  + '</styleSheet>';
+
+/**
+ * XLSX workbook with one sheet "Mengen": bold header and totals line, frozen header row
+ */
+export async function exportQtoXlsx(table: QtoTable): Promise<Uint8Array> {
+  // Group columns and "Anzahl" come before the quantities
+  const firstQuantity = table.groupBy.length + 1;
+  const quantityColumns = new Set(QUANTITY_COLUMNS.map((_, index) => firstQuantity + index));
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': CONTENT_TYPES,
+    '_rels/.rels': ROOT_RELS,
+    'xl/workbook.xml': WORKBOOK,
+    'xl/_rels/workbook.xml.rels': WORKBOOK_RELS,
+    'xl/styles.xml': STYLES,
+    'xl/worksheets/sheet1.xml': sheetXml(tableCells(table), quantityColumns)
+  };
+  const zip = new JSZip();
+  // Office packages have no folder entries
+  Object.entries(parts).forEach(([name, xml]) => zip.file(name, xml, { createFolders: false }));
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
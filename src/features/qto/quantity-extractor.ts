@@ -0,0 +1,151 @@
+/**
+ * Quantity Extractor - length, area, volume and weight of one entity
+ *
+ * Every quantity takes the first source that has it:
+ *   quantity  IfcElementQuantity values (Qto_*Quantities, BaseQuantities), net before gross
+ *   property  property sets and attributes with the same names, e.g. Pset_*.NetVolume
+ *   geometry  world-space bounding box: volume, footprint area of slabs, roofs and spaces,
+ *             side area (length × height) and length (longest horizontal side) otherwise
+ *   density   weight only: volume × density of the first material with a known density
+ * Bounding boxes of rotated or curved elements are larger than the element, so
+ * geometry values are estimates.
+ */
+
+import { getEntityKey, readMaterials, readPropertySets } from '@/core/entities';
+import { unwrap } from '@/core/query/query-engine';
+import { IfcEntity, ItemProperty, ItemPropertySet } from '@/types/bim';
+import { EntityQuantities, QtoQuantityKind, QtoSource } from '@/types/qto';
+
+export const QTO_QUANTITY_KINDS: QtoQuantityKind[] = ['length', 'area', 'volume', 'weight'];
+
+// Quantity names in order of preference; any other quantity of the right class comes after them
+const QUANTITY_NAMES: Record<QtoQuantityKind, string[]> = {
+  length: ['Length', 'NetLength', 'GrossLength'],
+  area: [
+    'NetArea', 'NetSideArea', 'NetFloorArea', 'NetFootprintArea',
+    'GrossArea', 'GrossSideArea', 'GrossFloorArea', 'GrossFootprintArea', 'Area'
+  ],
+  volume: ['NetVolume', 'GrossVolume', 'Volume'],
+  weight: ['NetWeight', 'GrossWeight', 'Weight']
+};
+
+const QUANTITY_CATEGORIES: Record<QtoQuantityKind, string> = {
+  length: 'IFCQUANTITYLENGTH',
+  area: 'IFCQUANTITYAREA',
+  volume: 'IFCQUANTITYVOLUME',
+  weight: 'IFCQUANTITYWEIGHT'
+};
+
+// Elements whose area is the footprint of the bounding box instead of its side
+const HORIZONTAL_TYPES = new Set(['IFCSLAB', 'IFCROOF', 'IFCCOVERING', 'IFCSPACE', 'IFCFOOTING']);
+
+// Common construction material densities (kg/m³), matched as part of the material name
+const MATERIAL_DENSITIES: Record<string, number> = {
+  'stahlbeton': 2500,
+  'concrete': 2400,
+  'beton': 2400,
+  'steel': 7850,
+  'stahl': 7850,
+  'aluminum': 2700,
+  'aluminium': 2700,
+  'wood': 600,
+  'holz': 600,
+  'glass': 2500,
+  'glas': 2500,
+  'gipskarton': 900,
+  'gypsum': 900,
+  'insulation': 50,
+  'dämmung': 50,
+  'brick': 1800,
+  'ziegel': 1800,
+  'mauerwerk': 1800
+};
+
+/**
+ * Density in kg/m³ of a material name, undefined if the material is unknown
+ */
+export function densityOf(materialName: string): number | undefined {
+  const name = materialName.toLowerCase();
+  return Object.entries(MATERIAL_DENSITIES).find(([key]) => name.includes(key))?.[1];
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+// Value of the preferred named property, then of any property accepted by fallback
+function pick(
+  properties: ItemProperty[],
+  names: string[],
+  fallback?: (property: ItemProperty) => boolean
+): number | undefined {
+  for (const name of names) {
+    const value = positiveNumber(properties.find(property => property.name === name)?.value);
+    if (value !== undefined) return value;
+  }
+  if (!fallback) return undefined;
+  return properties
+    .filter(fallback)
+    .map(property => positiveNumber(property.value))
+    .find((value): value is number => value !== undefined);
+}
+
+function fromGeometry(entity: IfcEntity, kind: QtoQuantityKind): number | undefined {
+  const box = entity.boundingBox;
+  if (!box || kind === 'weight') return undefined;
+  // Viewer coordinates are Y-up: x and z span the floor plan, y is the height
+  const dx = box.max.x - box.min.x;
+  const dy = box.max.y - box.min.y;
+  const dz = box.max.z - box.min.z;
+  const horizontal = HORIZONTAL_TYPES.has(entity.type.toUpperCase());
+
+  switch (kind) {
+    case 'length': return horizontal ? undefined : positiveNumber(Math.max(dx, dz));
+    case 'area': return positiveNumber(horizontal ? dx * dz : Math.max(dx, dz) * dy);
+    case 'volume': return positiveNumber(dx * dy * dz);
+  }
+}
+
+/**
+ * Quantities of one entity with the source of every value
+ */
+export function readEntityQuantities(entity: IfcEntity): EntityQuantities {
+  const sets = readPropertySets(entity.properties);
+  const isQuantitySet = (set: ItemPropertySet) => set.category === 'IFCELEMENTQUANTITY' || /^(Qto_|BaseQuantities)/.test(set.name);
+  const quantities = sets.filter(isQuantitySet).flatMap(set => set.properties);
+  const properties: ItemProperty[] = [
+    ...sets.filter(set => !isQuantitySet(set)).flatMap(set => set.properties),
+    // Direct attributes, e.g. { Volume: 1.2 } of flat item data
+    ...Object.entries(entity.properties ?? {}).map(([name, value]) => ({ name, value: unwrap(value) }))
+  ];
+
+  const result: EntityQuantities = { key: getEntityKey(entity), values: {}, sources: {} };
+  for (const kind of QTO_QUANTITY_KINDS) {
+    const names = QUANTITY_NAMES[kind];
+    const readers: Array<[QtoSource, () => number | undefined]> = [
+      ['quantity', () => pick(quantities, names, quantity => quantity.category === QUANTITY_CATEGORIES[kind])],
+      ['property', () => pick(properties, names)],
+      ['geometry', () => fromGeometry(entity, kind)]
+    ];
+    for (const [source, read] of readers) {
+      const value = read();
+      if (value !== undefined) {
+        result.values[kind] = value;
+        result.sources[kind] = source;
+        break;
+      }
+    }
+  }
+
+  if (result.values.weight === undefined && result.values.volume !== undefined) {
+    const density = readMaterials(entity.properties)
+      .map(densityOf)
+      .find((value): value is number => value !== undefined);
+    if (density !== undefined) {
+      result.values.weight = result.values.volume * density;
+      result.sources.weight = 'density';
+    }
+  }
+  return result;
+}
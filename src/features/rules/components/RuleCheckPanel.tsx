@@ -0,0 +1,204 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronDown, ChevronUp, Info, ListChecks, Play, Trash2, Upload, X } from 'lucide-react';
+import { EventBus } from '@/core/events/event-bus';
+import { getEntityStore } from '@/core/entities';
+import { modelRegistry } from '@/core/models';
+import { RuleCheckReport, RuleFinding, RuleSet, RuleSeverity } from '@/types/rules';
+import { RuleSetFormatError, parseRuleSet } from '../rule-set-parser';
+import { ruleSetStore } from '../rule-set-store';
+
+// Findings listed per severity group
+const MAX_LISTED_FINDINGS = 50;
+
+const SEVERITIES: Array<{ severity: RuleSeverity; label: string; icon: React.ReactNode }> = [
+  { severity: 'error', label: 'Fehler', icon: <AlertCircle className="h-4 w-4 shrink-0 text-red-600" /> },
+  { severity: 'warning', label: 'Warnungen', icon: <AlertTriangle className="h-4 w-4 shrink-0 text-amber-600" /> },
+  { severity: 'info', label: 'Hinweise', icon: <Info className="h-4 w-4 shrink-0 text-blue-600" /> }
+];
+
+// Rule check results below the viewer: choose or load a rule set, run it, findings grouped by severity
+export default function RuleCheckPanel() {
+  const [ruleSets, setRuleSets] = useState<RuleSet[]>(() => ruleSetStore.list());
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [report, setReport] = useState<RuleCheckReport | null>(() => ruleSetStore.lastReport);
+  const [expanded, setExpanded] = useState(false);
+  const [openSeverity, setOpenSeverity] = useState<RuleSeverity | null>('error');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  useEffect(() => {
+    const unsubscribeSets = EventBus.on('rules:sets:changed', () => {
+      setRuleSets(ruleSetStore.list());
+      setReport(ruleSetStore.lastReport);
+    });
+    // Checks run by the chat tool show up here as well
+    const unsubscribeReports = EventBus.on('rules:checked', ({ report: latest }) => {
+      setReport(latest);
+      setSelectedName(latest.ruleSet);
+      setExpanded(true);
+    });
+    return () => {
+      unsubscribeSets();
+      unsubscribeReports();
+    };
+  }, []);
+
+  const selected = ruleSets.find(ruleSet => ruleSet.name === selectedName) ?? ruleSets[0];
+
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const ruleSet = parseRuleSet(await file.text(), file.name);
+      ruleSetStore.add(ruleSet);
+      setSelectedName(ruleSet.name);
+      setMessage(`${ruleSet.rules.length} Regeln aus ${file.name} geladen.`);
+    } catch (error) {
+      setMessage(error instanceof RuleSetFormatError ? error.message : 'Der Regelsatz konnte nicht gelesen werden.');
+    }
+  };
+
+  const handleRun = () => {
+    if (!selected) return;
+    const store = getEntityStore();
+    if (store.size === 0) {
+      setMessage('Kein Modell geladen.');
+      return;
+    }
+    ruleSetStore.run(selected, { store, octrees: modelRegistry.getOctreeReaders() });
+    setMessage(null);
+  };
+
+  const handleShowFinding = (finding: RuleFinding) => {
+    const globalIds = getEntityStore().getMany(finding.entityIds)
+      .map(entity => entity.globalId)
+      .filter((globalId): globalId is string => !!globalId);
+    EventBus.emit('user:highlight', { keys: finding.entityIds, globalIds });
+  };
+
+  const failedRules = report?.rules.filter(rule => rule.error) ?? [];
+
+  return (
+    <div className="rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <ListChecks className="h-4 w-4 shrink-0 text-gray-700" />
+        <select
+          className="min-w-0 flex-1 rounded border px-1 py-0.5 text-xs"
+          value={selected?.name ?? ''}
+          onChange={event => setSelectedName(event.target.value)}
+          aria-label="Regelsatz"
+        >
+          {ruleSets.map(ruleSet => (
+            <option key={ruleSet.name} value={ruleSet.name}>{ruleSet.name} ({ruleSet.rules.length} Regeln)</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-900 disabled:opacity-40"
+          onClick={handleRun}
+          disabled={!selected}
+          title="Regelsatz prüfen"
+        >
+          <Play className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          className="text-gray-500 hover:text-gray-900"
+          onClick={() => fileInputRef.current?.click()}
+          title="Regelsatz laden (JSON oder YAML)"
+        >
+          <Upload className="h-4 w-4" />
+        </button>
+        {selected && (
+          <button
+            type="button"
+            className="text-gray-400 hover:text-red-600"
+            onClick={() => ruleSetStore.remove(selected.name)}
+            aria-label={`${selected.name} entfernen`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+        {report && (
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+            onClick={() => setExpanded(!expanded)}
+            aria-label={expanded ? 'Ergebnisse einklappen' : 'Ergebnisse anzeigen'}
+          >
+            {SEVERITIES.map(({ severity, icon }) => (
+              <span key={severity} className="flex items-center gap-0.5">
+                {icon}
+                {report.severityCounts[severity]}
+              </span>
+            ))}
+            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+          </button>
+        )}
+        <input ref={fileInputRef} type="file" accept=".json,.yaml,.yml" className="hidden" onChange={handleLoad} />
+      </div>
+
+      {message && (
+        <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-t text-xs text-gray-600">
+          <span>{message}</span>
+          <button type="button" onClick={() => setMessage(null)} aria-label="Hinweis schließen">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {report && expanded && (
+        <div className="max-h-64 overflow-y-auto border-t py-1 text-xs">
+          <div className="px-3 py-1 text-gray-500">
+            {report.ruleSet}: {report.findings.length} Befunde, {report.rules.length} Regeln, {report.entityCount} Bauteile ({report.durationMs} ms)
+          </div>
+          {failedRules.map(rule => (
+            <div key={rule.ruleId} className="px-3 py-1 text-red-700">
+              Regel {rule.name} konnte nicht ausgeführt werden: {rule.error}
+            </div>
+          ))}
+          {SEVERITIES.map(({ severity, label, icon }) => {
+            const findings = report.findings.filter(finding => finding.severity === severity);
+            if (findings.length === 0) return null;
+            return (
+              <div key={severity} className="px-3 py-1">
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 text-left font-semibold text-gray-700"
+                  onClick={() => setOpenSeverity(openSeverity === severity ? null : severity)}
+                >
+                  {icon}
+                  {label} ({findings.length})
+                </button>
+                {openSeverity === severity && (
+                  <ul className="mt-1 space-y-0.5 border-l pl-2">
+                    {findings.slice(0, MAX_LISTED_FINDINGS).map((finding, index) => (
+                      <li key={index}>
+                        <button
+                          type="button"
+                          className="w-full text-left text-gray-700 hover:text-gray-900 disabled:cursor-default"
+                          onClick={() => handleShowFinding(finding)}
+                          disabled={finding.entityIds.length === 0}
+                          title={finding.entityIds.length > 0 ? 'Bauteile hervorheben' : undefined}
+                        >
+                          <span className="text-gray-400">{finding.ruleName}:</span> {finding.message}
+                        </button>
+                      </li>
+                    ))}
+                    {findings.length > MAX_LISTED_FINDINGS && (
+                      <li className="text-gray-400">… und {findings.length - MAX_LISTED_FINDINGS} weitere</li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Built-in rule sets, available without loading a file
+ */
+
+import { RuleSet } from '@/types/rules';
+
+export const DEFAULT_RULE_SETS: RuleSet[] = [
+  {
+    name: 'Basisprüfung',
+    description: 'Grundlegende Hausregeln für Brandschutz, Räume und Wände',
+    rules: [
+      {
+        id: 'door-fire-rating',
+        name: 'Türen mit Feuerwiderstand',
+        kind: 'property',
+        severity: 'error',
+        select: { types: ['IFCDOOR'] },
+        assert: 'FireRating EXISTS',
+        message: 'FireRating fehlt'
+      },
+      {
+        id: 'space-name',
+        name: 'Räume benannt',
+        kind: 'property',
+        severity: 'warning',
+        select: { types: ['IFCSPACE'] },
+        // The extraction names unnamed entities <TYPE>_<localId>
+        assert: 'name EXISTS AND NOT name =~ /^IFCSPACE_[0-9]+$/',
+        message: 'Raum hat keinen Namen'
+      },
+      {
+        id: 'storeys-present',
+        name: 'Geschosse vorhanden',
+        kind: 'count',
+        severity: 'error',
+        select: { types: ['IFCBUILDINGSTOREY'] },
+        min: 1
+      },
+      {
+        id: 'wall-in-storey',
+        name: 'Wände einem Geschoss zugeordnet',
+        kind: 'relationship',
+        severity: 'warning',
+        select: { types: ['IFCWALL', 'IFCWALLSTANDARDCASE'] },
+        relation: 'containedIn',
+        target: { types: ['IFCBUILDINGSTOREY'] }
+      },
+      {
+        id: 'wall-overlap',
+        name: 'Keine Wandüberschneidungen im Geschoss',
+        kind: 'geometric',
+        severity: 'warning',
+        select: { types: ['IFCWALL', 'IFCWALLSTANDARDCASE'] },
+        check: 'noOverlap',
+        sameContainer: true,
+        // Boxes of walls joined at a corner overlap by the wall thickness
+        minOverlapRatio: 0.1
+      }
+    ]
+  }
+];
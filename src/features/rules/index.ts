@@ -0,0 +1,9 @@
+// Rules - Centralized exports
+export { RuleSetFormatError, parseRuleSet, toRuleSet } from './rule-set-parser';
+export { runRuleSet, findingEntityKeys } from './rule-engine';
+export type { RuleContext } from './rule-engine';
+export { RuleSetStore, ruleSetStore } from './rule-set-store';
+export { DEFAULT_RULE_SETS } from './default-rule-sets';
+
+// Components
+export { default as RuleCheckPanel } from './components/RuleCheckPanel';
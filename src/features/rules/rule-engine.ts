@@ -0,0 +1,255 @@
+/**
+ * Rule Engine - runs a rule set against the entity store and the octrees of the loaded models
+ *
+ *   property      every selected entity satisfies the assertion (query DSL)
+ *   count         the number of selected entities lies within min/max
+ *   relationship  the spatial container of every selected entity matches the target selector
+ *   geometric     selected entities do not overlap; bounding boxes, octree candidates if available
+ */
+
+import { DEFAULT_MODEL_ID, EntityStore, entityKey, getEntityKey } from '@/core/entities';
+import { compileFilter, queryEntities } from '@/core/query';
+import type { OctreeReader } from '@/core/spatial/octree-builder';
+import type { BoundingBox } from '@/types/base';
+import type { EntityKey, ExtractedEntity, IfcEntity } from '@/types/bim';
+import {
+  CountRule,
+  GeometricRule,
+  ModelRule,
+  PropertyRule,
+  RelationshipRule,
+  RuleCheckReport,
+  RuleFinding,
+  RuleResult,
+  RuleSelector,
+  RuleSet,
+  RuleSeverity
+} from '@/types/rules';
+
+const DEFAULT_TOLERANCE = 0.01;
+// Entities named in a count finding when there are too many
+const MAX_COUNT_FINDING_ENTITIES = 100;
+const SEVERITY_ORDER: RuleSeverity[] = ['error', 'warning', 'info'];
+
+export interface RuleContext {
+  store: EntityStore;
+  // One octree per loaded model, by model id
+  octrees?: Map<string, OctreeReader> | null;
+}
+
+interface RuleOutcome {
+  checkedCount: number;
+  skippedCount: number;
+  findings: Array<Pick<RuleFinding, 'message' | 'entityIds'>>;
+}
+
+function select(store: EntityStore, selector: RuleSelector): IfcEntity[] {
+  return store.query({ types: selector.types, filter: selector.filter, models: selector.models }).entities;
+}
+
+function label(entity: IfcEntity): string {
+  return `${entity.type} '${entity.name ?? getEntityKey(entity)}'`;
+}
+
+// Spatial container (storey, space, ...) the extraction found for the entity
+function containerOf(store: EntityStore, entity: IfcEntity): IfcEntity | undefined {
+  const parent = (entity as ExtractedEntity).spatialParent;
+  return parent !== undefined ? store.get(entityKey(entity.modelId ?? DEFAULT_MODEL_ID, Number(parent))) : undefined;
+}
+
+function checkProperty(rule: PropertyRule, entities: IfcEntity[]): RuleOutcome {
+  const predicate = compileFilter(rule.assert);
+  return {
+    checkedCount: entities.length,
+    skippedCount: 0,
+    findings: entities
+      .filter(entity => !predicate(entity))
+      .map(entity => ({
+        message: `${label(entity)}: ${rule.message ?? `erfüllt „${rule.assert}“ nicht`}`,
+        entityIds: [getEntityKey(entity)]
+      }))
+  };
+}
+
+function checkCount(rule: CountRule, entities: IfcEntity[]): RuleOutcome {
+  const count = entities.length;
+  const findings: RuleOutcome['findings'] = [];
+
+  if (rule.min !== undefined && count < rule.min) {
+    findings.push({
+      message: rule.message ?? `${count} Bauteile gefunden, mindestens ${rule.min} erwartet`,
+      entityIds: entities.map(getEntityKey)
+    });
+  } else if (rule.max !== undefined && count > rule.max) {
+    findings.push({
+      message: rule.message ?? `${count} Bauteile gefunden, höchstens ${rule.max} erlaubt`,
+      entityIds: entities.slice(0, MAX_COUNT_FINDING_ENTITIES).map(getEntityKey)
+    });
+  }
+  return { checkedCount: count, skippedCount: 0, findings };
+}
+
+function checkRelationship(rule: RelationshipRule, entities: IfcEntity[], context: RuleContext): RuleOutcome {
+  const findings: RuleOutcome['findings'] = [];
+
+  for (const entity of entities) {
+    const container = containerOf(context.store, entity);
+    if (!container) {
+      findings.push({
+        message: `${label(entity)}: ${rule.message ?? 'hat keinen räumlichen Container'}`,
+        entityIds: [getEntityKey(entity)]
+      });
+    } else if (queryEntities([container], rule.target).totalCount === 0) {
+      findings.push({
+        message: `${label(entity)}: ${rule.message ?? `liegt in ${label(container)}, das nicht dem Ziel entspricht`}`,
+        entityIds: [getEntityKey(entity)]
+      });
+    }
+  }
+  return { checkedCount: entities.length, skippedCount: 0, findings };
+}
+
+function volumeOf(box: BoundingBox): number {
+  return (box.max.x - box.min.x) * (box.max.y - box.min.y) * (box.max.z - box.min.z);
+}
+
+// Penetration depth per axis, null if the boxes are apart, only touch within the tolerance
+// or share less than minRatio of the smaller box
+function overlapOf(a: BoundingBox, b: BoundingBox, tolerance: number, minRatio: number): [number, number, number] | null {
+  const depth = (['x', 'y', 'z'] as const).map(axis => Math.min(a.max[axis], b.max[axis]) - Math.max(a.min[axis], b.min[axis]));
+  if (!depth.every(value => value > tolerance)) return null;
+
+  const smaller = Math.min(volumeOf(a), volumeOf(b));
+  const ratio = smaller > 0 ? (depth[0] * depth[1] * depth[2]) / smaller : 1;
+  return ratio >= minRatio ? depth as [number, number, number] : null;
+}
+
+function checkGeometric(rule: GeometricRule, entities: IfcEntity[], context: RuleContext): RuleOutcome {
+  const { store, octrees } = context;
+  const tolerance = rule.tolerance ?? DEFAULT_TOLERANCE;
+  const minRatio = rule.minOverlapRatio ?? 0;
+  const targets = rule.target ? select(store, rule.target) : entities;
+  const targetKeys = new Set(targets.map(getEntityKey));
+  const useOctree = !!octrees && octrees.size > 0;
+  // Targets of models without an octree are compared with every entity
+  const scanned = useOctree
+    ? targets.filter(target => !octrees!.has(target.modelId ?? DEFAULT_MODEL_ID))
+    : targets;
+
+  const findings: RuleOutcome['findings'] = [];
+  const seenPairs = new Set<string>();
+  let skippedCount = 0;
+
+  for (const entity of entities) {
+    const bounds = entity.boundingBox;
+    if (!bounds) {
+      skippedCount++;
+      continue;
+    }
+
+    const key = getEntityKey(entity);
+    const region = {
+      minX: bounds.min.x, maxX: bounds.max.x,
+      minY: bounds.min.y, maxY: bounds.max.y,
+      minZ: bounds.min.z, maxZ: bounds.max.z
+    };
+    const candidates = useOctree
+      ? [
+          ...store.getMany(Array.from(octrees!).flatMap(([modelId, octree]) => octree.queryRegion(region).map(id => entityKey(modelId, id)))),
+          ...scanned
+        ]
+      : scanned;
+
+    for (const other of candidates) {
+      const otherKey = getEntityKey(other);
+      if (otherKey === key || !targetKeys.has(otherKey) || !other.boundingBox) continue;
+      if (rule.sameContainer && (other.modelId !== entity.modelId
+        || (other as ExtractedEntity).spatialParent !== (entity as ExtractedEntity).spatialParent)) continue;
+
+      const pair = key < otherKey ? `${key}|${otherKey}` : `${otherKey}|${key}`;
+      if (seenPairs.has(pair)) continue;
+      seenPairs.add(pair);
+
+      const depth = overlapOf(bounds, other.boundingBox, tolerance, minRatio);
+      if (depth) {
+        const size = depth.map(value => value.toFixed(2)).join(' × ');
+        findings.push({
+          message: `${label(entity)} und ${label(other)}: ${rule.message ?? `überschneiden sich (${size})`}`,
+          entityIds: [key, otherKey]
+        });
+      }
+    }
+  }
+  return { checkedCount: entities.length - skippedCount, skippedCount, findings };
+}
+
+function runRule(rule: ModelRule, context: RuleContext): RuleOutcome {
+  const entities = select(context.store, rule.select);
+  switch (rule.kind) {
+    case 'property': return checkProperty(rule, entities);
+    case 'count': return checkCount(rule, entities);
+    case 'relationship': return checkRelationship(rule, entities, context);
+    case 'geometric': return checkGeometric(rule, entities, context);
+  }
+}
+
+/**
+ * Findings of all rules of the set; a rule that fails to run is reported with its error
+ */
+export function runRuleSet(ruleSet: RuleSet, context: RuleContext): RuleCheckReport {
+  const startTime = performance.now();
+  const rules: RuleResult[] = [];
+  const findings: RuleFinding[] = [];
+
+  for (const rule of ruleSet.rules) {
+    const name = rule.name ?? rule.id;
+    try {
+      const outcome = runRule(rule, context);
+      outcome.findings.forEach(finding => findings.push({ ruleId: rule.id, ruleName: name, severity: rule.severity, ...finding }));
+      rules.push({
+        ruleId: rule.id,
+        name,
+        kind: rule.kind,
+        severity: rule.severity,
+        checkedCount: outcome.checkedCount,
+        findingCount: outcome.findings.length,
+        skippedCount: outcome.skippedCount
+      });
+    } catch (error) {
+      console.warn(`⚠️ Rule ${rule.id} failed:`, error);
+      rules.push({
+        ruleId: rule.id,
+        name,
+        kind: rule.kind,
+        severity: rule.severity,
+        checkedCount: 0,
+        findingCount: 0,
+        skippedCount: 0,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  const severityCounts: Record<RuleSeverity, number> = { error: 0, warning: 0, info: 0 };
+  findings.forEach(finding => severityCounts[finding.severity]++);
+
+  const durationMs = Math.round(performance.now() - startTime);
+  console.log(`📏 Rule set ${ruleSet.name}: ${findings.length} findings (${severityCounts.error} errors) in ${durationMs}ms`);
+  return {
+    ruleSet: ruleSet.name,
+    checkedAt: new Date().toISOString(),
+    entityCount: context.store.size,
+    durationMs,
+    rules,
+    findings,
+    severityCounts
+  };
+}
+
+/**
+ * Entities of the findings, without duplicates (for highlighting)
+ */
+export function findingEntityKeys(findings: RuleFinding[]): EntityKey[] {
+  return Array.from(new Set(findings.flatMap(finding => finding.entityIds)));
+}
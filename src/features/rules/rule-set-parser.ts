@@ -0,0 +1,122 @@
+/**
+ * Rule Set Parser - reads rule sets from JSON or YAML and checks them against the rule schema
+ * Selector filters and property assertions are parsed up front, so syntax errors show on load.
+ */
+
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { parseQuery, QuerySyntaxError } from '@/core/query';
+import { RuleSet } from '@/types/rules';
+
+export class RuleSetFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleSetFormatError';
+  }
+}
+
+const selectorSchema = z.object({
+  types: z.array(z.string().min(1)).optional(),
+  filter: z.string().min(1).optional(),
+  models: z.array(z.string().min(1)).optional()
+}).strict();
+
+const ruleBase = {
+  id: z.string().min(1),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  severity: z.enum(['error', 'warning', 'info']).default('warning'),
+  select: selectorSchema,
+  message: z.string().optional()
+};
+
+const ruleSchema = z.discriminatedUnion('kind', [
+  z.object({ ...ruleBase, kind: z.literal('property'), assert: z.string().min(1) }).strict(),
+  z.object({
+    ...ruleBase,
+    kind: z.literal('count'),
+    min: z.number().int().min(0).optional(),
+    max: z.number().int().min(0).optional()
+  }).strict(),
+  z.object({
+    ...ruleBase,
+    kind: z.literal('relationship'),
+    relation: z.literal('containedIn'),
+    target: selectorSchema
+  }).strict(),
+  z.object({
+    ...ruleBase,
+    kind: z.literal('geometric'),
+    check: z.literal('noOverlap'),
+    target: selectorSchema.optional(),
+    sameContainer: z.boolean().optional(),
+    tolerance: z.number().min(0).optional(),
+    minOverlapRatio: z.number().min(0).max(1).optional()
+  }).strict()
+]);
+
+const ruleSetSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  rules: z.array(ruleSchema).min(1)
+});
+
+function checkQuery(query: string | undefined, location: string): void {
+  if (!query) return;
+  try {
+    parseQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      throw new RuleSetFormatError(`${location}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Checks a parsed definition (e.g. from JSON) and returns it as rule set
+ */
+export function toRuleSet(definition: unknown): RuleSet {
+  const result = ruleSetSchema.safeParse(definition);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? issue.path.join('.') : 'Regelsatz';
+    throw new RuleSetFormatError(`Ungültiger Regelsatz bei ${path}: ${issue.message}`);
+  }
+
+  // Without strictNullChecks zod infers every key as optional; the schema guarantees the required ones
+  const ruleSet = result.data as RuleSet;
+  const ids = new Set<string>();
+  for (const rule of ruleSet.rules) {
+    if (ids.has(rule.id)) {
+      throw new RuleSetFormatError(`Die Regel-ID ${rule.id} ist doppelt vergeben.`);
+    }
+    ids.add(rule.id);
+
+    if (rule.kind === 'count' && rule.min === undefined && rule.max === undefined) {
+      throw new RuleSetFormatError(`Regel ${rule.id}: eine Zählregel braucht min oder max.`);
+    }
+    checkQuery(rule.select.filter, `Regel ${rule.id}, select.filter`);
+    if (rule.kind === 'property') checkQuery(rule.assert, `Regel ${rule.id}, assert`);
+    if (rule.kind === 'relationship') checkQuery(rule.target.filter, `Regel ${rule.id}, target.filter`);
+    if (rule.kind === 'geometric') checkQuery(rule.target?.filter, `Regel ${rule.id}, target.filter`);
+  }
+  return ruleSet;
+}
+
+/**
+ * Rule set from a JSON or YAML file; the format follows the file name, or is guessed from the text
+ */
+export function parseRuleSet(text: string, fileName?: string): RuleSet {
+  const json = fileName ? /\.json$/i.test(fileName) : text.trimStart().startsWith('{');
+  let definition: unknown;
+  try {
+    definition = json ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new RuleSetFormatError(`Die Datei ist kein gültiges ${json ? 'JSON' : 'YAML'}: ${(error as Error).message}`);
+  }
+
+  const ruleSet = toRuleSet(definition);
+  console.log(`📏 Rule set parsed: ${ruleSet.name}, ${ruleSet.rules.length} rules`);
+  return ruleSet;
+}
@@ -0,0 +1,65 @@
+/**
+ * Rule Set Store - the built-in and loaded rule sets of the session and the latest check report
+ */
+
+import { EventBus } from '@/core/events/event-bus';
+import { RuleCheckReport, RuleSet } from '@/types/rules';
+import { DEFAULT_RULE_SETS } from './default-rule-sets';
+import { RuleContext, runRuleSet } from './rule-engine';
+
+export class RuleSetStore {
+  private ruleSets = new Map<string, RuleSet>();
+  private report: RuleCheckReport | null = null;
+
+  constructor(ruleSets: RuleSet[] = DEFAULT_RULE_SETS) {
+    ruleSets.forEach(ruleSet => this.ruleSets.set(ruleSet.name, ruleSet));
+  }
+
+  list(): RuleSet[] {
+    return Array.from(this.ruleSets.values());
+  }
+
+  /**
+   * Rule set by name (case-insensitive)
+   */
+  get(name: string): RuleSet | undefined {
+    const wanted = name.toLowerCase();
+    return this.ruleSets.get(name) ?? this.list().find(ruleSet => ruleSet.name.toLowerCase() === wanted);
+  }
+
+  get lastReport(): RuleCheckReport | null {
+    return this.report;
+  }
+
+  /**
+   * Adds a rule set; a rule set with the same name replaces the known one
+   */
+  add(ruleSet: RuleSet): void {
+    this.ruleSets.set(ruleSet.name, ruleSet);
+    this.changed();
+  }
+
+  remove(name: string): void {
+    if (!this.ruleSets.delete(name)) return;
+    if (this.report?.ruleSet === name) {
+      this.report = null;
+    }
+    this.changed();
+  }
+
+  /**
+   * Runs a rule set and keeps the report as the latest one
+   */
+  run(ruleSet: RuleSet, context: RuleContext): RuleCheckReport {
+    this.report = runRuleSet(ruleSet, context);
+    EventBus.emit('rules:checked', { report: this.report });
+    return this.report;
+  }
+
+  private changed(): void {
+    EventBus.emit('rules:sets:changed', { count: this.ruleSets.size });
+  }
+}
+
+// Global singleton instance
+export const ruleSetStore = new RuleSetStore();
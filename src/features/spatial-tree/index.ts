@@ -0,0 +1,3 @@
+// Spatial Tree - Centralized exports
+export { buildSpatialTree, indexSpatialTree, ancestorIds, filterSpatialTree, countHighlighted } from './spatial-tree';
+export type { SpatialTreeModel, SpatialTreeIndex } from './spatial-tree';
@@ -0,0 +1,199 @@
+/**
+ * Spatial Tree - the IFC spatial decomposition of the loaded models as a tree
+ *
+ *   Project → Site → Building → Storey → Space        spatial nodes, from the extraction's spatial hierarchy
+ *     └ IFCWALL (12)                                   type nodes: contained elements grouped by IFC class
+ *         └ Wall 1                                     element nodes
+ * Elements with geometry that no spatial element contains are listed under an "unassigned" node.
+ * Spatial and element node ids are the entity keys, so highlight keys map straight onto nodes.
+ */
+
+import { EntityStore, entityKey, getEntityKey } from '@/core/entities';
+import { EntityKey, IfcEntity, SpatialHierarchy, SpatialHierarchyNode, SpatialTreeNode } from '@/types/bim';
+
+export interface SpatialTreeModel {
+  modelId: string;
+  name: string;
+  hierarchy: SpatialHierarchy;
+}
+
+export interface SpatialTreeIndex {
+  nodes: Map<string, SpatialTreeNode>;
+  // Node id -> id of its parent node
+  parents: Map<string, string>;
+}
+
+function byLabel(a: SpatialTreeNode, b: SpatialTreeNode): number {
+  return a.label.localeCompare(b.label, 'de', { numeric: true });
+}
+
+function elementNode(entity: IfcEntity): SpatialTreeNode {
+  const key = getEntityKey(entity);
+  return { id: key, kind: 'element', label: entity.name ?? key, type: entity.type, key, children: [], keys: [key], elementCount: 1 };
+}
+
+// Elements grouped by IFC class, one type node per class
+function typeNodes(parentId: string, entities: IfcEntity[]): SpatialTreeNode[] {
+  const byType = new Map<string, IfcEntity[]>();
+  entities.forEach(entity => {
+    const type = entity.type.toUpperCase();
+    const members = byType.get(type);
+    if (members) {
+      members.push(entity);
+    } else {
+      byType.set(type, [entity]);
+    }
+  });
+
+  return Array.from(byType.entries())
+    .map(([type, members]) => {
+      const children = members.map(elementNode).sort(byLabel);
+      return {
+        id: `${parentId}/${type}`,
+        kind: 'type' as const,
+        label: type,
+        type,
+        children,
+        keys: children.map(child => child.key!),
+        elementCount: children.length
+      };
+    })
+    .sort(byLabel);
+}
+
+function spatialNode(
+  node: SpatialHierarchyNode,
+  model: SpatialTreeModel,
+  store: EntityStore,
+  visited: Set<number>
+): SpatialTreeNode {
+  visited.add(node.localId);
+  const key = entityKey(model.modelId, node.localId);
+  const entity = store.get(key);
+
+  const spatialChildren = node.children
+    .map(localId => model.hierarchy[localId])
+    .filter(child => child && !visited.has(child.localId))
+    .map(child => spatialNode(child, model, store, visited));
+  const contents = typeNodes(key, store.getMany(node.items.map(localId => entityKey(model.modelId, localId))));
+  const children = [...spatialChildren, ...contents];
+
+  return {
+    id: key,
+    kind: 'spatial',
+    label: node.name ?? entity?.name ?? `${node.category} ${node.localId}`,
+    type: node.category,
+    key,
+    children,
+    keys: [key, ...children.flatMap(child => child.keys)],
+    elementCount: children.reduce((sum, child) => sum + child.elementCount, 0)
+  };
+}
+
+/**
+ * Tree of every model: its spatial roots and a node for the elements outside the spatial structure
+ */
+export function buildSpatialTree(models: SpatialTreeModel[], store: EntityStore): SpatialTreeNode[] {
+  const roots: SpatialTreeNode[] = [];
+
+  for (const model of models) {
+    const suffix = models.length > 1 ? ` (${model.name})` : '';
+    const visited = new Set<number>();
+    const modelRoots = Object.values(model.hierarchy)
+      .filter(node => node.parent === undefined || !model.hierarchy[node.parent])
+      .map(node => spatialNode(node, model, store, visited));
+    modelRoots.forEach(root => roots.push({ ...root, label: root.label + suffix }));
+
+    // Elements with geometry the spatial structure does not reach
+    const placed = new Set(modelRoots.flatMap(root => root.keys));
+    const unassigned = store.query({ models: [model.modelId] }).entities
+      .filter(entity => entity.boundingBox && !placed.has(getEntityKey(entity)));
+    if (unassigned.length > 0) {
+      const id = `${model.modelId}/unassigned`;
+      const children = typeNodes(id, unassigned);
+      roots.push({
+        id,
+        kind: 'unassigned',
+        label: `Ohne räumliche Zuordnung${suffix}`,
+        type: '',
+        children,
+        keys: children.flatMap(child => child.keys),
+        elementCount: unassigned.length
+      });
+    }
+  }
+  return roots;
+}
+
+/**
+ * Node lookup and parent links of a tree
+ */
+export function indexSpatialTree(roots: SpatialTreeNode[]): SpatialTreeIndex {
+  const index: SpatialTreeIndex = { nodes: new Map(), parents: new Map() };
+  const visit = (node: SpatialTreeNode, parentId?: string) => {
+    index.nodes.set(node.id, node);
+    if (parentId) index.parents.set(node.id, parentId);
+    node.children.forEach(child => visit(child, node.id));
+  };
+  roots.forEach(root => visit(root));
+  return index;
+}
+
+/**
+ * Ids of the ancestors of a node, root first
+ */
+export function ancestorIds(index: SpatialTreeIndex, id: string): string[] {
+  const ancestors: string[] = [];
+  for (let parent = index.parents.get(id); parent; parent = index.parents.get(parent)) {
+    ancestors.unshift(parent);
+  }
+  return ancestors;
+}
+
+/**
+ * Nodes whose label or IFC class contains every word of the search text, with their whole
+ * subtree, and the ancestors leading to them; expandedIds are those ancestors
+ */
+export function filterSpatialTree(
+  roots: SpatialTreeNode[],
+  text: string
+): { roots: SpatialTreeNode[]; expandedIds: Set<string> } {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  const expandedIds = new Set<string>();
+  if (words.length === 0) return { roots, expandedIds };
+
+  const matches = (node: SpatialTreeNode) => {
+    const haystack = `${node.label} ${node.type}`.toLowerCase();
+    return words.every(word => haystack.includes(word));
+  };
+  const filter = (node: SpatialTreeNode): SpatialTreeNode | null => {
+    if (matches(node)) return node;
+    const children = node.children
+      .map(filter)
+      .filter((child): child is SpatialTreeNode => child !== null);
+    if (children.length === 0) return null;
+    expandedIds.add(node.id);
+    return { ...node, children };
+  };
+  return {
+    roots: roots.map(filter).filter((root): root is SpatialTreeNode => root !== null),
+    expandedIds
+  };
+}
+
+/**
+ * Highlighted entities per node (the node itself and everything below it)
+ */
+export function countHighlighted(roots: SpatialTreeNode[], highlighted: Set<EntityKey>): Map<string, number> {
+  const counts = new Map<string, number>();
+  if (highlighted.size === 0) return counts;
+
+  const visit = (node: SpatialTreeNode): number => {
+    const own = node.kind !== 'type' && node.key && highlighted.has(node.key) ? 1 : 0;
+    const count = node.children.reduce((sum, child) => sum + visit(child), own);
+    if (count > 0) counts.set(node.id, count);
+    return count;
+  };
+  roots.forEach(visit);
+  return counts;
+}
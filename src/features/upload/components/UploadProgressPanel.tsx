@@ -0,0 +1,71 @@
+"use client";
+
+import React from 'react';
+import { AlertCircle, Upload, X } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { UploadPhase, UploadStatus } from '@/types/upload';
+
+const PHASE_LABELS: Record<UploadPhase, string> = {
+  validating: 'Wird geprüft...',
+  reading: 'Wird gelesen...',
+  cache: 'Suche im Fragment-Cache...',
+  converting: 'IFC wird konvertiert...',
+  saving: 'Wird zwischengespeichert...',
+  loading: 'Modell wird geladen...',
+  done: 'Fertig'
+};
+
+interface UploadProgressPanelProps {
+  uploads: UploadStatus[];
+  onCancel: (uploadId: string) => void;
+  onDismiss: (uploadId: string) => void;
+}
+
+// Running uploads with progress and cancel button; hidden while there are none
+export default function UploadProgressPanel({ uploads, onCancel, onDismiss }: UploadProgressPanelProps) {
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className="w-72 shrink-0 rounded-lg border bg-white bg-opacity-95 shadow-md pointer-events-auto text-sm">
+      <div className="flex items-center gap-2 px-3 py-2 border-b font-semibold text-gray-700">
+        <Upload className="h-4 w-4" />
+        Uploads ({uploads.length})
+      </div>
+      <ul className="max-h-64 overflow-y-auto py-1">
+        {uploads.map(upload => (
+          <li key={upload.uploadId} className="px-3 py-1.5">
+            <div className="flex items-center gap-2">
+              <span className="min-w-0 flex-1 truncate text-gray-800" title={upload.fileName}>
+                {upload.fileName}
+              </span>
+              {/* Loading into the viewer cannot be cancelled */}
+              {(upload.error || upload.phase !== 'loading') && (
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-red-600"
+                  onClick={() => (upload.error ? onDismiss(upload.uploadId) : onCancel(upload.uploadId))}
+                  aria-label={upload.error ? `${upload.fileName} ausblenden` : `${upload.fileName} abbrechen`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            {upload.error ? (
+              <div className="flex items-start gap-1 text-xs text-red-600">
+                <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                <span>{upload.error}</span>
+              </div>
+            ) : (
+              <>
+                <Progress value={Math.round(upload.progress * 100)} className="my-1" />
+                <div className="text-xs text-gray-500">
+                  {PHASE_LABELS[upload.phase]} {Math.round(upload.progress * 100)}%
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
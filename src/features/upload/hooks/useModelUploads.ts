@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react';
+import { EventBus } from '@/core/events/event-bus';
+import { UploadStatus } from '@/types/upload';
+import { modelUploads } from '../model-upload';
+
+// Running and failed uploads, kept in sync through the upload:* events
+export function useModelUploads() {
+  const [uploads, setUploads] = useState<UploadStatus[]>(() => modelUploads.list());
+
+  useEffect(() => {
+    const refresh = () => setUploads(modelUploads.list());
+    const unsubscribers = [
+      EventBus.on('upload:started', refresh),
+      EventBus.on('upload:progress', refresh),
+      EventBus.on('upload:completed', refresh),
+      EventBus.on('upload:failed', refresh),
+      EventBus.on('upload:cancelled', refresh)
+    ];
+    refresh();
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  const startUploads = useCallback((files: File[]) => files.map(file => modelUploads.start(file)), []);
+  const cancel = useCallback((uploadId: string) => modelUploads.cancel(uploadId), []);
+  const dismiss = useCallback((uploadId: string) => {
+    modelUploads.dismiss(uploadId);
+    setUploads(modelUploads.list());
+  }, []);
+
+  return { uploads, startUploads, cancel, dismiss };
+}
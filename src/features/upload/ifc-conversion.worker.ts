@@ -0,0 +1,33 @@
+// IFC conversion worker - runs the IfcImporter off the main thread so large files don't freeze the UI
+
+import * as FRAGS from '@thatopen/fragments';
+import { IfcWorkerRequest, IfcWorkerResponse } from '@/types/upload';
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<IfcWorkerRequest>) => void) | null;
+  postMessage: (message: IfcWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+ctx.onmessage = async (event) => {
+  const request = event.data;
+  if (request.type !== 'convert') return;
+
+  try {
+    const importer = new FRAGS.IfcImporter();
+    importer.wasm = { absolute: true, path: request.wasmPath };
+
+    const fragBytes = await importer.process({
+      bytes: new Uint8Array(request.bytes),
+      raw: true,
+      progressCallback: (progress, data) => {
+        ctx.postMessage({ type: 'progress', progress, process: data.process });
+      }
+    });
+
+    // Transfer instead of copy; the worker is done with the bytes
+    const buffer = fragBytes.buffer.slice(fragBytes.byteOffset, fragBytes.byteOffset + fragBytes.byteLength) as ArrayBuffer;
+    ctx.postMessage({ type: 'done', fragBytes: buffer }, [buffer]);
+  } catch (error) {
+    ctx.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,65 @@
+// Runs IFC -> FRAG conversions in a dedicated worker, one worker per conversion
+
+import { UploadCancelledError } from '@/types/api';
+import { IfcWorkerRequest, IfcWorkerResponse } from '@/types/upload';
+
+export interface WorkerConversionOptions {
+  fileName: string;
+  signal?: AbortSignal;
+  // Importer progress 0..1
+  onProgress?: (progress: number) => void;
+  wasmPath?: string;
+}
+
+/**
+ * Converts IFC bytes in a Web Worker. The bytes are transferred, so the caller's
+ * buffer is detached afterwards. Aborting terminates the worker immediately,
+ * which is the only way to stop a running web-ifc conversion.
+ */
+export function convertIfcInWorker(ifcBytes: Uint8Array, options: WorkerConversionOptions): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new UploadCancelledError(options.fileName));
+      return;
+    }
+
+    const worker = new Worker(new URL('./ifc-conversion.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new UploadCancelledError(options.fileName));
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<IfcWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          options.onProgress?.(Math.min(Math.max(message.progress, 0), 1));
+          break;
+        case 'done':
+          finish();
+          resolve(new Uint8Array(message.fragBytes));
+          break;
+        case 'error':
+          finish();
+          reject(new Error(`IFC conversion failed: ${message.message}`));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(`IFC conversion worker crashed: ${event.message}`));
+    };
+
+    const buffer = ifcBytes.byteOffset === 0 && ifcBytes.byteLength === ifcBytes.buffer.byteLength
+      ? ifcBytes.buffer as ArrayBuffer
+      : ifcBytes.slice().buffer;
+    const request: IfcWorkerRequest = { type: 'convert', bytes: buffer, wasmPath: options.wasmPath ?? '/wasm/' };
+    worker.postMessage(request, [buffer]);
+  });
+}
@@ -0,0 +1,9 @@
+// Upload Feature - Centralized exports
+export { ModelUploadManager, modelUploads } from './model-upload';
+export { convertIfcInWorker } from './ifc-worker-client';
+export type { WorkerConversionOptions } from './ifc-worker-client';
+export { validateUpload, readIfcSchema, getUploadFormat } from './upload-validation';
+export { useModelUploads } from './hooks/useModelUploads';
+
+// Components
+export { default as UploadProgressPanel } from './components/UploadProgressPanel';
@@ -0,0 +1,196 @@
+/**
+ * Model Upload - validate, read and (for IFC) convert dropped files
+ *
+ * IFC is converted in a Web Worker, unless the fragment cache already has a
+ * conversion of the same file. The result is emitted as file:uploaded, which the
+ * viewer loads; fragment:loaded then drives extraction and Smart Chunks.
+ * Progress and outcome are reported as upload:* events; the upload completes or
+ * fails once the viewer reports the load through loaded() or loadFailed().
+ */
+
+import { EventBus } from '@/core/events/event-bus';
+import { loadOrConvertIfc } from '@/features/fragments';
+import { UploadCancelledError } from '@/types/api';
+import { UploadPhase, UploadStatus } from '@/types/upload';
+import { convertIfcInWorker } from './ifc-worker-client';
+import { getUploadFormat, validateUpload } from './upload-validation';
+
+// Share of the whole upload at which each phase starts; converting fills the gap to saving
+const PHASE_START: Record<UploadPhase, number> = {
+  validating: 0,
+  reading: 0.05,
+  cache: 0.1,
+  converting: 0.15,
+  saving: 0.9,
+  loading: 0.95,
+  done: 1
+};
+
+interface UploadEntry {
+  status: UploadStatus;
+  controller: AbortController;
+  // Fragment came from the cache, reported with upload:completed
+  cached?: boolean;
+}
+
+export class ModelUploadManager {
+  private static instance: ModelUploadManager;
+  private uploads = new Map<string, UploadEntry>();
+  private counter = 0;
+
+  private constructor() {}
+
+  static getInstance(): ModelUploadManager {
+    if (!ModelUploadManager.instance) {
+      ModelUploadManager.instance = new ModelUploadManager();
+    }
+    return ModelUploadManager.instance;
+  }
+
+  /**
+   * Starts the upload and returns its id; the outcome arrives as events
+   */
+  start(file: File): string {
+    const uploadId = `upload_${Date.now()}_${++this.counter}`;
+    const status: UploadStatus = {
+      uploadId,
+      fileName: file.name,
+      fileSize: file.size,
+      format: getUploadFormat(file.name) ?? 'ifc',
+      phase: 'validating',
+      progress: 0,
+      startedAt: Date.now()
+    };
+    this.uploads.set(uploadId, { status, controller: new AbortController() });
+
+    EventBus.emit('upload:started', { uploadId, fileName: file.name, fileSize: file.size, format: status.format });
+    void this.run(uploadId, file);
+    return uploadId;
+  }
+
+  // Loading into the viewer cannot be cancelled
+  cancel(uploadId: string): void {
+    const upload = this.uploads.get(uploadId);
+    if (upload && upload.status.phase !== 'loading') upload.controller.abort();
+  }
+
+  cancelAll(): void {
+    this.uploads.forEach(upload => upload.controller.abort());
+  }
+
+  list(): UploadStatus[] {
+    return Array.from(this.uploads.values()).map(upload => ({ ...upload.status }));
+  }
+
+  // Removes a failed upload from the list
+  dismiss(uploadId: string): void {
+    this.uploads.delete(uploadId);
+  }
+
+  /**
+   * The viewer loaded the model of file:uploaded
+   */
+  loaded(uploadId: string): void {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) return;
+
+    this.setPhase(uploadId, 'done');
+    EventBus.emit('upload:completed', {
+      uploadId,
+      fileName: upload.status.fileName,
+      durationMs: Date.now() - upload.status.startedAt,
+      cached: upload.cached ?? false
+    });
+    this.uploads.delete(uploadId);
+  }
+
+  /**
+   * The viewer could not load the model of file:uploaded; the error is shown in the progress panel
+   */
+  loadFailed(uploadId: string, error: unknown): void {
+    const upload = this.uploads.get(uploadId);
+    if (upload) this.fail(uploadId, upload.status.fileName, error);
+  }
+
+  private async run(uploadId: string, file: File): Promise<void> {
+    const { signal } = this.uploads.get(uploadId)!.controller;
+    const checkCancelled = () => {
+      if (signal.aborted) throw new UploadCancelledError(file.name);
+    };
+
+    try {
+      const validation = await validateUpload(file);
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+      if (validation.schema) {
+        console.log(`📐 ${file.name}: schema ${validation.schema}`);
+      }
+      checkCancelled();
+
+      this.setPhase(uploadId, 'reading');
+      const bytes = await file.arrayBuffer();
+      checkCancelled();
+
+      const modelName = file.name.replace(/\.(ifc|frag)$/i, '');
+      let fragBytes = bytes;
+      let sourceHash: string | null = null;
+      let cached = false;
+
+      if (validation.format === 'ifc') {
+        const result = await loadOrConvertIfc(
+          bytes,
+          modelName,
+          ifcBytes => convertIfcInWorker(ifcBytes, {
+            fileName: file.name,
+            signal,
+            onProgress: progress => this.setPhase(uploadId, 'converting', progress)
+          }),
+          phase => {
+            checkCancelled();
+            this.setPhase(uploadId, phase);
+          }
+        );
+        checkCancelled();
+        fragBytes = result.buffer;
+        sourceHash = result.sourceHash;
+        cached = result.cached;
+      }
+
+      this.uploads.get(uploadId)!.cached = cached;
+      this.setPhase(uploadId, 'loading');
+      EventBus.emit('file:uploaded', { uploadId, fileName: file.name, modelName, fragBytes, sourceHash });
+
+    } catch (error) {
+      if (error instanceof UploadCancelledError) {
+        console.log(`🛑 Upload cancelled: ${file.name}`);
+        EventBus.emit('upload:cancelled', { uploadId, fileName: file.name });
+        this.uploads.delete(uploadId);
+        return;
+      }
+
+      this.fail(uploadId, file.name, error);
+    }
+  }
+
+  private fail(uploadId: string, fileName: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[ERROR] Upload of ${fileName} failed:`, error);
+    this.uploads.get(uploadId)!.status.error = message;
+    EventBus.emit('upload:failed', { uploadId, fileName, error: message });
+  }
+
+  // progress is the share within the phase (0..1)
+  private setPhase(uploadId: string, phase: UploadPhase, progress = 0): void {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) return;
+
+    const next = Object.values(PHASE_START).find(start => start > PHASE_START[phase]) ?? 1;
+    upload.status.phase = phase;
+    upload.status.progress = PHASE_START[phase] + (next - PHASE_START[phase]) * progress;
+    EventBus.emit('upload:progress', { uploadId, phase, progress: upload.status.progress });
+  }
+}
+
+// Global singleton instance
+export const modelUploads = ModelUploadManager.getInstance();
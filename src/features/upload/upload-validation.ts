@@ -0,0 +1,59 @@
+// Upload validation - format, size and IFC schema before anything is read or converted
+
+import { getMVPConfig } from '@/app/bim-context/config';
+import { UploadFormat, UploadValidationResult } from '@/types/upload';
+
+// Schemas web-ifc can convert
+const SUPPORTED_SCHEMAS = /^IFC(2X3|4|4X3(_\w+)?)$/i;
+
+// The header with FILE_SCHEMA is at the top of the file
+const HEADER_BYTES = 64 * 1024;
+
+export function getUploadFormat(fileName: string): UploadFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.ifc')) return 'ifc';
+  if (lower.endsWith('.frag')) return 'frag';
+  return null;
+}
+
+function formatMB(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Reads FILE_SCHEMA from the STEP header; null if the file is not a STEP file
+ */
+export async function readIfcSchema(file: Blob): Promise<string | null> {
+  const header = await file.slice(0, HEADER_BYTES).text();
+  if (!header.trimStart().startsWith('ISO-10303-21')) return null;
+  const match = header.match(/FILE_SCHEMA\s*\(\s*\(\s*'([^']+)'/i);
+  return match ? match[1].toUpperCase() : '';
+}
+
+export async function validateUpload(file: File): Promise<UploadValidationResult> {
+  const format = getUploadFormat(file.name);
+  if (!format) {
+    return { valid: false, error: 'Nur IFC- und FRAG-Dateien werden unterstützt' };
+  }
+
+  const maxUploadSize = getMVPConfig().api.maxUploadSize;
+  if (file.size === 0) {
+    return { valid: false, format, error: 'Die Datei ist leer' };
+  }
+  if (file.size > maxUploadSize) {
+    return { valid: false, format, error: `Datei ist ${formatMB(file.size)} groß, erlaubt sind ${formatMB(maxUploadSize)}` };
+  }
+
+  if (format === 'frag') {
+    return { valid: true, format };
+  }
+
+  const schema = await readIfcSchema(file);
+  if (schema === null) {
+    return { valid: false, format, error: 'Keine gültige IFC-Datei (STEP-Header fehlt)' };
+  }
+  if (!SUPPORTED_SCHEMAS.test(schema)) {
+    return { valid: false, format, schema, error: `IFC-Schema ${schema || 'unbekannt'} wird nicht unterstützt (IFC2X3, IFC4, IFC4X3)` };
+  }
+  return { valid: true, format, schema };
+}
@@ -27,4 +27,55 @@ export class CorruptedDataError extends StorageError {
     super(message, 'CORRUPTED_DATA', { filePath });
     this.name = 'CorruptedDataError';
   }
-}
\ No newline at end of file
+}
+
+// Thrown into the upload pipeline when the user cancels an upload
+export class UploadCancelledError extends Error {
+  constructor(fileName: string) {
+    super(`Upload cancelled: ${fileName}`);
+    this.name = 'UploadCancelledError';
+  }
+}
+
+// Remaining quota as reported by /api/claude (headers and stream events)
+export interface RateLimitQuotaInfo {
+  limit: number;
+  remaining: number;
+  resetTime: string;
+}
+
+export interface RateLimitUpdate {
+  requests: RateLimitQuotaInfo;
+  tokens?: RateLimitQuotaInfo;
+}
+
+// Cached IFC conversion as listed by /api/fragments
+export interface FragmentCacheEntry {
+  // Content hash (SHA-256 hex) of the source IFC, or of the fragment if uploaded without source
+  hash: string;
+  name: string;
+  size: number;
+  // SHA-256 of the stored .frag bytes
+  fragmentHash: string;
+  createdAt: string;
+  lastAccessAt: string;
+}
+
+export interface FragmentCacheStats {
+  directory: string;
+  entries: number;
+  totalBytes: number;
+  maxBytes: number;
+}
+
+// Smart Chunks project stored on the server, as listed by /api/context/projects
+export interface ContextProjectSummary {
+  projectId: string;
+  name: string;
+  fileName: string;
+  totalChunks: number;
+  totalEntities: number;
+  totalTokens: number;
+  created: string;
+  updated: string;
+}
@@ -0,0 +1,60 @@
+// BCF (BIM Collaboration Format) types for issue exchange with Revit, Solibri & co.
+
+export type BcfVersion = '2.1' | '3.0';
+
+// Perspective camera in IFC coordinates (Z up), as stored in viewpoint.bcfv
+export interface BcfCamera {
+  viewPoint: [number, number, number];
+  direction: [number, number, number];
+  upVector: [number, number, number];
+  // Vertical field of view in degrees
+  fieldOfView: number;
+  aspectRatio: number;
+}
+
+export interface BcfSnapshot {
+  fileName: string;
+  // PNG or JPEG bytes
+  data: Uint8Array;
+}
+
+export interface BcfViewpoint {
+  guid: string;
+  camera?: BcfCamera;
+  // IFC GlobalIds of the selected components
+  selection: string[];
+  snapshot?: BcfSnapshot;
+}
+
+export interface BcfComment {
+  guid: string;
+  date: string;
+  author: string;
+  comment: string;
+  viewpointGuid?: string;
+}
+
+export interface BcfTopic {
+  guid: string;
+  title: string;
+  description?: string;
+  topicType?: string;
+  topicStatus?: string;
+  priority?: string;
+  labels: string[];
+  creationDate: string;
+  creationAuthor: string;
+  modifiedDate?: string;
+  modifiedAuthor?: string;
+  assignedTo?: string;
+  dueDate?: string;
+  comments: BcfComment[];
+  viewpoints: BcfViewpoint[];
+}
+
+export interface BcfProject {
+  version: BcfVersion;
+  projectId?: string;
+  projectName?: string;
+  topics: BcfTopic[];
+}
@@ -12,7 +12,7 @@ export interface BentoLayoutProps extends React.HTMLAttributes<HTMLDivElement> {
 }
 
 export interface BentoAreaProps extends React.HTMLAttributes<HTMLDivElement> {
-  area: "header" | "background" | "chat-content" | "chat-input" | "entity-overlay" | "chat-frame"
+  area: "header" | "background" | "chat-content" | "chat-input" | "entity-overlay" | "chat-frame" | "results"
   children?: React.ReactNode
   className?: string
   glass?: boolean
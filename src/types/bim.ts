@@ -3,8 +3,14 @@
 import { Vec3, BoundingBox, BaseEntity } from './base';
 
 // IFC Entity Types
+
+// Model-scoped entity key "modelId:localId" - express IDs are only unique within one model
+export type EntityKey = string;
+
 export interface IfcEntity {
   expressID: number;
+  // Fragments model the entity was extracted from
+  modelId?: string;
   type: string;
   name?: string;
   globalId?: string;
@@ -139,6 +145,40 @@ export interface IfcQuantity {
   type: 'length' | 'area' | 'volume' | 'weight' | 'count' | 'time';
 }
 
+// Named value of a property set or element quantity in fragments item data
+export interface ItemProperty {
+  name: string;
+  value: unknown;
+  dataType?: string;
+  // IFC class of the value node, e.g. IFCPROPERTYSINGLEVALUE or IFCQUANTITYVOLUME
+  category?: string;
+}
+
+// Property set or element quantity (category IFCELEMENTQUANTITY); flat { Pset: { Prop } } objects have no category
+export interface ItemPropertySet {
+  name: string;
+  category?: string;
+  properties: ItemProperty[];
+}
+
+export interface ItemClassification {
+  system?: string;
+  identification?: string;
+  name?: string;
+}
+
+// Layer of an IfcMaterialLayerSet, thickness in model units
+export interface ItemMaterialLayer {
+  material?: string;
+  name?: string;
+  thickness?: number;
+}
+
+export interface ItemMaterialLayerSet {
+  name?: string;
+  layers: ItemMaterialLayer[];
+}
+
 // Geometry information
 export interface GeometryData {
   volume?: number; // m³
@@ -228,9 +268,29 @@ export interface UseViewerReturn {
   componentsRef: React.RefObject<any>;
   worldRef: React.RefObject<any>;
   fragmentsRef: React.RefObject<any>;
-  currentModelRef: React.RefObject<any>;
   initializeViewer: () => Promise<void>;
-  loadFragmentFromBytes: (bytes: ArrayBuffer, modelId: string) => Promise<void>;
+  loadFragmentFromBytes: (bytes: ArrayBuffer, modelId: string, name?: string) => Promise<void>;
+  getLoadedModelIds: () => string[];
+  setModelVisible: (modelId: string, visible: boolean) => Promise<void>;
+  unloadModel: (modelId: string) => Promise<void>;
+}
+
+// Camera position and look-at target in world coordinates
+export interface CameraViewpoint {
+  position: [number, number, number];
+  target: [number, number, number];
+  // Vertical field of view in degrees (perspective camera)
+  fov?: number;
+}
+
+// Model of the federation, as shown in the model list
+export interface FederatedModelInfo {
+  id: string;
+  name: string;
+  entityCount: number;
+  visible: boolean;
+  // False until entity extraction has finished
+  ready: boolean;
 }
 
 // Extracted Entity for improved entity extraction
@@ -238,5 +298,38 @@ export interface ExtractedEntity extends IfcEntity {
   localId: number;
   category: string;
   position?: { x: number; y: number; z: number };
+  // Local ID of the spatial element (storey, space, ...) that contains the entity
   spatialParent?: string;
+}
+
+// Spatial element of the IFC decomposition (project, site, building, storey, space), by local ID
+export interface SpatialHierarchyNode {
+  localId: number;
+  category: string;
+  name?: string;
+  parent?: number;
+  // Spatial elements below this one
+  children: number[];
+  // Elements contained directly (walls, doors, furniture, ...)
+  items: number[];
+}
+
+export type SpatialHierarchy = Record<string, SpatialHierarchyNode>;
+
+export type SpatialTreeNodeKind = 'spatial' | 'type' | 'element' | 'unassigned';
+
+// Node of the spatial tree panel: spatial elements, their contents grouped by IFC class, elements
+export interface SpatialTreeNode {
+  id: string;
+  kind: SpatialTreeNodeKind;
+  label: string;
+  // IFC class; the grouped class for type nodes
+  type: string;
+  // Entity of spatial and element nodes
+  key?: EntityKey;
+  children: SpatialTreeNode[];
+  // Entities of the node and everything below it, for selecting and isolating
+  keys: EntityKey[];
+  // Elements below the node, spatial elements not counted
+  elementCount: number;
 } 
\ No newline at end of file
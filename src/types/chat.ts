@@ -2,12 +2,37 @@
  * Chat-specific TypeScript types
  */
 
+import { RunUsage } from './claude';
+import { CameraViewpoint, EntityKey } from './bim';
+
 // Chat message type
 export interface ChatMessage {
+  id?: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp?: string;
   isError?: boolean;
+  // Set while the assistant answer is still being streamed
+  isStreaming?: boolean;
+  toolSteps?: ChatToolStep[];
+  // Token usage and estimated cost of the tool-chain run behind this answer
+  usage?: RunUsage;
+  // Entities highlighted in the viewer by this answer
+  highlightedEntityIds?: EntityKey[];
+  // Reference (content hash or name) of each model id in highlightedEntityIds; model ids change on every load
+  entityModels?: Record<string, string>;
+  // Camera when the answer was finished, re-applied in replay
+  viewpoint?: CameraViewpoint;
+}
+
+// A tool executed while answering, shown live under the assistant message
+export interface ChatToolStep {
+  id: string;
+  tool: string;
+  status: 'running' | 'done' | 'error';
+  duration?: number;
+  // Parameters the tool was called with ($refs resolved)
+  input?: Record<string, unknown>;
 }
 
 // Chat state
@@ -59,6 +84,7 @@ export interface ChatPipelineResult {
   highlightedEntities?: number[];
   contextUsed?: boolean;
   chunksUsed?: number;
+  usage?: RunUsage;
 }
 
 // Chat Pipeline Error
@@ -85,4 +111,57 @@ export interface ChatModelContext {
   entityTypes: string[];
   modelName?: string;
   modelPath?: string;
+}
+
+// Conversation memory of the tool chain (features/ai/memory)
+
+// A tool call of an earlier turn, kept short for the prompt
+export interface ConversationToolRecord {
+  tool: string;
+  input: Record<string, unknown>;
+  summary: string;
+}
+
+// Entities the last answer was about; follow-ups ("davon", "those") refer to them
+export interface WorkingEntitySet {
+  tool: string;
+  // Tool input that produced the set, e.g. the bim_search parameters
+  input: Record<string, unknown>;
+  entityIds: string[];
+  totalCount: number;
+  // False if entityIds is only a page of the result
+  complete: boolean;
+  turn: number;
+}
+
+export interface ConversationTurn {
+  turn: number;
+  user: string;
+  assistant: string;
+  toolCalls: ConversationToolRecord[];
+  timestamp: string;
+}
+
+// Chat sessions persisted in the browser (features/chat/sessions)
+
+export interface ChatSession {
+  id: string;
+  name: string;
+  // Content hash of the loaded model(s) the session belongs to
+  modelKey: string;
+  modelNames: string[];
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Session as shown in the session list, without its messages
+export type ChatSessionInfo = Omit<ChatSession, 'messages'> & { messageCount: number };
+
+// File format of the JSON export, loaded again for replay
+export interface ChatSessionExport {
+  format: 'bim-chat-session';
+  version: 1;
+  exportedAt: string;
+  session: ChatSession;
 }
\ No newline at end of file
@@ -214,6 +214,8 @@ export interface DirectSelectionParams {
   keywords?: string[];
   queryType?: 'count' | 'find' | 'spatial' | 'system' | 'general';
   maxTokens?: number;
+  // Tokens left in the caller's session budget; unlimited if missing
+  remainingBudget?: number;
 }
 
 // Index Collection for chunk lookups
@@ -233,6 +235,24 @@ export interface ChunkSelectionMetrics {
   tokenEfficiency: number;
 }
 
+// Smart Chunks project persisted in the browser (IndexedDB), keyed by the model's content hash
+export interface StoredChunkProject {
+  contentHash: string;
+  projectId: string;
+  name: string;
+  manifest: ProjectManifest;
+  index: ChunkIndex;
+  chunkCount: number;
+  totalTokens: number;
+  totalEntities: number; // entities the chunks were built from
+  size: number; // approx. bytes of the serialized chunks
+  createdAt: number;
+  lastAccessAt: number;
+}
+
+// Listing entry without manifest and index
+export type StoredChunkProjectInfo = Omit<StoredChunkProject, 'manifest' | 'index'>;
+
 // MVP Configuration for Smart Chunks
 export interface MVPConfig {
   // Token limits
@@ -1,5 +1,7 @@
 // Claude-spezifische TypeScript Types
 
+import { RateLimitUpdate } from './api';
+
 // Claude Configuration
 export interface ClaudeConfig {
   apiKey: string;
@@ -10,10 +12,108 @@ export interface ClaudeConfig {
 
 export interface ClaudeResponse {
   content: string;
+  blocks?: ClaudeContentBlock[];
+  stopReason?: string | null;
+  model?: string;
   usage?: {
     inputTokens: number;
     outputTokens: number;
   };
   cached?: boolean;
+  error?: {
+    message: string;
+    code: string;
+    status?: number;
+    retry_after?: number;
+  };
+}
+
+// Native tool use (Anthropic Messages API)
+export interface ClaudeToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+}
+
+export interface ClaudeTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ClaudeToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ClaudeToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type ClaudeContentBlock = ClaudeTextBlock | ClaudeToolUseBlock | ClaudeToolResultBlock;
+
+export interface ClaudeMessage {
+  role: 'user' | 'assistant';
+  content: string | ClaudeContentBlock[];
+}
+
+export interface ClaudeUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+// Server-sent events of /api/claude in streaming mode (body: { stream: true })
+export type ClaudeStreamEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'tool_use_start'; id: string; name: string }
+  | { type: 'tool_use_end'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'usage'; usage: ClaudeUsage }
+  | { type: 'done'; content: ClaudeContentBlock[]; stop_reason: string | null; usage: ClaudeUsage; model?: string }
+  | { type: 'rate_limit'; rateLimit: RateLimitUpdate }
+  | { type: 'error'; error: string; code: string };
+
+export interface ClaudeMessageRequest {
+  messages: ClaudeMessage[];
+  system?: string;
+  tools?: ClaudeToolDefinition[];
+  maxTokens?: number;
+}
+
+// Token usage accounting (per tool-chain run and per browser session)
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  // Estimated from the model price list, see features/ai/usage/pricing.ts
+  costUsd: number;
+  calls: number;
+}
+
+// Hard limits; a run stops gracefully once one of them is reached
+export interface UsageBudget {
+  maxRunTokens?: number;
+  maxRunCostUsd?: number;
+  maxSessionTokens?: number;
+  maxSessionCostUsd?: number;
+}
+
+export interface BudgetExceeded {
+  scope: 'run' | 'session';
+  kind: 'tokens' | 'cost';
+  limit: number;
+  used: number;
+}
+
+export interface RunUsage extends UsageTotals {
+  model?: string;
+  session: UsageTotals;
+  budgetExceeded?: BudgetExceeded;
 }
- 
\ No newline at end of file
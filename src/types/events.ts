@@ -1,9 +1,16 @@
 // Event System Types
 
+import type { EntityKey, FederatedModelInfo } from './bim';
+import type { UploadFormat, UploadPhase } from './upload';
+import type { IdsReport } from './ids';
+import type { RuleCheckReport } from './rules';
+import type { QtoTable } from './qto';
+
 export type EventHandler<T = any> = (data: T) => void;
 export type UnsubscribeFn = () => void;
 
 export interface EventMap {
+  // Entities of all loaded models; fragmentId is the model that changed
   'entities:loaded': { 
     entities: any[]; 
     count?: number; 
@@ -24,13 +31,24 @@ export interface EventMap {
       uuid: string;
     };
   };
-  'highlight:entities': { expressIds: number[]; globalIds: string[] };
-  'user:highlight': { expressIds: number[]; globalIds?: string[] };
-  'ai:highlight': { expressIds: number[]; globalIds?: string[] };
+  // Highlights address entities by model-scoped key ("modelId:localId")
+  'highlight:entities': { keys: EntityKey[]; globalIds: string[] };
+  'user:highlight': { keys: EntityKey[]; globalIds?: string[] };
+  'ai:highlight': { keys: EntityKey[]; globalIds?: string[] };
+  // Shows only these entities in the viewer; no keys shows all of them again
+  'viewer:isolate': { keys: EntityKey[] };
   'model:loaded': { name: string; stats: any };
+  'model:removed': { modelId: string };
+  'models:changed': { models: FederatedModelInfo[] };
   'query:executed': { result: any };
   'chat:message': { message: string; role: 'user' | 'assistant' };
-  'file:uploaded': { model: any; uploadedFileData?: ArrayBuffer };
+  // Validated (and for IFC converted) upload, ready to be loaded as fragments model
+  'file:uploaded': { uploadId: string; fileName: string; modelName: string; fragBytes: ArrayBuffer; sourceHash?: string | null };
+  'upload:started': { uploadId: string; fileName: string; fileSize: number; format: UploadFormat };
+  'upload:progress': { uploadId: string; phase: UploadPhase; progress: number };
+  'upload:completed': { uploadId: string; fileName: string; durationMs: number; cached: boolean };
+  'upload:failed': { uploadId: string; fileName: string; error: string };
+  'upload:cancelled': { uploadId: string; fileName: string };
   'spatial:index:ready': { fragmentId: string; octreeBuffer: Uint8Array; entityCount?: number };
   'chunks:ready': { fragmentId: string; chunkCount: number; totalEntities: number; chunkManager: any };
   'chunk:loaded': { chunkId: string; entityCount: number; memoryUsage: number };
@@ -57,5 +75,20 @@ export interface EventMap {
     projectId: string; 
     totalChunks: number; 
     totalEntities: number; 
+    // Chunks were taken from the browser store instead of being re-chunked
+    restored?: boolean;
   };
+  // Smart Chunks projects persisted in IndexedDB, keyed by content hash
+  'smartchunks:stored': { contentHash: string; projectId: string; chunkCount: number };
+  'smartchunks:evicted': { contentHashes: string[] };
+  // BCF topics of the session were created, changed, imported or removed
+  'bcf:topics:changed': { count: number };
+  // IDS documents were loaded or removed, or a validation finished
+  'ids:documents:changed': { count: number };
+  'ids:validated': { report: IdsReport };
+  // Rule sets were loaded or removed, or a rule check finished
+  'rules:sets:changed': { count: number };
+  'rules:checked': { report: RuleCheckReport };
+  // A quantity take-off was computed (panel or chat tool)
+  'qto:computed': { table: QtoTable };
 }
\ No newline at end of file
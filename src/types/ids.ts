@@ -0,0 +1,105 @@
+// IDS (Information Delivery Specification) types for checking models against information requirements
+
+import type { EntityKey } from './bim';
+
+// Allowed values of a facet parameter: a fixed value or an xs:restriction
+export type IdsValue =
+  | { kind: 'simple'; value: string }
+  | {
+    kind: 'restriction';
+    base?: string;
+    enumeration?: string[];
+    // XSD patterns, matched against the whole value
+    pattern?: string[];
+    minInclusive?: number;
+    maxInclusive?: number;
+    minExclusive?: number;
+    maxExclusive?: number;
+    length?: number;
+    minLength?: number;
+    maxLength?: number;
+  };
+
+// required: must match, optional: must match if present, prohibited: must not match
+export type IdsCardinality = 'required' | 'optional' | 'prohibited';
+
+export type IdsFacet =
+  | { kind: 'entity'; name: IdsValue; predefinedType?: IdsValue }
+  | { kind: 'attribute'; name: IdsValue; value?: IdsValue; cardinality: IdsCardinality }
+  | {
+    kind: 'property';
+    propertySet: IdsValue;
+    baseName: IdsValue;
+    value?: IdsValue;
+    // IFC measure type, e.g. IFCLABEL or IFCLENGTHMEASURE
+    dataType?: string;
+    cardinality: IdsCardinality;
+  }
+  | { kind: 'classification'; system?: IdsValue; value?: IdsValue; cardinality: IdsCardinality }
+  | { kind: 'material'; value?: IdsValue; cardinality: IdsCardinality }
+  // Parsed but not checked: the extracted entities have no containment/aggregation relations
+  | { kind: 'partOf'; relation?: string; cardinality: IdsCardinality };
+
+export type IdsFacetKind = IdsFacet['kind'];
+
+export interface IdsSpecification {
+  name: string;
+  identifier?: string;
+  description?: string;
+  instructions?: string;
+  ifcVersions: string[];
+  // From minOccurs/maxOccurs of the applicability: how many applicable entities the model may have
+  cardinality: IdsCardinality;
+  applicability: IdsFacet[];
+  requirements: IdsFacet[];
+}
+
+export interface IdsDocument {
+  // Loaded file name, or the title if the document was not read from a file
+  id: string;
+  title: string;
+  version?: string;
+  author?: string;
+  date?: string;
+  description?: string;
+  specifications: IdsSpecification[];
+}
+
+export interface IdsEntityFailure {
+  key: EntityKey;
+  type: string;
+  name?: string;
+  globalId?: string;
+  // One entry per failed requirement, e.g. "Pset_WallCommon.FireRating fehlt"
+  reasons: string[];
+}
+
+export interface IdsSpecificationResult {
+  name: string;
+  identifier?: string;
+  description?: string;
+  instructions?: string;
+  passed: boolean;
+  // False if the applicability cannot be evaluated (partOf): no entity is checked, the
+  // specification neither passes nor fails
+  checked: boolean;
+  applicableCount: number;
+  passedCount: number;
+  failedCount: number;
+  failures: IdsEntityFailure[];
+  // Set when the number of applicable entities violates the specification cardinality
+  cardinalityError?: string;
+  // Facets that are not checked (partOf), listed so the report does not claim more than it checked
+  uncheckedFacets: IdsFacetKind[];
+}
+
+export interface IdsReport {
+  documentId: string;
+  title: string;
+  checkedAt: string;
+  entityCount: number;
+  passedSpecifications: number;
+  failedSpecifications: number;
+  uncheckedSpecifications: number;
+  specifications: IdsSpecificationResult[];
+}
@@ -13,4 +13,11 @@ export * from './utils';     // Utility types (ChunkLogEntry, etc.)
 export * from './ui';        // UI component types
 export * from './spatial';   // Spatial query types
 export * from './bento-types'; // Bento layout types
-export * from './claude';    // Claude API types
\ No newline at end of file
+export * from './claude';    // Claude API types
+export * from './query';     // Entity query DSL types
+export * from './upload';    // Model upload and IFC worker types
+export * from './bcf';       // BCF issue exchange types
+export * from './ids';       // IDS information requirement checking types
+export * from './rules';     // Rule-based model check types
+export * from './qto';       // Quantity take-off types
+export * from './inspector'; // Property inspector types
@@ -0,0 +1,58 @@
+// Property inspector: attributes, property sets, quantities, materials and relationships of selected entities
+
+import type { EntityKey, ItemMaterialLayerSet, ItemProperty, ItemPropertySet } from './bim';
+
+// IFC relationships listed by the inspector:
+//   containedIn   spatial container (IfcRelContainedInSpatialStructure)
+//   partOf        aggregating element (IfcRelAggregates), e.g. the stair of a flight
+//   hasOpenings   openings cut into the element (IfcRelVoidsElement)
+//   voids         element an opening is cut into
+//   hasFillings   doors and windows filling the element's openings (IfcRelFillsElement)
+//   fills         opening a door or window fills
+//   connectedTo   connected elements in both directions (IfcRelConnectsElements)
+export type InspectorRelationKind =
+  | 'containedIn' | 'partOf' | 'hasOpenings' | 'voids' | 'hasFillings' | 'fills' | 'connectedTo';
+
+export interface InspectorRelationTarget {
+  key: EntityKey;
+  type?: string;
+  name?: string;
+}
+
+export interface InspectorRelation {
+  kind: InspectorRelationKind;
+  targets: InspectorRelationTarget[];
+}
+
+export interface EntityInspection {
+  key: EntityKey;
+  type: string;
+  name?: string;
+  globalId?: string;
+  // Direct IFC attributes (Name, Description, ObjectType, Tag, PredefinedType, ...)
+  attributes: ItemProperty[];
+  propertySets: ItemPropertySet[];
+  // Element quantities (IfcElementQuantity)
+  quantitySets: ItemPropertySet[];
+  materialLayers: ItemMaterialLayerSet[];
+  // Material names when the entity has no layer set
+  materials: string[];
+  relations: InspectorRelation[];
+}
+
+export interface InspectorComparisonRow {
+  // "Attribute" or the name of the property set / element quantity
+  group: string;
+  name: string;
+  // Value per inspected entity, in inspection order; undefined where the entity lacks the value
+  values: unknown[];
+  // Every entity has the value and all values are equal
+  common: boolean;
+}
+
+export interface InspectorComparison {
+  keys: EntityKey[];
+  rows: InspectorComparisonRow[];
+  commonCount: number;
+  differingCount: number;
+}
@@ -0,0 +1,52 @@
+// Quantity take-off: quantities per entity and tables grouped by type, storey, material, classification
+
+import type { EntityKey } from './bim';
+
+export type QtoGroupBy = 'type' | 'storey' | 'material' | 'classification';
+
+export type QtoQuantityKind = 'length' | 'area' | 'volume' | 'weight';
+
+// Where a value came from: element quantity (Qto_*, BaseQuantities), property set or attribute,
+// bounding box of the geometry, or volume × material density
+export type QtoSource = 'quantity' | 'property' | 'geometry' | 'density';
+
+export interface EntityQuantities {
+  key: EntityKey;
+  // Model units, usually m, m², m³ and kg
+  values: Partial<Record<QtoQuantityKind, number>>;
+  sources: Partial<Record<QtoQuantityKind, QtoSource>>;
+}
+
+export interface QtoOptions {
+  types?: string[];
+  // Query DSL filter, e.g. `Pset_WallCommon.IsExternal = true`
+  filter?: string;
+  models?: string[];
+  // Restricts the take-off to these entities (keys or express IDs), e.g. the working set
+  entityIds?: Array<string | number>;
+  // Grouping dimensions, outermost first (default: type)
+  groupBy?: QtoGroupBy[];
+}
+
+export interface QtoRow {
+  // Group value per dimension, in groupBy order
+  groups: string[];
+  count: number;
+  length: number;
+  area: number;
+  volume: number;
+  weight: number;
+  // Entities with a value estimated from the bounding box or a material density
+  estimatedCount: number;
+  entityIds: EntityKey[];
+}
+
+export type QtoTotals = Omit<QtoRow, 'groups' | 'entityIds'>;
+
+export interface QtoTable {
+  groupBy: QtoGroupBy[];
+  // Sorted by group values
+  rows: QtoRow[];
+  totals: QtoTotals;
+  createdAt: string;
+}
@@ -0,0 +1,41 @@
+// Entity query DSL types (core/query)
+
+export type QueryComparison = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '=~';
+
+export type QueryValue = string | number | boolean | null | { pattern: string; flags: string };
+
+// Parsed filter expression, e.g. `Pset_WallCommon.IsExternal = true AND NOT FireRating < 60`
+export type QueryNode =
+  | { kind: 'and'; nodes: QueryNode[] }
+  | { kind: 'or'; nodes: QueryNode[] }
+  | { kind: 'not'; node: QueryNode }
+  | { kind: 'compare'; path: string; op: QueryComparison; value: QueryValue }
+  | { kind: 'in'; path: string; values: QueryValue[] }
+  | { kind: 'between'; path: string; min: number; max: number }
+  | { kind: 'exists'; path: string };
+
+export interface EntityQuery {
+  // DSL string or an already parsed expression
+  filter?: string | QueryNode;
+  // IFC types (case-insensitive)
+  types?: string[];
+  // Model ids of a federation; all models if omitted
+  models?: string[];
+  // Restricts the query to these entities (keys or express IDs), e.g. an earlier result set
+  entityIds?: Array<string | number>;
+  // Free text, matched against names and property values
+  text?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  groupBy?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EntityQueryResult<T> {
+  totalCount: number;
+  entities: T[];
+  typeCounts: Record<string, number>;
+  // Counts per value of groupBy
+  groups?: Record<string, number>;
+}
@@ -0,0 +1,97 @@
+// Rule-based model checks: rule set definitions (JSON/YAML) and findings
+
+import type { EntityKey } from './bim';
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+// Entities a rule applies to; filter uses the query DSL, e.g. `Pset_WallCommon.IsExternal = true`
+export interface RuleSelector {
+  types?: string[];
+  filter?: string;
+  models?: string[];
+}
+
+interface RuleBase {
+  id: string;
+  name?: string;
+  description?: string;
+  severity: RuleSeverity;
+  select: RuleSelector;
+  // Text of the findings instead of the generated one
+  message?: string;
+}
+
+// Every selected entity has to satisfy `assert` (query DSL), e.g. `FireRating EXISTS`
+export interface PropertyRule extends RuleBase {
+  kind: 'property';
+  assert: string;
+}
+
+// The number of selected entities has to lie within min/max
+export interface CountRule extends RuleBase {
+  kind: 'count';
+  min?: number;
+  max?: number;
+}
+
+// The spatial container (storey, space, ...) of every selected entity has to match `target`
+export interface RelationshipRule extends RuleBase {
+  kind: 'relationship';
+  relation: 'containedIn';
+  target: RuleSelector;
+}
+
+// Selected entities must not overlap each other (or the `target` entities), compared by bounding box
+export interface GeometricRule extends RuleBase {
+  kind: 'geometric';
+  check: 'noOverlap';
+  target?: RuleSelector;
+  // Only compare entities with the same spatial container, e.g. walls of one storey
+  sameContainer?: boolean;
+  // Penetration in model units every axis has to exceed to count as overlap (default 0.01)
+  tolerance?: number;
+  // Overlap volume as share of the smaller box, to ignore wall joints at corners (default 0)
+  minOverlapRatio?: number;
+}
+
+export type ModelRule = PropertyRule | CountRule | RelationshipRule | GeometricRule;
+
+export type ModelRuleKind = ModelRule['kind'];
+
+export interface RuleSet {
+  name: string;
+  description?: string;
+  rules: ModelRule[];
+}
+
+export interface RuleFinding {
+  ruleId: string;
+  ruleName: string;
+  severity: RuleSeverity;
+  message: string;
+  // Entities the finding is about: one entity, an overlapping pair, or none for a missing count
+  entityIds: EntityKey[];
+}
+
+export interface RuleResult {
+  ruleId: string;
+  name: string;
+  kind: ModelRuleKind;
+  severity: RuleSeverity;
+  checkedCount: number;
+  findingCount: number;
+  // Selected entities the rule could not check, e.g. without bounding box
+  skippedCount: number;
+  error?: string;
+}
+
+export interface RuleCheckReport {
+  ruleSet: string;
+  checkedAt: string;
+  entityCount: number;
+  durationMs: number;
+  rules: RuleResult[];
+  // Sorted by severity: errors first
+  findings: RuleFinding[];
+  severityCounts: Record<RuleSeverity, number>;
+}
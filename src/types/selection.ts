@@ -66,6 +66,7 @@ export interface ScoringFactors {
   spatialRelevance: number; // 0-1: Spatial proximity
   recency: number;        // 0-1: How recent the chunk is
   typeAlignment: number;  // 0-1: Chunk type matches query intent
+  vectorSimilarity?: number; // 0-1: Embedding similarity of query and chunk; unset without vector index
 }
 
 export interface ScoringWeights {
@@ -74,6 +75,17 @@ export interface ScoringWeights {
   spatialRelevance: number;
   recency: number;
   typeAlignment: number;
+  // Semantic share of the hybrid ranking; ignored for chunks without vector
+  vectorSimilarity: number;
+}
+
+// Chunk embeddings of a project, stored as indices/vectors.json next to the other indices
+export interface StoredVectorIndex {
+  provider: string;
+  model: string;
+  dimensions: number;
+  vectors: Record<string, number[]>; // chunkId -> unit vector
+  created: string;
 }
 
 export interface RankedChunk {
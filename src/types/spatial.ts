@@ -39,6 +39,7 @@ export type BBox = BoundingBox; // Alias for backwards compatibility
 export interface OctreeOptions {
   maxDepth?: number;
   maxObjectsPerNode?: number;
+  maxEntitiesPerLeaf?: number;
   minNodeSize?: number;
 }
 
@@ -1,5 +1,7 @@
 // Tool-spezifische TypeScript Types
 
+import type { EntityKey } from './bim';
+
 // Tool Definition Types
 export interface Tool {
   name: string;
@@ -83,35 +85,11 @@ export interface ClaudeToolCall {
   duration?: number;
 }
 
-// Tool Decision Schema for improved tool chain executor
-export interface ToolDecisionSchema {
-  thought?: string;
-  toolCalls?: Array<{
-    tool: string;
-    parameters: Record<string, any>;
-  }>;
-  finalAnswer?: string;
-}
-
-// Tool Decision Result
-export interface ToolDecisionResult {
-  thought?: string;
-  toolCalls?: Array<{
-    tool: string;
-    parameters: Record<string, any>;
-  }>;
-  finalAnswer?: string;
-  error?: {
-    message: string;
-    code: string;
-    details?: any;
-    retry?: boolean;
-  };
-  warning?: string;
-}
-
 // Entity Chunk Data for selection context tool
 export interface EntityChunkData {
+  // Model-scoped key "modelId:localId"
+  key: EntityKey;
+  modelId?: string;
   localId: number;
   expressId?: number;
   globalId?: string;
@@ -128,20 +106,4 @@ export interface EntityChunkData {
   category?: string;
   name?: string;
   description?: string;
-}
-
-// Spatial Geometry Parameters
-export interface SpatialGeometryParams {
-  operation: 'bounds' | 'volume' | 'area' | 'spatial_search' | 'geometry_info';
-  entityIds?: number[];
-  region?: {
-    minX?: number;
-    maxX?: number;
-    minY?: number;
-    maxY?: number;
-    minZ?: number;
-    maxZ?: number;
-  };
-  nearPoint?: { x: number; y: number; z: number };
-  radius?: number;
 } 
\ No newline at end of file
@@ -0,0 +1,41 @@
+// Model upload types (features/upload)
+
+export type UploadFormat = 'ifc' | 'frag';
+
+// cache: looking up an earlier conversion of the same IFC in the fragment cache
+// loading: the viewer loads the model from file:uploaded
+export type UploadPhase = 'validating' | 'reading' | 'cache' | 'converting' | 'saving' | 'loading' | 'done';
+
+export interface UploadValidationResult {
+  valid: boolean;
+  error?: string;
+  format?: UploadFormat;
+  // FILE_SCHEMA of an IFC, e.g. IFC2X3, IFC4, IFC4X3_ADD2
+  schema?: string;
+}
+
+// State of one upload as shown in the progress panel
+export interface UploadStatus {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  format: UploadFormat;
+  phase: UploadPhase;
+  // 0..1 within the whole upload
+  progress: number;
+  startedAt: number;
+  // Set when the upload failed; failed uploads stay listed until dismissed
+  error?: string;
+}
+
+// Messages between the main thread and the IFC conversion worker
+export type IfcWorkerRequest = {
+  type: 'convert';
+  bytes: ArrayBuffer;
+  wasmPath: string;
+};
+
+export type IfcWorkerResponse =
+  | { type: 'progress'; progress: number; process: string }
+  | { type: 'done'; fragBytes: ArrayBuffer }
+  | { type: 'error'; message: string };